@@ -7,12 +7,19 @@
 let currentStory = null;       // Armazena a história atual
 let currentScenes = [];        // Armazena as cenas da história atual
 let currentSceneIndex = 0;     // Índice da cena sendo visualizada
+let sceneHistory = [];         // Índices das cenas visitadas, para voltar pelo caminho escolhido
+let currentUser = null;        // Usuário da sessão atual
+
+// Intervalo entre consultas ao progresso dos jobs de imagem (ms)
+const JOB_POLL_INTERVAL = 1000;
 
 /**
  * Referências para os elementos do DOM
  * Divididos por seções, botões, inputs e displays
  */
 // Elementos DOM - Seções principais
+const authSection = document.getElementById('auth-section');
+const userBar = document.getElementById('user-bar');
 const createStorySection = document.getElementById('create-story-section');
 const storyProposalSection = document.getElementById('story-proposal-section');
 const styleInputSection = document.getElementById('style-input-section');
@@ -31,22 +38,49 @@ const editDescriptionBtn = document.getElementById('edit-description-btn');
 const editNarrationBtn = document.getElementById('edit-narration-btn');
 const editDialogueBtn = document.getElementById('edit-dialogue-btn');
 const regenerateImageBtn = document.getElementById('regenerate-image-btn');
+const retryFailedImagesBtn = document.getElementById('retry-failed-images-btn');
+const rewriteSceneBtn = document.getElementById('rewrite-scene-btn');
 const finishStoryBtn = document.getElementById('finish-story-btn');
 const downloadStoryBtn = document.getElementById('download-story-btn');
+const downloadEpubBtn = document.getElementById('download-epub-btn');
+const downloadTweeBtn = document.getElementById('download-twee-btn');
+const translateStoryBtn = document.getElementById('translate-story-btn');
 const newStoryBtn = document.getElementById('new-story-btn');
+const loginBtn = document.getElementById('login-btn');
+const registerBtn = document.getElementById('register-btn');
+const logoutBtn = document.getElementById('logout-btn');
+const shareStoryBtn = document.getElementById('share-story-btn');
 
 // Elementos DOM - Inputs e displays para interação
 const briefingInput = document.getElementById('briefing');
 const styleInput = document.getElementById('style');
+const stylePresetPreview = document.getElementById('style-preset-preview');
 const numScenesInput = document.getElementById('num-scenes');
+const decisionPointsInput = document.getElementById('decision-points');
+const storyLanguageSelect = document.getElementById('story-language');
+const translateLanguageSelect = document.getElementById('translate-language');
 const storyProposalText = document.getElementById('story-proposal');
+const proposalModerationNotice = document.getElementById('proposal-moderation');
+const sceneModerationNotice = document.getElementById('scene-moderation');
 const sceneTitle = document.getElementById('scene-title');
 const sceneImage = document.getElementById('scene-image');
 const sceneDescription = document.getElementById('scene-description');
 const sceneNarration = document.getElementById('scene-narration');
 const sceneDialogue = document.getElementById('scene-dialogue');
 const sceneCounter = document.getElementById('scene-counter');
+const sceneChoices = document.getElementById('scene-choices');
+const sceneStreamSection = document.getElementById('scene-stream');
+const sceneStreamStatus = document.getElementById('scene-stream-status');
+const sceneStreamList = document.getElementById('scene-stream-list');
 const finalStoryContent = document.getElementById('final-story-content');
+const authUsernameInput = document.getElementById('auth-username');
+const authPasswordInput = document.getElementById('auth-password');
+const authError = document.getElementById('auth-error');
+const userNameDisplay = document.getElementById('user-name');
+const shareGroup = document.getElementById('share-group');
+const shareUsernameInput = document.getElementById('share-username');
+const shareRoleSelect = document.getElementById('share-role');
+const shareList = document.getElementById('share-list');
 
 /**
  * Configuração de event listeners para botões da interface
@@ -62,9 +96,197 @@ if (editDescriptionBtn) editDescriptionBtn.addEventListener('click', editDescrip
 if (editNarrationBtn) editNarrationBtn.addEventListener('click', editNarration);
 if (editDialogueBtn) editDialogueBtn.addEventListener('click', editDialogue);
 if (regenerateImageBtn) regenerateImageBtn.addEventListener('click', regenerateImage);
+if (retryFailedImagesBtn) retryFailedImagesBtn.addEventListener('click', retryFailedImages);
+if (rewriteSceneBtn) rewriteSceneBtn.addEventListener('click', openRewriteModal);
 if (finishStoryBtn) finishStoryBtn.addEventListener('click', finishStory);
 if (downloadStoryBtn) downloadStoryBtn.addEventListener('click', downloadStory);
+if (downloadEpubBtn) downloadEpubBtn.addEventListener('click', downloadEpub);
+if (downloadTweeBtn) downloadTweeBtn.addEventListener('click', downloadTwee);
+if (translateStoryBtn) translateStoryBtn.addEventListener('click', translateStory);
 if (newStoryBtn) newStoryBtn.addEventListener('click', resetApp);
+if (loginBtn) loginBtn.addEventListener('click', () => authenticate('login'));
+if (registerBtn) registerBtn.addEventListener('click', () => authenticate('register'));
+if (logoutBtn) logoutBtn.addEventListener('click', logout);
+if (shareStoryBtn) shareStoryBtn.addEventListener('click', shareStory);
+
+// Idiomas suportados, carregados da API
+let supportedLanguages = [];
+loadLanguages();
+
+// Presets de estilo visual, carregados da API depois do login
+let stylePresets = [];
+checkSession();
+if (styleInput) styleInput.addEventListener('change', showStylePresetPreview);
+
+/**
+ * Verifica se já existe uma sessão e exibe a tela de criação ou a de login
+ */
+async function checkSession() {
+  try {
+    const response = await fetch('/api/auth/me');
+    if (response.ok) {
+      showSignedIn(await response.json());
+      return;
+    }
+  } catch (error) {
+    console.error('Erro ao verificar a sessão:', error);
+  }
+  showSignedOut();
+}
+
+/**
+ * Entra com uma conta existente ou cadastra uma nova conta
+ * O servidor grava o token da sessão em um cookie, enviado nas requisições seguintes
+ * 
+ * @param {string} action - 'login' ou 'register'
+ */
+async function authenticate(action) {
+  const username = authUsernameInput.value.trim();
+  const password = authPasswordInput.value;
+  
+  if (!username || !password) {
+    showAuthError('Informe o usuário e a senha.');
+    return;
+  }
+  
+  showLoading(true);
+  
+  try {
+    const response = await fetch(`/api/auth/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+    
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      showAuthError(result.error || 'Falha ao entrar');
+      return;
+    }
+    
+    authPasswordInput.value = '';
+    showSignedIn(result.user);
+  } catch (error) {
+    showAuthError('Erro ao entrar: ' + (error.message || 'Erro desconhecido'));
+  } finally {
+    showLoading(false);
+  }
+}
+
+/**
+ * Encerra a sessão e volta à tela de login
+ */
+async function logout() {
+  try {
+    await fetch('/api/auth/logout', { method: 'POST' });
+  } catch (error) {
+    console.error('Erro ao encerrar a sessão:', error);
+  }
+  resetApp();
+  showSignedOut();
+}
+
+/**
+ * Exibe a tela de criação para o usuário autenticado
+ * 
+ * @param {Object} user - Usuário da sessão
+ */
+function showSignedIn(user) {
+  currentUser = user;
+  userNameDisplay.textContent = user.username;
+  userBar.classList.remove('hidden');
+  authSection.classList.add('hidden');
+  authError.classList.add('hidden');
+  createStorySection.classList.remove('hidden');
+  loadStylePresets();
+}
+
+/**
+ * Exibe a tela de login e esconde as demais seções
+ */
+function showSignedOut() {
+  currentUser = null;
+  userBar.classList.add('hidden');
+  createStorySection.classList.add('hidden');
+  authSection.classList.remove('hidden');
+}
+
+/**
+ * Exibe uma mensagem de erro na tela de login
+ * 
+ * @param {string} message - Mensagem de erro
+ */
+function showAuthError(message) {
+  authError.textContent = message;
+  authError.classList.remove('hidden');
+}
+
+/**
+ * Carrega os idiomas suportados e preenche as listas de idioma da criação e da tradução
+ */
+async function loadLanguages() {
+  try {
+    const response = await fetch('/api/languages');
+    if (!response.ok) return;
+    
+    supportedLanguages = await response.json();
+    const options = supportedLanguages
+      .map(language => `<option value="${language.code}">${language.name}</option>`)
+      .join('');
+    
+    if (storyLanguageSelect) {
+      storyLanguageSelect.innerHTML = options;
+      storyLanguageSelect.value = 'pt-BR';
+    }
+    if (translateLanguageSelect) translateLanguageSelect.innerHTML = options;
+  } catch (error) {
+    console.error('Erro ao carregar idiomas:', error);
+  }
+}
+
+/**
+ * Carrega os presets de estilo visual e preenche a lista de estilos
+ */
+async function loadStylePresets() {
+  try {
+    const response = await fetch('/api/style-presets');
+    if (!response.ok) return;
+    
+    stylePresets = await response.json();
+    styleInput.innerHTML = '<option value="">Selecione um estilo...</option>';
+    stylePresets.forEach(preset => styleInput.appendChild(new Option(preset.name, preset.id)));
+  } catch (error) {
+    console.error('Erro ao carregar presets de estilo:', error);
+  }
+}
+
+/**
+ * Exibe a prévia e a descrição do preset de estilo selecionado, quando houver
+ */
+function showStylePresetPreview() {
+  const preset = stylePresets.find(item => item.id === styleInput.value);
+  if (!stylePresetPreview) return;
+  
+  if (!preset || (!preset.previewImageUrl && !preset.description)) {
+    stylePresetPreview.classList.add('hidden');
+    stylePresetPreview.innerHTML = '';
+    return;
+  }
+  
+  stylePresetPreview.innerHTML = '';
+  if (preset.previewImageUrl) {
+    const image = document.createElement('img');
+    image.src = preset.previewImageUrl;
+    image.alt = `Prévia do estilo ${preset.name}`;
+    stylePresetPreview.appendChild(image);
+  }
+  if (preset.description) {
+    const description = document.createElement('p');
+    description.textContent = preset.description;
+    stylePresetPreview.appendChild(description);
+  }
+  stylePresetPreview.classList.remove('hidden');
+}
 
 /**
  * Cria uma nova história baseada no briefing fornecido pelo usuário
@@ -84,17 +306,19 @@ async function createStory() {
     const response = await fetch('/api/stories', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ briefing })
+      body: JSON.stringify({ briefing, language: storyLanguageSelect ? storyLanguageSelect.value : undefined })
     });
 
     if (!response.ok) {
-      throw new Error(`Erro HTTP: ${response.status}`);
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Erro HTTP: ${response.status}`);
     }
 
     const data = await response.json();
     currentStory = data;
 
     storyProposalText.textContent = currentStory.proposal;
+    showModerationNotice(proposalModerationNotice, currentStory.moderation);
 
     createStorySection.classList.add('hidden');
     storyProposalSection.classList.remove('hidden');
@@ -108,7 +332,7 @@ async function createStory() {
 
 /**
  * Gera as cenas da história com base no número especificado
- * Valida o input e faz requisição à API para gerar o conteúdo das cenas
+ * Recebe as cenas em streaming (Server-Sent Events) e as exibe à medida que são geradas
  */
 async function generateScenes() {
   const numScenes = parseInt(numScenesInput.value);
@@ -118,21 +342,53 @@ async function generateScenes() {
     alert('Por favor, insira um número de cenas entre 3 e 15.');
     return;
   }
+  
+  // Validar pontos de decisão (cada um precisa de pelo menos duas cenas de destino)
+  const decisionPoints = decisionPointsInput ? parseInt(decisionPointsInput.value) || 0 : 0;
+  if (decisionPoints < 0 || decisionPoints > Math.floor((numScenes - 1) / 2)) {
+    alert(`Para ${numScenes} cenas, use entre 0 e ${Math.floor((numScenes - 1) / 2)} pontos de decisão.`);
+    return;
+  }
+  
+  if (!(await confirmSceneCost(numScenes, decisionPoints))) return;
+
+  // Prepara a área de pré-visualização das cenas
+  generateScenesBtn.disabled = true;
+  sceneStreamList.innerHTML = '';
+  sceneStreamSection.classList.remove('hidden');
+  setStreamStatus('Gerando cenas...');
+
+  const source = postEventStream(`/api/stories/${currentStory.id}/scenes/stream`, { numScenes, decisionPoints });
+  let receivedChars = 0;
+  let finished = false;
+
+  // Encerra a conexão e libera o botão de geração
+  const finish = () => {
+    finished = true;
+    source.close();
+    generateScenesBtn.disabled = false;
+  };
+
+  source.addEventListener('token', e => {
+    receivedChars += JSON.parse(e.data).text.length;
+    setStreamStatus(`Gerando cenas... (${receivedChars} caracteres recebidos)`);
+  });
 
-  showLoading(true);
-
-  try {
-    const response = await fetch(`/api/stories/${currentStory.id}/scenes`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ numScenes: numScenes })
-    });
+  source.addEventListener('scene', e => {
+    const { index, scene } = JSON.parse(e.data);
+    renderStreamedScene(index, scene);
+  });
 
-    if (!response.ok) {
-      throw new Error(`Erro HTTP: ${response.status}`);
-    }
+  source.addEventListener('retry', e => {
+    const { attempt } = JSON.parse(e.data);
+    // A resposta anterior era inválida: descarta a pré-visualização e aguarda a nova tentativa
+    sceneStreamList.innerHTML = '';
+    receivedChars = 0;
+    setStreamStatus(`Corrigindo a resposta da IA (tentativa ${attempt})...`);
+  });
 
-    const data = await response.json();
+  source.addEventListener('scenes', e => {
+    const data = JSON.parse(e.data);
     
     // Verificar se o número de cenas recebidas corresponde ao solicitado
     if (data.scenes.length !== numScenes) {
@@ -140,17 +396,180 @@ async function generateScenes() {
     }
     
     currentScenes = data.scenes;
-    currentSceneIndex = 0;
+    currentStory.startSceneId = data.startSceneId;
+    startAtFirstScene();
+    
+    if (data.validation && !data.validation.valid) {
+      console.warn('Problemas no grafo da história:', data.validation.issues);
+    }
+    setStreamStatus('Cenas salvas.');
+  });
+
+  source.addEventListener('image', e => {
+    const { index, imageUrl, status, error } = JSON.parse(e.data);
+    if (status !== 'done') {
+      if (currentScenes[index]) Object.assign(currentScenes[index], { imageStatus: 'failed', imageError: error });
+      setStreamStatus(`Falha na imagem da cena ${index + 1}: ${error || 'erro desconhecido'}`);
+      return;
+    }
+    if (currentScenes[index]) Object.assign(currentScenes[index], { imageUrl, imageStatus: 'ready' });
+    setStreamStatus(`Imagem da cena ${index + 1} de ${currentScenes.length} concluída.`);
+  });
+
+  source.addEventListener('summary', () => {
+    finish();
+    sceneStreamSection.classList.add('hidden');
 
     // Avançar para a seção de estilo visual
     storyProposalSection.classList.add('hidden');
     styleInputSection.classList.remove('hidden');
+  });
+
+  source.addEventListener('failure', e => {
+    finish();
+    const { error } = JSON.parse(e.data);
+    setStreamStatus('Falha ao gerar cenas.');
+    alert('Erro ao gerar cenas: ' + (error || 'Erro desconhecido'));
+  });
+
+  // Erros de conexão (o servidor encerra a conexão normalmente após summary ou failure)
+  source.onerror = () => {
+    if (finished) return;
+    finish();
+    setStreamStatus('Conexão perdida.');
+    alert('Erro ao gerar cenas: conexão com o servidor perdida');
+  };
+}
+
+/**
+ * Envia um POST e lê a resposta como um stream de eventos (Server-Sent Events)
+ * O EventSource do navegador só faz requisições GET; o objeto retornado tem a parte da sua interface usada aqui
+ * Erros respondidos antes do stream (validação, acesso, orçamento) são entregues como um evento failure
+ * 
+ * @param {string} url - URL do stream
+ * @param {Object} body - Corpo JSON da requisição
+ * @returns {Object} Objeto com addEventListener, onerror e close
+ */
+function postEventStream(url, body) {
+  const controller = new AbortController();
+  const listeners = {};
+  const stream = {
+    onerror: null,
+    addEventListener(event, listener) {
+      listeners[event] = listener;
+    },
+    close() {
+      controller.abort();
+    }
+  };
+  
+  // Entrega um evento ("event: nome" seguido de linhas "data: ...") ao ouvinte registrado
+  const dispatch = block => {
+    let event = 'message';
+    const data = [];
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    });
+    if (data.length > 0 && listeners[event]) listeners[event]({ data: data.join('\n') });
+  };
+  
+  (async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      dispatch(`event: failure\ndata: ${JSON.stringify({ ...error, error: error.error || `Erro ${response.status}` })}`);
+      return;
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      
+      buffer += decoder.decode(value, { stream: true });
+      let end;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        dispatch(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+      }
+    }
+    
+    // Como no EventSource, o fim da conexão é informado em onerror
+    if (stream.onerror) stream.onerror();
+  })().catch(error => {
+    if (error.name !== 'AbortError' && stream.onerror) stream.onerror(error);
+  });
+  
+  return stream;
+}
+
+/**
+ * Mostra o custo estimado da geração de cenas e pede confirmação quando ela tem custo
+ * Sem estimativa disponível, a geração segue normalmente
+ * 
+ * @param {number} numScenes - Número de cenas
+ * @param {number} decisionPoints - Número de pontos de decisão
+ * @returns {Promise<boolean>} true se a geração deve continuar
+ */
+async function confirmSceneCost(numScenes, decisionPoints) {
+  try {
+    const response = await fetch(`/api/stories/${currentStory.id}/scenes/estimate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ numScenes, decisionPoints })
+    });
+    if (!response.ok) return true;
+    
+    const estimate = await response.json();
+    if (!estimate.withinBudget) {
+      return confirm(`O custo estimado (US$ ${estimate.totalUsd.toFixed(2)}) ultrapassa o orçamento restante. A geração pode ser interrompida. Continuar?`);
+    }
+    if (estimate.totalUsd > 0) {
+      return confirm(`Custo estimado: US$ ${estimate.totalUsd.toFixed(2)} (até US$ ${estimate.maxTotalUsd.toFixed(2)} se a IA precisar corrigir as cenas). Continuar?`);
+    }
   } catch (error) {
-    alert('Erro ao gerar cenas: ' + (error.message || 'Erro desconhecido'));
-    console.error('Erro completo:', error);
-  } finally {
-    showLoading(false);
+    console.error('Erro ao estimar custo das cenas:', error);
   }
+  return true;
+}
+
+/**
+ * Exibe uma cena recebida durante a geração em streaming
+ * 
+ * @param {number} index - Posição da cena na história
+ * @param {Object} scene - Dados da cena (título, narração)
+ */
+function renderStreamedScene(index, scene) {
+  const item = document.createElement('div');
+  item.className = 'streamed-scene';
+
+  const title = document.createElement('h4');
+  title.textContent = `${index + 1}. ${scene.title}`;
+  item.appendChild(title);
+
+  const narration = document.createElement('p');
+  narration.textContent = scene.narration;
+  item.appendChild(narration);
+
+  sceneStreamList.appendChild(item);
+}
+
+/**
+ * Atualiza o texto de progresso da geração em streaming
+ * 
+ * @param {string} text - Mensagem de progresso
+ */
+function setStreamStatus(text) {
+  if (sceneStreamStatus) sceneStreamStatus.textContent = text;
 }
 
 /**
@@ -158,9 +577,9 @@ async function generateScenes() {
  * Fluxo completo de seleção de estilo visual e geração de imagens
  */
 async function handleStyleAndSamples() {
-  const style = styleInput.value.trim();
-  if (!style) {
-    alert('Digite um estilo visual válido');
+  const stylePresetId = styleInput.value;
+  if (!stylePresetId) {
+    alert('Selecione um estilo visual');
     return;
   }
 
@@ -171,7 +590,7 @@ async function handleStyleAndSamples() {
     const samplesResponse = await fetch(`/api/stories/${currentStory.id}/visual-samples`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ style })
+      body: JSON.stringify({ stylePresetId })
     });
 
     if (!samplesResponse.ok) {
@@ -189,9 +608,9 @@ async function handleStyleAndSamples() {
     const preloadedSamples = await Promise.all(
       visualSamples.map(sample => {
         return new Promise((resolve) => {
-          if (!sample.imageUrl || typeof sample.imageUrl !== 'string' || !sample.imageUrl.startsWith('http')) {
+          if (!isGeneratedImage(sample.imageUrl)) {
             // Se não houver URL válida, definimos um placeholder
-            sample.imageUrl = '/images/placeholder.jpg';
+            sample.imageUrl = '/images/placeholder-image.jpg';
             resolve(sample);
             return;
           }
@@ -204,7 +623,7 @@ async function handleStyleAndSamples() {
           
           img.onerror = () => {
             console.warn(`Falha ao carregar imagem: ${sample.imageUrl}`);
-            sample.imageUrl = '/images/placeholder.jpg';
+            sample.imageUrl = '/images/placeholder-image.jpg';
             resolve(sample);
           };
           
@@ -239,38 +658,22 @@ async function handleStyleAndSamples() {
       throw new Error(`Erro HTTP: ${selectResponse.status}`);
     }
 
-    // Agora, vamos gerar as imagens para todas as cenas
-    let imagesGenerated = 0;
-    let errors = 0;
+    // Agora, enfileiramos as imagens de todas as cenas, geradas em segundo plano no servidor
+    const imagesResponse = await fetch(`/api/stories/${currentStory.id}/images`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' }
+    });
 
-    // Função para delay entre requisições
-    const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+    if (!imagesResponse.ok) {
+      throw new Error(`Erro HTTP: ${imagesResponse.status}`);
+    }
 
-    // Geramos imagens para cada cena
-    for (let i = 0; i < currentScenes.length; i++) {
-      try {
-        // Adicionamos um pequeno delay entre requisições para evitar sobrecarga da API
-        if (i > 0) await delay(1500); // Aumentamos o delay para dar mais tempo à API
-        
-        const scene = currentScenes[i];
-        const regenerateResponse = await fetch(`/api/scenes/${scene.id}/regenerate-image`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' }
-        });
+    const { jobs } = await imagesResponse.json();
+    const finishedJobs = await waitForJobs(currentStory.id, jobs.map(job => job.id));
+    const failedJobs = finishedJobs.filter(job => job.status !== 'done');
 
-        if (regenerateResponse.ok) {
-          const updatedScene = await regenerateResponse.json();
-          currentScenes[i] = updatedScene;
-          imagesGenerated++;
-        } else {
-          errors++;
-          console.error(`Erro ao gerar imagem para cena ${i + 1}:`, await regenerateResponse.text());
-        }
-      } catch (error) {
-        errors++;
-        console.error(`Erro ao processar imagem para cena ${i + 1}:`, error);
-      }
-    }
+    // Recarregamos as cenas com as imagens gravadas
+    await reloadStoryScenes();
 
     // Atualizamos a visualização das cenas
     updateSceneView();
@@ -280,8 +683,9 @@ async function handleStyleAndSamples() {
     storyViewerSection.classList.remove('hidden');
 
     // Notificamos o usuário sobre o status das imagens
-    if (errors > 0) {
-      alert(`Atenção: ${errors} de ${currentScenes.length} imagens não puderam ser geradas. As cenas sem imagens usarão um placeholder.`);
+    if (failedJobs.length > 0) {
+      const reasons = [...new Set(failedJobs.map(job => job.error).filter(Boolean))];
+      alert(`Atenção: ${failedJobs.length} de ${currentScenes.length} imagens não puderam ser geradas.` + (reasons.length > 0 ? `\nMotivo: ${reasons.join('; ')}` : '') + '\nUse "Gerar imagens que falharam" para tentar novamente.');
     }
   } catch (error) {
     alert('Erro ao processar estilo visual: ' + (error.message || 'Erro desconhecido'));
@@ -291,6 +695,45 @@ async function handleStyleAndSamples() {
   }
 }
 
+/**
+ * Aguarda o término de jobs em segundo plano consultando o progresso da história
+ * 
+ * @param {string} storyId - ID da história dos jobs
+ * @param {string[]} jobIds - IDs dos jobs aguardados
+ * @returns {Promise<Array>} - Jobs terminados (concluídos, com falha ou cancelados)
+ */
+async function waitForJobs(storyId, jobIds) {
+  const finalStatuses = ['done', 'failed', 'cancelled'];
+
+  while (true) {
+    const response = await fetch(`/api/stories/${storyId}/jobs`);
+    if (!response.ok) {
+      throw new Error(`Erro HTTP: ${response.status}`);
+    }
+
+    const { jobs } = await response.json();
+    const watched = jobs.filter(job => jobIds.includes(job.id));
+    if (watched.every(job => finalStatuses.includes(job.status))) {
+      return watched;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL));
+  }
+}
+
+/**
+ * Recarrega as cenas da história atual do servidor, mantendo a cena exibida
+ */
+async function reloadStoryScenes() {
+  const response = await fetch(`/api/stories/${currentStory.id}`);
+  if (!response.ok) {
+    throw new Error(`Erro HTTP: ${response.status}`);
+  }
+
+  const story = await response.json();
+  currentScenes = story.scenes;
+}
+
 /**
  * Exibe um modal para o usuário escolher entre amostras visuais
  * 
@@ -332,7 +775,7 @@ async function showVisualSampleSelector(samples) {
               <div style="
                 width: 200px; 
                 height: 200px; 
-                background-image: url('${s.imageUrl}'); 
+                background-image: url('${escapeHtml(s.imageUrl)}'); 
                 background-size: cover; 
                 background-position: center; 
                 border-radius: 8px;
@@ -396,6 +839,21 @@ async function showVisualSampleSelector(samples) {
   });
 }
 
+/**
+ * Exibe o aviso de conteúdo retido pela moderação, ou o esconde se não houver retenção
+ *
+ * @param {HTMLElement} element - Elemento do aviso
+ * @param {Object} [hold] - Retenção da proposta ou da cena (opcional)
+ */
+function showModerationNotice(element, hold) {
+  if (!element) return;
+
+  element.textContent = hold
+    ? `Conteúdo retido pela moderação (${hold.reason}). Edite o texto ou aguarde a revisão de um administrador.`
+    : '';
+  element.classList.toggle('hidden', !hold);
+}
+
 /**
  * Atualiza a visualização da cena atual com seus dados
  * Define título, imagem, descrição, narração e diálogos da cena
@@ -410,15 +868,15 @@ function updateSceneView() {
   if (sceneTitle) {
     sceneTitle.textContent = scene.title || `Cena ${currentSceneIndex + 1}`;
   }
+
+  showModerationNotice(sceneModerationNotice, scene.moderation);
   
   if (sceneImage) {
-    if (scene.imageUrl && scene.imageUrl.startsWith('http')) {
-      sceneImage.style.backgroundImage = `url(${scene.imageUrl})`;
-      sceneImage.innerHTML = '';
-    } else {
-      sceneImage.style.backgroundImage = 'none';
-      sceneImage.innerHTML = '<div class="image-error">Imagem não disponível</div>';
-    }
+    updateSceneImageView(scene);
+  }
+
+  if (retryFailedImagesBtn) {
+    retryFailedImagesBtn.classList.toggle('hidden', !currentScenes.some(s => s.imageStatus === 'failed'));
   }
   
   if (sceneDescription) {
@@ -437,67 +895,173 @@ function updateSceneView() {
     sceneCounter.textContent = `Cena ${currentSceneIndex + 1} de ${currentScenes.length}`;
   }
   
+  const options = getSceneOptions(scene);
+  const hasChoices = scene.choices && scene.choices.length > 0;
+  
+  if (sceneChoices) {
+    sceneChoices.innerHTML = '';
+    sceneChoices.classList.toggle('hidden', !hasChoices && !scene.isEnding);
+    
+    if (hasChoices) {
+      options.forEach(option => {
+        const button = document.createElement('button');
+        button.className = 'choice-button';
+        button.textContent = option.label;
+        button.addEventListener('click', () => chooseScene(option.targetSceneId));
+        sceneChoices.appendChild(button);
+      });
+    } else if (scene.isEnding) {
+      sceneChoices.innerHTML = '<em>Fim deste caminho.</em>';
+    }
+  }
+  
   if (prevSceneBtn) {
-    prevSceneBtn.disabled = currentSceneIndex === 0;
+    prevSceneBtn.disabled = sceneHistory.length === 0;
   }
   
   if (nextSceneBtn) {
-    nextSceneBtn.disabled = currentSceneIndex === currentScenes.length - 1;
+    // Em cenas com escolhas, o leitor avança pelos botões de escolha
+    nextSceneBtn.disabled = hasChoices || options.length === 0;
   }
 }
 
 /**
- * Navega para a cena anterior se disponível
+ * Calcula as opções de navegação de uma cena
+ * Cenas sem escolhas seguem para a próxima cena na ordem, exceto os finais
+ * 
+ * @param {Object} scene - Cena atual
+ * @returns {Array<{label: string, targetSceneId: string}>} - Opções válidas de navegação
+ */
+function getSceneOptions(scene) {
+  if (scene.choices && scene.choices.length > 0) {
+    return scene.choices.filter(choice => currentScenes.some(s => s.id === choice.targetSceneId));
+  }
+  
+  if (scene.isEnding) return [];
+  
+  const index = currentScenes.indexOf(scene);
+  const next = currentScenes[index + 1];
+  return next ? [{ label: 'Próxima', targetSceneId: next.id }] : [];
+}
+
+/**
+ * Posiciona a visualização na cena inicial da história e limpa o caminho percorrido
+ */
+function startAtFirstScene() {
+  const startIndex = currentStory && currentStory.startSceneId
+    ? currentScenes.findIndex(s => s.id === currentStory.startSceneId)
+    : 0;
+  currentSceneIndex = startIndex === -1 ? 0 : startIndex;
+  sceneHistory = [];
+}
+
+/**
+ * Navega para a cena de destino de uma escolha, registrando o caminho percorrido
+ * 
+ * @param {string} targetSceneId - ID da cena de destino
+ */
+function chooseScene(targetSceneId) {
+  const targetIndex = currentScenes.findIndex(s => s.id === targetSceneId);
+  if (targetIndex === -1) {
+    console.error('Cena de destino não encontrada:', targetSceneId);
+    return;
+  }
+  
+  sceneHistory.push(currentSceneIndex);
+  currentSceneIndex = targetIndex;
+  updateSceneView();
+}
+
+/**
+ * Volta para a cena anterior no caminho percorrido pelo leitor
  */
 function showPreviousScene() {
-  if (currentSceneIndex > 0) {
-    currentSceneIndex--;
+  if (sceneHistory.length > 0) {
+    currentSceneIndex = sceneHistory.pop();
     updateSceneView();
   }
 }
 
 /**
- * Navega para a próxima cena se disponível
+ * Avança para a próxima cena quando a cena atual não oferece escolhas
  */
 function showNextScene() {
-  if (currentSceneIndex < currentScenes.length - 1) {
-    currentSceneIndex++;
-    updateSceneView();
-  }
+  const scene = currentScenes[currentSceneIndex];
+  if (!scene || (scene.choices && scene.choices.length > 0)) return;
+  
+  const [next] = getSceneOptions(scene);
+  if (next) chooseScene(next.targetSceneId);
+}
+
+/**
+ * Verifica se a URL aponta para uma imagem gerada (remota ou gerada localmente como data URL)
+ * 
+ * @param {string} url - URL da imagem
+ * @returns {boolean} - Verdadeiro se a imagem pode ser exibida
+ */
+function isGeneratedImage(url) {
+  return typeof url === 'string' && (url.startsWith('http') || url.startsWith('data:image/') || url.startsWith('/api/assets/'));
 }
 
 /**
  * Formata texto simples para exibição HTML
+ * O texto é escapado, pois pode ter sido escrito por outros usuários da história ou vindo de um arquivo importado
  * 
  * @param {string} text - Texto a ser formatado
- * @returns {string} - HTML formatado com quebras de linha
+ * @returns {string} - HTML escapado, com quebras de linha
  */
 function formatText(text) {
   if (!text || text.trim() === '') {
     return '<em>Não disponível</em>';
   }
-  return text.split('\n').join('<br>');
+  return escapeHtml(text).split('\n').join('<br>');
 }
 
 /**
- * Formata diálogos para exibição destacando personagens
+ * Formata o diálogo para exibição, com uma fala por linha e o personagem em destaque
  * 
- * @param {string} dialogue - Texto de diálogo a ser formatado
- * @returns {string} - HTML formatado com personagens destacados
+ * @param {Object[]} dialogue - Falas da cena, com speaker, text e direction (opcional)
+ * @returns {string} - HTML com as falas
  */
 function formatDialogue(dialogue) {
-  if (!dialogue || dialogue.trim() === '') {
+  if (!dialogue || dialogue.length === 0) {
     return '<em>Não há diálogos nesta cena.</em>';
   }
   
-  return dialogue.split('\n').map(line => {
-    const match = line.match(/^([^:]+):(.+)$/);
-    if (match) {
-      const [_, character, speech] = match;
-      return `<strong>${character}:</strong> ${speech}`;
-    }
-    return line;
-  }).join('<br>');
+  return dialogue.map(line => {
+    const speaker = line.speaker ? `<strong class="dialogue-speaker">${escapeHtml(line.speaker)}:</strong> ` : '';
+    const direction = line.direction ? `<em class="dialogue-direction">(${escapeHtml(line.direction)})</em> ` : '';
+    return `<p class="dialogue-line">${speaker}${direction}${escapeHtml(line.text)}</p>`;
+  }).join('');
+}
+
+/**
+ * Converte o diálogo em texto para edição, uma fala por linha
+ * O servidor interpreta o texto no mesmo formato: "Personagem (direção): fala"
+ * 
+ * @param {Object[]} dialogue - Falas da cena
+ * @returns {string} - Diálogo em texto
+ */
+function dialogueToText(dialogue) {
+  return (dialogue || []).map(line => {
+    const direction = line.direction ? `(${line.direction})` : '';
+    if (!line.speaker) return [direction, line.text].filter(Boolean).join(' ');
+    return `${[line.speaker, direction].filter(Boolean).join(' ')}: ${line.text}`;
+  }).join('\n');
+}
+
+/**
+ * Escapa os caracteres especiais de HTML de um texto
+ * 
+ * @param {string} text - Texto a ser escapado
+ * @returns {string} - Texto seguro para inserir no HTML
+ */
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
 /**
@@ -506,16 +1070,21 @@ function formatDialogue(dialogue) {
  * @param {string} fieldName - Nome do campo sendo editado
  * @param {string} content - Conteúdo atual do campo
  * @param {Function} saveCallback - Função chamada ao salvar com o novo conteúdo
+ * @param {Object} [history] - Histórico do campo, para restaurar a versão anterior (opcional)
+ * @param {string} history.revisionsUrl - URL que lista as revisões do registro
+ * @param {string} history.field - Nome do campo no registro
+ * @param {Function} history.onRestore - Função chamada com o registro restaurado
  */
-function openEditModal(fieldName, content, saveCallback) {
+function openEditModal(fieldName, content, saveCallback, history) {
   const modal = document.createElement('div');
   modal.className = 'edit-modal';
   
   modal.innerHTML = `
     <div class="edit-modal-content">
       <h3>Editar ${fieldName}</h3>
-      <textarea id="edit-field-content" rows="10">${content || ''}</textarea>
+      <textarea id="edit-field-content" rows="10">${escapeHtml(content || '')}</textarea>
       <div class="edit-modal-buttons">
+        ${history ? '<button id="restore-edit-btn">Restaurar versão anterior</button>' : ''}
         <button id="cancel-edit-btn">Cancelar</button>
         <button id="save-edit-btn">Salvar</button>
       </div>
@@ -534,6 +1103,16 @@ function openEditModal(fieldName, content, saveCallback) {
     document.body.removeChild(modal);
   });
   
+  if (history) {
+    document.getElementById('restore-edit-btn').addEventListener('click', async () => {
+      const restored = await restorePreviousVersion(history.revisionsUrl, history.field);
+      if (restored) {
+        history.onRestore(restored);
+        document.body.removeChild(modal);
+      }
+    });
+  }
+  
   modal.addEventListener('click', (e) => {
     if (e.target === modal) {
       document.body.removeChild(modal);
@@ -541,11 +1120,82 @@ function openEditModal(fieldName, content, saveCallback) {
   });
 }
 
+/**
+ * Restaura a versão anterior de um campo, a partir da revisão mais recente que o alterou
+ * 
+ * @param {string} revisionsUrl - URL que lista as revisões do registro
+ * @param {string} field - Nome do campo a restaurar
+ * @returns {Promise<Object|null>} O registro restaurado ou null se não houver versão anterior
+ */
+async function restorePreviousVersion(revisionsUrl, field) {
+  showLoading(true);
+  
+  try {
+    const response = await fetch(revisionsUrl);
+    if (!response.ok) {
+      throw new Error('Falha ao carregar o histórico');
+    }
+    
+    const revisions = await response.json();
+    const revision = revisions.find(r => r.changedFields.includes(field));
+    if (!revision) {
+      alert('Não há versão anterior deste campo.');
+      return null;
+    }
+    
+    const restoreResponse = await fetch(`/api/revisions/${revision.id}/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields: [field] })
+    });
+    if (!restoreResponse.ok) {
+      throw new Error('Falha ao restaurar versão anterior');
+    }
+    
+    return await restoreResponse.json();
+  } catch (error) {
+    alert('Erro ao restaurar versão anterior: ' + (error.message || 'Erro desconhecido'));
+    return null;
+  } finally {
+    showLoading(false);
+  }
+}
+
+/**
+ * Monta as opções de histórico de um campo da cena atual
+ * 
+ * @param {string} field - Nome do campo na cena
+ * @returns {Object} Opções de histórico para o modal de edição
+ */
+function getSceneFieldHistory(field) {
+  const scene = currentScenes[currentSceneIndex];
+  
+  return {
+    revisionsUrl: `/api/scenes/${scene.id}/revisions`,
+    field,
+    onRestore: restoredScene => {
+      const index = currentScenes.findIndex(s => s.id === restoredScene.id);
+      if (index !== -1) {
+        currentScenes[index] = restoredScene;
+        updateSceneView();
+      }
+    }
+  };
+}
+
 /**
  * Inicia a edição da proposta de história
  */
 function editStory() {
-  openEditModal('proposta de história', currentStory.proposal, updateStory);
+  openEditModal('proposta de história', currentStory.proposal, updateStory, {
+    revisionsUrl: `/api/stories/${currentStory.id}/revisions`,
+    field: 'proposal',
+    onRestore: restoredStory => {
+      currentStory = restoredStory;
+      storyProposalText.textContent = currentStory.proposal;
+      showModerationNotice(proposalModerationNotice, currentStory.moderation);
+    }
+  });
 }
 
 /**
@@ -553,7 +1203,7 @@ function editStory() {
  */
 function editDescription() {
   const scene = currentScenes[currentSceneIndex];
-  openEditModal('descrição da cena', scene.description, updateDescription);
+  openEditModal('descrição da cena', scene.description, updateDescription, getSceneFieldHistory('description'));
 }
 
 /**
@@ -561,7 +1211,7 @@ function editDescription() {
  */
 function editNarration() {
   const scene = currentScenes[currentSceneIndex];
-  openEditModal('narração', scene.narration, updateNarration);
+  openEditModal('narração', scene.narration, updateNarration, getSceneFieldHistory('narration'));
 }
 
 /**
@@ -569,7 +1219,201 @@ function editNarration() {
  */
 function editDialogue() {
   const scene = currentScenes[currentSceneIndex];
-  openEditModal('diálogo', scene.dialogue, updateDialogue);
+  openEditModal('diálogo', dialogueToText(scene.dialogue), updateDialogue, getSceneFieldHistory('dialogue'));
+}
+
+// Nomes exibidos dos campos que podem ser reescritos pela IA
+const REWRITE_FIELD_LABELS = {
+  title: 'Título',
+  description: 'Descrição',
+  narration: 'Narração',
+  dialogue: 'Diálogo'
+};
+
+/**
+ * Abre o modal de reescrita da cena atual com IA
+ * O usuário informa a instrução e os campos, e a proposta é exibida para ser aceita ou rejeitada
+ */
+function openRewriteModal() {
+  if (!currentScenes || currentScenes.length === 0) return;
+  
+  const scene = currentScenes[currentSceneIndex];
+  const modal = document.createElement('div');
+  modal.className = 'edit-modal';
+  
+  const fieldOptions = Object.keys(REWRITE_FIELD_LABELS).map(field => `
+    <label class="rewrite-field">
+      <input type="checkbox" value="${field}" ${field === 'title' ? '' : 'checked'}>
+      ${REWRITE_FIELD_LABELS[field]}
+    </label>
+  `).join('');
+  
+  modal.innerHTML = `
+    <div class="edit-modal-content">
+      <h3>Reescrever cena com IA</h3>
+      <input type="text" id="rewrite-instruction" placeholder="Ex: deixe mais tensa, diálogo mais curto, acrescente humor">
+      <div class="rewrite-fields">${fieldOptions}</div>
+      <div id="rewrite-proposal"></div>
+      <div class="edit-modal-buttons">
+        <button id="cancel-rewrite-btn">Cancelar</button>
+        <button id="request-rewrite-btn">Gerar proposta</button>
+        <button id="accept-rewrite-btn" class="hidden">Aceitar</button>
+      </div>
+    </div>
+  `;
+  
+  document.body.appendChild(modal);
+  
+  const closeModal = () => document.body.removeChild(modal);
+  const proposalContainer = modal.querySelector('#rewrite-proposal');
+  const acceptBtn = modal.querySelector('#accept-rewrite-btn');
+  const requestBtn = modal.querySelector('#request-rewrite-btn');
+  let proposal = null;
+  
+  modal.querySelector('#cancel-rewrite-btn').addEventListener('click', closeModal);
+  
+  requestBtn.addEventListener('click', async () => {
+    const instruction = modal.querySelector('#rewrite-instruction').value.trim();
+    const fields = Array.from(modal.querySelectorAll('.rewrite-fields input:checked')).map(input => input.value);
+    
+    if (!instruction) {
+      alert('Descreva como a cena deve ser reescrita.');
+      return;
+    }
+    if (fields.length === 0) {
+      alert('Escolha pelo menos um campo para reescrever.');
+      return;
+    }
+    
+    proposal = await requestSceneRewrite(scene.id, instruction, fields);
+    if (!proposal) return;
+    
+    proposalContainer.innerHTML = proposal.fields.map(field => `
+      <div class="rewrite-comparison">
+        <h4>${REWRITE_FIELD_LABELS[field]}</h4>
+        <div class="rewrite-original">${formatRewriteField(field, proposal.original[field])}</div>
+        <div class="rewrite-proposed">${formatRewriteField(field, proposal.proposed[field])}</div>
+      </div>
+    `).join('');
+    requestBtn.textContent = 'Gerar outra proposta';
+    acceptBtn.classList.remove('hidden');
+  });
+  
+  // Aceitar aplica a proposta pelo mesmo caminho da edição manual, que guarda a versão anterior no histórico
+  acceptBtn.addEventListener('click', () => {
+    if (!proposal) return;
+    updateSceneField(scene.id, proposal.proposed);
+    closeModal();
+  });
+  
+  modal.addEventListener('click', (e) => {
+    if (e.target === modal) {
+      closeModal();
+    }
+  });
+}
+
+/**
+ * Formata um campo da proposta de reescrita para comparação
+ * 
+ * @param {string} field - Nome do campo
+ * @param {string|Object[]} value - Texto do campo ou falas do diálogo
+ * @returns {string} - HTML do campo
+ */
+function formatRewriteField(field, value) {
+  return field === 'dialogue' ? formatDialogue(value) : formatText(value || '');
+}
+
+/**
+ * Pede à API uma proposta de reescrita de uma cena
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {string} instruction - Instrução de reescrita
+ * @param {string[]} fields - Campos a reescrever
+ * @returns {Promise<Object|null>} A proposta ou null em caso de erro
+ */
+async function requestSceneRewrite(sceneId, instruction, fields) {
+  showLoading(true);
+  
+  try {
+    const response = await fetch(`/api/scenes/${sceneId}/rewrite`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ instruction, fields })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Falha ao reescrever cena');
+    }
+    
+    return await response.json();
+  } catch (error) {
+    alert('Erro ao reescrever cena: ' + (error.message || 'Erro desconhecido'));
+    return null;
+  } finally {
+    showLoading(false);
+  }
+}
+
+/**
+ * Exibe a imagem da cena ou, enquanto não houver imagem pronta, o estado da geração
+ * Imagens que falharam mostram o motivo e um botão para tentar novamente
+ * 
+ * @param {Object} scene - Cena exibida
+ */
+function updateSceneImageView(scene) {
+  if (scene.imageStatus === 'ready' && isGeneratedImage(scene.imageUrl)) {
+    sceneImage.style.backgroundImage = `url(${scene.imageUrl})`;
+    sceneImage.innerHTML = '';
+    return;
+  }
+
+  sceneImage.style.backgroundImage = 'none';
+  if (scene.imageStatus === 'failed') {
+    sceneImage.innerHTML = `
+      <div class="image-status image-failed">
+        <strong>A imagem desta cena não pôde ser gerada.</strong>
+        <span>${escapeHtml(scene.imageError || 'Erro desconhecido')}</span>
+        <button class="edit-button retry-image-button">Tentar novamente</button>
+      </div>`;
+    sceneImage.querySelector('.retry-image-button').addEventListener('click', regenerateImage);
+  } else if (scene.imageStatus === 'pending' || scene.imageStatus === 'generating') {
+    sceneImage.innerHTML = `<div class="image-status">${scene.imageStatus === 'pending' ? 'Imagem na fila de geração...' : 'Gerando imagem...'}</div>`;
+  } else {
+    sceneImage.innerHTML = '<div class="image-status">Imagem não disponível</div>';
+  }
+}
+
+/**
+ * Gera novamente, em segundo plano, as imagens que falharam ou que ainda não foram geradas
+ */
+async function retryFailedImages() {
+  if (!currentStory) return;
+  showLoading(true);
+
+  try {
+    const response = await fetch(`/api/stories/${currentStory.id}/images/retry-failed`, { method: 'POST' });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Erro HTTP: ${response.status}`);
+    }
+
+    const { jobs } = await response.json();
+    const finishedJobs = await waitForJobs(currentStory.id, jobs.map(job => job.id));
+    const failed = finishedJobs.filter(job => job.status !== 'done').length;
+
+    await reloadStoryScenes();
+    updateSceneView();
+
+    if (failed > 0) {
+      alert(`Atenção: ${failed} de ${jobs.length} imagens ainda não puderam ser geradas.`);
+    }
+  } catch (error) {
+    alert('Erro ao gerar imagens: ' + (error.message || 'Erro desconhecido'));
+  } finally {
+    showLoading(false);
+  }
 }
 
 /**
@@ -587,13 +1431,24 @@ async function regenerateImage() {
       headers: { 'Content-Type': 'application/json' }
     });
     
-    if (response.ok) {
-      const updatedScene = await response.json();
-      currentScenes[currentSceneIndex] = updatedScene;
-      updateSceneView();
-    } else {
+    if (!response.ok) {
       throw new Error('Falha ao regenerar imagem');
     }
+    
+    // A imagem é gerada em segundo plano; aguardamos o job terminar
+    const { job } = await response.json();
+    const [finishedJob] = await waitForJobs(scene.storyId, [job.id]);
+    
+    // A cena é recarregada também em caso de falha, para exibir o motivo
+    const sceneResponse = await fetch(`/api/scenes/${scene.id}`);
+    if (sceneResponse.ok) {
+      currentScenes[currentSceneIndex] = await sceneResponse.json();
+      updateSceneView();
+    }
+    
+    if (!finishedJob || finishedJob.status !== 'done') {
+      throw new Error(finishedJob && finishedJob.error ? finishedJob.error : 'Falha ao regenerar imagem');
+    }
   } catch (error) {
     alert('Erro ao regenerar imagem: ' + (error.message || 'Erro desconhecido'));
   } finally {
@@ -620,6 +1475,7 @@ async function updateStory(newProposal) {
       const updatedStory = await response.json();
       currentStory = updatedStory;
       storyProposalText.textContent = currentStory.proposal;
+      showModerationNotice(proposalModerationNotice, currentStory.moderation);
     } else {
       throw new Error('Falha ao atualizar história');
     }
@@ -653,7 +1509,7 @@ async function updateNarration(newNarration) {
 /**
  * Atualiza o diálogo da cena atual no servidor
  * 
- * @param {string} newDialogue - Novo diálogo da cena
+ * @param {string} newDialogue - Novo diálogo da cena, uma fala por linha
  */
 async function updateDialogue(newDialogue) {
   const scene = currentScenes[currentSceneIndex];
@@ -760,6 +1616,88 @@ function finishStory() {
   // Mostrar a seção final
   storyViewerSection.classList.add('hidden');
   finalStorySection.classList.remove('hidden');
+  
+  // Apenas o dono pode compartilhar a história
+  const isOwner = currentUser && currentStory.ownerId === currentUser.id;
+  shareGroup.classList.toggle('hidden', !isOwner);
+  if (isOwner) loadStoryShares();
+}
+
+/**
+ * Carrega e exibe os usuários com quem a história atual foi compartilhada
+ */
+async function loadStoryShares() {
+  try {
+    const response = await fetch(`/api/stories/${currentStory.id}/shares`);
+    if (response.ok) renderStoryShares(await response.json());
+  } catch (error) {
+    console.error('Erro ao carregar compartilhamentos:', error);
+  }
+}
+
+/**
+ * Exibe a lista de compartilhamentos, com um botão para remover cada um
+ * 
+ * @param {Array} shares - Usuários e seus papéis na história
+ */
+function renderStoryShares(shares) {
+  shareList.innerHTML = '';
+  shares.forEach(share => {
+    const item = document.createElement('li');
+    const label = document.createElement('span');
+    label.textContent = `${share.username} (${share.role === 'editor' ? 'edição' : 'leitura'})`;
+    item.appendChild(label);
+    
+    const removeButton = document.createElement('button');
+    removeButton.className = 'edit-button';
+    removeButton.textContent = 'Remover';
+    removeButton.addEventListener('click', () => unshareStory(share.userId));
+    item.appendChild(removeButton);
+    
+    shareList.appendChild(item);
+  });
+}
+
+/**
+ * Compartilha a história atual com o usuário informado
+ */
+async function shareStory() {
+  const username = shareUsernameInput.value.trim();
+  if (!currentStory || !username) return;
+  
+  try {
+    const response = await fetch(`/api/stories/${currentStory.id}/shares`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, role: shareRoleSelect.value })
+    });
+    
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || 'Falha ao compartilhar história');
+    
+    shareUsernameInput.value = '';
+    renderStoryShares(result);
+  } catch (error) {
+    alert('Erro ao compartilhar história: ' + (error.message || 'Erro desconhecido'));
+  }
+}
+
+/**
+ * Remove o acesso de um usuário à história atual
+ * 
+ * @param {string} userId - ID do usuário
+ */
+async function unshareStory(userId) {
+  try {
+    const response = await fetch(`/api/stories/${currentStory.id}/shares/${userId}`, { method: 'DELETE' });
+    
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || 'Falha ao remover compartilhamento');
+    
+    renderStoryShares(result);
+  } catch (error) {
+    alert('Erro ao remover compartilhamento: ' + (error.message || 'Erro desconhecido'));
+  }
 }
 
 /**
@@ -776,7 +1714,7 @@ function downloadStory() {
 <html>
 <head>
     <meta charset="UTF-8">
-    <title>${currentStory.title || 'Minha História'}</title>
+    <title>${escapeHtml(currentStory.title || 'Minha História')}</title>
     <style>
         body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; }
         h1 { color: #2c3e50; text-align: center; }
@@ -786,18 +1724,20 @@ function downloadStory() {
         h3 { color: #2c3e50; }
         .scene { border-bottom: 1px solid #ddd; padding-bottom: 30px; margin-bottom: 30px; }
         .dialogue { background-color: #f9f9f9; padding: 15px; border-left: 3px solid #3498db; }
+        .dialogue-line { margin: 0 0 8px; }
+        .dialogue-direction { color: #7f8c8d; }
     </style>
 </head>
 <body>
-    <h1>${currentStory.title || 'Minha História'}</h1>
+    <h1>${escapeHtml(currentStory.title || 'Minha História')}</h1>
 `;
 
   // Adicionar cada cena
   currentScenes.forEach((scene, index) => {
     content += `
     <div class="scene">
-        <h2>${scene.title || `Cena ${index + 1}`}</h2>
-        <div class="scene-image" style="background-image: url(${scene.imageUrl || ''})"></div>
+        <h2>${escapeHtml(scene.title || `Cena ${index + 1}`)}</h2>
+        <div class="scene-image" style="background-image: url(${escapeHtml(scene.imageUrl || '')})"></div>
         
         <div class="scene-section">
             <h3>Descrição</h3>
@@ -839,6 +1779,73 @@ function downloadStory() {
   }, 100);
 }
 
+/**
+ * Baixa a história como livro EPUB, gerado pelo servidor com as imagens incorporadas
+ */
+function downloadEpub() {
+  if (!currentStory) return;
+
+  const a = document.createElement('a');
+  a.href = `/api/stories/${currentStory.id}/export/epub`;
+  a.download = `${currentStory.title || 'minha-historia'}.epub`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+/**
+ * Baixa a história no formato Twee 3, para continuar a edição no Twine
+ */
+function downloadTwee() {
+  if (!currentStory) return;
+
+  const a = document.createElement('a');
+  a.href = `/api/stories/${currentStory.id}/export/twee`;
+  a.download = `${currentStory.title || 'minha-historia'}.twee`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+/**
+ * Cria uma cópia traduzida da história atual e passa a exibi-la
+ * A história original continua disponível, ligada à tradução
+ */
+async function translateStory() {
+  if (!currentStory || !translateLanguageSelect) return;
+  
+  const language = translateLanguageSelect.value;
+  if (language === (currentStory.language || 'pt-BR')) {
+    alert('A história já está neste idioma.');
+    return;
+  }
+  
+  showLoading(true);
+  
+  try {
+    const response = await fetch(`/api/stories/${currentStory.id}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ language })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Falha ao traduzir história');
+    }
+    
+    currentStory = await response.json();
+    currentScenes = currentStory.scenes;
+    currentSceneIndex = 0;
+    sceneHistory = [];
+    finishStory();
+  } catch (error) {
+    alert('Erro ao traduzir história: ' + (error.message || 'Erro desconhecido'));
+  } finally {
+    showLoading(false);
+  }
+}
+
 /**
  * Reinicia a aplicação para criar uma nova história
  * Limpa os dados atuais e retorna à tela inicial
@@ -855,11 +1862,15 @@ function resetApp() {
   currentStory = null;
   currentScenes = [];
   currentSceneIndex = 0;
+  sceneHistory = [];
   
   // Limpar inputs
   briefingInput.value = '';
   styleInput.value = '';
+  showStylePresetPreview();
+  if (storyLanguageSelect) storyLanguageSelect.value = 'pt-BR';
   if (numScenesInput) numScenesInput.value = '5';
+  if (decisionPointsInput) decisionPointsInput.value = '0';
 }
 
 /**
@@ -0,0 +1,76 @@
+/**
+ * Esquema dos personagens extraídos pela IA em formato JSON
+ */
+
+import { z } from 'zod';
+import { extractJson } from './sceneSchema';
+
+/**
+ * Esquema de um personagem extraído da proposta
+ */
+export const GeneratedCharacterSchema = z.object({
+  name: z.string().trim().min(1),
+  role: z.string().trim().default(''),
+  physicalDescription: z.string().trim().default(''),
+  clothing: z.string().trim().default(''),
+  personality: z.string().trim().default(''),
+  speechStyle: z.string().trim().default(''),
+});
+
+/**
+ * Esquema da resposta completa do modelo
+ */
+export const GeneratedCharactersSchema = z.object({
+  characters: z.array(GeneratedCharacterSchema),
+});
+
+export type GeneratedCharacter = z.infer<typeof GeneratedCharacterSchema>;
+
+/**
+ * Exemplo do formato JSON esperado, incluído nos prompts
+ */
+export const GENERATED_CHARACTERS_EXAMPLE = `{
+  "characters": [
+    {
+      "name": "nome do personagem",
+      "role": "papel na história (ex: protagonista, mentor, antagonista)",
+      "physicalDescription": "idade aparente, corpo, rosto, cabelo, cor dos olhos e da pele",
+      "clothing": "roupas e acessórios característicos, com cores",
+      "personality": "traços de personalidade",
+      "speechStyle": "forma de falar: vocabulário, tom, expressões típicas"
+    }
+  ]
+}`;
+
+/**
+ * Valida a resposta do modelo contra o esquema de personagens
+ * Personagens com o mesmo nome são mesclados, mantendo a primeira ocorrência
+ *
+ * @param {string} content - Texto retornado pelo modelo
+ * @returns {{ characters?: GeneratedCharacter[], issues: string[] }} Personagens válidos ou a lista de problemas
+ */
+export function validateGeneratedCharacters(content: string): { characters?: GeneratedCharacter[]; issues: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(content));
+  } catch (error) {
+    return { issues: ['A resposta não é um JSON válido'] };
+  }
+
+  const parsed = GeneratedCharactersSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'resposta'}: ${issue.message}`)
+    };
+  }
+
+  const seen = new Set<string>();
+  const characters = parsed.data.characters.filter(character => {
+    const key = character.name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return { characters, issues: [] };
+}
@@ -1,239 +1,263 @@
 /**
- * Módulo para geração de imagens da história usando a API OpenAI
+ * Módulo para geração de imagens da história
  * Responsável por criar o conteúdo visual, personagens, cenários e estilos.
+ * As imagens são geradas pelo provedor configurado (DALL-E ou local)
+ * As instruções dos prompts de imagem são sempre em inglês, qualquer que seja o idioma da história,
+ * e são montadas com os templates "scene-image" e "visual-sample"
  */
 
-import OpenAI from "openai";
-import dotenv from 'dotenv';
+import { getImageProvider, ImageGenerationOptions, ImageQuality, ImageSize, ImageStyle } from './providers/imageProvider';
+import { Character } from '../models/Character';
+import { StylePreset } from '../models/StylePreset';
+import { formatDialogue } from '../utils/dialogue';
+import { renderPrompt } from './promptTemplates';
+import { ProviderFailureError, ValidationError } from '../utils/errors';
+
+// Opções de renderização usadas quando o estilo não é um preset
+const DEFAULT_IMAGE_SIZE: ImageSize = "1024x1024";
+const DEFAULT_IMAGE_QUALITY: ImageQuality = "hd";
+const DEFAULT_RENDER_STYLE: ImageStyle = "vivid";
+
+// Tamanho máximo do prompt aceito pelo DALL-E 3
+const MAX_PROMPT_LENGTH = 4000;
 
 /**
- * Configuração inicial do módulo
- * Carrega variáveis de ambiente e inicializa o cliente da API OpenAI
+ * Dados de um personagem usados nos prompts de imagem
  */
-dotenv.config();
+export type CharacterAppearance = Pick<Character, 'name' | 'physicalDescription' | 'clothing'>;
 
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) throw new Error('API key da OpenAI não encontrada no arquivo .env');
+/**
+ * Estilo visual de uma imagem: um preset do registro ou um estilo livre, usado como está no prompt
+ */
+export type VisualStyle = StylePreset | string;
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+/**
+ * Resultado da geração de uma imagem, com os dados necessários para armazená-la
+ * 
+ * @interface ImageResult
+ * @property {string} url - URL da imagem gerada (pode ser temporária)
+ * @property {string} prompt - Prompt final enviado ao provedor
+ * @property {string} provider - Nome do provedor
+ * @property {string} dimensions - Dimensões solicitadas ao provedor (opcional)
+ */
+export interface ImageResult {
+  url: string;
+  prompt: string;
+  provider: string;
+  dimensions?: string;
+}
 
 /**
  * Gera uma imagem baseada em um prompt, estilo e informações de cena
  * Mantém consistência entre cenas de uma mesma história
  * 
  * @param {string} [prompt] - Texto de prompt personalizado (opcional)
- * @param {string} [style] - Estilo visual desejado (opcional)
+ * @param {VisualStyle} [style] - Preset ou estilo visual desejado (opcional)
  * @param {any} [scene] - Objeto de cena contendo descrição e metadados (opcional)
  * @param {string[]} [previousImages=[]] - URLs de imagens anteriores para manter consistência
- * @returns {Promise<string>} URL da imagem gerada ou caminho para placeholder
+ * @param {CharacterAppearance[]} [characters=[]] - Personagens presentes, descritos no prompt para manter a aparência
+ * @returns {Promise<string>} URL da imagem gerada
+ * @throws {ValidationError} Se não houver prompt nem texto da cena para descrever a imagem
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar
  */
 export async function generateImage(
   prompt?: string,
-  style?: string,
+  style?: VisualStyle,
   scene?: any,
-  previousImages: string[] = []
+  previousImages: string[] = [],
+  characters: CharacterAppearance[] = []
 ): Promise<string> {
+  const result = await generateImageResult(prompt, style, scene, previousImages, characters);
+  return result.url;
+}
+
+/**
+ * Gera uma imagem como generateImage, retornando também o prompt final e o provedor usados
+ * 
+ * @param {string} [prompt] - Texto de prompt personalizado (opcional)
+ * @param {VisualStyle} [style] - Preset ou estilo visual desejado (opcional)
+ * @param {any} [scene] - Objeto de cena contendo descrição e metadados (opcional)
+ * @param {string[]} [previousImages=[]] - URLs de imagens anteriores para manter consistência
+ * @param {CharacterAppearance[]} [characters=[]] - Personagens presentes, descritos no prompt para manter a aparência
+ * @returns {Promise<ImageResult>} Imagem gerada
+ * @throws {ValidationError} Se não houver prompt nem texto da cena para descrever a imagem
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar
+ */
+export async function generateImageResult(
+  prompt?: string,
+  style?: VisualStyle,
+  scene?: any,
+  previousImages: string[] = [],
+  characters: CharacterAppearance[] = []
+): Promise<ImageResult> {
+  const directPrompt = prompt && prompt.trim() !== '' ? prompt.trim() : '';
   
-  // Adiciona instruções para manter consistência visual entre cenas
-  let consistencyPrompt = "";
-  if (previousImages && previousImages.length > 0) {
-    consistencyPrompt = "Mantenha a aparência consistente dos personagens com as cenas anteriores. ";
-  }
+  // O prompt direto fornecido pelo usuário/sistema tem prioridade sobre os textos da cena
+  const description = directPrompt || getSceneDescription(scene);
   
-  // Parte 1: Tratamento específico para amostras de estilo
-  if (prompt && prompt.includes("Ilustração no estilo")) {
-    return generateStyleSample(prompt, style);
+  if (!description) {
+    throw new ValidationError('A cena não tem descrição, narração, diálogo ou título para gerar a imagem', [], 'IMAGE_PROMPT_REQUIRED');
   }
   
-  // Parte 2: Uso de prompt direto fornecido pelo usuário/sistema
-  if (prompt && prompt.trim() !== '') {
-    
-    // Adiciona instruções de consistência ao prompt
-    let finalPrompt = `Create an image based on this description: ${consistencyPrompt}${prompt.trim()}`;
-    
-    // Adiciona informações sobre continuidade para cenas não-iniciais
-    if (scene && scene.order && scene.order > 0) {
-      finalPrompt += ` Esta é a cena ${scene.order + 1} de uma sequência contínua. Mantenha os personagens visualmente idênticos às cenas anteriores.`;
-    }
-    
-    try {
-      const response = await openai.images.generate({
-        model: "dall-e-3",
-        prompt: finalPrompt,
-        n: 1,
-        size: "1024x1024",
-        quality: "hd",
-        style: "vivid",
-      });
-
-      const url = response.data?.[0]?.url;
-      return url || "/images/placeholder.jpg";
-    } catch (error) {
-      console.error("Erro ao gerar imagem com prompt direto:", error);
-      return "/images/placeholder.jpg";
-    }
-  }
+  // O template inclui a aparência dos personagens e as instruções de consistência entre cenas
+  const finalPrompt = renderPrompt('scene-image', {
+    description,
+    characters: formatCharacterAppearance(characters),
+    sceneNumber: scene && typeof scene.order === 'number' ? scene.order + 1 : 1,
+    previousScenes: scene && typeof scene.order === 'number' && scene.order > 0 ? scene.order : 0,
+    previousImages: previousImages ? previousImages.length : 0,
+  });
   
-  // Parte 3: Uso da descrição da cena fornecida no objeto scene
-  if (scene && scene.description && typeof scene.description === 'string' && scene.description.trim() !== '') {
-    
-    // Usa a descrição da cena como base para o prompt
-    let finalPrompt = `Create an image based on this description: ${consistencyPrompt}${scene.description.trim()}`;
-    
-    // Adiciona instruções de consistência para cenas não-iniciais
-    if (scene.order && scene.order > 0) {
-      finalPrompt += ` Esta é a cena ${scene.order + 1} de uma sequência contínua. Mantenha os mesmos personagens, com a mesma aparência física, roupas e cores das cenas anteriores.`;
-    }
-    
-    // Adiciona informações de estilo, se fornecidas
-    if (style && style.trim() !== '') {
-      const translatedStyle = translateStyleToEnglish(style);
-      finalPrompt = `${translatedStyle} ${finalPrompt}`;
-    }
-
-    // Limita o tamanho do prompt para a API
-    if (finalPrompt.length > 1000) {
-      finalPrompt = finalPrompt.slice(0, 1000);
-    }
-
-    // Chamada à API DALL-E 3
-    try {
-      const response = await openai.images.generate({
-        model: "dall-e-3",
-        prompt: finalPrompt,
-        n: 1,
-        size: "1024x1024",
-        quality: "hd",
-        style: "vivid",
-      });
-
-      const url = response.data?.[0]?.url;
-      return url || "/images/placeholder.jpg";
-    } catch (error) {
-      console.error("Erro ao gerar imagem:", error);
-      return "/images/placeholder.jpg";
-    }
-  } 
-  // Parte 4: Uso de campos alternativos quando a descrição está ausente
-  else if (scene) {
-    let alternativeText = '';
-    
-    // Tenta usar narração, diálogo ou título como fallback
-    if (scene.narration && typeof scene.narration === 'string' && scene.narration.trim() !== '') {
-      alternativeText = scene.narration.trim();
-    } else if (scene.dialogue && typeof scene.dialogue === 'string' && scene.dialogue.trim() !== '') {
-      alternativeText = scene.dialogue.trim();
-    } else if (scene.title && typeof scene.title === 'string' && scene.title.trim() !== '') {
-      alternativeText = scene.title.trim();
-    }
-    
-    if (alternativeText) {
-      // Criar prompt a partir do texto alternativo
-      let finalPrompt = `Create an image based on this description: ${consistencyPrompt}${alternativeText}`;
-      
-      // Adiciona informações de consistência para cenas não-iniciais
-      if (scene.order && scene.order > 0) {
-        finalPrompt += ` Esta é a cena ${scene.order + 1} de uma sequência contínua. Mantenha os mesmos personagens, com a mesma aparência física, roupas e cores das cenas anteriores.`;
-      }
-      
-      // Adiciona informações de estilo, se fornecidas
-      if (style && style.trim() !== '') {
-        const translatedStyle = translateStyleToEnglish(style);
-        finalPrompt = `${translatedStyle} ${finalPrompt}`;
-      }
-      
-      // Limita o tamanho do prompt
-      if (finalPrompt.length > 1000) {
-        finalPrompt = finalPrompt.slice(0, 1000);
-      }
-      
-      // Chamada à API DALL-E 3
-      try {
-        const response = await openai.images.generate({
-          model: "dall-e-3",
-          prompt: finalPrompt,
-          n: 1,
-          size: "1024x1024",
-          quality: "hd",
-          style: "vivid",
-        });
-        
-        const url = response.data?.[0]?.url;
-        return url || "/images/placeholder.jpg";
-      } catch (error) {
-        console.error("Erro ao gerar imagem com texto alternativo:", error);
-        return "/images/placeholder.jpg";
-      }
-    }
-  }
+  // O prompt direto já descreve a imagem; do estilo são aplicados apenas o que evitar e as opções de renderização
+  return directPrompt
+    ? requestImage(composePrompt(finalPrompt, style, false), style, getSceneMetadata(scene, style))
+    : requestImage(composePrompt(finalPrompt, style), style, getSceneMetadata(scene, style));
+}
+
+/**
+ * Obtém o texto da cena que descreve a imagem: a descrição ou, na falta dela, a narração, o diálogo ou o título
+ * 
+ * @param {any} [scene] - Objeto de cena (opcional)
+ * @returns {string} Texto da cena, ou texto vazio se não houver nenhum
+ */
+function getSceneDescription(scene?: any): string {
+  if (!scene) return '';
   
-  // Fallback para casos onde não temos dados suficientes
-  console.error("Sem descrição ou prompt válidos para gerar imagem");
-  return "/images/placeholder.jpg";
+  if (typeof scene.description === 'string' && scene.description.trim() !== '') return scene.description.trim();
+  if (typeof scene.narration === 'string' && scene.narration.trim() !== '') return scene.narration.trim();
+  if (Array.isArray(scene.dialogue) && scene.dialogue.length > 0) return formatDialogue(scene.dialogue);
+  if (typeof scene.title === 'string' && scene.title.trim() !== '') return scene.title.trim();
+  return '';
 }
 
 /**
  * Gera uma amostra visual para demonstrar um estilo específico
- * Usado para permitir ao usuário escolher entre diferentes opções visuais
+ * Usado para permitir ao usuário escolher entre diferentes opções visuais e para as prévias dos presets
  * 
- * @param {string} prompt - Prompt completo com instruções de estilo
- * @param {string} [style] - Estilo visual adicional (opcional)
- * @returns {Promise<string>} URL da imagem de amostra gerada
+ * @param {VisualStyle} style - Preset ou estilo visual a demonstrar
+ * @param {string} [subject] - Assunto da ilustração, como o início da proposta da história (opcional)
+ * @param {CharacterAppearance[]} [characters=[]] - Personagens principais, descritos com a aparência das fichas
+ * @returns {Promise<ImageResult>} Imagem de amostra gerada
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar
  */
-async function generateStyleSample(prompt: string, style?: string): Promise<string> {
-  // Extrai o estilo do prompt utilizando regex
-  const styleMatch = prompt.match(/estilo\s+([^\s,]+)/i);
-  const requestedStyle = styleMatch?.[1] || style || '';
+export async function generateStyleSample(style: VisualStyle, subject?: string, characters: CharacterAppearance[] = []): Promise<ImageResult> {
+  const finalPrompt = renderPrompt('visual-sample', { subject: subject ? subject.trim() : '', characters: formatCharacterAppearance(characters) });
+  const styleName = getStyleName(style);
   
-  // Traduz o estilo para termo equivalente em inglês
-  const translatedStyle = translateStyleToEnglish(requestedStyle);
+  return requestImage(composePrompt(finalPrompt, style), style, { title: `Estilo ${styleName}`, visualStyle: styleName });
+}
+
+/**
+ * Solicita uma imagem ao provedor configurado, com as opções de renderização do estilo
+ * As falhas do provedor são repassadas a quem pediu a imagem, que decide como informá-las
+ * 
+ * @param {string} prompt - Prompt final da imagem
+ * @param {VisualStyle | undefined} style - Preset ou estilo visual da imagem
+ * @param {Object} metadata - Metadados da cena para provedores locais
+ * @returns {Promise<ImageResult>} Imagem gerada
+ * @throws {ProviderFailureError} Se o provedor falhar ou não devolver uma imagem
+ */
+async function requestImage(prompt: string, style: VisualStyle | undefined, metadata: ImageGenerationOptions['metadata']): Promise<ImageResult> {
+  const { size, quality, style: renderStyle } = getImageOptions(style);
   
-  // Cria prompt simplificado para demonstrar o estilo visual
-  const finalPrompt = `${translatedStyle} style image with people`;
+  const image = await getImageProvider().generate({
+    prompt,
+    size,
+    quality,
+    style: renderStyle,
+    metadata,
+  });
+  if (!image.url) throw new ProviderFailureError(`O provedor ${image.provider} não devolveu uma imagem`);
+  return { url: image.url, prompt, provider: image.provider, dimensions: size };
+}
+
+/**
+ * Obtém as opções de renderização de um estilo: as do preset ou as padrão, para estilos livres
+ * 
+ * @param {VisualStyle} [style] - Preset ou estilo visual (opcional)
+ * @returns {Object} Dimensões, qualidade e renderização das imagens
+ */
+export function getImageOptions(style?: VisualStyle): { size: ImageSize; quality: ImageQuality; style: ImageStyle } {
+  const preset = typeof style === 'object' ? style : undefined;
+  return {
+    size: preset ? preset.size : DEFAULT_IMAGE_SIZE,
+    quality: preset ? preset.quality : DEFAULT_IMAGE_QUALITY,
+    style: preset ? preset.renderStyle : DEFAULT_RENDER_STYLE,
+  };
+}
+
+/**
+ * Aplica ao prompt as instruções do estilo e limita o tamanho para a API
+ * O trecho do estilo abre o prompt e os elementos a evitar o encerram; quando o prompt
+ * é longo demais, apenas a descrição é encurtada, para não perder as instruções do estilo
+ * 
+ * @param {string} description - Descrição da imagem
+ * @param {VisualStyle} [style] - Preset ou estilo visual (opcional)
+ * @param {boolean} [includeFragment=true] - Indica se o trecho do estilo deve ser incluído
+ * @returns {string} Prompt final
+ */
+function composePrompt(description: string, style?: VisualStyle, includeFragment: boolean = true): string {
+  let prefix = '';
+  let suffix = '';
   
-  try {
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: finalPrompt,
-      n: 1,
-      size: "1024x1024",
-      quality: "hd",
-      style: "vivid",
-    });
-    
-    const url = response.data?.[0]?.url;
-    return url || "/images/placeholder.jpg";
-  } catch (error) {
-    console.error("Erro ao gerar amostra de estilo:", error);
-    return "/images/placeholder.jpg";
+  if (typeof style === 'object') {
+    if (includeFragment) prefix = `${trimSentence(style.promptFragment)}. `;
+    if (style.negativePrompt.trim() !== '') suffix = ` Avoid: ${trimSentence(style.negativePrompt)}.`;
+  } else if (includeFragment && style && style.trim() !== '') {
+    // Estilos livres, fora do registro, são enviados como o usuário os escreveu
+    prefix = `Style: ${trimSentence(style)}. `;
   }
+  
+  const available = Math.max(0, MAX_PROMPT_LENGTH - prefix.length - suffix.length);
+  return `${prefix}${description.slice(0, available)}${suffix}`;
+}
+
+/**
+ * Remove os espaços e a pontuação final de um trecho, para que ele possa ser encerrado com ponto
+ * 
+ * @param {string} text - Trecho do prompt
+ * @returns {string} Trecho sem pontuação final
+ */
+function trimSentence(text: string): string {
+  return text.trim().replace(/[.;,\s]+$/, '');
+}
+
+/**
+ * Obtém o nome de um estilo para exibição e para os metadados das imagens
+ * 
+ * @param {VisualStyle} [style] - Preset ou estilo visual
+ * @returns {string | undefined} Nome do preset ou o estilo livre
+ */
+function getStyleName(style?: VisualStyle): string | undefined {
+  return typeof style === 'object' ? style.name : style;
 }
 
 /**
- * Traduz termos de estilo visual do português para o inglês
- * Permite usar terminologia artística adequada nos prompts para a API
+ * Descreve a aparência dos personagens para o prompt de imagem
  * 
- * @param {string} style - Termo de estilo em português
- * @returns {string} Termo equivalente em inglês ou o original se não houver mapeamento
+ * @param {CharacterAppearance[]} characters - Personagens presentes na imagem
+ * @returns {string} Personagens separados por ponto e vírgula, ou texto vazio sem personagens
  */
-function translateStyleToEnglish(style: string): string {
-  if (!style) return 'realistic';
+function formatCharacterAppearance(characters: CharacterAppearance[]): string {
+  if (!characters || characters.length === 0) return '';
   
-  // Mapeamento de termos de estilo do português para o inglês
-  const styleMap: Record<string, string> = {
-    'realista': 'photorealistic',
-    'fotorrealista': 'hyper-realistic',
-    'aquarela': 'watercolor painting',
-    'cartoon': 'cartoon',
-    'anime': 'anime style',
-    'óleo': 'oil painting',
-    'pastel': 'pastel drawing',
-    'pixelart': 'pixel art',
-    'pintura': 'painting'
+  return characters.map(character => {
+    const details = [character.physicalDescription, character.clothing].filter(Boolean).join(', ');
+    return details ? `${character.name} (${details})` : character.name;
+  }).join('; ');
+}
+
+/**
+ * Extrai da cena os metadados usados por provedores de imagem locais
+ * 
+ * @param {any} scene - Objeto de cena (opcional)
+ * @param {VisualStyle} [style] - Preset ou estilo visual da história
+ * @returns {Object} Título, número da cena e estilo visual
+ */
+function getSceneMetadata(scene: any, style?: VisualStyle): ImageGenerationOptions['metadata'] {
+  return {
+    title: scene && typeof scene.title === 'string' ? scene.title : undefined,
+    sceneNumber: scene && typeof scene.order === 'number' ? scene.order + 1 : undefined,
+    visualStyle: getStyleName(style),
   };
-  
-  const lowerStyle = style.toLowerCase();
-  return styleMap[lowerStyle] ?? style;
-}
\ No newline at end of file
+}
@@ -1,259 +1,536 @@
 /**
- * Módulo para geração de conteúdo da história usando a API OpenAI
+ * Módulo para geração de conteúdo da história
  * Responsável por criar o conteúdo narrativo, cenas e estilos visuais
+ * O texto é gerado pelo provedor configurado (OpenAI ou local)
  */
 
+import { getTextProvider, TextGenerationRequest } from './providers/textGeneration';
+import { GENERATED_SCENES_EXAMPLE, GeneratedScene, SceneGenerationError, extractCompleteScenes, validateGeneratedScenes } from './sceneSchema';
+import { GENERATED_CHARACTERS_EXAMPLE, GeneratedCharacter, validateGeneratedCharacters } from './characterSchema';
+import { SceneRewrite, SceneRewriteField, buildSceneRewriteExample, validateSceneRewrite } from './rewriteSchema';
+import { generateContextFromPreviousScenes } from '../utils/formatters';
+import { DEFAULT_LANGUAGE, getLanguageName } from '../utils/languages';
+import { ProviderFailureError } from '../utils/errors';
+import { formatDialogue } from '../utils/dialogue';
+import { estimateTokens } from './usage';
+import { renderPrompt } from './promptTemplates';
 
-import OpenAI from "openai";
-import dotenv from 'dotenv';
+/**
+ * Gera uma proposta de história baseada em um briefing
+ * O prompt é montado com o template "proposal"
+ * 
+ * @param {string} briefing - Descrição geral da história desejada
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
+ * @returns {Promise<string>} Texto da proposta de história
+ */
+export async function generateStoryProposal(briefing: string, language: string = DEFAULT_LANGUAGE): Promise<string> {
+  const prompt = renderPrompt('proposal', { briefing, language: getLanguageName(language) });
+  
+  return getTextProvider().generateText({
+    task: 'proposal',
+    prompt,
+    context: { briefing, language },
+  });
+}
 
-// Carrega variáveis de ambiente
-dotenv.config();
+/**
+ * Número máximo de tentativas de geração de cenas, incluindo as de correção
+ */
+const MAX_SCENE_ATTEMPTS = 3;
 
-// Configura a API com a chave da OpenAI
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) throw new Error('OPENAI_API_KEY não encontrada no arquivo .env');
+/**
+ * Limite de tokens da resposta na geração de cenas
+ */
+const SCENES_MAX_TOKENS = 3000;
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+/**
+ * Tokens gerados em média por cena, usados nas estimativas de custo
+ */
+const ESTIMATED_TOKENS_PER_SCENE = 200;
 
 /**
- * Extrai o conteúdo da resposta da API OpenAI
- * 
- * @param {any} response - Resposta da API da OpenAI
- * @returns {string} Conteúdo extraído da resposta
- * @throws {Error} Se o conteúdo não for válido
+ * Número máximo de tentativas de extração de personagens, incluindo as de correção
  */
-function extractContent(response: any): string {
-  const content = response.choices?.[0]?.message?.content;
-  if (!content) throw new Error('Resposta da API não contém conteúdo válido');
-  return content;
-}
+const MAX_CHARACTER_ATTEMPTS = 2;
 
 /**
- * Gera uma proposta de história baseada em um briefing
+ * Extrai os personagens principais de uma proposta de história
+ * Cada personagem recebe descrições de aparência, roupas, personalidade e forma de falar,
+ * usadas para manter a consistência entre as cenas
  * 
- * @param {string} briefing - Descrição geral da história desejada
- * @returns {Promise<string>} Texto da proposta de história
+ * @param {string} storyProposal - Proposta da história
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
+ * @returns {Promise<GeneratedCharacter[]>} Personagens na ordem de importância
+ * @throws {ProviderFailureError} Se nenhuma tentativa produzir uma lista válida
  */
-export async function generateStoryProposal(briefing: string): Promise<string> {
-  const prompt = `Crie uma história linear envolvente baseada no seguinte briefing: ${briefing}. 
-  IMPORTANTE: Retorne APENAS um resumo da história sem divisão em cenas. 
-  Use um parágrafo para introduzir a premissa, alguns para o desenvolvimento e um para o desfecho.
-  NÃO divida o texto em cenas, personagens ou capítulos numerados.
-  Escreva em português do Brasil, com no máximo 300 palavras totais.`;
+export async function extractCharacters(storyProposal: string, language: string = DEFAULT_LANGUAGE): Promise<GeneratedCharacter[]> {
+  const prompt = `Identifique os personagens da seguinte história: "${storyProposal}".
   
-  const response = await openai.chat.completions.create({
-    model: "gpt-4",
-    messages: [{ role: "user", content: prompt }],
-  });
+Para cada personagem, crie uma ficha detalhada e fixa, que será usada para que ele tenha sempre
+a mesma aparência e a mesma forma de falar em todas as cenas e ilustrações.
+Quando a história não descrever algum detalhe, invente um que combine com ela.
+
+FORMATO ESPERADO:
+Responda APENAS com um objeto JSON válido, sem texto antes ou depois, no formato:
+${GENERATED_CHARACTERS_EXAMPLE}
+
+IMPORTANTE:
+- Todo o texto deve estar em ${getLanguageName(language)}
+- Liste no máximo 6 personagens, do mais importante para o menos importante
+- Descrições físicas e de roupas devem ser concretas e visuais (cores, formas, materiais)`;
+  
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+  
+  for (let attempt = 1; attempt <= MAX_CHARACTER_ATTEMPTS; attempt++) {
+    const content = await getTextProvider().generateText({
+      task: 'characters',
+      prompt: currentPrompt,
+      temperature: 0.5,
+      maxTokens: 1500,
+      responseFormat: 'json',
+      context: { storyProposal, language },
+    });
+    
+    const result = validateGeneratedCharacters(content);
+    if (result.characters) return result.characters;
+    
+    issues = result.issues;
+    console.warn(`Tentativa ${attempt} de ${MAX_CHARACTER_ATTEMPTS} gerou personagens inválidos:`, issues);
+    
+    currentPrompt = `${prompt}
+
+Sua resposta anterior foi:
+${content}
+
+Ela é inválida pelos seguintes motivos:
+- ${issues.join('\n- ')}
+
+Corrija a resposta e retorne APENAS o objeto JSON.`;
+  }
   
-  return extractContent(response);
+  throw new ProviderFailureError('Não foi possível extrair os personagens', 'CHARACTER_EXTRACTION_FAILED', { issues });
+}
+
+/**
+ * Callbacks para acompanhar a geração de cenas em streaming
+ * 
+ * @interface SceneGenerationListener
+ * @property {Function} onToken - Recebe cada trecho de texto gerado pelo modelo
+ * @property {Function} onScene - Recebe cada cena assim que ela fica completa na resposta
+ * @property {Function} onRetry - Avisa que a resposta foi inválida e uma nova tentativa vai começar
+ */
+export interface SceneGenerationListener {
+  onToken?(token: string): void;
+  onScene?(scene: GeneratedScene, index: number): void;
+  onRetry?(attempt: number, issues: string[]): void;
 }
 
 /**
  * Gera cenas para uma história existente
+ * Com pontos de decisão, as cenas formam uma história ramificada com escolhas e múltiplos finais
+ * A resposta do modelo é validada contra um esquema JSON; se for inválida, o modelo é
+ * solicitado a corrigi-la até MAX_SCENE_ATTEMPTS vezes
  * 
  * @param {string} storyProposal - Proposta de história a partir da qual gerar cenas
  * @param {number} numScenes - Número de cenas a serem geradas
- * @returns {Promise<any[]>} Array de objetos de cena
+ * @param {number} decisionPoints - Número de pontos de decisão (padrão: 0, história linear)
+ * @param {SceneGenerationListener} [listener] - Callbacks de progresso; quando informado, a resposta é recebida em streaming
+ * @param {GeneratedCharacter[]} [characters=[]] - Fichas dos personagens, para manter aparência e falas consistentes
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
+ * @returns {Promise<GeneratedScene[]>} Array de objetos de cena, com escolhas referenciando o número da cena de destino
+ * @throws {SceneGenerationError} Se nenhuma tentativa produzir cenas válidas
+ */
+export async function generateScenes(
+  storyProposal: string,
+  numScenes: number,
+  decisionPoints: number = 0,
+  listener?: SceneGenerationListener,
+  characters: GeneratedCharacter[] = [],
+  language: string = DEFAULT_LANGUAGE
+): Promise<GeneratedScene[]> {
+  const { prompt, actualNumScenes, actualDecisionPoints } = buildScenesPrompt(storyProposal, numScenes, decisionPoints, characters, language);
+  
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+  
+  for (let attempt = 1; attempt <= MAX_SCENE_ATTEMPTS; attempt++) {
+    const request: TextGenerationRequest = {
+      task: 'scenes',
+      prompt: currentPrompt,
+      temperature: 0.7,
+      maxTokens: SCENES_MAX_TOKENS,
+      responseFormat: 'json',
+      context: {
+        storyProposal,
+        numScenes: actualNumScenes,
+        decisionPoints: actualDecisionPoints,
+        characterNames: characters.map(character => character.name),
+        language,
+      },
+    };
+    
+    const content = listener
+      ? await streamScenes(request, listener)
+      : await getTextProvider().generateText(request);
+    
+    const result = validateGeneratedScenes(content, actualNumScenes);
+    if (result.scenes) return result.scenes;
+    
+    issues = result.issues;
+    console.warn(`Tentativa ${attempt} de ${MAX_SCENE_ATTEMPTS} gerou cenas inválidas:`, issues);
+    if (listener && listener.onRetry && attempt < MAX_SCENE_ATTEMPTS) listener.onRetry(attempt + 1, issues);
+    
+    // Pede ao modelo que corrija a própria resposta
+    currentPrompt = `${prompt}
+
+Sua resposta anterior foi:
+${content}
+
+Ela é inválida pelos seguintes motivos:
+- ${issues.join('\n- ')}
+
+Corrija a resposta e retorne APENAS o objeto JSON com EXATAMENTE ${actualNumScenes} cenas.`;
+  }
+  
+  throw new SceneGenerationError(
+    `Não foi possível gerar ${actualNumScenes} cenas válidas após ${MAX_SCENE_ATTEMPTS} tentativas`,
+    issues,
+    MAX_SCENE_ATTEMPTS
+  );
+}
+
+/**
+ * Monta o prompt de geração de cenas com o template "scenes", limitando o número de cenas e de pontos de decisão
+ * 
+ * @param {string} storyProposal - Proposta da história
+ * @param {number} numScenes - Número de cenas solicitadas
+ * @param {number} decisionPoints - Número de pontos de decisão solicitados
+ * @param {GeneratedCharacter[]} characters - Fichas dos personagens
+ * @param {string} language - Idioma da história, no formato BCP 47
+ * @returns {Object} O prompt e os números de cenas e de pontos de decisão usados
  */
-export async function generateScenes(storyProposal: string, numScenes: number): Promise<any[]> {
+function buildScenesPrompt(
+  storyProposal: string,
+  numScenes: number,
+  decisionPoints: number,
+  characters: GeneratedCharacter[],
+  language: string
+): { prompt: string; actualNumScenes: number; actualDecisionPoints: number } {
   // Validar e limitar o número de cenas
   const actualNumScenes = Math.min(Math.max(numScenes, 3), 15);
   
-  const prompt = `Baseado na seguinte história: "${storyProposal}", crie EXATAMENTE ${actualNumScenes} cenas sequenciais. 
-  VOCÊ DEVE CRIAR EXATAMENTE ${actualNumScenes} CENAS, NÃO MAIS E NÃO MENOS.
+  // Cada ponto de decisão precisa de pelo menos duas cenas de destino
+  const actualDecisionPoints = Math.min(Math.max(decisionPoints, 0), Math.floor((actualNumScenes - 1) / 2));
+  
+  const prompt = renderPrompt('scenes', {
+    proposal: storyProposal,
+    numScenes: actualNumScenes,
+    decisionPoints: actualDecisionPoints,
+    characters: formatCharacterBible(characters),
+    format: GENERATED_SCENES_EXAMPLE,
+    language: getLanguageName(language),
+  });
+  
+  return { prompt, actualNumScenes, actualDecisionPoints };
+}
 
-FORMATO ESPERADO:
-Para cada cena, forneça claramente:
+/**
+ * Estimativa dos tokens de uma geração de texto
+ * 
+ * @interface TokenEstimate
+ * @property {number} promptTokens - Tokens enviados, se a primeira tentativa for válida
+ * @property {number} completionTokens - Tokens gerados, se a primeira tentativa for válida
+ * @property {number} maxPromptTokens - Tokens enviados no pior caso, com todas as tentativas de correção
+ * @property {number} maxCompletionTokens - Tokens gerados no pior caso, com todas as respostas no limite
+ */
+export interface TokenEstimate {
+  promptTokens: number;
+  completionTokens: number;
+  maxPromptTokens: number;
+  maxCompletionTokens: number;
+}
 
-Cena 1:
-Título: [título descritivo]
-Descrição: [ambiente, personagens, visuais]
-Narração: [o que acontece na cena]
-Diálogo: [diálogos se houver]
+/**
+ * Estima os tokens consumidos por generateScenes, sem chamar o provedor
+ * Cada tentativa de correção reenvia o prompt com a resposta anterior
+ * 
+ * @param {string} storyProposal - Proposta da história
+ * @param {number} numScenes - Número de cenas a serem geradas
+ * @param {number} [decisionPoints=0] - Número de pontos de decisão
+ * @param {GeneratedCharacter[]} [characters=[]] - Fichas dos personagens
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
+ * @returns {TokenEstimate} Tokens esperados e no pior caso
+ */
+export function estimateScenesTokens(
+  storyProposal: string,
+  numScenes: number,
+  decisionPoints: number = 0,
+  characters: GeneratedCharacter[] = [],
+  language: string = DEFAULT_LANGUAGE
+): TokenEstimate {
+  const { prompt, actualNumScenes } = buildScenesPrompt(storyProposal, numScenes, decisionPoints, characters, language);
+  const promptTokens = estimateTokens(prompt);
+  
+  return {
+    promptTokens,
+    completionTokens: Math.min(SCENES_MAX_TOKENS, actualNumScenes * ESTIMATED_TOKENS_PER_SCENE),
+    maxPromptTokens: MAX_SCENE_ATTEMPTS * promptTokens + (MAX_SCENE_ATTEMPTS - 1) * SCENES_MAX_TOKENS,
+    maxCompletionTokens: MAX_SCENE_ATTEMPTS * SCENES_MAX_TOKENS,
+  };
+}
 
-Cena 2:
-[e assim por diante até a Cena ${actualNumScenes}]
+/**
+ * Gera uma única cena para ser inserida entre cenas existentes
+ * As cenas vizinhas são usadas como contexto, para que a nova cena continue a anterior e leve à seguinte
+ * 
+ * @param {string} storyProposal - Proposta da história
+ * @param {any[]} previousScenes - Cenas anteriores à posição da nova cena, em ordem
+ * @param {any} [nextScene] - Cena que virá logo depois da nova cena (opcional)
+ * @param {GeneratedCharacter[]} [characters=[]] - Fichas dos personagens, para manter aparência e falas consistentes
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
+ * @returns {Promise<GeneratedScene>} A cena gerada, sem escolhas
+ * @throws {SceneGenerationError} Se nenhuma tentativa produzir uma cena válida
+ */
+export async function generateScene(
+  storyProposal: string,
+  previousScenes: any[],
+  nextScene?: any,
+  characters: GeneratedCharacter[] = [],
+  language: string = DEFAULT_LANGUAGE
+): Promise<GeneratedScene> {
+  const previousContext = generateContextFromPreviousScenes(previousScenes);
+  const nextContext = nextScene
+    ? `A cena seguinte, que deve acontecer logo depois da nova cena, é: ${nextScene.description}. ${nextScene.narration}`
+    : 'A nova cena será a última da história.';
+  
+  const characterInstructions = characters.length > 0 ? `
 
-IMPORTANTE:
-- Todo o texto deve estar em português do Brasil
-- Cada cena deve ter um título descritivo
-- As descrições devem ser visuais e específicas
-- Os diálogos devem ser naturais e interessantes
-- MANTENHA EXATAMENTE O FORMATO ACIMA, com cada item em sua própria linha
-- LEMBRE-SE: CRIAR EXATAMENTE ${actualNumScenes} CENAS, COMEÇANDO NA CENA 1 E TERMINANDO NA CENA ${actualNumScenes}`;
+PERSONAGENS:
+${formatCharacterBible(characters)}
+- Use exatamente estes nomes e mantenha a aparência, as roupas e a forma de falar de cada personagem
+- Liste em "characters" os nomes dos personagens presentes` : '';
   
-  const response = await openai.chat.completions.create({
-    model: "gpt-4",
-    messages: [{ role: "user", content: prompt }],
-    temperature: 0.7,
-    max_tokens: 3000,
-  });
+  const prompt = `Baseado na seguinte história: "${storyProposal}", crie EXATAMENTE 1 cena nova.
+${previousContext || 'A nova cena será a primeira da história.'}
+${nextContext}
+
+FORMATO ESPERADO:
+Responda APENAS com um objeto JSON válido, sem texto antes ou depois, no formato:
+${GENERATED_SCENES_EXAMPLE}${characterInstructions}
+
+IMPORTANTE:
+- Todo o texto deve estar em ${getLanguageName(language)}
+- A cena deve ter um título descritivo e ligar de forma natural a cena anterior à seguinte
+- Deixe "choices" vazio e "isEnding" como false
+- O array "scenes" deve conter EXATAMENTE 1 cena`;
   
-  const content = extractContent(response);
-  const processedScenes = processScenes(content, actualNumScenes, storyProposal);
+  let currentPrompt = prompt;
+  let issues: string[] = [];
   
-  // Verificar se o número de cenas processadas corresponde ao solicitado
-  if (processedScenes.length !== actualNumScenes) {
-    console.warn(`Processamento gerou ${processedScenes.length} cenas, mas ${actualNumScenes} foram solicitadas. Ajustando...`);
+  for (let attempt = 1; attempt <= MAX_SCENE_ATTEMPTS; attempt++) {
+    const content = await getTextProvider().generateText({
+      task: 'scene',
+      prompt: currentPrompt,
+      temperature: 0.7,
+      maxTokens: 1000,
+      responseFormat: 'json',
+      context: {
+        storyProposal,
+        characterNames: characters.map(character => character.name),
+        language,
+      },
+    });
     
-    // Ajustar para garantir o número correto de cenas
-    if (processedScenes.length < actualNumScenes) {
-      // Preencher cenas faltantes
-      for (let i = processedScenes.length; i < actualNumScenes; i++) {
-        processedScenes.push({
-          title: `Cena ${i + 1}`,
-          description: `Continuação da história em ${storyProposal.substring(0, 50)}...`,
-          narration: "A história continua...",
-          dialogue: ""
-        });
-      }
-    } else {
-      // Cortar cenas excedentes
-      return processedScenes.slice(0, actualNumScenes);
-    }
+    const result = validateGeneratedScenes(content, 1);
+    if (result.scenes) return { ...result.scenes[0], choices: [], isEnding: false };
+    
+    issues = result.issues;
+    console.warn(`Tentativa ${attempt} de ${MAX_SCENE_ATTEMPTS} gerou uma cena inválida:`, issues);
+    
+    currentPrompt = `${prompt}
+
+Sua resposta anterior foi:
+${content}
+
+Ela é inválida pelos seguintes motivos:
+- ${issues.join('\n- ')}
+
+Corrija a resposta e retorne APENAS o objeto JSON com EXATAMENTE 1 cena.`;
   }
   
-  return processedScenes;
+  throw new SceneGenerationError(
+    `Não foi possível gerar uma cena válida após ${MAX_SCENE_ATTEMPTS} tentativas`,
+    issues,
+    MAX_SCENE_ATTEMPTS
+  );
 }
 
 /**
- * Processa o texto gerado pela API e converte em objetos de cena estruturados
+ * Reescreve campos de uma cena seguindo uma instrução do usuário (ex: "deixe mais tensa")
+ * A proposta e as cenas vizinhas são usadas como contexto, para que a cena continue encaixada na história
  * 
- * @param {string} content - Texto bruto retornado pela API
- * @param {number} numScenes - Número esperado de cenas
- * @param {string} storyProposal - Proposta original da história
- * @returns {any[]} Array de objetos de cena processados
+ * @param {string} storyProposal - Proposta da história
+ * @param {any} scene - Cena a ser reescrita
+ * @param {any[]} previousScenes - Cenas anteriores à cena, em ordem
+ * @param {any} nextScene - Cena seguinte (opcional)
+ * @param {string} instruction - Instrução de reescrita
+ * @param {SceneRewriteField[]} fields - Campos a reescrever
+ * @param {GeneratedCharacter[]} [characters=[]] - Fichas dos personagens presentes na cena
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
+ * @returns {Promise<SceneRewrite>} Os novos textos dos campos pedidos
+ * @throws {SceneGenerationError} Se nenhuma tentativa produzir uma reescrita válida
  */
-function processScenes(content: string, numScenes: number, storyProposal: string): any[] {
-  const scenes = [];
+export async function rewriteScene(
+  storyProposal: string,
+  scene: any,
+  previousScenes: any[],
+  nextScene: any,
+  instruction: string,
+  fields: SceneRewriteField[],
+  characters: GeneratedCharacter[] = [],
+  language: string = DEFAULT_LANGUAGE
+): Promise<SceneRewrite> {
+  const previousContext = generateContextFromPreviousScenes(previousScenes);
+  const nextContext = nextScene
+    ? `A cena seguinte é: ${nextScene.description}. ${nextScene.narration}`
+    : 'Esta é a última cena da história.';
   
-  // Dividir por "Cena X:"
-  const sceneBlocks = content.split(/Cena\s+\d+\s*:/i);
+  const characterInstructions = characters.length > 0 ? `
+
+PERSONAGENS:
+${formatCharacterBible(characters)}
+- Mantenha os nomes, a aparência e a forma de falar de cada personagem` : '';
   
-  for (let i = 1; i < sceneBlocks.length; i++) {
-    const block = sceneBlocks[i].trim();
+  const prompt = `Baseado na seguinte história: "${storyProposal}", reescreva uma cena seguindo esta instrução: "${instruction}".
+${previousContext || 'Esta é a primeira cena da história.'}
+${nextContext}
+
+CENA ATUAL:
+Título: ${scene.title}
+Descrição: ${scene.description}
+Narração: ${scene.narration}
+Diálogo:
+${formatDialogue(scene.dialogue) || '(sem diálogo)'}
+
+FORMATO ESPERADO:
+Responda APENAS com um objeto JSON válido, sem texto antes ou depois, no formato:
+${buildSceneRewriteExample(fields)}${characterInstructions}
+
+IMPORTANTE:
+- Todo o texto deve estar em ${getLanguageName(language)}
+- Reescreva APENAS os campos do exemplo, aplicando a instrução
+- A cena deve continuar ligando a cena anterior à seguinte`;
+  
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+  
+  for (let attempt = 1; attempt <= MAX_SCENE_ATTEMPTS; attempt++) {
+    const content = await getTextProvider().generateText({
+      task: 'rewrite',
+      prompt: currentPrompt,
+      temperature: 0.7,
+      maxTokens: 1000,
+      responseFormat: 'json',
+      context: {
+        storyProposal,
+        instruction,
+        fields,
+        scene: { title: scene.title, description: scene.description, narration: scene.narration, dialogue: scene.dialogue },
+        characterNames: characters.map(character => character.name),
+        language,
+      },
+    });
     
-    const titleMatch = block.match(/Título\s*:\s*(.*?)(?:\r?\n|$)/i);
-    const descMatch = block.match(/Descrição\s*:\s*([\s\S]*?)(?=Narração\s*:|Diálogo\s*:|$)/i);
-    const narrMatch = block.match(/Narração\s*:\s*([\s\S]*?)(?=Diálogo\s*:|$)/i);
-    const diagMatch = block.match(/Diálogo\s*:\s*([\s\S]*?)$/i);
+    const result = validateSceneRewrite(content, fields);
+    if (result.rewrite) return result.rewrite;
     
-    scenes.push({
-      title: titleMatch && titleMatch[1] ? titleMatch[1].trim() : `Cena ${i}`,
-      description: descMatch && descMatch[1] ? descMatch[1].trim() : '',
-      narration: narrMatch && narrMatch[1] ? narrMatch[1].trim() : '',
-      dialogue: diagMatch && diagMatch[1] ? diagMatch[1].trim() : ''
-    });
+    issues = result.issues;
+    console.warn(`Tentativa ${attempt} de ${MAX_SCENE_ATTEMPTS} gerou uma reescrita inválida:`, issues);
+    
+    currentPrompt = `${prompt}
+
+Sua resposta anterior foi:
+${content}
+
+Ela é inválida pelos seguintes motivos:
+- ${issues.join('\n- ')}
+
+Corrija a resposta e retorne APENAS o objeto JSON com os campos pedidos.`;
   }
   
-  // Processamento alternativo se necessário
-  if (scenes.length === 0) {
-    const lines = content.split('\n');
-    let currentScene = null;
-    let currentField = null;
-    
-    for (let line of lines) {
-      line = line.trim();
-      
-      const sceneMatch = line.match(/^Cena\s+(\d+)\s*:?\s*$/i);
-      if (sceneMatch) {
-        if (currentScene) scenes.push(currentScene);
-        currentScene = {
-          title: `Cena ${sceneMatch[1]}`,
-          description: '',
-          narration: '',
-          dialogue: ''
-        };
-        currentField = null;
-        continue;
-      }
-      
-      if (!currentScene) continue;
-      
-      // Detectar campos
-      if (line.match(/^Título\s*:/i)) {
-        currentField = 'title';
-        const value = line.replace(/^Título\s*:\s*/i, '').trim();
-        if (value) currentScene.title = value;
-      } 
-      else if (line.match(/^Descrição\s*:/i)) {
-        currentField = 'description';
-        const value = line.replace(/^Descrição\s*:\s*/i, '').trim();
-        if (value) currentScene.description = value;
-      } 
-      else if (line.match(/^Narração\s*:/i)) {
-        currentField = 'narration';
-        const value = line.replace(/^Narração\s*:\s*/i, '').trim();
-        if (value) currentScene.narration = value;
-      } 
-      else if (line.match(/^Diálogo\s*:/i)) {
-        currentField = 'dialogue';
-        const value = line.replace(/^Diálogo\s*:\s*/i, '').trim();
-        if (value) currentScene.dialogue = value;
-      } 
-      else if (currentField && line) {
-        // Adicionar ao campo atual
-        if (currentField === 'title') {
-          currentScene.title = currentScene.title ? `${currentScene.title} ${line}` : line;
-        } else if (currentField === 'description') {
-          currentScene.description = currentScene.description ? `${currentScene.description}\n${line}` : line;
-        } else if (currentField === 'narration') {
-          currentScene.narration = currentScene.narration ? `${currentScene.narration}\n${line}` : line;
-        } else if (currentField === 'dialogue') {
-          currentScene.dialogue = currentScene.dialogue ? `${currentScene.dialogue}\n${line}` : line;
-        }
-      }
-    }
+  throw new SceneGenerationError(
+    `Não foi possível reescrever a cena após ${MAX_SCENE_ATTEMPTS} tentativas`,
+    issues,
+    MAX_SCENE_ATTEMPTS
+  );
+}
+
+/**
+ * Formata as fichas dos personagens para o prompt de cenas
+ * 
+ * @param {GeneratedCharacter[]} characters - Fichas dos personagens
+ * @returns {string} Uma linha por personagem
+ */
+function formatCharacterBible(characters: GeneratedCharacter[]): string {
+  return characters.map(character => {
+    const details = [
+      character.physicalDescription && `aparência: ${character.physicalDescription}`,
+      character.clothing && `roupas: ${character.clothing}`,
+      character.personality && `personalidade: ${character.personality}`,
+      character.speechStyle && `forma de falar: ${character.speechStyle}`,
+    ].filter(Boolean).join('; ');
     
-    if (currentScene) scenes.push(currentScene);
-  }
+    return `- ${character.name}${character.role ? ` (${character.role})` : ''}${details ? `: ${details}` : ''}`;
+  }).join('\n');
+}
+
+/**
+ * Recebe a resposta de cenas em streaming, avisando cada trecho e cada cena completa
+ * 
+ * @param {TextGenerationRequest} request - Requisição de geração das cenas
+ * @param {SceneGenerationListener} listener - Callbacks de progresso
+ * @returns {Promise<string>} Texto completo da resposta
+ */
+async function streamScenes(request: TextGenerationRequest, listener: SceneGenerationListener): Promise<string> {
+  let received = '';
+  let emittedScenes = 0;
   
-  // Criar cenas padrão se necessário
-  if (scenes.length === 0) {
-    for (let i = 0; i < numScenes; i++) {
-      scenes.push({
-        title: `Cena ${i + 1}`,
-        description: `Parte ${i + 1} da história sobre "${storyProposal.substring(0, 30)}..."`,
-        narration: "Cena sem conteúdo específico.",
-        dialogue: ""
-      });
+  return getTextProvider().streamText(request, token => {
+    received += token;
+    if (listener.onToken) listener.onToken(token);
+    
+    // Uma cena só pode ter sido concluída quando chega um fechamento de objeto
+    if (!listener.onScene || token.indexOf('}') === -1) return;
+    
+    const completeScenes = extractCompleteScenes(received);
+    for (; emittedScenes < completeScenes.length; emittedScenes++) {
+      listener.onScene(completeScenes[emittedScenes], emittedScenes);
     }
-  }
-  
-  return scenes;
+  });
 }
 
 /**
  * Gera amostras de estilo visual para uma história
+ * O prompt é montado com o template "style-samples"
  * 
  * @param {string} storyProposal - Proposta da história
  * @param {string} style - Estilo visual desejado
  * @param {number} count - Número de amostras a serem geradas (padrão: 3)
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
  * @returns {Promise<string[]>} Array de descrições de estilos visuais
  */
-export async function generateStyleSamples(storyProposal: string, style: string, count: number = 3): Promise<string[]> {
+export async function generateStyleSamples(storyProposal: string, style: string, count: number = 3, language: string = DEFAULT_LANGUAGE): Promise<string[]> {
   const sampleCount = Math.min(Math.max(count, 1), 5);
   
-  const prompt = `Baseado na história: "${storyProposal}", crie ${sampleCount} descrições detalhadas para imagens 
-  no estilo visual "${style}". Cada descrição deve:
-  
-  1. Representar uma cena diferente da história
-  2. Ser detalhada o suficiente para um gerador de imagens AI
-  3. Focar em elementos visuais como personagens, ambiente, iluminação, cores, perspectiva 
-  4. Estar em português do Brasil
-  
-  Enumere cada descrição (1., 2., etc.) e use linguagem detalhada e visual.`;
+  const prompt = renderPrompt('style-samples', { proposal: storyProposal, style, count: sampleCount, language: getLanguageName(language) });
   
-  const response = await openai.chat.completions.create({
-    model: "gpt-4",
-    messages: [{ role: "user", content: prompt }],
+  const content = await getTextProvider().generateText({
+    task: 'style-samples',
+    prompt,
+    context: { storyProposal, style, count: sampleCount, language },
   });
   
-  const content = extractContent(response);
   const descriptions = content.split(/\d+\.\s/).filter(s => s.trim().length > 0);
   
   return descriptions.slice(0, sampleCount);
@@ -0,0 +1,80 @@
+/**
+ * Cliente compartilhado da API OpenAI
+ * Criado apenas no primeiro uso, para que o servidor possa iniciar sem a chave da API
+ */
+
+import OpenAI from "openai";
+import dotenv from 'dotenv';
+import { ProviderFailureError } from '../utils/errors';
+import { callWithResilience } from './resilience';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+let client: OpenAI | null = null;
+
+/**
+ * Indica se a chave da API OpenAI está configurada
+ * 
+ * @returns {boolean} Verdadeiro se OPENAI_API_KEY estiver definida
+ */
+export function hasOpenAIKey(): boolean {
+  return !!process.env.OPENAI_API_KEY;
+}
+
+/**
+ * Obtém o cliente da API OpenAI, criando-o no primeiro uso
+ * 
+ * @returns {OpenAI} Cliente configurado com a chave do ambiente
+ * @throws {Error} Se OPENAI_API_KEY não estiver definida
+ */
+export function getOpenAIClient(): OpenAI {
+  if (!client) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) throw new Error('OPENAI_API_KEY não encontrada no arquivo .env');
+
+    // As novas tentativas ficam a cargo de callOpenAI, com o disjuntor de cada provedor
+    client = new OpenAI({ apiKey, maxRetries: 0 });
+  }
+  return client;
+}
+
+/**
+ * Converte os erros da API OpenAI (limite de requisições, indisponibilidade, conteúdo recusado...)
+ * em falhas do provedor; os demais erros são devolvidos sem alteração
+ * 
+ * @param {unknown} error - Erro lançado pela chamada
+ * @returns {unknown} O erro a ser lançado
+ */
+export function toProviderFailure(error: unknown): unknown {
+  if (!(error instanceof OpenAI.APIError)) return error;
+  return new ProviderFailureError(`Falha na API da OpenAI: ${error.message}`, 'PROVIDER_FAILURE', { providerStatus: error.status });
+}
+
+/**
+ * Indica se um erro da API OpenAI é passageiro: limite de requisições, erro do servidor ou falha de conexão
+ * A falta de créditos também é respondida com o status 429, mas não se resolve com novas tentativas
+ *
+ * @param {unknown} error - Erro lançado pela chamada
+ * @returns {boolean} true se a chamada pode ser repetida
+ */
+export function isTransientOpenAIError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (!(error instanceof OpenAI.APIError) || error.status === undefined) return false;
+  if (error.status === 429) return error.code !== 'insufficient_quota';
+  return error.status >= 500;
+}
+
+/**
+ * Chama a API OpenAI com tempo limite, novas tentativas e o disjuntor do provedor
+ * Os erros da API são convertidos em falhas do provedor
+ *
+ * @param {string} provider - Nome do provedor que faz a chamada, que identifica o disjuntor
+ * @param {Function} call - Chamada à API, que deve repassar o sinal recebido ao cliente
+ * @param {Function} [canRetry] - Indica se a chamada ainda pode ser repetida (opcional)
+ * @returns {Promise<T>} Resultado da chamada
+ */
+export function callOpenAI<T>(provider: string, call: (signal: AbortSignal) => Promise<T>, canRetry?: () => boolean): Promise<T> {
+  return callWithResilience(provider, call, { isTransient: isTransientOpenAIError, canRetry })
+    .catch(error => { throw toProviderFailure(error); });
+}
@@ -0,0 +1,257 @@
+/**
+ * Templates dos prompts enviados aos provedores de texto e imagem
+ * Cada template tem variáveis tipadas e um texto padrão; os textos editados pelos administradores
+ * ou por uma história são fornecidos por quem se inscreve com setPromptTemplateResolver
+ *
+ * Sintaxe dos templates:
+ * - {{variavel}}: valor da variável
+ * - {{#variavel}}...{{/variavel}}: trecho incluído quando o valor não é vazio nem zero
+ * - {{^variavel}}...{{/variavel}}: trecho incluído quando o valor é vazio ou zero
+ */
+
+import { PromptTemplateName, PromptVariable } from '../models/PromptTemplate';
+import { PromptRenderError } from '../utils/errors';
+
+/**
+ * Valores das variáveis de um template
+ */
+export type PromptVariables = { [name: string]: string | number | undefined };
+
+/**
+ * Definição de um template: uso, variáveis disponíveis e texto padrão
+ *
+ * @interface PromptTemplateDefinition
+ * @property {string} description - Uso do template
+ * @property {PromptVariable[]} variables - Variáveis disponíveis
+ * @property {string} body - Texto padrão
+ */
+export interface PromptTemplateDefinition {
+  description: string;
+  variables: PromptVariable[];
+  body: string;
+}
+
+type PromptTemplateResolver = (name: PromptTemplateName) => string | undefined;
+
+// Marcação de uma variável ou de um trecho condicional
+const TAG_PATTERN = /\{\{\s*([#^\/]?)\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+// Trecho dos prompts de imagem com a aparência fixa dos personagens
+const CHARACTER_APPEARANCE_SECTION = '{{#characters}} Characters in this image, always drawn with exactly this appearance: {{characters}}.{{/characters}}';
+
+/**
+ * Templates da aplicação
+ * Os prompts de imagem ficam em inglês, qualquer que seja o idioma da história
+ */
+export const PROMPT_TEMPLATE_DEFINITIONS: { [name in PromptTemplateName]: PromptTemplateDefinition } = {
+  proposal: {
+    description: 'Proposta da história, criada a partir do briefing',
+    variables: [
+      { name: 'briefing', type: 'text', description: 'Briefing enviado pelo usuário' },
+      { name: 'language', type: 'text', description: 'Nome do idioma da história' },
+    ],
+    body: `Crie uma história linear envolvente baseada no seguinte briefing: {{briefing}}.
+  IMPORTANTE: Retorne APENAS um resumo da história sem divisão em cenas.
+  Use um parágrafo para introduzir a premissa, alguns para o desenvolvimento e um para o desfecho.
+  NÃO divida o texto em cenas, personagens ou capítulos numerados.
+  Escreva em {{language}}, com no máximo 300 palavras totais.`,
+  },
+  scenes: {
+    description: 'Cenas da história, geradas a partir da proposta; a resposta deve seguir o formato JSON da variável format',
+    variables: [
+      { name: 'proposal', type: 'text', description: 'Proposta da história' },
+      { name: 'numScenes', type: 'number', description: 'Número de cenas (3 a 15)' },
+      { name: 'decisionPoints', type: 'number', description: 'Número de pontos de decisão (0 para uma história linear)' },
+      { name: 'characters', type: 'text', description: 'Fichas dos personagens, uma por linha (vazio sem personagens)' },
+      { name: 'format', type: 'text', description: 'Exemplo do objeto JSON esperado na resposta' },
+      { name: 'language', type: 'text', description: 'Nome do idioma da história' },
+    ],
+    body: `Baseado na seguinte história: "{{proposal}}", crie EXATAMENTE {{numScenes}} cenas {{#decisionPoints}}interligadas{{/decisionPoints}}{{^decisionPoints}}sequenciais{{/decisionPoints}}.
+  VOCÊ DEVE CRIAR EXATAMENTE {{numScenes}} CENAS, NÃO MAIS E NÃO MENOS.
+
+FORMATO ESPERADO:
+Responda APENAS com um objeto JSON válido, sem texto antes ou depois, no formato:
+{{format}}{{#decisionPoints}}
+
+RAMIFICAÇÃO:
+- A história deve ter EXATAMENTE {{decisionPoints}} pontos de decisão, em que o leitor escolhe o caminho
+- Em cada ponto de decisão, preencha "choices" com pelo menos 2 escolhas levando a cenas diferentes
+- Em cada escolha, "target" é o número da cena de destino (a primeira cena é 1)
+- Cenas sem escolhas seguem automaticamente para a cena seguinte
+- Cenas que encerram um caminho devem ter "isEnding": true
+- A história deve ter mais de um final e todas as cenas devem ser alcançáveis a partir da cena 1{{/decisionPoints}}{{#characters}}
+
+PERSONAGENS:
+{{characters}}
+- Use exatamente estes nomes e mantenha a aparência, as roupas e a forma de falar de cada personagem em todas as cenas
+- Em cada cena, liste em "characters" os nomes dos personagens presentes{{/characters}}
+
+IMPORTANTE:
+- Todo o texto deve estar em {{language}}
+- Cada cena deve ter um título descritivo
+- As descrições devem ser visuais e específicas
+- Os diálogos devem ser naturais e interessantes
+- Cada fala é um item de "dialogue", com o nome de quem fala em "speaker" e o texto sem aspas em "text"
+- O array "scenes" deve conter EXATAMENTE {{numScenes}} cenas, na ordem da história`,
+  },
+  'style-samples': {
+    description: 'Descrições das amostras de um estilo visual; a resposta deve enumerar as descrições (1., 2., ...)',
+    variables: [
+      { name: 'proposal', type: 'text', description: 'Proposta da história' },
+      { name: 'style', type: 'text', description: 'Estilo visual escolhido' },
+      { name: 'count', type: 'number', description: 'Número de descrições (1 a 5)' },
+      { name: 'language', type: 'text', description: 'Nome do idioma da história' },
+    ],
+    body: `Baseado na história: "{{proposal}}", crie {{count}} descrições detalhadas para imagens
+  no estilo visual "{{style}}". Cada descrição deve:
+
+  1. Representar uma cena diferente da história
+  2. Ser detalhada o suficiente para um gerador de imagens AI
+  3. Focar em elementos visuais como personagens, ambiente, iluminação, cores, perspectiva
+  4. Estar em {{language}}
+
+  Enumere cada descrição (1., 2., etc.) e use linguagem detalhada e visual.`,
+  },
+  'scene-image': {
+    description: 'Imagem de uma cena; as instruções do estilo visual são acrescentadas ao resultado',
+    variables: [
+      { name: 'description', type: 'text', description: 'Prompt personalizado ou descrição da cena' },
+      { name: 'characters', type: 'text', description: 'Aparência dos personagens presentes (vazio sem personagens)' },
+      { name: 'sceneNumber', type: 'number', description: 'Número da cena, a partir de 1' },
+      { name: 'previousScenes', type: 'number', description: 'Número de cenas anteriores a esta' },
+      { name: 'previousImages', type: 'number', description: 'Número de imagens já geradas para as cenas anteriores' },
+    ],
+    body: `Create an image based on this description: {{#previousImages}}Keep the characters' appearance consistent with the previous scenes. {{/previousImages}}{{description}}${CHARACTER_APPEARANCE_SECTION}{{#previousScenes}} This is scene {{sceneNumber}} of a continuous sequence. Keep the same characters, with the same physical appearance, clothing and colors as the previous scenes.{{/previousScenes}}`,
+  },
+  'visual-sample': {
+    description: 'Imagem de amostra de um estilo visual; as instruções do estilo são acrescentadas ao resultado',
+    variables: [
+      { name: 'subject', type: 'text', description: 'Assunto da ilustração, como o início da proposta (vazio nas prévias de presets)' },
+      { name: 'characters', type: 'text', description: 'Aparência dos personagens principais (vazio sem personagens)' },
+    ],
+    body: `Illustration with people{{#subject}} showing: {{subject}}{{/subject}}.${CHARACTER_APPEARANCE_SECTION}`,
+  },
+};
+
+let resolver: PromptTemplateResolver | null = null;
+
+/**
+ * Define quem fornece os textos editados dos templates
+ * Sem resolvedor, ou quando ele não retorna texto, é usado o texto padrão
+ *
+ * @param {PromptTemplateResolver | null} newResolver - Função que retorna o texto em uso de um template
+ */
+export function setPromptTemplateResolver(newResolver: PromptTemplateResolver | null): void {
+  resolver = newResolver;
+}
+
+/**
+ * Monta um prompt com o texto em uso do template
+ *
+ * @param {PromptTemplateName} name - Nome do template
+ * @param {PromptVariables} variables - Valores das variáveis
+ * @returns {string} Prompt pronto para o provedor
+ * @throws {PromptRenderError} Se o template for inválido ou faltar o valor de alguma variável usada
+ */
+export function renderPrompt(name: PromptTemplateName, variables: PromptVariables): string {
+  const body = resolver ? resolver(name) : undefined;
+  return renderTemplate(name, body === undefined ? PROMPT_TEMPLATE_DEFINITIONS[name].body : body, variables);
+}
+
+/**
+ * Monta um prompt a partir de um texto de template
+ *
+ * @param {PromptTemplateName} name - Nome do template, que define as variáveis disponíveis
+ * @param {string} body - Texto do template
+ * @param {PromptVariables} variables - Valores das variáveis
+ * @returns {string} Prompt pronto para o provedor
+ * @throws {PromptRenderError} Se o template for inválido ou faltar o valor de alguma variável usada
+ */
+export function renderTemplate(name: PromptTemplateName, body: string, variables: PromptVariables): string {
+  const definitions = PROMPT_TEMPLATE_DEFINITIONS[name].variables;
+  const tags = parseTags(body);
+  const issues = findTemplateIssues(name, body);
+
+  tags
+    .map(tag => tag.name)
+    .filter((variable, i, names) => names.indexOf(variable) === i)
+    .forEach(variable => {
+      const definition = definitions.find(candidate => candidate.name === variable);
+      if (!definition) return;
+
+      const value = variables[variable];
+      if (value === undefined || value === null) {
+        issues.push(`valor ausente para a variável {{${variable}}}`);
+      } else if (definition.type === 'number' ? typeof value !== 'number' || !isFinite(value) : typeof value !== 'string') {
+        issues.push(`a variável {{${variable}}} deve ser ${definition.type === 'number' ? 'um número' : 'um texto'}`);
+      }
+    });
+
+  if (issues.length > 0) throw new PromptRenderError(name, issues);
+
+  // Cada nível da pilha indica se o trecho atual é incluído no prompt
+  const visible = [true];
+  let output = '';
+  let position = 0;
+
+  tags.forEach(tag => {
+    const included = visible[visible.length - 1];
+    if (included) output += body.slice(position, tag.start);
+    position = tag.end;
+
+    const value = variables[tag.name];
+    if (tag.kind === '#') visible.push(included && !!value);
+    else if (tag.kind === '^') visible.push(included && !value);
+    else if (tag.kind === '/') visible.pop();
+    else if (included) output += String(value);
+  });
+
+  return output + body.slice(position);
+}
+
+/**
+ * Verifica a estrutura de um texto de template
+ *
+ * @param {PromptTemplateName} name - Nome do template, que define as variáveis disponíveis
+ * @param {string} body - Texto do template
+ * @returns {string[]} Problemas encontrados (vazio se o texto for válido)
+ */
+export function findTemplateIssues(name: PromptTemplateName, body: string): string[] {
+  const known = PROMPT_TEMPLATE_DEFINITIONS[name].variables.map(variable => variable.name);
+  const issues: string[] = [];
+  const openSections: string[] = [];
+
+  parseTags(body).forEach(tag => {
+    if (known.indexOf(tag.name) === -1) {
+      const issue = `variável desconhecida: {{${tag.name}}}`;
+      if (issues.indexOf(issue) === -1) issues.push(issue);
+    }
+
+    if (tag.kind === '#' || tag.kind === '^') {
+      openSections.push(tag.name);
+    } else if (tag.kind === '/' && openSections.pop() !== tag.name) {
+      issues.push(`{{/${tag.name}}} não fecha o último trecho aberto`);
+    }
+  });
+
+  openSections.forEach(section => issues.push(`o trecho {{#${section}}} não foi fechado`));
+  return issues;
+}
+
+/**
+ * Localiza as marcações de um texto de template
+ *
+ * @param {string} body - Texto do template
+ * @returns {Object[]} Tipo, variável e posição de cada marcação, na ordem do texto
+ */
+function parseTags(body: string): { kind: string; name: string; start: number; end: number }[] {
+  const tags: { kind: string; name: string; start: number; end: number }[] = [];
+  const pattern = new RegExp(TAG_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(body)) !== null) {
+    tags.push({ kind: match[1], name: match[2], start: match.index, end: match.index + match[0].length });
+  }
+
+  return tags;
+}
@@ -0,0 +1,50 @@
+/**
+ * Provedor de geração de imagens usando o DALL-E da OpenAI
+ */
+
+import { callOpenAI, getOpenAIClient } from '../openaiClient';
+import { GeneratedImage, ImageGenerationOptions, ImageProvider } from './imageProvider';
+import { reportUsage } from '../usage';
+import { ProviderFailureError } from '../../utils/errors';
+
+/**
+ * Gera imagens com o modelo DALL-E 3
+ */
+export class DalleImageProvider implements ImageProvider {
+  readonly name = 'dalle';
+
+  /**
+   * @param {string} model - Modelo de imagem a ser usado (padrão: dall-e-3)
+   */
+  constructor(readonly model: string = 'dall-e-3') {}
+
+  async generate(options: ImageGenerationOptions): Promise<GeneratedImage> {
+    const size = options.size || "1024x1024";
+    const quality = options.quality || "hd";
+    const response = await callOpenAI(this.name, signal => getOpenAIClient().images.generate({
+      model: this.model,
+      prompt: options.prompt,
+      n: 1,
+      size,
+      quality,
+      style: options.style || "vivid",
+    }, { signal }));
+
+    const image = response.data?.[0];
+    if (!image || !image.url) throw new ProviderFailureError('Resposta da API não contém uma imagem');
+
+    reportUsage({
+      kind: 'image',
+      provider: this.name,
+      model: this.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      imageCount: 1,
+      size,
+      quality,
+      estimated: false,
+    });
+
+    return { url: image.url, provider: this.name, revisedPrompt: image.revised_prompt };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Provedor de tradução usando o Google Tradutor (google-translate-open-api)
+ */
+
+import translate, { parseMultiple } from 'google-translate-open-api';
+import { TranslationProvider } from './translationProvider';
+import { ProviderFailureError } from '../../utils/errors';
+
+// Limite de caracteres enviados em cada requisição
+const MAX_REQUEST_LENGTH = 4000;
+
+/**
+ * Traduz textos com o Google Tradutor
+ * Os textos são traduzidos linha a linha, para preservar a divisão dos diálogos
+ */
+export class GoogleTranslationProvider implements TranslationProvider {
+  readonly name = 'google';
+
+  async translate(texts: string[], from: string, to: string): Promise<string[]> {
+    // Linhas repetidas (ex: nomes de personagens) são traduzidas uma única vez
+    const lines: string[] = [];
+    texts.forEach(text => text.split('\n').forEach(line => {
+      if (line.trim() !== '' && lines.indexOf(line) === -1) lines.push(line);
+    }));
+
+    const translatedLines: { [line: string]: string } = {};
+    for (const batch of splitIntoBatches(lines)) {
+      const translated = await this.translateBatch(batch, from, to);
+      batch.forEach((line, index) => { translatedLines[line] = translated[index]; });
+    }
+
+    return texts.map(text => text.split('\n').map(line => line.trim() === '' ? line : translatedLines[line]).join('\n'));
+  }
+
+  /**
+   * Traduz um lote de linhas em uma única requisição
+   *
+   * @param {string[]} lines - Linhas a traduzir
+   * @param {string} from - Idioma de origem
+   * @param {string} to - Idioma de destino
+   * @returns {Promise<string[]>} Linhas traduzidas, na mesma ordem
+   * @throws {ProviderFailureError} Se a resposta não tiver uma tradução para cada linha
+   */
+  private async translateBatch(lines: string[], from: string, to: string): Promise<string[]> {
+    // Vários textos são enviados como HTML, então os caracteres especiais precisam de escape
+    const result = await translate(lines.map(escapeHtml), {
+      tld: 'com',
+      from: toGoogleLanguage(from),
+      to: toGoogleLanguage(to),
+    });
+
+    const data = result.data[0];
+    const translated: string[] = typeof data === 'string' ? [data] : parseMultiple(data);
+    if (!Array.isArray(translated) || translated.length !== lines.length) {
+      throw new ProviderFailureError('Resposta inesperada do Google Tradutor', 'TRANSLATION_FAILED');
+    }
+
+    return translated.map(line => unescapeHtml(line));
+  }
+}
+
+/**
+ * Agrupa as linhas em lotes que respeitam o limite de tamanho das requisições
+ *
+ * @param {string[]} lines - Linhas a traduzir
+ * @returns {string[][]} Lotes de linhas
+ */
+function splitIntoBatches(lines: string[]): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  lines.forEach(line => {
+    if (current.length > 0 && length + line.length > MAX_REQUEST_LENGTH) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(line);
+    length += line.length;
+  });
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
+
+/**
+ * Converte um código BCP 47 para o código usado pelo Google Tradutor
+ *
+ * @param {string} code - Código do idioma (ex: "pt-BR")
+ * @returns {string} Código aceito pelo Google (ex: "pt")
+ */
+function toGoogleLanguage(code: string): string {
+  return code === 'pt-BR' ? 'pt' : code;
+}
+
+/**
+ * Escapa os caracteres especiais de HTML
+ *
+ * @param {string} text - Texto original
+ * @returns {string} Texto escapado
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Reverte as entidades HTML devolvidas pelo Google Tradutor
+ *
+ * @param {string} text - Texto traduzido
+ * @returns {string} Texto sem entidades
+ */
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
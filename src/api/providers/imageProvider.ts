@@ -0,0 +1,105 @@
+/**
+ * Abstração de provedores de geração de imagens
+ * Permite trocar o DALL-E por um gerador local de imagens procedurais, sem rede
+ */
+
+import dotenv from 'dotenv';
+import { hasOpenAIKey } from '../openaiClient';
+import { DalleImageProvider } from './dalleImageProvider';
+import { LocalImageProvider } from './localImageProvider';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+export type ImageSize = '1024x1024' | '1792x1024' | '1024x1792';
+export type ImageQuality = 'standard' | 'hd';
+export type ImageStyle = 'vivid' | 'natural';
+
+/**
+ * Opções de geração de uma imagem
+ * 
+ * @interface ImageGenerationOptions
+ * @property {string} prompt - Prompt final enviado ao gerador
+ * @property {ImageSize} size - Dimensões da imagem (padrão: 1024x1024)
+ * @property {ImageQuality} quality - Qualidade da imagem (padrão: hd)
+ * @property {ImageStyle} style - Estilo de renderização do DALL-E (padrão: vivid)
+ * @property {Object} metadata - Informações da cena usadas por provedores locais (opcional)
+ */
+export interface ImageGenerationOptions {
+  prompt: string;
+  size?: ImageSize;
+  quality?: ImageQuality;
+  style?: ImageStyle;
+  metadata?: {
+    title?: string;
+    sceneNumber?: number;
+    visualStyle?: string;
+  };
+}
+
+/**
+ * Imagem gerada por um provedor
+ * 
+ * @interface GeneratedImage
+ * @property {string} url - URL da imagem (http ou data URL)
+ * @property {string} provider - Nome do provedor que gerou a imagem
+ * @property {string} revisedPrompt - Prompt reescrito pelo provedor, quando houver
+ */
+export interface GeneratedImage {
+  url: string;
+  provider: string;
+  revisedPrompt?: string;
+}
+
+/**
+ * Provedor de geração de imagens
+ * 
+ * @interface ImageProvider
+ */
+export interface ImageProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(options: ImageGenerationOptions): Promise<GeneratedImage>;
+}
+
+let provider: ImageProvider | null = null;
+
+/**
+ * Cria o provedor configurado pela variável IMAGE_PROVIDER ("dalle" ou "local")
+ * Sem configuração, usa o DALL-E quando há chave da API e o provedor local caso contrário
+ * 
+ * @returns {ImageProvider} O provedor de imagens
+ * @throws {Error} Se o provedor configurado não for suportado
+ */
+function createImageProvider(): ImageProvider {
+  const configured = (process.env.IMAGE_PROVIDER || '').toLowerCase();
+
+  if (configured === 'dalle') return new DalleImageProvider();
+  if (configured === 'local') return new LocalImageProvider();
+  if (configured) throw new Error(`IMAGE_PROVIDER inválido: ${configured}. Use "dalle" ou "local".`);
+
+  if (hasOpenAIKey()) return new DalleImageProvider();
+
+  console.warn('OPENAI_API_KEY não configurada: usando o provedor de imagens local.');
+  return new LocalImageProvider();
+}
+
+/**
+ * Obtém o provedor de imagens em uso, criando-o no primeiro acesso
+ * 
+ * @returns {ImageProvider} O provedor de imagens
+ */
+export function getImageProvider(): ImageProvider {
+  if (!provider) provider = createImageProvider();
+  return provider;
+}
+
+/**
+ * Substitui o provedor de imagens em uso
+ * Útil para testes e demonstrações
+ * 
+ * @param {ImageProvider} newProvider - Provedor a ser usado
+ */
+export function setImageProvider(newProvider: ImageProvider): void {
+  provider = newProvider;
+}
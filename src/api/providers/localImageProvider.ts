@@ -0,0 +1,151 @@
+/**
+ * Provedor de imagens local que renderiza ilustrações procedurais em SVG
+ * A mesma requisição sempre gera a mesma imagem, o que permite desenvolver e testar sem rede
+ */
+
+import { GeneratedImage, ImageGenerationOptions, ImageProvider } from './imageProvider';
+import { reportUsage } from '../usage';
+
+/**
+ * Paletas associadas a palavras-chave de estilo (português e inglês)
+ * A primeira paleta cuja palavra-chave aparecer no estilo é usada
+ */
+const STYLE_PALETTES: { keywords: string[]; colors: string[] }[] = [
+  { keywords: ['aquarela', 'watercolor'], colors: ['#d6eaf8', '#a9cce3', '#f5b7b1', '#a3e4d7', '#f9e79f'] },
+  { keywords: ['pastel'], colors: ['#fdebd0', '#e8daef', '#d5f5e3', '#fadbd8', '#d6eaf8'] },
+  { keywords: ['óleo', 'oil'], colors: ['#4a235a', '#7b241c', '#b9770e', '#1e8449', '#d4ac0d'] },
+  { keywords: ['anime'], colors: ['#85c1e9', '#f1948a', '#f7dc6f', '#bb8fce', '#ffffff'] },
+  { keywords: ['cartoon'], colors: ['#f4d03f', '#e74c3c', '#3498db', '#2ecc71', '#ffffff'] },
+  { keywords: ['pixel'], colors: ['#1b2631', '#28b463', '#e67e22', '#5dade2', '#f4f6f7'] },
+  { keywords: ['realista', 'realistic', 'photo', 'fotorrealista'], colors: ['#566573', '#aab7b8', '#7e5109', '#1a5276', '#f0f3f4'] }
+];
+
+/**
+ * Gera imagens SVG determinísticas a partir do prompt e dos metadados da cena
+ */
+export class LocalImageProvider implements ImageProvider {
+  readonly name = 'local';
+  readonly model = 'local';
+
+  async generate(options: ImageGenerationOptions): Promise<GeneratedImage> {
+    const [width, height] = (options.size || '1024x1024').split('x').map(Number);
+    const metadata = options.metadata || {};
+    const hash = hashText(`${options.prompt}|${metadata.visualStyle || ''}|${metadata.sceneNumber || ''}`);
+    const palette = getPalette(metadata.visualStyle || options.prompt, hash);
+
+    const title = metadata.title || options.prompt.split(/\s+/).slice(0, 6).join(' ');
+    const label = metadata.sceneNumber ? `Cena ${metadata.sceneNumber}` : 'Amostra';
+
+    // Formas decorativas posicionadas a partir do hash do prompt
+    const shapes = [];
+    let state = hash;
+    for (let i = 0; i < 6; i++) {
+      state = nextState(state);
+      const cx = state % width;
+      state = nextState(state);
+      const cy = state % Math.floor(height * 0.75);
+      state = nextState(state);
+      const radius = 60 + (state % Math.floor(width / 5));
+      shapes.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${palette[2 + (i % 3)]}" fill-opacity="0.55"/>`);
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${palette[0]}"/>
+      <stop offset="1" stop-color="${palette[1]}"/>
+    </linearGradient>
+  </defs>
+  <rect width="${width}" height="${height}" fill="url(#bg)"/>
+  ${shapes.join('\n  ')}
+  <rect x="0" y="${height - 180}" width="${width}" height="180" fill="#000000" fill-opacity="0.45"/>
+  <text x="40" y="${height - 110}" font-family="sans-serif" font-size="36" fill="#ffffff" fill-opacity="0.8">${escapeXml(label)}</text>
+  <text x="40" y="${height - 55}" font-family="sans-serif" font-size="44" font-weight="bold" fill="#ffffff">${escapeXml(truncate(title, 40))}</text>
+</svg>`;
+
+    reportUsage({
+      kind: 'image',
+      provider: this.name,
+      model: this.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      imageCount: 1,
+      size: options.size || '1024x1024',
+      quality: options.quality || 'hd',
+      estimated: false
+    });
+
+    return {
+      url: `data:image/svg+xml;base64,${Buffer.from(svg, 'utf-8').toString('base64')}`,
+      provider: this.name
+    };
+  }
+}
+
+/**
+ * Escolhe a paleta de cores pelo estilo ou, sem correspondência, pelo hash
+ *
+ * @param {string} style - Estilo visual ou prompt
+ * @param {number} hash - Hash da requisição
+ * @returns {string[]} Lista de cinco cores
+ */
+function getPalette(style: string, hash: number): string[] {
+  const lowerStyle = style.toLowerCase();
+  const match = STYLE_PALETTES.find(palette => palette.keywords.some(keyword => lowerStyle.includes(keyword)));
+  return match ? match.colors : STYLE_PALETTES[hash % STYLE_PALETTES.length].colors;
+}
+
+/**
+ * Calcula o hash FNV-1a de um texto como inteiro positivo
+ *
+ * @param {string} text - Texto de entrada
+ * @returns {number} Hash do texto
+ */
+function hashText(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Avança o estado do gerador pseudoaleatório (xorshift)
+ *
+ * @param {number} state - Estado atual
+ * @returns {number} Próximo estado, sempre positivo
+ */
+function nextState(state: number): number {
+  let x = state || 1;
+  x ^= x << 13;
+  x ^= x >>> 17;
+  x ^= x << 5;
+  return x >>> 0;
+}
+
+/**
+ * Limita um texto a um número de caracteres, adicionando reticências
+ *
+ * @param {string} text - Texto original
+ * @param {number} maxLength - Tamanho máximo
+ * @returns {string} Texto truncado
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text;
+}
+
+/**
+ * Escapa caracteres especiais para uso em XML
+ *
+ * @param {string} text - Texto original
+ * @returns {string} Texto seguro para SVG
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
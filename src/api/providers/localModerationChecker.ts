@@ -0,0 +1,88 @@
+/**
+ * Verificador de moderação local, sem rede
+ * Sinaliza textos que contêm palavras ou expressões das regras, em português e em inglês
+ */
+
+import { ModerationVerdict } from '../../models/Moderation';
+import { ModerationChecker } from './moderationProvider';
+
+/**
+ * Regra de moderação: uma expressão aplicada ao texto em minúsculas e sem acentos
+ *
+ * @interface ModerationRule
+ * @property {string} category - Categoria informada quando a regra é violada
+ * @property {RegExp} pattern - Expressão que identifica o conteúdo
+ */
+export interface ModerationRule {
+  category: string;
+  pattern: RegExp;
+}
+
+// Regras padrão, voltadas para histórias lidas por crianças e adolescentes
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+  { category: 'violência explícita', pattern: /\b(decapit|esquartej|estripa|mutila|dismember|disembowel|behead|gore\b)/ },
+  { category: 'conteúdo sexual', pattern: /\b(sexo|sexual|sexy|nudez|pornogra|porno\b|porn\b|erotic|nude\b|naked\b)/ },
+  { category: 'drogas', pattern: /\b(cocaina|heroina|metanfetamina|maconha|cocaine|heroin|methamphetamine|marijuana)\b/ },
+  { category: 'automutilação', pattern: /\b(suicid|automutila|self-harm|se matar|me matar|kill (myself|yourself|himself|herself))/ }
+];
+
+// Categoria das palavras e expressões configuradas em MODERATION_BLOCKED_TERMS
+const BLOCKED_TERM_CATEGORY = 'termo bloqueado';
+
+/**
+ * Coloca o texto em minúsculas e remove os acentos, para que as regras não dependam deles
+ *
+ * @param {string} text - Texto original
+ * @returns {string} Texto normalizado
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Converte a lista de termos bloqueados em regras
+ * Os termos são separados por vírgula; termos entre barras ("/expressão/") são expressões regulares
+ *
+ * @param {string} terms - Lista de termos
+ * @returns {ModerationRule[]} Uma regra por termo
+ * @throws {Error} Se alguma expressão regular for inválida
+ */
+export function parseBlockedTerms(terms: string): ModerationRule[] {
+  return terms
+    .split(',')
+    .map(term => term.trim())
+    .filter(term => term !== '')
+    .map(term => {
+      const regex = /^\/(.+)\/$/.exec(term);
+      const source = regex ? regex[1] : `\\b${normalizeText(term).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`;
+      return { category: BLOCKED_TERM_CATEGORY, pattern: new RegExp(source) };
+    });
+}
+
+/**
+ * Sinaliza os textos que violam alguma das regras
+ */
+export class LocalModerationChecker implements ModerationChecker {
+  readonly name = 'local';
+  private readonly rules: ModerationRule[];
+
+  /**
+   * @param {string} [blockedTerms] - Termos bloqueados além das regras padrão, separados por vírgula (opcional)
+   * @param {ModerationRule[]} [rules] - Regras padrão (opcional, padrão: DEFAULT_MODERATION_RULES)
+   */
+  constructor(blockedTerms?: string, rules: ModerationRule[] = DEFAULT_MODERATION_RULES) {
+    this.rules = rules.concat(parseBlockedTerms(blockedTerms || ''));
+  }
+
+  async check(texts: string[]): Promise<ModerationVerdict[]> {
+    return texts.map(text => {
+      const normalized = normalizeText(text || '');
+      const categories = this.rules
+        .filter(rule => rule.pattern.test(normalized))
+        .map(rule => rule.category)
+        .filter((category, i, all) => all.indexOf(category) === i);
+
+      return { flagged: categories.length > 0, categories };
+    });
+  }
+}
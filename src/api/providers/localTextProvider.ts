@@ -0,0 +1,409 @@
+/**
+ * Provedor de geração de texto local e determinístico
+ * Produz propostas, cenas, reescritas e personagens (em JSON) e descrições de estilo sem acesso à rede,
+ * nos mesmos formatos esperados das respostas da OpenAI e no idioma da história
+ */
+
+import { TextGenerationContext, TextGenerationProvider, TextGenerationRequest } from './textGeneration';
+import { estimateTokens, reportUsage } from '../usage';
+import { DEFAULT_LANGUAGE } from '../../utils/languages';
+
+// Nomes usados como protagonistas, iguais em todos os idiomas
+const HEROES = ['Lia', 'Tomás', 'Iara', 'Caio', 'Marina', 'Rafael'];
+
+/**
+ * Vocabulário e frases do texto gerado em um idioma
+ *
+ * @interface Vocabulary
+ */
+interface Vocabulary {
+  places: string[];
+  companions: string[];
+  objects: string[];
+  moods: string[];
+  looks: string[];
+  outfits: string[];
+  traits: string[];
+  speech: string[];
+  actions: string[];
+  lines: string[];
+  twists: string[];
+  articles: RegExp;
+  defaultTheme: string;
+  defaultStyle: string;
+  sceneTitle: string;
+  heroLine: { text: string; direction: string };
+  companionLine: string;
+  continueChoice: string;
+  branchChoice: string;
+  protagonistRole: string;
+  companionRole: string;
+  proposal(hero: string, place: string, companion: string, object: string, theme: string, actions: [string, string]): string[];
+  sceneDescription(hero: string, companion: string, place: string, mood: string, object: string): string;
+  sceneNarration(hero: string, action: string, companion: string): string;
+  rewrittenDescription(description: string, mood: string): string;
+  styleSample(index: number, style: string, hero: string, place: string, mood: string, object: string): string;
+}
+
+const PORTUGUESE: Vocabulary = {
+  places: ['uma vila à beira-mar', 'uma floresta antiga', 'uma cidade flutuante', 'um observatório abandonado', 'um mercado noturno', 'uma estação de trem esquecida'],
+  companions: ['um robô curioso', 'uma raposa falante', 'um velho cartógrafo', 'uma inventora distraída', 'um dragão tímido'],
+  objects: ['um mapa incompleto', 'uma chave de cristal', 'um relógio que anda para trás', 'uma carta sem remetente', 'uma bússola dourada'],
+  moods: ['ao entardecer', 'sob uma chuva fina', 'em uma manhã de neblina', 'à luz de lanternas', 'sob um céu estrelado'],
+  looks: ['cabelos cacheados castanhos e olhos verdes', 'cabelo curto preto e sardas no rosto', 'longas tranças ruivas e olhar atento', 'cabelos grisalhos e óculos redondos', 'pele morena e sorriso largo'],
+  outfits: ['casaco azul com botões dourados', 'capa verde-musgo e botas de couro', 'macacão amarelo cheio de bolsos', 'colete vermelho e cachecol listrado', 'túnica cinza e chapéu de abas largas'],
+  traits: ['curioso e teimoso', 'gentil e desconfiado', 'corajoso e impaciente', 'sábio e bem-humorado', 'tímido e leal'],
+  speech: ['fala rápido e faz muitas perguntas', 'fala pouco, com frases curtas e diretas', 'usa expressões antigas e fala devagar', 'brinca com as palavras e ri à toa', 'fala baixo e escolhe bem as palavras'],
+  actions: ['descobre uma passagem secreta', 'enfrenta uma tempestade repentina', 'decifra um enigma antigo', 'reencontra um velho amigo', 'faz uma promessa difícil'],
+  lines: ['Fiquem atentos, isso não me parece bom.', 'Você ouviu isso também?', 'Se der errado, pelo menos vai dar uma boa história!', 'Não temos muito tempo.', 'Confie em mim só mais esta vez.'],
+  twists: ['De repente, o silêncio fica pesado.', 'Um riso nervoso escapa no meio da tensão.', 'Cada passo parece durar uma eternidade.', 'Algo no ar anuncia que nada será como antes.', 'Um som distante faz todos pararem.'],
+  articles: /^(uma?|o|a)\s+/,
+  defaultTheme: 'uma aventura inesperada',
+  defaultStyle: 'realista',
+  sceneTitle: 'Cena',
+  heroLine: { text: 'Você também está vendo isso?', direction: 'surpreso' },
+  companionLine: 'Nunca vi nada igual.',
+  continueChoice: 'Seguir em frente',
+  branchChoice: 'Tomar outro caminho',
+  protagonistRole: 'protagonista',
+  companionRole: 'companheiro de aventura',
+  proposal: (hero, place, companion, object, theme, actions) => [
+    `${hero} vive em ${place} e sonha com algo além da rotina. Tudo muda quando encontra ${object}, ligado a ${theme}.`,
+    `Ao lado de ${companion}, ${hero} ${actions[0]} e percebe que ${object} guarda um segredo maior do que imaginava. Cada passo exige coragem e escolhas que testam sua amizade.`,
+    `No fim, ${hero} ${actions[1]} e volta para casa transformado, entendendo que a verdadeira descoberta estava na jornada.`
+  ],
+  sceneDescription: (hero, companion, place, mood, object) => `${hero} e ${companion} estão em ${place}, ${mood}. Ao redor, ${object} chama a atenção.`,
+  sceneNarration: (hero, action, companion) => `${hero} ${action}, enquanto ${companion} observa em silêncio.`,
+  rewrittenDescription: (description, mood) => `${description} ${capitalize(mood)}, tudo parece diferente.`,
+  styleSample: (index, style, hero, place, mood, object) =>
+    `${index}. Ilustração em estilo ${style} de ${hero} em ${place}, ${mood}, com ${object} em primeiro plano e cores marcantes.`,
+};
+
+const ENGLISH: Vocabulary = {
+  places: ['a seaside village', 'an ancient forest', 'a floating city', 'an abandoned observatory', 'a night market', 'a forgotten train station'],
+  companions: ['a curious robot', 'a talking fox', 'an old cartographer', 'an absent-minded inventor', 'a shy dragon'],
+  objects: ['an unfinished map', 'a crystal key', 'a clock that runs backwards', 'a letter with no sender', 'a golden compass'],
+  moods: ['at dusk', 'under a light rain', 'on a foggy morning', 'by lantern light', 'under a starry sky'],
+  looks: ['curly brown hair and green eyes', 'short black hair and freckles', 'long red braids and a watchful gaze', 'grey hair and round glasses', 'dark skin and a wide smile'],
+  outfits: ['blue coat with golden buttons', 'moss-green cloak and leather boots', 'yellow overalls full of pockets', 'red vest and striped scarf', 'grey tunic and wide-brimmed hat'],
+  traits: ['curious and stubborn', 'kind and wary', 'brave and impatient', 'wise and good-humored', 'shy and loyal'],
+  speech: ['talks fast and asks lots of questions', 'says little, in short and direct sentences', 'uses old-fashioned expressions and speaks slowly', 'plays with words and laughs easily', 'speaks softly and chooses every word'],
+  actions: ['discovers a secret passage', 'faces a sudden storm', 'solves an ancient riddle', 'meets an old friend again', 'makes a difficult promise'],
+  lines: ['Stay alert, this does not look good.', 'Did you hear that too?', 'If it goes wrong, at least it will make a good story!', 'We do not have much time.', 'Trust me just one more time.'],
+  twists: ['Suddenly, the silence grows heavy.', 'A nervous laugh breaks the tension.', 'Every step seems to last forever.', 'Something in the air says nothing will be the same.', 'A distant sound makes everyone stop.'],
+  articles: /^(an?|the)\s+/,
+  defaultTheme: 'an unexpected adventure',
+  defaultStyle: 'realistic',
+  sceneTitle: 'Scene',
+  heroLine: { text: 'Do you see that too?', direction: 'surprised' },
+  companionLine: 'I have never seen anything like it.',
+  continueChoice: 'Keep going',
+  branchChoice: 'Take another path',
+  protagonistRole: 'protagonist',
+  companionRole: 'adventure companion',
+  proposal: (hero, place, companion, object, theme, actions) => [
+    `${hero} lives in ${place} and dreams of something beyond the routine. Everything changes when ${hero} finds ${object}, tied to ${theme}.`,
+    `Alongside ${companion}, ${hero} ${actions[0]} and realizes that ${object} holds a bigger secret than expected. Every step demands courage and choices that test their friendship.`,
+    `In the end, ${hero} ${actions[1]} and returns home changed, knowing that the real discovery was the journey.`
+  ],
+  sceneDescription: (hero, companion, place, mood, object) => `${hero} and ${companion} are in ${place}, ${mood}. Nearby, ${object} catches the eye.`,
+  sceneNarration: (hero, action, companion) => `${hero} ${action}, while ${companion} watches in silence.`,
+  rewrittenDescription: (description, mood) => `${description} ${capitalize(mood)}, everything looks different.`,
+  styleSample: (index, style, hero, place, mood, object) =>
+    `${index}. ${capitalize(style)} style illustration of ${hero} in ${place}, ${mood}, with ${object} in the foreground and striking colors.`,
+};
+
+/**
+ * Obtém o vocabulário do idioma da história
+ * O provedor local escreve em português ou em inglês; os demais idiomas usam o inglês
+ *
+ * @param {string} [language] - Idioma da história, no formato BCP 47 (padrão: pt-BR)
+ * @returns {Vocabulary} Vocabulário do idioma
+ */
+function getVocabulary(language: string = DEFAULT_LANGUAGE): Vocabulary {
+  return language.split('-')[0] === 'pt' ? PORTUGUESE : ENGLISH;
+}
+
+// Tamanho dos trechos entregues no streaming simulado
+const STREAM_CHUNK_SIZE = 16;
+
+/**
+ * Gera texto de forma determinística a partir de uma semente
+ * A mesma semente e a mesma requisição sempre produzem a mesma resposta
+ */
+export class LocalTextProvider implements TextGenerationProvider {
+  readonly name = 'local';
+  readonly model = 'local';
+
+  /**
+   * @param {string} seed - Semente base do gerador (padrão: "choose-your-story")
+   */
+  constructor(private readonly seed: string = 'choose-your-story') {}
+
+  async generateText(request: TextGenerationRequest): Promise<string> {
+    const content = this.buildContent(request);
+
+    // O provedor local não tem custo, mas registra o consumo estimado que a mesma chamada teria
+    reportUsage({
+      kind: 'text',
+      provider: this.name,
+      model: this.model,
+      task: request.task,
+      promptTokens: estimateTokens(request.prompt),
+      completionTokens: estimateTokens(content),
+      imageCount: 0,
+      estimated: true
+    });
+    return content;
+  }
+
+  /**
+   * Entrega o texto gerado em pequenos trechos, simulando o streaming de um modelo
+   */
+  async streamText(request: TextGenerationRequest, onToken: (token: string) => void): Promise<string> {
+    const content = await this.generateText(request);
+
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+      onToken(content.substring(i, i + STREAM_CHUNK_SIZE));
+      // Cede a vez ao event loop para que cada trecho seja enviado separadamente
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return content;
+  }
+
+  /**
+   * Monta a resposta no formato esperado pela tarefa
+   *
+   * @param {TextGenerationRequest} request - Requisição de geração
+   * @returns {string} Texto gerado
+   * @throws {Error} Se a tarefa não for suportada
+   */
+  private buildContent(request: TextGenerationRequest): string {
+    const random = createRandom(`${this.seed}|${request.task}|${request.prompt}`);
+    const context = request.context || {};
+    const words = getVocabulary(context.language);
+
+    switch (request.task) {
+      case 'proposal':
+        return buildProposal(context, words, random);
+      case 'scenes':
+        return buildScenes(context, words, random);
+      case 'scene':
+        return buildScenes({ ...context, numScenes: 1, decisionPoints: 0 }, words, random);
+      case 'rewrite':
+        return buildRewrite(context, words, random);
+      case 'style-samples':
+        return buildStyleSamples(context, words, random);
+      case 'characters':
+        return buildCharacters(context, words, random);
+      default:
+        throw new Error(`Tarefa de texto não suportada pelo provedor local: ${request.task}`);
+    }
+  }
+}
+
+/**
+ * Monta uma proposta de história com premissa, desenvolvimento e desfecho
+ *
+ * @param {TextGenerationContext} context - Dados da requisição
+ * @param {Vocabulary} words - Vocabulário do idioma da história
+ * @param {Function} random - Gerador pseudoaleatório
+ * @returns {string} Texto da proposta
+ */
+function buildProposal(context: TextGenerationContext, words: Vocabulary, random: () => number): string {
+  const hero = pick(HEROES, random);
+  const place = pick(words.places, random);
+  const companion = pick(words.companions, random);
+  const object = pick(words.objects, random);
+  const theme = (context.briefing || words.defaultTheme).trim().replace(/[.!?]+$/, '');
+
+  return words.proposal(hero, place, companion, object, theme, [pick(words.actions, random), pick(words.actions, random)]).join('\n\n');
+}
+
+/**
+ * Monta as cenas no formato JSON { "scenes": [...] } validado pelo esquema de cenas
+ * Com pontos de decisão, o caminho principal ganha desvios que levam a finais alternativos
+ *
+ * @param {TextGenerationContext} context - Dados da requisição
+ * @param {Vocabulary} words - Vocabulário do idioma da história
+ * @param {Function} random - Gerador pseudoaleatório
+ * @returns {string} JSON com todas as cenas
+ */
+function buildScenes(context: TextGenerationContext, words: Vocabulary, random: () => number): string {
+  const numScenes = Math.max(context.numScenes || 3, 1);
+  const decisionPoints = Math.min(Math.max(context.decisionPoints || 0, 0), Math.floor((numScenes - 1) / 2));
+  // Personagens informados na requisição têm prioridade sobre os da proposta e os sorteados
+  const characterNames = context.characterNames || [];
+  const hero = characterNames[0] || findHero(context.storyProposal) || pick(HEROES, random);
+  const companion = characterNames[1] || pick(words.companions, random);
+
+  // O caminho principal ocupa as primeiras cenas; as últimas são finais alternativos
+  const mainLength = numScenes - decisionPoints;
+  const decisionScenes: { [scene: number]: number } = {};
+  for (let i = 1; i <= decisionPoints; i++) {
+    decisionScenes[Math.max(1, Math.floor(i * (mainLength - 1) / decisionPoints))] = mainLength + i;
+  }
+
+  const scenes = [];
+  for (let n = 1; n <= numScenes; n++) {
+    const place = pick(words.places, random);
+    const action = pick(words.actions, random);
+    const object = pick(words.objects, random);
+    const alternativeEnding = decisionScenes[n];
+
+    scenes.push({
+      title: `${capitalize(place.replace(words.articles, ''))} ${pick(words.moods, random)}`,
+      description: words.sceneDescription(hero, companion, place, pick(words.moods, random), object),
+      narration: words.sceneNarration(hero, action, companion),
+      dialogue: [
+        { speaker: hero, text: words.heroLine.text, direction: words.heroLine.direction },
+        { speaker: capitalize(companion), text: words.companionLine }
+      ],
+      choices: alternativeEnding
+        ? [
+            { label: words.continueChoice, target: n + 1 },
+            { label: words.branchChoice, target: alternativeEnding }
+          ]
+        : [],
+      isEnding: decisionPoints > 0 && n >= mainLength,
+      characters: [hero, companion]
+    });
+  }
+
+  return JSON.stringify({ scenes }, null, 2);
+}
+
+/**
+ * Monta a reescrita dos campos pedidos no formato JSON { "campo": "texto" }
+ * Mantém o texto original e acrescenta uma variação, para que a proposta seja diferente da cena atual
+ *
+ * @param {TextGenerationContext} context - Dados da requisição
+ * @param {Vocabulary} words - Vocabulário do idioma da história
+ * @param {Function} random - Gerador pseudoaleatório
+ * @returns {string} JSON com os campos reescritos
+ */
+function buildRewrite(context: TextGenerationContext, words: Vocabulary, random: () => number): string {
+  const scene = context.scene || { title: '', description: '', narration: '', dialogue: [] };
+  const fields = context.fields || ['narration'];
+  const firstSpeaker = (scene.dialogue[0] && scene.dialogue[0].speaker) || pick(HEROES, random);
+
+  const rewrite: { [field: string]: any } = {};
+  fields.forEach(field => {
+    if (field === 'title') rewrite.title = `${scene.title || words.sceneTitle} ${pick(words.moods, random)}`;
+    if (field === 'description') rewrite.description = words.rewrittenDescription(scene.description, pick(words.moods, random)).trim();
+    if (field === 'narration') rewrite.narration = `${scene.narration} ${pick(words.twists, random)}`.trim();
+    if (field === 'dialogue') rewrite.dialogue = scene.dialogue.concat({ speaker: firstSpeaker, text: pick(words.lines, random) });
+  });
+
+  return JSON.stringify(rewrite, null, 2);
+}
+
+/**
+ * Monta as fichas dos personagens no formato JSON { "characters": [...] }
+ * Reconhece o protagonista e o companheiro citados em propostas do provedor local
+ *
+ * @param {TextGenerationContext} context - Dados da requisição
+ * @param {Vocabulary} words - Vocabulário do idioma da história
+ * @param {Function} random - Gerador pseudoaleatório
+ * @returns {string} JSON com os personagens
+ */
+function buildCharacters(context: TextGenerationContext, words: Vocabulary, random: () => number): string {
+  const proposal = context.storyProposal || '';
+  const hero = findHero(proposal) || pick(HEROES, random);
+  const companion = words.companions.find(phrase => proposal.includes(phrase)) || pick(words.companions, random);
+
+  const characters = [
+    { name: hero, role: words.protagonistRole },
+    { name: companion, role: words.companionRole }
+  ].map(character => ({
+    ...character,
+    physicalDescription: pick(words.looks, random),
+    clothing: pick(words.outfits, random),
+    personality: pick(words.traits, random),
+    speechStyle: pick(words.speech, random)
+  }));
+
+  return JSON.stringify({ characters }, null, 2);
+}
+
+/**
+ * Monta descrições numeradas de imagens no estilo solicitado
+ * As amostras mostram o protagonista da proposta, quando ele é reconhecido
+ *
+ * @param {TextGenerationContext} context - Dados da requisição
+ * @param {Vocabulary} words - Vocabulário do idioma da história
+ * @param {Function} random - Gerador pseudoaleatório
+ * @returns {string} Lista numerada de descrições
+ */
+function buildStyleSamples(context: TextGenerationContext, words: Vocabulary, random: () => number): string {
+  const count = Math.max(context.count || 3, 1);
+  const style = context.style || words.defaultStyle;
+  const hero = findHero(context.storyProposal);
+
+  const samples = [];
+  for (let i = 1; i <= count; i++) {
+    samples.push(words.styleSample(i, style, hero || pick(HEROES, random), pick(words.places, random), pick(words.moods, random), pick(words.objects, random)));
+  }
+  return samples.join('\n');
+}
+
+/**
+ * Encontra o protagonista de uma proposta: o primeiro nome da lista de protagonistas citado no texto
+ *
+ * @param {string} [proposal] - Texto da proposta
+ * @returns {string | undefined} Nome do protagonista ou undefined se nenhum for citado
+ */
+function findHero(proposal?: string): string | undefined {
+  if (!proposal) return undefined;
+
+  let found: { name: string; index: number } | undefined;
+  HEROES.forEach(name => {
+    const match = new RegExp(`(^|[^\\p{L}])${name}(?![\\p{L}])`, 'u').exec(proposal);
+    if (match && (!found || match.index < found.index)) found = { name, index: match.index };
+  });
+  return found && found.name;
+}
+
+/**
+ * Cria um gerador pseudoaleatório (mulberry32) a partir de um texto
+ *
+ * @param {string} seed - Texto usado como semente
+ * @returns {Function} Função que retorna números entre 0 e 1
+ */
+function createRandom(seed: string): () => number {
+  // Hash FNV-1a do texto para obter a semente numérica
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Escolhe um item de uma lista usando o gerador pseudoaleatório
+ *
+ * @param {T[]} items - Lista de opções
+ * @param {Function} random - Gerador pseudoaleatório
+ * @returns {T} Item escolhido
+ */
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Converte a primeira letra de um texto para maiúscula
+ *
+ * @param {string} text - Texto original
+ * @returns {string} Texto com a inicial maiúscula
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
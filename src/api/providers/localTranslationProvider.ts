@@ -0,0 +1,22 @@
+/**
+ * Provedor de tradução local, sem rede
+ * Não traduz de fato: mantém os textos e marca cada linha com o idioma de destino,
+ * para que cópias traduzidas possam ser criadas e conferidas em desenvolvimento
+ */
+
+import { TranslationProvider } from './translationProvider';
+
+/**
+ * Marca os textos com o idioma de destino
+ * A marca fica no fim da linha, para não alterar o formato "Personagem: fala" dos diálogos
+ */
+export class LocalTranslationProvider implements TranslationProvider {
+  readonly name = 'local';
+
+  async translate(texts: string[], _from: string, to: string): Promise<string[]> {
+    return texts.map(text => text
+      .split('\n')
+      .map(line => line.trim() === '' ? line : `${line} [${to}]`)
+      .join('\n'));
+  }
+}
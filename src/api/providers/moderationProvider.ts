@@ -0,0 +1,94 @@
+/**
+ * Abstração dos verificadores de moderação de conteúdo
+ * As regras locais (palavras e expressões regulares) são sempre aplicadas; um verificador remoto
+ * pode ser acrescentado para os textos que passarem pelas regras
+ */
+
+import dotenv from 'dotenv';
+import { ModerationVerdict } from '../../models/Moderation';
+import { LocalModerationChecker } from './localModerationChecker';
+import { OpenAIModerationChecker } from './openaiModerationChecker';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+/**
+ * Verificador de moderação
+ * check recebe vários textos de uma vez e devolve os resultados na mesma ordem
+ *
+ * @interface ModerationChecker
+ */
+export interface ModerationChecker {
+  readonly name: string;
+  check(texts: string[]): Promise<ModerationVerdict[]>;
+}
+
+/**
+ * Aplica vários verificadores em sequência
+ * Cada verificador recebe apenas os textos que os anteriores não sinalizaram
+ */
+export class ChainedModerationChecker implements ModerationChecker {
+  readonly name: string;
+
+  /**
+   * @param {ModerationChecker[]} checkers - Verificadores, na ordem em que são aplicados
+   */
+  constructor(private readonly checkers: ModerationChecker[]) {
+    this.name = checkers.map(checker => checker.name).join('+');
+  }
+
+  async check(texts: string[]): Promise<ModerationVerdict[]> {
+    const verdicts: ModerationVerdict[] = texts.map(() => ({ flagged: false, categories: [] }));
+
+    for (const checker of this.checkers) {
+      const pending = texts.map((_text, i) => i).filter(i => !verdicts[i].flagged);
+      if (pending.length === 0) break;
+
+      const results = await checker.check(pending.map(i => texts[i]));
+      pending.forEach((i, position) => {
+        if (results[position] && results[position].flagged) verdicts[i] = { checker: checker.name, ...results[position] };
+      });
+    }
+
+    return verdicts;
+  }
+}
+
+let checker: ModerationChecker | null = null;
+
+/**
+ * Cria o verificador configurado pela variável MODERATION_PROVIDER ("local" ou "openai")
+ * Sem configuração, usa apenas as regras locais; com "openai", os textos que passarem pelas
+ * regras locais também são enviados à API de moderação da OpenAI
+ *
+ * @returns {ModerationChecker} O verificador de moderação
+ * @throws {Error} Se o verificador configurado não for suportado
+ */
+function createModerationChecker(): ModerationChecker {
+  const configured = (process.env.MODERATION_PROVIDER || 'local').toLowerCase();
+  const local = new LocalModerationChecker(process.env.MODERATION_BLOCKED_TERMS);
+
+  if (configured === 'local') return local;
+  if (configured === 'openai') return new ChainedModerationChecker([local, new OpenAIModerationChecker(process.env.OPENAI_MODERATION_MODEL)]);
+  throw new Error(`MODERATION_PROVIDER inválido: ${configured}. Use "local" ou "openai".`);
+}
+
+/**
+ * Obtém o verificador de moderação em uso, criando-o no primeiro acesso
+ *
+ * @returns {ModerationChecker} O verificador de moderação
+ */
+export function getModerationChecker(): ModerationChecker {
+  if (!checker) checker = createModerationChecker();
+  return checker;
+}
+
+/**
+ * Substitui o verificador de moderação em uso
+ * Útil para testes e demonstrações
+ *
+ * @param {ModerationChecker} newChecker - Verificador a ser usado
+ */
+export function setModerationChecker(newChecker: ModerationChecker): void {
+  checker = newChecker;
+}
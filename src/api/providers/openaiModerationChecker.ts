@@ -0,0 +1,45 @@
+/**
+ * Verificador de moderação usando a API de moderação da OpenAI
+ */
+
+import { callOpenAI, getOpenAIClient } from '../openaiClient';
+import { ModerationVerdict } from '../../models/Moderation';
+import { ModerationChecker } from './moderationProvider';
+
+/**
+ * Envia os textos à API de moderação e devolve as categorias sinalizadas pelo modelo
+ * A API não é cobrada, então as chamadas não são registradas no consumo
+ */
+export class OpenAIModerationChecker implements ModerationChecker {
+  readonly name = 'openai';
+  readonly model: string;
+
+  /**
+   * @param {string} model - Modelo de moderação a ser usado (padrão: omni-moderation-latest)
+   */
+  constructor(model?: string) {
+    this.model = model || 'omni-moderation-latest';
+  }
+
+  async check(texts: string[]): Promise<ModerationVerdict[]> {
+    // Textos vazios não são enviados à API
+    const inputs = texts.map((text, i) => ({ text: (text || '').trim(), i })).filter(input => input.text !== '');
+    const verdicts: ModerationVerdict[] = texts.map(() => ({ flagged: false, categories: [] }));
+    if (inputs.length === 0) return verdicts;
+
+    // Disjuntor próprio: a moderação continua liberada mesmo com a geração de texto fora do ar, e vice-versa
+    const response = await callOpenAI('openai-moderation', signal => getOpenAIClient().moderations.create({
+      model: this.model,
+      input: inputs.map(input => input.text),
+    }, { signal }));
+
+    response.results.forEach((result, position) => {
+      const categories = result.categories as unknown as { [category: string]: boolean };
+      verdicts[inputs[position].i] = {
+        flagged: result.flagged,
+        categories: Object.keys(categories).filter(category => categories[category])
+      };
+    });
+    return verdicts;
+  }
+}
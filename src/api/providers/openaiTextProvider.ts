@@ -0,0 +1,107 @@
+/**
+ * Provedor de geração de texto usando a API de chat da OpenAI
+ */
+
+import { callOpenAI, getOpenAIClient } from '../openaiClient';
+import { TextGenerationProvider, TextGenerationRequest } from './textGeneration';
+import { estimateTokens, reportUsage } from '../usage';
+import { ProviderFailureError } from '../../utils/errors';
+
+/**
+ * Extrai o conteúdo da resposta da API OpenAI
+ * 
+ * @param {any} response - Resposta da API da OpenAI
+ * @returns {string} Conteúdo extraído da resposta
+ * @throws {ProviderFailureError} Se o conteúdo não for válido
+ */
+function extractContent(response: any): string {
+  const content = response.choices?.[0]?.message?.content;
+  if (!content) throw new ProviderFailureError('Resposta da API não contém conteúdo válido');
+  return content;
+}
+
+/**
+ * Modelos que aceitam o modo JSON da API (response_format json_object)
+ * O gpt-4 original não aceita; nesse caso o formato é garantido apenas pelo prompt
+ */
+const JSON_MODE_MODELS = /^(gpt-4o|gpt-4-turbo|gpt-4\.1|gpt-3\.5-turbo)/;
+
+/**
+ * Gera texto com os modelos de chat da OpenAI (padrão: GPT-4)
+ */
+export class OpenAITextProvider implements TextGenerationProvider {
+  readonly name = 'openai';
+  readonly model: string;
+
+  /**
+   * @param {string} model - Modelo de chat a ser usado (padrão: gpt-4)
+   */
+  constructor(model?: string) {
+    this.model = model || 'gpt-4';
+  }
+
+  async generateText(request: TextGenerationRequest): Promise<string> {
+    const useJsonMode = request.responseFormat === 'json' && JSON_MODE_MODELS.test(this.model);
+
+    const response = await callOpenAI(this.name, signal => getOpenAIClient().chat.completions.create({
+      model: this.model,
+      messages: [{ role: "user", content: request.prompt }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(useJsonMode ? { response_format: { type: "json_object" as const } } : {}),
+    }, { signal }));
+
+    const content = extractContent(response);
+    this.reportTextUsage(request, content, response.usage);
+    return content;
+  }
+
+  async streamText(request: TextGenerationRequest, onToken: (token: string) => void): Promise<string> {
+    const useJsonMode = request.responseFormat === 'json' && JSON_MODE_MODELS.test(this.model);
+
+    // Depois que o primeiro trecho foi repassado, uma nova tentativa repetiria o texto já exibido
+    let started = false;
+    const { content, usage } = await callOpenAI(this.name, async signal => {
+      const stream = getOpenAIClient().beta.chat.completions.stream({
+        model: this.model,
+        messages: [{ role: "user", content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(useJsonMode ? { response_format: { type: "json_object" as const } } : {}),
+        // Sem esta opção, a resposta em streaming não informa os tokens consumidos
+        stream_options: { include_usage: true },
+      }, { signal });
+      stream.on('content', delta => {
+        started = true;
+        onToken(delta);
+      });
+
+      const content = await stream.finalContent();
+      return { content, usage: await stream.totalUsage() };
+    }, () => !started);
+    if (!content) throw new ProviderFailureError('Resposta da API não contém conteúdo válido');
+
+    this.reportTextUsage(request, content, usage.total_tokens > 0 ? usage : undefined);
+    return content;
+  }
+
+  /**
+   * Informa os tokens consumidos por uma chamada, estimando-os quando a API não os informar
+   *
+   * @param {TextGenerationRequest} request - Requisição enviada
+   * @param {string} content - Texto gerado
+   * @param {Object} [usage] - Tokens informados pela API (opcional)
+   */
+  private reportTextUsage(request: TextGenerationRequest, content: string, usage?: { prompt_tokens: number; completion_tokens: number }): void {
+    reportUsage({
+      kind: 'text',
+      provider: this.name,
+      model: this.model,
+      task: request.task,
+      promptTokens: usage ? usage.prompt_tokens : estimateTokens(request.prompt),
+      completionTokens: usage ? usage.completion_tokens : estimateTokens(content),
+      imageCount: 0,
+      estimated: !usage,
+    });
+  }
+}
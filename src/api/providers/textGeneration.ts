@@ -0,0 +1,125 @@
+/**
+ * Abstração de provedores de geração de texto
+ * Permite trocar a API da OpenAI por um provedor local determinístico, sem rede
+ */
+
+import dotenv from 'dotenv';
+import { hasOpenAIKey } from '../openaiClient';
+import { OpenAITextProvider } from './openaiTextProvider';
+import { LocalTextProvider } from './localTextProvider';
+import { DialogueLine } from '../../models/Scene';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+/**
+ * Tipos de tarefa de geração de texto
+ * Provedores locais usam a tarefa para decidir o formato da resposta
+ */
+export type TextGenerationTask = 'proposal' | 'scenes' | 'scene' | 'rewrite' | 'style-samples' | 'characters';
+
+/**
+ * Dados estruturados da requisição, usados por provedores que não interpretam o prompt
+ * 
+ * @interface TextGenerationContext
+ * @property {string} briefing - Briefing da história
+ * @property {string} storyProposal - Proposta da história
+ * @property {number} numScenes - Número de cenas solicitadas
+ * @property {number} decisionPoints - Número de pontos de decisão
+ * @property {string} style - Estilo visual
+ * @property {number} count - Número de itens solicitados
+ * @property {string[]} characterNames - Nomes dos personagens da história, na ordem de importância
+ * @property {string} instruction - Instrução de reescrita dada pelo usuário
+ * @property {Object} scene - Textos atuais da cena sendo reescrita
+ * @property {string[]} fields - Campos da cena a reescrever
+ * @property {string} language - Idioma da história, no formato BCP 47
+ */
+export interface TextGenerationContext {
+  briefing?: string;
+  storyProposal?: string;
+  numScenes?: number;
+  decisionPoints?: number;
+  style?: string;
+  count?: number;
+  characterNames?: string[];
+  instruction?: string;
+  scene?: { title: string; description: string; narration: string; dialogue: DialogueLine[] };
+  fields?: string[];
+  language?: string;
+}
+
+/**
+ * Requisição de geração de texto
+ * 
+ * @interface TextGenerationRequest
+ * @property {TextGenerationTask} task - Tarefa sendo executada
+ * @property {string} prompt - Prompt completo enviado ao modelo
+ * @property {number} temperature - Temperatura de amostragem (opcional)
+ * @property {number} maxTokens - Limite de tokens da resposta (opcional)
+ * @property {string} responseFormat - Formato esperado da resposta: texto livre ou JSON (padrão: text)
+ * @property {TextGenerationContext} context - Dados estruturados da requisição (opcional)
+ */
+export interface TextGenerationRequest {
+  task: TextGenerationTask;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json';
+  context?: TextGenerationContext;
+}
+
+/**
+ * Provedor de geração de texto
+ * streamText entrega a resposta em partes, à medida que é gerada, e retorna o texto completo
+ * Os provedores informam o consumo de cada chamada com reportUsage
+ * 
+ * @interface TextGenerationProvider
+ */
+export interface TextGenerationProvider {
+  readonly name: string;
+  readonly model: string;
+  generateText(request: TextGenerationRequest): Promise<string>;
+  streamText(request: TextGenerationRequest, onToken: (token: string) => void): Promise<string>;
+}
+
+let provider: TextGenerationProvider | null = null;
+
+/**
+ * Cria o provedor configurado pela variável TEXT_PROVIDER ("openai" ou "local")
+ * Sem configuração, usa a OpenAI quando há chave da API e o provedor local caso contrário
+ * 
+ * @returns {TextGenerationProvider} O provedor de texto
+ * @throws {Error} Se o provedor configurado não for suportado
+ */
+function createTextProvider(): TextGenerationProvider {
+  const configured = (process.env.TEXT_PROVIDER || '').toLowerCase();
+
+  if (configured === 'openai') return new OpenAITextProvider(process.env.OPENAI_TEXT_MODEL);
+  if (configured === 'local') return new LocalTextProvider(process.env.LOCAL_TEXT_SEED);
+  if (configured) throw new Error(`TEXT_PROVIDER inválido: ${configured}. Use "openai" ou "local".`);
+
+  if (hasOpenAIKey()) return new OpenAITextProvider(process.env.OPENAI_TEXT_MODEL);
+
+  console.warn('OPENAI_API_KEY não configurada: usando o provedor de texto local.');
+  return new LocalTextProvider(process.env.LOCAL_TEXT_SEED);
+}
+
+/**
+ * Obtém o provedor de texto em uso, criando-o no primeiro acesso
+ * 
+ * @returns {TextGenerationProvider} O provedor de texto
+ */
+export function getTextProvider(): TextGenerationProvider {
+  if (!provider) provider = createTextProvider();
+  return provider;
+}
+
+/**
+ * Substitui o provedor de texto em uso
+ * Útil para testes e demonstrações
+ * 
+ * @param {TextGenerationProvider} newProvider - Provedor a ser usado
+ */
+export function setTextProvider(newProvider: TextGenerationProvider): void {
+  provider = newProvider;
+}
@@ -0,0 +1,59 @@
+/**
+ * Abstração de provedores de tradução
+ * Permite trocar o Google Tradutor por um tradutor local, sem rede
+ */
+
+import dotenv from 'dotenv';
+import { GoogleTranslationProvider } from './googleTranslationProvider';
+import { LocalTranslationProvider } from './localTranslationProvider';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+/**
+ * Provedor de tradução
+ * translate recebe vários textos de uma vez e devolve as traduções na mesma ordem
+ *
+ * @interface TranslationProvider
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  translate(texts: string[], from: string, to: string): Promise<string[]>;
+}
+
+let provider: TranslationProvider | null = null;
+
+/**
+ * Cria o provedor configurado pela variável TRANSLATION_PROVIDER ("google" ou "local")
+ * Sem configuração, usa o Google Tradutor, que não precisa de chave de API
+ *
+ * @returns {TranslationProvider} O provedor de tradução
+ * @throws {Error} Se o provedor configurado não for suportado
+ */
+function createTranslationProvider(): TranslationProvider {
+  const configured = (process.env.TRANSLATION_PROVIDER || 'google').toLowerCase();
+
+  if (configured === 'google') return new GoogleTranslationProvider();
+  if (configured === 'local') return new LocalTranslationProvider();
+  throw new Error(`TRANSLATION_PROVIDER inválido: ${configured}. Use "google" ou "local".`);
+}
+
+/**
+ * Obtém o provedor de tradução em uso, criando-o no primeiro acesso
+ *
+ * @returns {TranslationProvider} O provedor de tradução
+ */
+export function getTranslationProvider(): TranslationProvider {
+  if (!provider) provider = createTranslationProvider();
+  return provider;
+}
+
+/**
+ * Substitui o provedor de tradução em uso
+ * Útil para testes e demonstrações
+ *
+ * @param {TranslationProvider} newProvider - Provedor a ser usado
+ */
+export function setTranslationProvider(newProvider: TranslationProvider): void {
+  provider = newProvider;
+}
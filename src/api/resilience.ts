@@ -0,0 +1,243 @@
+/**
+ * Resiliência das chamadas aos provedores de IA, usada pelos provedores de texto e de imagem
+ * Cada tentativa tem um tempo limite; falhas passageiras (limite de requisições, erros 5xx, falhas de
+ * conexão e tempo esgotado) são repetidas com espera exponencial e aleatória; e um disjuntor por
+ * provedor recusa novas chamadas por um período depois de várias falhas seguidas, em vez de fazer
+ * cada requisição esperar por um provedor fora do ar
+ */
+
+import dotenv from 'dotenv';
+import { ProviderFailureError, ProviderUnavailableError } from '../utils/errors';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+/**
+ * Estado de um disjuntor
+ * closed: chamadas liberadas | open: chamadas recusadas até o fim da pausa |
+ * half-open: a pausa terminou e uma chamada de teste decide se o provedor voltou
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Opções de uma chamada resiliente
+ *
+ * @interface ResilienceOptions
+ * @property {Function} isTransient - Indica se um erro do provedor é passageiro
+ * @property {Function} canRetry - Indica se a chamada ainda pode ser repetida, como uma resposta em streaming que não começou (opcional)
+ */
+export interface ResilienceOptions {
+  isTransient(error: unknown): boolean;
+  canRetry?(): boolean;
+}
+
+/**
+ * Lê um número inteiro positivo de uma variável de ambiente
+ *
+ * @param {string | undefined} value - Valor da variável
+ * @param {number} fallback - Valor usado quando a variável não está definida ou é inválida
+ * @returns {number} O número lido
+ */
+function readInteger(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+// Novas tentativas depois da primeira, em falhas passageiras
+const MAX_RETRIES = readInteger(process.env.PROVIDER_MAX_RETRIES, 3);
+
+// Espera antes da primeira nova tentativa, dobrada a cada tentativa até o máximo
+const RETRY_BASE_DELAY_MS = readInteger(process.env.PROVIDER_RETRY_BASE_DELAY_MS, 1000);
+const RETRY_MAX_DELAY_MS = readInteger(process.env.PROVIDER_RETRY_MAX_DELAY_MS, 20000);
+
+// Tempo limite de cada tentativa (a geração das cenas em streaming pode levar alguns minutos)
+const TIMEOUT_MS = readInteger(process.env.PROVIDER_TIMEOUT_MS, 180000);
+
+// Falhas seguidas que abrem o disjuntor e duração da pausa
+const CIRCUIT_FAILURE_THRESHOLD = readInteger(process.env.PROVIDER_CIRCUIT_THRESHOLD, 5);
+const CIRCUIT_COOLDOWN_MS = readInteger(process.env.PROVIDER_CIRCUIT_COOLDOWN_MS, 30000);
+
+/**
+ * Disjuntor de um provedor
+ * Conta as chamadas que falharam por erros passageiros mesmo depois das novas tentativas; ao atingir
+ * o limite, recusa as chamadas até o fim da pausa e então libera uma chamada de teste
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInProgress = false;
+
+  /**
+   * @param {string} provider - Nome do provedor
+   * @param {number} [failureThreshold] - Falhas seguidas que abrem o disjuntor (padrão: PROVIDER_CIRCUIT_THRESHOLD ou 5)
+   * @param {number} [cooldownMs] - Duração da pausa, em milissegundos (padrão: PROVIDER_CIRCUIT_COOLDOWN_MS ou 30000)
+   */
+  constructor(
+    readonly provider: string,
+    readonly failureThreshold: number = CIRCUIT_FAILURE_THRESHOLD,
+    readonly cooldownMs: number = CIRCUIT_COOLDOWN_MS
+  ) {}
+
+  /**
+   * Obtém o estado atual do disjuntor
+   *
+   * @returns {CircuitState} Estado, considerando o fim da pausa
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) this.state = 'half-open';
+    return this.state;
+  }
+
+  /**
+   * Libera uma chamada ao provedor
+   *
+   * @throws {ProviderUnavailableError} Se o disjuntor estiver aberto ou a chamada de teste ainda não tiver terminado
+   */
+  acquire(): void {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.trialInProgress)) {
+      throw new ProviderUnavailableError(this.provider, Math.max(0, this.openedAt + this.cooldownMs - Date.now()));
+    }
+    if (state === 'half-open') this.trialInProgress = true;
+  }
+
+  /**
+   * Registra que o provedor respondeu, com sucesso ou com um erro que não indica indisponibilidade
+   */
+  recordAvailable(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInProgress = false;
+  }
+
+  /**
+   * Registra uma chamada que falhou por indisponibilidade do provedor
+   * A falha da chamada de teste reabre o disjuntor imediatamente
+   */
+  recordUnavailable(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      if (this.state !== 'open') console.warn(`Provedor ${this.provider} indisponível; novas chamadas serão recusadas por ${Math.round(this.cooldownMs / 1000)} s`);
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.trialInProgress = false;
+  }
+}
+
+// Disjuntores criados, um por provedor
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Obtém o disjuntor de um provedor, criando-o no primeiro uso
+ *
+ * @param {string} provider - Nome do provedor
+ * @returns {CircuitBreaker} Disjuntor do provedor
+ */
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Executa uma chamada a um provedor com tempo limite, novas tentativas e disjuntor
+ * A chamada recebe um sinal acionado quando o tempo da tentativa se esgota, para que a requisição seja interrompida
+ *
+ * @param {string} provider - Nome do provedor, que identifica o disjuntor
+ * @param {Function} call - Chamada ao provedor
+ * @param {ResilienceOptions} options - Classificação dos erros do provedor
+ * @returns {Promise<T>} Resultado da chamada
+ * @throws {ProviderUnavailableError} Se o disjuntor do provedor estiver aberto
+ * @throws {ProviderFailureError} Se o tempo se esgotar em todas as tentativas (código PROVIDER_TIMEOUT)
+ */
+export async function callWithResilience<T>(provider: string, call: (signal: AbortSignal) => Promise<T>, options: ResilienceOptions): Promise<T> {
+  const breaker = getCircuitBreaker(provider);
+  breaker.acquire();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await withTimeout(provider, call);
+      breaker.recordAvailable();
+      return result;
+    } catch (error: any) {
+      if (!isTimeout(error) && !options.isTransient(error)) {
+        breaker.recordAvailable();
+        throw error;
+      }
+
+      if (attempt > MAX_RETRIES || (options.canRetry && !options.canRetry())) {
+        breaker.recordUnavailable();
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt);
+      console.warn(`Falha passageira em ${provider} (tentativa ${attempt} de ${MAX_RETRIES + 1}), nova tentativa em ${delay} ms:`, error.message || error);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Executa uma tentativa com o tempo limite configurado
+ *
+ * @param {string} provider - Nome do provedor, usado na mensagem de erro
+ * @param {Function} call - Chamada ao provedor
+ * @returns {Promise<T>} Resultado da chamada
+ * @throws {ProviderFailureError} Se o tempo se esgotar (código PROVIDER_TIMEOUT)
+ */
+function withTimeout<T>(provider: string, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new ProviderFailureError(
+        `O provedor ${provider} não respondeu em ${Math.round(TIMEOUT_MS / 1000)} s`,
+        'PROVIDER_TIMEOUT',
+        { provider, timeoutMs: TIMEOUT_MS }
+      ));
+    }, TIMEOUT_MS);
+
+    call(controller.signal).then(
+      result => { clearTimeout(timer); resolve(result); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+/**
+ * Indica se um erro é o tempo limite de uma tentativa
+ *
+ * @param {unknown} error - Erro lançado pela tentativa
+ * @returns {boolean} true se o tempo da tentativa se esgotou
+ */
+function isTimeout(error: unknown): boolean {
+  return error instanceof ProviderFailureError && error.code === 'PROVIDER_TIMEOUT';
+}
+
+/**
+ * Calcula a espera antes de uma nova tentativa: exponencial, com metade do valor aleatória
+ * A parte aleatória evita que várias chamadas que falharam juntas tentem de novo ao mesmo tempo
+ *
+ * @param {number} attempt - Número da tentativa que falhou, a partir de 1
+ * @returns {number} Espera em milissegundos
+ */
+function getRetryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Aguarda um intervalo
+ *
+ * @param {number} ms - Intervalo em milissegundos
+ * @returns {Promise<void>} Resolvida ao fim do intervalo
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,96 @@
+/**
+ * Esquema das reescritas de cenas geradas pela IA em formato JSON
+ * A resposta traz apenas os campos de texto que o usuário pediu para reescrever
+ */
+
+import { z } from 'zod';
+import { extractJson } from './sceneSchema';
+import { DialogueSchema } from '../utils/dialogue';
+
+/**
+ * Campos de texto de uma cena que podem ser reescritos
+ */
+export const SCENE_REWRITE_FIELDS = ['title', 'description', 'narration', 'dialogue'] as const;
+
+export type SceneRewriteField = typeof SCENE_REWRITE_FIELDS[number];
+
+/**
+ * Esquema da resposta do modelo
+ * O diálogo pode ficar vazio, como nas cenas geradas; os demais campos não
+ */
+export const SceneRewriteSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  description: z.string().trim().min(1).optional(),
+  narration: z.string().trim().min(1).optional(),
+  dialogue: DialogueSchema.optional(),
+});
+
+export type SceneRewrite = z.infer<typeof SceneRewriteSchema>;
+
+/**
+ * Monta o exemplo do formato JSON esperado, com apenas os campos pedidos
+ *
+ * @param {SceneRewriteField[]} fields - Campos a reescrever
+ * @returns {string} Exemplo incluído no prompt
+ */
+export function buildSceneRewriteExample(fields: SceneRewriteField[]): string {
+  const examples: { [field in SceneRewriteField]: any } = {
+    title: 'novo título descritivo',
+    description: 'nova descrição: ambiente, personagens, visuais',
+    narration: 'nova narração do que acontece na cena',
+    dialogue: [{ speaker: 'nome do personagem', text: 'nova fala, sem aspas', direction: 'emoção ou gesto (opcional)' }],
+  };
+
+  const example: { [field: string]: any } = {};
+  fields.forEach(field => { example[field] = examples[field]; });
+  return JSON.stringify(example, null, 2);
+}
+
+/**
+ * Resultado da validação de uma reescrita
+ *
+ * @interface SceneRewriteValidationResult
+ * @property {SceneRewrite} rewrite - Campos reescritos (apenas quando não há problemas)
+ * @property {string[]} issues - Problemas encontrados
+ */
+export interface SceneRewriteValidationResult {
+  rewrite?: SceneRewrite;
+  issues: string[];
+}
+
+/**
+ * Valida a resposta do modelo e confere se todos os campos pedidos foram reescritos
+ * Campos que não foram pedidos são descartados
+ *
+ * @param {string} content - Texto retornado pelo modelo
+ * @param {SceneRewriteField[]} fields - Campos pedidos
+ * @returns {SceneRewriteValidationResult} Campos reescritos ou a lista de problemas
+ */
+export function validateSceneRewrite(content: string, fields: SceneRewriteField[]): SceneRewriteValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(content));
+  } catch (error) {
+    return { issues: ['A resposta não é um JSON válido'] };
+  }
+
+  const parsed = SceneRewriteSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'resposta'}: ${issue.message}`)
+    };
+  }
+
+  const rewrite: { [field: string]: any } = {};
+  const issues: string[] = [];
+  fields.forEach(field => {
+    const value = parsed.data[field];
+    if (value === undefined) {
+      issues.push(`${field}: o campo foi pedido, mas não foi reescrito`);
+    } else {
+      rewrite[field] = value;
+    }
+  });
+
+  return issues.length > 0 ? { issues } : { rewrite, issues };
+}
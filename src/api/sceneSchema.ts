@@ -0,0 +1,192 @@
+/**
+ * Esquema das cenas geradas pela IA em formato JSON
+ * Valida a estrutura e o conteúdo da resposta antes de criar as cenas da história
+ */
+
+import { z } from 'zod';
+import { ProviderFailureError } from '../utils/errors';
+import { DialogueSchema } from '../utils/dialogue';
+
+/**
+ * Esquema de uma escolha gerada, que referencia a cena de destino pelo número (1, 2, ...)
+ */
+export const GeneratedChoiceSchema = z.object({
+  label: z.string().trim().min(1),
+  target: z.number().int().min(1),
+});
+
+/**
+ * Esquema de uma cena gerada
+ */
+export const GeneratedSceneSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  narration: z.string().trim().min(1),
+  dialogue: DialogueSchema.default([]),
+  choices: z.array(GeneratedChoiceSchema).default([]),
+  isEnding: z.boolean().default(false),
+  characters: z.array(z.string().trim().min(1)).default([]),
+});
+
+/**
+ * Esquema da resposta completa do modelo
+ */
+export const GeneratedScenesSchema = z.object({
+  scenes: z.array(GeneratedSceneSchema),
+});
+
+export type GeneratedChoice = z.infer<typeof GeneratedChoiceSchema>;
+export type GeneratedScene = z.infer<typeof GeneratedSceneSchema>;
+
+/**
+ * Exemplo do formato JSON esperado, incluído nos prompts
+ */
+export const GENERATED_SCENES_EXAMPLE = `{
+  "scenes": [
+    {
+      "title": "título descritivo",
+      "description": "ambiente, personagens, visuais",
+      "narration": "o que acontece na cena",
+      "dialogue": [
+        { "speaker": "nome do personagem", "text": "fala, sem aspas", "direction": "emoção ou gesto (opcional)" }
+      ],
+      "choices": [],
+      "isEnding": false,
+      "characters": ["nomes dos personagens presentes na cena"]
+    }
+  ]
+}`;
+
+/**
+ * Erro lançado quando o modelo não produz cenas válidas após todas as tentativas
+ */
+export class SceneGenerationError extends ProviderFailureError {
+  /**
+   * @param {string} message - Descrição do erro
+   * @param {string[]} issues - Problemas encontrados na última resposta
+   * @param {number} attempts - Número de tentativas realizadas
+   */
+  constructor(message: string, public readonly issues: string[], public readonly attempts: number) {
+    super(message, 'SCENE_GENERATION_FAILED', { issues, attempts });
+    this.name = 'SceneGenerationError';
+  }
+}
+
+/**
+ * Resultado da validação de uma resposta do modelo
+ *
+ * @interface SceneValidationResult
+ * @property {GeneratedScene[]} scenes - Cenas válidas (apenas quando não há problemas)
+ * @property {string[]} issues - Problemas encontrados
+ */
+export interface SceneValidationResult {
+  scenes?: GeneratedScene[];
+  issues: string[];
+}
+
+/**
+ * Extrai o objeto JSON de uma resposta, ignorando blocos de código e texto ao redor
+ *
+ * @param {string} content - Texto retornado pelo modelo
+ * @returns {string} Trecho entre a primeira e a última chave
+ */
+export function extractJson(content: string): string {
+  const withoutFences = content.replace(/```(?:json)?/gi, '');
+  const start = withoutFences.indexOf('{');
+  const end = withoutFences.lastIndexOf('}');
+
+  return start !== -1 && end > start ? withoutFences.substring(start, end + 1) : withoutFences.trim();
+}
+
+/**
+ * Valida a resposta do modelo contra o esquema e as regras da história
+ * Verifica o número de cenas e se as escolhas apontam para cenas existentes
+ *
+ * @param {string} content - Texto retornado pelo modelo
+ * @param {number} numScenes - Número de cenas esperado
+ * @returns {SceneValidationResult} Cenas válidas ou a lista de problemas
+ */
+export function validateGeneratedScenes(content: string, numScenes: number): SceneValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(content));
+  } catch (error) {
+    return { issues: ['A resposta não é um JSON válido'] };
+  }
+
+  const parsed = GeneratedScenesSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'resposta'}: ${issue.message}`)
+    };
+  }
+
+  const scenes = parsed.data.scenes;
+  const issues: string[] = [];
+
+  if (scenes.length !== numScenes) {
+    issues.push(`Foram geradas ${scenes.length} cenas, mas ${numScenes} foram solicitadas`);
+  }
+
+  scenes.forEach((scene, index) => {
+    scene.choices
+      .filter(choice => choice.target > scenes.length || choice.target === index + 1)
+      .forEach(choice => issues.push(`scenes.${index}.choices: a escolha "${choice.label}" aponta para a cena ${choice.target}, que é inválida`));
+  });
+
+  return issues.length > 0 ? { issues } : { scenes, issues };
+}
+
+/**
+ * Extrai as cenas já completas de uma resposta JSON ainda em geração
+ * Percorre o array "scenes" respeitando strings e aninhamento e para na primeira cena inválida,
+ * para que os índices das cenas retornadas correspondam às posições na resposta final
+ *
+ * @param {string} partial - Texto recebido do modelo até o momento
+ * @returns {GeneratedScene[]} Cenas completas e válidas, na ordem
+ */
+export function extractCompleteScenes(partial: string): GeneratedScene[] {
+  const keyIndex = partial.indexOf('"scenes"');
+  const arrayStart = keyIndex === -1 ? -1 : partial.indexOf('[', keyIndex);
+  if (arrayStart === -1) return [];
+
+  const scenes: GeneratedScene[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  for (let i = arrayStart + 1; i < partial.length; i++) {
+    const char = partial[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0 && objectStart !== -1) {
+        try {
+          const parsed = GeneratedSceneSchema.safeParse(JSON.parse(partial.substring(objectStart, i + 1)));
+          if (!parsed.success) break;
+          scenes.push(parsed.data);
+        } catch (error) {
+          break;
+        }
+        objectStart = -1;
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return scenes;
+}
@@ -0,0 +1,77 @@
+/**
+ * Registro do consumo das chamadas aos provedores de texto e imagem
+ * Os provedores informam o consumo de cada chamada concluída; quem se inscreve com
+ * setUsageListener decide como armazená-lo e a quem atribuí-lo
+ */
+
+import { ImageQuality, ImageSize } from './providers/imageProvider';
+import { TextGenerationTask } from './providers/textGeneration';
+
+/**
+ * Consumo de uma chamada a um provedor
+ *
+ * @interface ApiUsage
+ * @property {string} kind - Tipo da chamada: geração de texto ou de imagem
+ * @property {string} provider - Nome do provedor (openai, dalle ou local)
+ * @property {string} model - Modelo usado na chamada
+ * @property {TextGenerationTask} task - Tarefa de texto executada (apenas texto)
+ * @property {number} promptTokens - Tokens enviados no prompt
+ * @property {number} completionTokens - Tokens gerados na resposta
+ * @property {number} imageCount - Quantidade de imagens geradas
+ * @property {ImageSize} size - Dimensões das imagens (apenas imagens)
+ * @property {ImageQuality} quality - Qualidade das imagens (apenas imagens)
+ * @property {boolean} estimated - Indica que os tokens foram estimados, por não terem sido informados pelo provedor
+ */
+export interface ApiUsage {
+  kind: 'text' | 'image';
+  provider: string;
+  model: string;
+  task?: TextGenerationTask;
+  promptTokens: number;
+  completionTokens: number;
+  imageCount: number;
+  size?: ImageSize;
+  quality?: ImageQuality;
+  estimated: boolean;
+}
+
+type UsageListener = (usage: ApiUsage) => void;
+
+// Média aproximada de caracteres por token nos modelos da OpenAI
+const CHARS_PER_TOKEN = 4;
+
+let listener: UsageListener | null = null;
+
+/**
+ * Define quem recebe o consumo das chamadas
+ *
+ * @param {UsageListener | null} newListener - Função chamada a cada chamada concluída
+ */
+export function setUsageListener(newListener: UsageListener | null): void {
+  listener = newListener;
+}
+
+/**
+ * Informa o consumo de uma chamada concluída
+ * Falhas ao registrar o consumo não interrompem a geração
+ *
+ * @param {ApiUsage} usage - Consumo da chamada
+ */
+export function reportUsage(usage: ApiUsage): void {
+  if (!listener) return;
+  try {
+    listener(usage);
+  } catch (error) {
+    console.error('Erro ao registrar consumo da API:', error);
+  }
+}
+
+/**
+ * Estima a quantidade de tokens de um texto
+ *
+ * @param {string} text - Texto
+ * @returns {number} Quantidade aproximada de tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
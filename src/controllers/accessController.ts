@@ -0,0 +1,197 @@
+/**
+ * Controlador para as permissões de acesso às histórias
+ * Cada história tem um dono e pode ser compartilhada com outros usuários como leitor ou editor;
+ * cenas, personagens, revisões, jobs e imagens seguem as permissões da história à qual pertencem
+ */
+
+import { Story, StoryRole, StoryShare } from '../models/Story';
+import {
+  characterRepository,
+  jobRepository,
+  revisionRepository,
+  sceneRepository,
+  storyRepository,
+  stylePresetRepository,
+  userRepository
+} from '../repositories';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { getSampleAssetIds } from './assetController';
+
+/**
+ * Tipos de registro que pertencem a uma história
+ */
+export type StoryResource = 'story' | 'scene' | 'character' | 'revision' | 'job';
+
+// Nível de cada papel: um papel inclui as permissões dos papéis de nível menor
+const ROLE_LEVELS: { [role in StoryRole]: number } = { viewer: 1, editor: 2, owner: 3 };
+
+/**
+ * Compartilhamento de uma história, com o nome do usuário
+ *
+ * @interface StoryShareSummary
+ * @property {string} userId - ID do usuário
+ * @property {string} username - Nome de login do usuário
+ * @property {StoryRole} role - Papel do usuário na história
+ */
+export interface StoryShareSummary extends StoryShare {
+  username: string;
+}
+
+/**
+ * Obtém o papel de um usuário em uma história
+ *
+ * @param {Story} story - História
+ * @param {string} userId - ID do usuário
+ * @returns {StoryRole | null} O papel do usuário, ou null se ele não tiver acesso
+ */
+export function getStoryRole(story: Story, userId: string): StoryRole | null {
+  if (story.ownerId === userId) return 'owner';
+  const share = (story.sharedWith || []).find(item => item.userId === userId);
+  return share ? share.role : null;
+}
+
+/**
+ * Indica se um usuário tem pelo menos o papel exigido em uma história
+ *
+ * @param {Story} story - História
+ * @param {string} userId - ID do usuário
+ * @param {StoryRole} required - Papel mínimo exigido
+ * @returns {boolean} true se o usuário tiver o papel exigido ou um superior
+ */
+export function hasStoryRole(story: Story, userId: string, required: StoryRole): boolean {
+  const role = getStoryRole(story, userId);
+  return role !== null && ROLE_LEVELS[role] >= ROLE_LEVELS[required];
+}
+
+/**
+ * Indica se um usuário tem pelo menos o papel exigido na história indicada
+ *
+ * @param {string} storyId - ID da história
+ * @param {string} userId - ID do usuário
+ * @param {StoryRole} required - Papel mínimo exigido
+ * @returns {boolean} true se a história existir e o usuário tiver o papel exigido
+ */
+export function canAccessStory(storyId: string, userId: string, required: StoryRole): boolean {
+  const story = storyRepository.findById(storyId);
+  return story !== undefined && hasStoryRole(story, userId, required);
+}
+
+/**
+ * Obtém o ID da história à qual um registro pertence
+ *
+ * @param {StoryResource} resource - Tipo do registro
+ * @param {string} id - ID do registro
+ * @returns {string | undefined} ID da história, ou undefined se o registro não existir
+ */
+export function getResourceStoryId(resource: StoryResource, id: string): string | undefined {
+  switch (resource) {
+    case 'story': {
+      return storyRepository.findById(id) ? id : undefined;
+    }
+    case 'scene': {
+      const scene = sceneRepository.findById(id);
+      return scene && scene.storyId;
+    }
+    case 'character': {
+      const character = characterRepository.findById(id);
+      return character && character.storyId;
+    }
+    case 'revision': {
+      const revision = revisionRepository.findById(id);
+      return revision && revision.storyId;
+    }
+    case 'job': {
+      const job = jobRepository.findById(id);
+      return job && job.storyId;
+    }
+  }
+}
+
+/**
+ * Indica se um usuário pode ver uma imagem armazenada
+ * A imagem é visível se for a prévia de um preset de estilo ou se alguma cena, revisão ou amostra visual
+ * de uma história acessível ao usuário a utilizar
+ *
+ * @param {string} assetId - ID do asset
+ * @param {string} userId - ID do usuário
+ * @returns {boolean} true se o usuário puder ver a imagem
+ */
+export function canViewAsset(assetId: string, userId: string): boolean {
+  if (stylePresetRepository.find(preset => preset.previewAssetId === assetId).length > 0) return true;
+
+  const storyIds = new Set<string>();
+  sceneRepository.find(scene => scene.imageAssetId === assetId).forEach(scene => storyIds.add(scene.storyId));
+  revisionRepository.find(revision => revision.snapshot.imageAssetId === assetId).forEach(revision => storyIds.add(revision.storyId));
+  storyRepository.find(story => getSampleAssetIds(story).indexOf(assetId) !== -1).forEach(story => storyIds.add(story.id));
+
+  return Array.from(storyIds).some(storyId => {
+    const story = storyRepository.findById(storyId);
+    return story !== undefined && hasStoryRole(story, userId, 'viewer');
+  });
+}
+
+/**
+ * Lista os usuários com quem uma história foi compartilhada
+ *
+ * @param {string} storyId - ID da história
+ * @returns {StoryShareSummary[]} Compartilhamentos da história
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+export function getStoryShares(storyId: string): StoryShareSummary[] {
+  const story = findStory(storyId);
+
+  return (story.sharedWith || []).map(share => {
+    const user = userRepository.findById(share.userId);
+    return { ...share, username: user ? user.username : '' };
+  });
+}
+
+/**
+ * Compartilha uma história com um usuário ou altera o papel de um compartilhamento existente
+ *
+ * @param {string} storyId - ID da história
+ * @param {string} username - Nome de login do usuário
+ * @param {StoryShare['role']} role - Papel concedido (editor ou viewer)
+ * @returns {StoryShareSummary[]} Compartilhamentos atualizados
+ * @throws {NotFoundError} Se a história ou o usuário não forem encontrados
+ * @throws {ValidationError} Se o usuário for o dono da história
+ */
+export function shareStory(storyId: string, username: string, role: StoryShare['role']): StoryShareSummary[] {
+  const story = findStory(storyId);
+  const user = userRepository.findByUsername(username);
+  if (!user) throw new NotFoundError('user');
+  if (user.id === story.ownerId) throw new ValidationError('O dono da história já tem acesso total', [], 'INVALID_SHARE');
+
+  const sharedWith = (story.sharedWith || []).filter(share => share.userId !== user.id);
+  sharedWith.push({ userId: user.id, role });
+  storyRepository.update(storyId, { sharedWith });
+
+  return getStoryShares(storyId);
+}
+
+/**
+ * Remove o acesso de um usuário a uma história
+ *
+ * @param {string} storyId - ID da história
+ * @param {string} userId - ID do usuário
+ * @returns {StoryShareSummary[]} Compartilhamentos atualizados
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+export function unshareStory(storyId: string, userId: string): StoryShareSummary[] {
+  const story = findStory(storyId);
+  storyRepository.update(storyId, { sharedWith: (story.sharedWith || []).filter(share => share.userId !== userId) });
+  return getStoryShares(storyId);
+}
+
+/**
+ * Localiza uma história no repositório
+ *
+ * @param {string} storyId - ID da história
+ * @returns {Story} A história encontrada
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+function findStory(storyId: string): Story {
+  const story = storyRepository.findById(storyId);
+  if (!story) throw new NotFoundError('story');
+  return story;
+}
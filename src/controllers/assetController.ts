@@ -0,0 +1,237 @@
+/**
+ * Controlador para o armazenamento local de imagens
+ * Baixa as imagens geradas (as URLs do DALL-E expiram), grava o conteúdo endereçado pelo hash
+ * e remove os arquivos que nenhuma cena referencia mais
+ */
+
+import crypto from 'crypto';
+import { Asset } from '../models/Asset';
+import { Story } from '../models/Story';
+import { ImageResult } from '../api/imageGeneration';
+import { assetFiles, assetRepository, revisionRepository, sceneRepository, storyRepository, stylePresetRepository } from '../repositories';
+import { NotFoundError, ProviderFailureError, ValidationError } from '../utils/errors';
+import { detectImageType } from '../utils/imageContent';
+
+// Idade mínima para que um asset sem referências seja removido, protegendo gravações em andamento
+const DEFAULT_GC_MIN_AGE_MS = 10 * 60 * 1000;
+
+// Tempo máximo para baixar uma imagem gerada pelo provedor
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Resultado de uma coleta de lixo de assets
+ *
+ * @interface AssetGarbageCollectionResult
+ * @property {string[]} removedAssetIds - Assets removidos por não serem referenciados por nenhuma cena
+ * @property {number} removedFiles - Arquivos removidos (incluindo arquivos sem metadados)
+ * @property {number} freedBytes - Espaço liberado em bytes
+ */
+export interface AssetGarbageCollectionResult {
+  removedAssetIds: string[];
+  removedFiles: number;
+  freedBytes: number;
+}
+
+/**
+ * Monta a URL pública de um asset
+ *
+ * @param {string} assetId - ID do asset
+ * @returns {string} URL servida pela rota de assets
+ */
+export function getAssetUrl(assetId: string): string {
+  return `/api/assets/${assetId}`;
+}
+
+/**
+ * Indica se uma URL de imagem pode ser armazenada localmente
+ *
+ * @param {string} url - URL da imagem
+ * @returns {boolean} true para URLs remotas e data URLs de imagem
+ */
+export function isStorableImageUrl(url: string): boolean {
+  return /^https?:\/\//.test(url) || url.startsWith('data:image/');
+}
+
+/**
+ * Armazena uma imagem gerada como asset
+ * Imagens com o mesmo conteúdo compartilham o mesmo asset
+ *
+ * @param {ImageResult} image - Imagem gerada, com prompt e provedor
+ * @returns {Promise<Asset>} O asset gravado
+ * @throws {Error} Se a URL não puder ser armazenada ou o download falhar
+ */
+export async function storeImage(image: ImageResult): Promise<Asset> {
+  if (!isStorableImageUrl(image.url)) {
+    throw new Error('URL de imagem não pode ser armazenada');
+  }
+
+  const { data } = await loadImageData(image.url);
+
+  return saveAsset(data, {
+    dimensions: image.dimensions,
+    prompt: image.prompt,
+    provider: image.provider,
+    sourceUrl: image.url.startsWith('data:') ? undefined : image.url,
+    createdAt: new Date()
+  });
+}
+
+/**
+ * Grava um conteúdo como asset, usando o hash SHA-256 do conteúdo como ID
+ * O tipo é identificado pelo conteúdo, e apenas imagens são aceitas; se o asset já existir, seus metadados são mantidos
+ *
+ * @param {Buffer} data - Conteúdo do arquivo
+ * @param {Object} metadata - Metadados do asset, sem ID, tipo e tamanho
+ * @returns {Promise<Asset>} O asset gravado ou o já existente
+ * @throws {ValidationError} Se o conteúdo não for uma imagem aceita
+ */
+export async function saveAsset(data: Buffer, metadata: Omit<Asset, 'id' | 'mimeType' | 'byteSize'>): Promise<Asset> {
+  const mimeType = detectImageType(data);
+  if (!mimeType) throw new ValidationError('O conteúdo não é uma imagem PNG, JPEG, WebP, GIF ou SVG sem scripts', [], 'INVALID_IMAGE');
+
+  const id = crypto.createHash('sha256').update(data).digest('hex');
+
+  // O arquivo é gravado antes dos metadados, para que um asset registrado sempre tenha conteúdo
+  await assetFiles.write(id, data);
+
+  const existing = assetRepository.findById(id);
+  if (existing) return existing;
+
+  return assetRepository.save({ ...metadata, id, mimeType, byteSize: data.length });
+}
+
+/**
+ * Obtém os metadados de um asset
+ *
+ * @param {string} assetId - ID do asset
+ * @returns {Asset} O asset encontrado
+ * @throws {NotFoundError} Se o asset não for encontrado
+ */
+export function getAsset(assetId: string): Asset {
+  const asset = assetRepository.findById(assetId);
+  if (!asset || !assetFiles.exists(assetId)) throw new NotFoundError('asset');
+  return asset;
+}
+
+/**
+ * Obtém o caminho do arquivo de um asset, para envio direto na resposta
+ *
+ * @param {string} assetId - ID do asset
+ * @returns {string} Caminho absoluto do arquivo
+ * @throws {NotFoundError} Se o asset não for encontrado
+ */
+export function getAssetPath(assetId: string): string {
+  getAsset(assetId);
+  return assetFiles.getPath(assetId);
+}
+
+/**
+ * Lê um asset como data URL, para documentos que precisam funcionar sem o servidor
+ *
+ * @param {string} assetId - ID do asset
+ * @returns {Promise<string>} Conteúdo codificado em base64
+ * @throws {NotFoundError} Se o asset não for encontrado
+ */
+export async function getAssetDataUrl(assetId: string): Promise<string> {
+  const { asset, data } = await readAsset(assetId);
+  return `data:${asset.mimeType};base64,${data.toString('base64')}`;
+}
+
+/**
+ * Lê o conteúdo de um asset
+ *
+ * @param {string} assetId - ID do asset
+ * @returns {Promise<{ asset: Asset, data: Buffer }>} Metadados e conteúdo do asset
+ * @throws {NotFoundError} Se o asset não for encontrado
+ */
+export async function readAsset(assetId: string): Promise<{ asset: Asset; data: Buffer }> {
+  const asset = getAsset(assetId);
+  return { asset, data: await assetFiles.read(assetId) };
+}
+
+/**
+ * Lista os assets das amostras visuais de uma história, incluindo a amostra selecionada
+ *
+ * @param {Story} story - História
+ * @returns {string[]} IDs dos assets das amostras
+ */
+export function getSampleAssetIds(story: Pick<Story, 'visualSamples' | 'selectedVisualSample'>): string[] {
+  const samples = (story.visualSamples || []).concat(story.selectedVisualSample ? [story.selectedVisualSample] : []);
+  return samples
+    .map(sample => sample.imageAssetId)
+    .filter((id): id is string => id !== undefined);
+}
+
+/**
+ * Remove os assets que nenhuma cena, revisão, amostra visual ou preset de estilo referencia e os arquivos sem metadados
+ * Assets criados recentemente são mantidos, pois podem pertencer a uma imagem ainda sendo gravada
+ *
+ * @param {number} minAgeMs - Idade mínima, em milissegundos, para remover um asset (padrão: 10 minutos)
+ * @returns {Promise<AssetGarbageCollectionResult>} Assets e arquivos removidos
+ */
+export async function collectAssetGarbage(minAgeMs: number = DEFAULT_GC_MIN_AGE_MS): Promise<AssetGarbageCollectionResult> {
+  const cutoff = Date.now() - minAgeMs;
+  const referenced = new Set<string>();
+  sceneRepository.findAll().forEach(scene => {
+    if (scene.imageAssetId) referenced.add(scene.imageAssetId);
+  });
+  // Imagens anteriores guardadas no histórico ainda podem ser restauradas
+  revisionRepository.findAll().forEach(revision => {
+    if (revision.snapshot.imageAssetId) referenced.add(revision.snapshot.imageAssetId);
+  });
+  stylePresetRepository.findAll().forEach(preset => {
+    if (preset.previewAssetId) referenced.add(preset.previewAssetId);
+  });
+  storyRepository.findAll().forEach(story => {
+    getSampleAssetIds(story).forEach(id => referenced.add(id));
+  });
+
+  const removedAssetIds = assetRepository
+    .find(asset => !referenced.has(asset.id) && asset.createdAt.getTime() < cutoff)
+    .map(asset => asset.id);
+  removedAssetIds.forEach(id => assetRepository.delete(id));
+
+  // Remove os arquivos dos assets removidos e os que ficaram sem metadados
+  let removedFiles = 0;
+  let freedBytes = 0;
+  for (const file of await assetFiles.list()) {
+    const orphan = !assetRepository.findById(file.id) && file.modifiedAt.getTime() < cutoff;
+    if ((removedAssetIds.indexOf(file.id) !== -1 || orphan) && await assetFiles.remove(file.id)) {
+      removedFiles++;
+      freedBytes += file.byteSize;
+    }
+  }
+
+  return { removedAssetIds, removedFiles, freedBytes };
+}
+
+/**
+ * Obtém o conteúdo de uma imagem a partir de uma URL remota ou data URL
+ *
+ * @param {string} url - URL da imagem
+ * @returns {Promise<{ data: Buffer, mimeType: string }>} Conteúdo e tipo declarado da imagem
+ * @throws {ProviderFailureError} Se o download falhar
+ */
+export async function loadImageData(url: string): Promise<{ data: Buffer; mimeType: string }> {
+  if (url.startsWith('data:')) {
+    const separator = url.indexOf(',');
+    const header = url.substring(5, separator);
+    const payload = url.substring(separator + 1);
+    const isBase64 = /;base64$/.test(header);
+
+    return {
+      data: isBase64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload), 'utf-8'),
+      mimeType: header.split(';')[0] || 'application/octet-stream'
+    };
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new ProviderFailureError(`Falha ao baixar imagem: HTTP ${response.status}`);
+  }
+
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    mimeType: (response.headers.get('content-type') || 'image/png').split(';')[0].trim()
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Controlador para exportação e importação de histórias em pacotes JSON versionados
+ * O pacote é autocontido: inclui cenas, personagens e o conteúdo das imagens armazenadas
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Story } from '../models/Story';
+import { Scene } from '../models/Scene';
+import { Character } from '../models/Character';
+import * as assetController from './assetController';
+import { getStory } from './storyController';
+import { assertNoHolds, quarantineStory, screenStory } from './moderationController';
+import { canViewAsset } from './accessController';
+import { getCharactersByStory } from './characterController';
+import { characterRepository, sceneRepository, storyRepository, stylePresetRepository, transaction } from '../repositories';
+import { detectImageType, isImageMimeType } from '../utils/imageContent';
+import {
+  BundleAsset,
+  parseStoryBundle,
+  StoryBundle,
+  StoryBundleError,
+  STORY_BUNDLE_FORMAT,
+  STORY_BUNDLE_VERSION
+} from '../utils/storyBundle';
+
+/**
+ * Resultado de uma importação
+ *
+ * @interface StoryBundleImport
+ * @property {Story} story - A nova história, com suas cenas
+ * @property {number} [migratedFrom] - Versão original do pacote, quando ele precisou ser migrado
+ */
+export interface StoryBundleImport {
+  story: Story;
+  migratedFrom?: number;
+}
+
+/**
+ * Gera o pacote de uma história na versão atual do formato
+ * Imagens armazenadas localmente, das cenas e das amostras visuais, são incluídas em base64; imagens que não puderem ser lidas são omitidas
+ *
+ * @param {string} storyId - ID da história a ser exportada
+ * @returns {Promise<StoryBundle>} O pacote da história
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ContentQuarantinedError} Se a história tiver conteúdo retido pela moderação
+ */
+export async function exportStoryBundle(storyId: string): Promise<StoryBundle> {
+  // O dono e os compartilhamentos valem apenas neste servidor e não fazem parte do pacote
+  const { scenes, ownerId: _ownerId, sharedWith: _sharedWith, ...story } = getStory(storyId);
+  assertNoHolds(storyId);
+
+  const assetIds: string[] = [];
+  scenes.map(scene => scene.imageAssetId).concat(assetController.getSampleAssetIds(story)).forEach(assetId => {
+    if (assetId && assetIds.indexOf(assetId) === -1) assetIds.push(assetId);
+  });
+
+  const assets: BundleAsset[] = [];
+  for (const assetId of assetIds) {
+    try {
+      const { asset, data } = await assetController.readAsset(assetId);
+      if (!isImageMimeType(asset.mimeType)) {
+        console.warn(`Asset ${assetId} não é uma imagem aceita e foi omitido do pacote`);
+        continue;
+      }
+      assets.push({
+        id: asset.id,
+        mimeType: asset.mimeType,
+        dimensions: asset.dimensions,
+        prompt: asset.prompt,
+        provider: asset.provider,
+        sourceUrl: asset.sourceUrl,
+        createdAt: asset.createdAt,
+        data: data.toString('base64')
+      });
+    } catch (error) {
+      console.error(`Erro ao incluir asset ${assetId} no pacote:`, error);
+    }
+  }
+
+  return {
+    format: STORY_BUNDLE_FORMAT,
+    version: STORY_BUNDLE_VERSION,
+    exportedAt: new Date(),
+    story: {
+      ...story,
+      visualSamples: story.visualSamples || []
+    },
+    scenes: scenes.map(({ storyId: _storyId, ...scene }) => scene),
+    characters: getCharactersByStory(storyId).map(({ storyId: _storyId, ...character }) => character),
+    assets
+  };
+}
+
+/**
+ * Importa um pacote como uma nova história
+ * Pacotes de versões anteriores são migrados; história, cenas e personagens recebem novos IDs,
+ * para que o mesmo pacote possa ser importado várias vezes sem colisões
+ *
+ * @param {any} data - Conteúdo do pacote
+ * @param {string} [ownerId] - ID do usuário dono da nova história (opcional)
+ * @returns {Promise<StoryBundleImport>} A história criada
+ * @throws {StoryBundleError} Se o pacote for inválido
+ */
+export async function importStoryBundle(data: any, ownerId?: string): Promise<StoryBundleImport> {
+  const { bundle, migratedFrom, issues } = parseStoryBundle(data);
+  if (!bundle) throw new StoryBundleError('Pacote de história inválido', issues);
+
+  const assetContents = decodeAssets(bundle.assets);
+
+  // Os arquivos são gravados antes dos registros que os referenciam, como na geração de imagens
+  const availableAssetIds = new Set<string>();
+  for (const asset of bundle.assets) {
+    const { id, data: _data, mimeType: _mimeType, ...metadata } = asset;
+    await assetController.saveAsset(assetContents[id], metadata);
+    availableAssetIds.add(id);
+  }
+
+  const storyId = uuidv4();
+  const sceneIds: { [oldId: string]: string } = {};
+  const characterIds: { [oldId: string]: string } = {};
+  bundle.scenes.forEach(scene => { sceneIds[scene.id] = uuidv4(); });
+  bundle.characters.forEach(character => { characterIds[character.id] = uuidv4(); });
+
+  // Assets que não vieram no pacote só são mantidos se o usuário já puder vê-los neste servidor;
+  // conhecer o hash de uma imagem de outra história não dá acesso a ela
+  const resolveImage = (imageUrl: string, assetId?: string): { imageUrl: string; imageAssetId?: string } => {
+    if (assetId && (availableAssetIds.has(assetId) || (ownerId && canViewAsset(assetId, ownerId)))) {
+      return { imageUrl: assetController.getAssetUrl(assetId), imageAssetId: assetId };
+    }
+    return { imageUrl: assetId || imageUrl.startsWith('/api/assets/') ? '' : imageUrl, imageAssetId: undefined };
+  };
+  const importSample = <T extends { imageUrl: string; imageAssetId?: string }>(sample: T): T => ({
+    ...sample,
+    ...resolveImage(sample.imageUrl, sample.imageAssetId)
+  });
+
+  const story: Story = {
+    ...bundle.story,
+    id: storyId,
+    ownerId,
+    startSceneId: bundle.story.startSceneId ? sceneIds[bundle.story.startSceneId] : undefined,
+    // Presets de outro servidor não existem aqui; o nome do estilo continua valendo como estilo livre
+    stylePresetId: bundle.story.stylePresetId && stylePresetRepository.findById(bundle.story.stylePresetId) ? bundle.story.stylePresetId : undefined,
+    // As retenções são decididas pela moderação deste servidor
+    moderation: undefined,
+    visualSamples: bundle.story.visualSamples.map(importSample),
+    selectedVisualSample: bundle.story.selectedVisualSample ? importSample(bundle.story.selectedVisualSample) : undefined,
+    scenes: []
+  };
+
+  const characters: Character[] = bundle.characters.map(character => ({
+    ...character,
+    id: characterIds[character.id],
+    storyId
+  }));
+
+  const scenes: Scene[] = bundle.scenes.map(scene => {
+    const image = resolveImage(scene.imageUrl, scene.imageAssetId);
+    return {
+      ...scene,
+      ...image,
+      id: sceneIds[scene.id],
+      storyId,
+      choices: scene.choices.map(choice => ({ label: choice.label, targetSceneId: sceneIds[choice.targetSceneId] })),
+      characterIds: scene.characterIds.map(id => characterIds[id]),
+      imageStatus: image.imageUrl ? 'ready' : 'none',
+      moderation: undefined
+    };
+  });
+
+  // O texto importado é verificado como o texto gerado, e o que for sinalizado fica retido
+  const verdicts = await screenStory(story.proposal, scenes);
+
+  transaction(() => {
+    storyRepository.save(story);
+    scenes.forEach(scene => sceneRepository.save(scene));
+    characters.forEach(character => characterRepository.save(character));
+    quarantineStory(storyId, scenes, verdicts);
+  });
+
+  return { story: getStory(storyId), migratedFrom };
+}
+
+/**
+ * Decodifica o conteúdo dos assets de um pacote, conferindo se cada ID corresponde ao hash do conteúdo
+ * e se o tipo declarado corresponde à imagem
+ *
+ * @param {BundleAsset[]} assets - Assets do pacote
+ * @returns {Object} Conteúdo de cada asset, indexado pelo ID
+ * @throws {StoryBundleError} Se algum conteúdo não corresponder ao seu ID ou ao seu tipo
+ */
+function decodeAssets(assets: BundleAsset[]): { [assetId: string]: Buffer } {
+  const contents: { [assetId: string]: Buffer } = {};
+  const issues: string[] = [];
+
+  assets.forEach((asset, index) => {
+    const content = Buffer.from(asset.data, 'base64');
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    if (hash !== asset.id) {
+      issues.push(`assets.${index}.data: o conteúdo não corresponde ao ID do asset`);
+    }
+    // O tipo declarado precisa corresponder ao conteúdo, que é servido pela origem da aplicação
+    if (detectImageType(content) !== asset.mimeType) {
+      issues.push(`assets.${index}.data: o conteúdo não é uma imagem do tipo ${asset.mimeType}`);
+    }
+    contents[asset.id] = content;
+  });
+
+  if (issues.length > 0) throw new StoryBundleError('Pacote de história inválido', issues);
+  return contents;
+}
@@ -0,0 +1,206 @@
+/**
+ * Controlador para gerenciamento dos personagens de uma história
+ * Responsável por extrair os personagens da proposta e manter suas fichas,
+ * usadas para manter aparência e falas consistentes entre as cenas
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Character } from '../models/Character';
+import { Scene } from '../models/Scene';
+import { extractCharacters } from '../api/openai';
+import { characterRepository, sceneRepository, storyRepository, transaction } from '../repositories';
+import { getStoryLanguage } from '../utils/languages';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { formatDialogue } from '../utils/dialogue';
+
+// Campos de texto editáveis de um personagem
+const CHARACTER_FIELDS = ['name', 'role', 'physicalDescription', 'clothing', 'personality', 'speechStyle'] as const;
+
+type CharacterField = (typeof CHARACTER_FIELDS)[number];
+
+/**
+ * Extrai os personagens da proposta de uma história, substituindo os existentes
+ * As cenas deixam de referenciar os personagens removidos
+ *
+ * @param {string} storyId - ID da história
+ * @returns {Promise<Character[]>} Os personagens extraídos
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ProviderFailureError} Se a extração falhar
+ */
+export async function extractStoryCharacters(storyId: string): Promise<Character[]> {
+  const story = storyRepository.findById(storyId);
+  if (!story) throw new NotFoundError('story');
+
+  const extracted = await extractCharacters(story.proposal, getStoryLanguage(story));
+
+  return transaction(() => {
+    getCharactersByStory(storyId).forEach(character => removeCharacterFromScenes(character));
+    characterRepository.deleteByStory(storyId);
+
+    return extracted.map(data => characterRepository.save(buildCharacter(storyId, data)));
+  });
+}
+
+/**
+ * Obtém os personagens de uma história
+ *
+ * @param {string} storyId - ID da história
+ * @returns {Character[]} Personagens na ordem em que foram criados
+ */
+export function getCharactersByStory(storyId: string): Character[] {
+  return characterRepository.findByStory(storyId);
+}
+
+/**
+ * Obtém um personagem específico pelo ID
+ *
+ * @param {string} characterId - ID do personagem
+ * @returns {Character} O personagem encontrado
+ * @throws {NotFoundError} Se o personagem não for encontrado
+ */
+export function getCharacter(characterId: string): Character {
+  const character = characterRepository.findById(characterId);
+  if (!character) throw new NotFoundError('character');
+  return character;
+}
+
+/**
+ * Cria um personagem em uma história
+ *
+ * @param {string} storyId - ID da história
+ * @param {Object} data - Dados do personagem (nome obrigatório)
+ * @returns {Character} O personagem criado
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ValidationError} Se o nome estiver vazio
+ */
+export function createCharacter(storyId: string, data: any): Character {
+  if (!storyRepository.findById(storyId)) throw new NotFoundError('story');
+  if (!data || typeof data.name !== 'string' || data.name.trim() === '') {
+    throw new ValidationError('Nome do personagem é obrigatório');
+  }
+
+  return characterRepository.save(buildCharacter(storyId, data));
+}
+
+/**
+ * Atualiza os campos de um personagem
+ *
+ * @param {string} characterId - ID do personagem
+ * @param {Object} updates - Campos a serem atualizados
+ * @returns {Character} O personagem atualizado
+ * @throws {NotFoundError} Se o personagem não for encontrado
+ * @throws {ValidationError} Se o nome ficar vazio
+ */
+export function updateCharacter(characterId: string, updates: Partial<Pick<Character, CharacterField>>): Character {
+  const character = getCharacter(characterId);
+
+  if (updates.name !== undefined && (typeof updates.name !== 'string' || updates.name.trim() === '')) {
+    throw new ValidationError('Nome do personagem é obrigatório');
+  }
+
+  CHARACTER_FIELDS.forEach(field => {
+    const value = updates[field];
+    if (typeof value === 'string') character[field] = value.trim();
+  });
+
+  return characterRepository.save(character);
+}
+
+/**
+ * Remove um personagem e suas referências nas cenas
+ *
+ * @param {string} characterId - ID do personagem
+ */
+export function deleteCharacter(characterId: string): void {
+  const character = characterRepository.findById(characterId);
+  if (!character) return;
+
+  transaction(() => {
+    removeCharacterFromScenes(character);
+    characterRepository.delete(characterId);
+  });
+}
+
+/**
+ * Remove todos os personagens de uma história
+ *
+ * @param {string} storyId - ID da história
+ * @returns {number} Quantidade de personagens removidos
+ */
+export function deleteCharactersByStory(storyId: string): number {
+  return characterRepository.deleteByStory(storyId);
+}
+
+/**
+ * Obtém os personagens presentes em uma cena
+ * Usa os personagens associados à cena e, sem associação, os nomes citados em seu texto
+ *
+ * @param {Scene} scene - Cena da história
+ * @returns {Character[]} Personagens presentes na cena
+ */
+export function getSceneCharacters(scene: Scene): Character[] {
+  const characters = getCharactersByStory(scene.storyId);
+  const characterIds = scene.characterIds || [];
+
+  if (characterIds.length > 0) {
+    return characters.filter(character => characterIds.indexOf(character.id) !== -1);
+  }
+
+  const text = [scene.title, scene.description, scene.narration, formatDialogue(scene.dialogue)].join(' ').toLowerCase();
+  return characters.filter(character => text.indexOf(character.name.toLowerCase()) !== -1);
+}
+
+/**
+ * Converte nomes de personagens citados pela IA nos IDs dos personagens da história
+ *
+ * @param {string} storyId - ID da história
+ * @param {string[]} names - Nomes citados
+ * @returns {string[]} IDs dos personagens encontrados, sem repetição
+ */
+export function resolveCharacterIds(storyId: string, names: string[]): string[] {
+  const characters = getCharactersByStory(storyId);
+  const ids: string[] = [];
+
+  names.forEach(name => {
+    const normalized = name.trim().toLowerCase();
+    const character = characters.find(c => c.name.toLowerCase() === normalized);
+    if (character && ids.indexOf(character.id) === -1) ids.push(character.id);
+  });
+
+  return ids;
+}
+
+/**
+ * Monta um novo objeto de personagem, sem gravá-lo
+ *
+ * @param {string} storyId - ID da história
+ * @param {Object} data - Dados do personagem
+ * @returns {Character} O objeto de personagem
+ */
+function buildCharacter(storyId: string, data: any): Character {
+  const text = (value: any) => typeof value === 'string' ? value.trim() : '';
+
+  return {
+    id: uuidv4(),
+    storyId,
+    name: text(data.name),
+    role: text(data.role),
+    physicalDescription: text(data.physicalDescription),
+    clothing: text(data.clothing),
+    personality: text(data.personality),
+    speechStyle: text(data.speechStyle)
+  };
+}
+
+/**
+ * Remove a referência a um personagem de todas as cenas da sua história
+ *
+ * @param {Character} character - Personagem removido
+ */
+function removeCharacterFromScenes(character: Character): void {
+  sceneRepository.findByStory(character.storyId)
+    .filter(scene => (scene.characterIds || []).indexOf(character.id) !== -1)
+    .forEach(scene => sceneRepository.update(scene.id, {
+      characterIds: scene.characterIds.filter(id => id !== character.id)
+    }));
+}
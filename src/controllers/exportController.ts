@@ -0,0 +1,213 @@
+/**
+ * Controlador para exportação de histórias em formatos de leitura
+ * Monta o livro EPUB com capa, folha de rosto e um capítulo por cena
+ */
+
+import { DialogueLine, Scene } from '../models/Scene';
+import { Story } from '../models/Story';
+import * as assetController from './assetController';
+import { getStory } from './storyController';
+import { assertNoHolds } from './moderationController';
+import { getSceneEdges } from '../utils/storyGraph';
+import { buildEpub, EpubDocument, EpubImage, escapeXml, getImageExtension } from '../utils/epub';
+import { getStoryLanguage } from '../utils/languages';
+
+// Estilos aplicados a todas as páginas do livro
+const EPUB_STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 5%; }
+h1 { text-align: center; }
+.cover, .title-page { text-align: center; }
+.cover img { max-width: 100%; max-height: 90vh; }
+.title-page h1 { margin-top: 30%; }
+.scene-image { text-align: center; margin: 1em 0; }
+.scene-image img { max-width: 100%; }
+.description { font-style: italic; }
+.dialogue { margin-left: 1.5em; }
+.speaker { font-weight: bold; }
+.direction { font-style: italic; }
+.choices { margin-top: 1.5em; }
+.ending { text-align: center; font-weight: bold; margin-top: 2em; }`;
+
+/**
+ * Gera um livro EPUB 3 com a história completa
+ * As imagens são incorporadas ao arquivo, nunca referenciadas por URL
+ *
+ * @param {string} storyId - ID da história a ser exportada
+ * @returns {Promise<Buffer>} Conteúdo do arquivo .epub
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ContentQuarantinedError} Se a história tiver conteúdo retido pela moderação
+ */
+export async function generateEpubExport(storyId: string): Promise<Buffer> {
+  const story = getStory(storyId);
+  assertNoHolds(storyId);
+  const language = getStoryLanguage(story);
+  const images: EpubImage[] = [];
+  const sceneImages: (EpubImage | undefined)[] = [];
+
+  for (let i = 0; i < story.scenes.length; i++) {
+    const image = await loadSceneImage(story.scenes[i], getSceneDocumentId(i));
+    if (image) images.push(image);
+    sceneImages.push(image);
+  }
+
+  // A primeira imagem disponível também é usada como capa
+  const coverImage = images[0];
+  if (coverImage) coverImage.isCover = true;
+
+  const documents: EpubDocument[] = [
+    {
+      id: 'cover',
+      fileName: 'capa.xhtml',
+      title: 'Capa',
+      body: coverImage
+        ? `<section class="cover" epub:type="cover"><img src="images/${coverImage.fileName}" alt="${escapeXml(story.title)}"/></section>`
+        : `<section class="cover" epub:type="cover"><h1>${escapeXml(story.title)}</h1></section>`,
+      inToc: false
+    },
+    {
+      id: 'title-page',
+      fileName: 'folha-de-rosto.xhtml',
+      title: story.title,
+      body: `<section class="title-page" epub:type="titlepage">
+    <h1>${escapeXml(story.title)}</h1>
+    <p>${escapeXml(story.createdAt.toLocaleDateString(language))}</p>
+  </section>`,
+      inToc: true
+    },
+    ...story.scenes.map((scene, index) => ({
+      id: getSceneDocumentId(index),
+      fileName: getSceneFileName(index),
+      title: scene.title || `Cena ${index + 1}`,
+      body: buildSceneBody(story, scene, index, sceneImages[index]),
+      inToc: true
+    }))
+  ];
+
+  return buildEpub({
+    identifier: `urn:uuid:${story.id}`,
+    title: story.title,
+    language,
+    createdAt: story.createdAt,
+    stylesheet: EPUB_STYLESHEET,
+    documents,
+    images
+  });
+}
+
+/**
+ * Monta o conteúdo XHTML do capítulo de uma cena
+ * As escolhas viram links para os capítulos de destino
+ *
+ * @param {Story} story - História com todas as cenas
+ * @param {Scene} scene - Cena do capítulo
+ * @param {number} index - Posição da cena na história
+ * @param {EpubImage} [image] - Imagem incorporada da cena (opcional)
+ * @returns {string} Conteúdo do elemento body
+ */
+function buildSceneBody(story: Story, scene: Scene, index: number, image?: EpubImage): string {
+  const edges = getSceneEdges(scene, story.scenes)
+    .map(edge => ({ label: edge.label, targetIndex: story.scenes.findIndex(s => s.id === edge.targetSceneId) }))
+    .filter(edge => edge.targetIndex !== -1);
+
+  const choices = edges.length > 0
+    ? `<ul class="choices">${edges.map(edge =>
+        `<li><a href="${getSceneFileName(edge.targetIndex)}">${escapeXml(edge.label)}</a></li>`).join('')}</ul>`
+    : '<p class="ending">Fim</p>';
+
+  return `<section epub:type="chapter">
+    <h1>${escapeXml(scene.title || `Cena ${index + 1}`)}</h1>
+    ${image ? `<div class="scene-image"><img src="images/${image.fileName}" alt="${escapeXml(scene.title)}"/></div>` : ''}
+    ${toParagraphs(scene.description, 'description')}
+    ${toParagraphs(scene.narration)}
+    ${toDialogueParagraphs(scene.dialogue)}
+    ${choices}
+  </section>`;
+}
+
+/**
+ * Obtém o conteúdo da imagem de uma cena para incorporar ao livro
+ * Apenas imagens armazenadas localmente são incorporadas: a URL de uma cena pode ter vindo de uma
+ * importação, e o servidor não deve baixar endereços escolhidos pelo usuário
+ *
+ * @param {Scene} scene - Cena da história
+ * @param {string} baseName - Nome do arquivo, sem extensão
+ * @returns {Promise<EpubImage | undefined>} A imagem ou undefined se não houver imagem utilizável
+ */
+async function loadSceneImage(scene: Scene, baseName: string): Promise<EpubImage | undefined> {
+  if (!scene.imageAssetId) return undefined;
+
+  let content: { data: Buffer; mimeType: string };
+  try {
+    const { asset, data } = await assetController.readAsset(scene.imageAssetId);
+    content = { data, mimeType: asset.mimeType };
+  } catch (error) {
+    console.error(`Erro ao incorporar imagem da cena ${scene.id}:`, error);
+    return undefined;
+  }
+
+  const extension = getImageExtension(content.mimeType);
+  if (!extension) {
+    console.warn(`Imagem da cena ${scene.id} ignorada: tipo ${content.mimeType} não é aceito pelo EPUB`);
+    return undefined;
+  }
+
+  return {
+    id: `img-${baseName}`,
+    fileName: `${baseName}.${extension}`,
+    mediaType: content.mimeType,
+    data: content.data,
+    isCover: false
+  };
+}
+
+/**
+ * Converte um texto com quebras de linha em parágrafos XHTML
+ *
+ * @param {string} text - Texto original
+ * @param {string} [className] - Classe CSS dos parágrafos (opcional)
+ * @returns {string} Parágrafos com o texto escapado
+ */
+function toParagraphs(text: string, className?: string): string {
+  const classAttribute = className ? ` class="${className}"` : '';
+  return (text || '')
+    .split(/\n+/)
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => `<p${classAttribute}>${escapeXml(line)}</p>`)
+    .join('\n    ');
+}
+
+/**
+ * Converte as falas de uma cena em parágrafos XHTML, um por fala, destacando quem fala
+ *
+ * @param {DialogueLine[]} lines - Falas da cena
+ * @returns {string} Parágrafos com o texto escapado
+ */
+function toDialogueParagraphs(lines: DialogueLine[]): string {
+  return lines
+    .map(line => {
+      const speaker = line.speaker ? `<span class="speaker">${escapeXml(line.speaker)}:</span> ` : '';
+      const direction = line.direction ? `<span class="direction">(${escapeXml(line.direction)})</span> ` : '';
+      return `<p class="dialogue">${speaker}${direction}${escapeXml(line.text)}</p>`;
+    })
+    .join('\n    ');
+}
+
+/**
+ * Identificador do capítulo de uma cena, usado no manifesto e no nome dos arquivos
+ *
+ * @param {number} index - Posição da cena na história
+ * @returns {string} Identificador do capítulo (ex: "cena-1")
+ */
+function getSceneDocumentId(index: number): string {
+  return `cena-${index + 1}`;
+}
+
+/**
+ * Nome do arquivo do capítulo de uma cena
+ *
+ * @param {number} index - Posição da cena na história
+ * @returns {string} Nome do arquivo XHTML
+ */
+function getSceneFileName(index: number): string {
+  return `${getSceneDocumentId(index)}.xhtml`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Controlador para consulta e cancelamento de jobs em segundo plano
+ */
+
+import { Job, JobProgress } from '../models/Job';
+import { jobQueue, isJobFinished } from '../jobs/jobQueue';
+import { jobRepository } from '../repositories';
+import { NotFoundError } from '../utils/errors';
+
+/**
+ * Obtém um job específico pelo ID
+ * 
+ * @param {string} jobId - ID do job
+ * @returns {Job} O job encontrado
+ * @throws {NotFoundError} Se o job não for encontrado
+ */
+export function getJob(jobId: string): Job {
+  const job = jobRepository.findById(jobId);
+  if (!job) throw new NotFoundError('job');
+  return job;
+}
+
+/**
+ * Obtém os jobs de uma história com a contagem por estado
+ * 
+ * @param {string} storyId - ID da história
+ * @returns {{ jobs: Job[], progress: JobProgress }} Jobs na ordem de criação e progresso
+ */
+export function getStoryJobs(storyId: string): { jobs: Job[]; progress: JobProgress } {
+  const jobs = jobRepository.findByStory(storyId);
+  return { jobs, progress: getJobProgress(jobs) };
+}
+
+/**
+ * Conta os jobs por estado
+ * 
+ * @param {Job[]} jobs - Jobs a serem contados
+ * @returns {JobProgress} Contagem por estado
+ */
+export function getJobProgress(jobs: Job[]): JobProgress {
+  const progress: JobProgress = { total: jobs.length, queued: 0, running: 0, done: 0, failed: 0, cancelled: 0, completed: 0 };
+  
+  jobs.forEach(job => {
+    progress[job.status]++;
+    if (isJobFinished(job)) progress.completed++;
+  });
+  
+  return progress;
+}
+
+/**
+ * Cancela um job que ainda não terminou
+ * 
+ * @param {string} jobId - ID do job
+ * @returns {Job} O job atualizado (jobs já terminados são retornados sem alteração)
+ * @throws {NotFoundError} Se o job não for encontrado
+ */
+export function cancelJob(jobId: string): Job {
+  const job = jobQueue.cancel(jobId);
+  if (!job) throw new NotFoundError('job');
+  return job;
+}
+
+/**
+ * Cancela todos os jobs pendentes de uma história
+ * 
+ * @param {string} storyId - ID da história
+ * @returns {number} Quantidade de jobs cancelados
+ */
+export function cancelStoryJobs(storyId: string): number {
+  const pending = jobRepository.findByStory(storyId).filter(job => !isJobFinished(job));
+  pending.forEach(job => jobQueue.cancel(job.id));
+  return pending.length;
+}
+
+/**
+ * Cancela todos os jobs pendentes de uma cena
+ * 
+ * @param {string} sceneId - ID da cena
+ * @returns {number} Quantidade de jobs cancelados
+ */
+export function cancelSceneJobs(sceneId: string): number {
+  const pending = jobRepository.find(job => job.sceneId === sceneId && !isJobFinished(job));
+  pending.forEach(job => jobQueue.cancel(job.id));
+  return pending.length;
+}
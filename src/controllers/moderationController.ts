@@ -0,0 +1,318 @@
+/**
+ * Controlador da moderação de conteúdo
+ * Briefings, prompts de imagem e reescritas sinalizados são recusados; propostas e cenas geradas,
+ * traduzidas ou importadas sinalizadas são gravadas, mas ficam retidas em quarentena (sem exportação,
+ * tradução ou imagens) até serem liberadas por um administrador ou editadas pelo autor
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContentHold, ModerationAction, ModerationFlag, ModerationFlagStatus, ModerationTarget, ModerationVerdict } from '../models/Moderation';
+import { Scene } from '../models/Scene';
+import { Story } from '../models/Story';
+import { getModerationChecker } from '../api/providers/moderationProvider';
+import { moderationFlagRepository, sceneRepository, storyRepository, transaction } from '../repositories';
+import { formatDialogue, normalizeDialogue } from '../utils/dialogue';
+import { ContentBlockedError, ContentQuarantinedError, NotFoundError } from '../utils/errors';
+import * as usageController from './usageController';
+
+// Tamanho máximo do trecho guardado de cada conteúdo sinalizado
+const MAX_FLAG_CONTENT_LENGTH = 2000;
+
+/**
+ * História e cena às quais um conteúdo pertence
+ *
+ * @interface ContentRefs
+ * @property {string} storyId - ID da história (opcional)
+ * @property {string} sceneId - ID da cena (opcional)
+ */
+export interface ContentRefs {
+  storyId?: string;
+  sceneId?: string;
+}
+
+/**
+ * Filtros da listagem de conteúdos sinalizados
+ *
+ * @interface ModerationFlagFilter
+ * @property {ModerationFlagStatus} status - Situação da revisão (opcional)
+ * @property {ModerationTarget} target - Tipo do conteúdo (opcional)
+ * @property {string} storyId - ID da história (opcional)
+ */
+export interface ModerationFlagFilter {
+  status?: ModerationFlagStatus;
+  target?: ModerationTarget;
+  storyId?: string;
+}
+
+/**
+ * Resultado da verificação da proposta e das cenas de uma história
+ *
+ * @interface StoryVerdicts
+ * @property {ModerationVerdict} proposal - Resultado da proposta
+ * @property {ModerationVerdict[]} scenes - Resultados das cenas, na ordem das cenas
+ */
+export interface StoryVerdicts {
+  proposal: ModerationVerdict;
+  scenes: ModerationVerdict[];
+}
+
+/**
+ * Decisão de um administrador sobre um conteúdo sinalizado
+ * approve: libera o conteúdo retido | reject: mantém o conteúdo retido
+ */
+export type ModerationDecision = 'approve' | 'reject';
+
+/**
+ * Verifica vários textos com o verificador configurado
+ *
+ * @param {string[]} texts - Textos a verificar
+ * @returns {Promise<ModerationVerdict[]>} Resultados, na ordem dos textos
+ */
+export function screenTexts(texts: string[]): Promise<ModerationVerdict[]> {
+  return getModerationChecker().check(texts);
+}
+
+/**
+ * Monta o texto de uma cena verificado pela moderação
+ *
+ * @param {Object} scene - Título, descrição, narração e diálogo da cena (em falas ou em texto)
+ * @returns {string} Textos da cena, um por linha
+ */
+export function getSceneText(scene: { title?: string; description?: string; narration?: string; dialogue?: unknown }): string {
+  return [scene.title, scene.description, scene.narration, formatDialogue(normalizeDialogue(scene.dialogue))]
+    .filter(text => !!text)
+    .join('\n');
+}
+
+/**
+ * Recusa um texto sinalizado pela moderação
+ * O conteúdo recusado é registrado para os administradores
+ *
+ * @param {ModerationTarget} target - Tipo do conteúdo
+ * @param {string} text - Texto a verificar
+ * @param {ContentRefs} [refs={}] - História e cena relacionadas (opcional)
+ * @throws {ContentBlockedError} Se o texto for sinalizado
+ */
+export async function assertAllowed(target: ModerationTarget, text: string, refs: ContentRefs = {}): Promise<void> {
+  const [verdict] = await screenTexts([text]);
+  if (!verdict.flagged) return;
+
+  const flag = recordFlag(target, 'blocked', text, verdict, refs);
+  throw new ContentBlockedError(flag.reason, flag.id);
+}
+
+/**
+ * Retém em quarentena a proposta de uma história, se ela tiver sido sinalizada
+ *
+ * @param {string} storyId - ID da história, já gravada
+ * @param {ModerationVerdict} verdict - Resultado da verificação da proposta
+ * @returns {ContentHold | undefined} A retenção, se a proposta foi sinalizada
+ */
+export function quarantineProposal(storyId: string, verdict: ModerationVerdict): ContentHold | undefined {
+  const story = storyRepository.findById(storyId);
+  if (!story || !verdict.flagged) return undefined;
+
+  return transaction(() => {
+    const flag = recordFlag('proposal', 'quarantined', story.proposal, verdict, { storyId });
+    const hold: ContentHold = { flagId: flag.id, reason: flag.reason };
+    storyRepository.update(storyId, { moderation: hold });
+    return hold;
+  });
+}
+
+/**
+ * Retém em quarentena as cenas sinalizadas
+ *
+ * @param {Scene[]} scenes - Cenas já gravadas
+ * @param {ModerationVerdict[]} verdicts - Resultados da verificação, na ordem das cenas
+ * @returns {Scene[]} As cenas, com a retenção nas que foram sinalizadas
+ */
+export function quarantineScenes(scenes: Scene[], verdicts: ModerationVerdict[]): Scene[] {
+  return transaction(() => scenes.map((scene, i) => {
+    if (!verdicts[i] || !verdicts[i].flagged) return scene;
+
+    const flag = recordFlag('scene', 'quarantined', getSceneText(scene), verdicts[i], { storyId: scene.storyId, sceneId: scene.id });
+    return sceneRepository.update(scene.id, { moderation: { flagId: flag.id, reason: flag.reason } }) || scene;
+  }));
+}
+
+/**
+ * Verifica a proposta e as cenas de uma história que não passou pela geração, como uma tradução ou uma importação
+ * A verificação é feita antes de gravar a história; as retenções são aplicadas depois com quarantineStory
+ *
+ * @param {string} proposal - Proposta da história
+ * @param {Object[]} scenes - Título, descrição, narração e diálogo de cada cena
+ * @returns {Promise<StoryVerdicts>} Resultados da proposta e das cenas
+ */
+export async function screenStory(proposal: string, scenes: { title?: string; description?: string; narration?: string; dialogue?: unknown }[]): Promise<StoryVerdicts> {
+  const [proposalVerdict, ...sceneVerdicts] = await screenTexts([proposal].concat(scenes.map(getSceneText)));
+  return { proposal: proposalVerdict, scenes: sceneVerdicts };
+}
+
+/**
+ * Retém em quarentena a proposta e as cenas sinalizadas de uma história já gravada
+ *
+ * @param {string} storyId - ID da história
+ * @param {Scene[]} scenes - Cenas gravadas, na ordem verificada
+ * @param {StoryVerdicts} verdicts - Resultados de screenStory
+ */
+export function quarantineStory(storyId: string, scenes: Scene[], verdicts: StoryVerdicts): void {
+  transaction(() => {
+    quarantineProposal(storyId, verdicts.proposal);
+    quarantineScenes(scenes, verdicts.scenes);
+  });
+}
+
+/**
+ * Verifica novamente um conteúdo retido depois de uma edição
+ * Se o novo texto passar na verificação, a retenção é removida e o registro é marcado como resolvido
+ *
+ * @param {ContentHold | undefined} hold - Retenção atual (nada é verificado sem retenção)
+ * @param {string} text - Novo texto do conteúdo
+ * @returns {Promise<ContentHold | undefined>} A retenção mantida, ou undefined se o conteúdo foi liberado
+ */
+export async function recheckHold(hold: ContentHold | undefined, text: string): Promise<ContentHold | undefined> {
+  if (!hold) return undefined;
+
+  const [verdict] = await screenTexts([text]);
+  if (verdict.flagged) return hold;
+
+  moderationFlagRepository.update(hold.flagId, { status: 'resolved', reviewedAt: new Date() });
+  return undefined;
+}
+
+/**
+ * Lista a proposta e as cenas retidas de uma história
+ *
+ * @param {string} storyId - ID da história
+ * @returns {Object[]} Registros retidos, com o motivo de cada retenção
+ */
+export function getStoryHolds(storyId: string): { storyId: string; sceneId?: string; flagId: string; reason: string }[] {
+  const story = storyRepository.findById(storyId);
+  if (!story) return [];
+
+  const holds = story.moderation ? [{ storyId, ...story.moderation }] : [];
+  return holds.concat(sceneRepository
+    .findByStory(storyId)
+    .filter(scene => !!scene.moderation)
+    .map(scene => ({ storyId, sceneId: scene.id, ...scene.moderation as ContentHold })));
+}
+
+/**
+ * Exige que a história não tenha conteúdo retido
+ * Usado antes de exportar ou traduzir a história
+ *
+ * @param {string} storyId - ID da história
+ * @throws {ContentQuarantinedError} Se a proposta ou alguma cena estiver retida
+ */
+export function assertNoHolds(storyId: string): void {
+  const holds = getStoryHolds(storyId);
+  if (holds.length > 0) throw new ContentQuarantinedError(holds);
+}
+
+/**
+ * Exige que a proposta de uma história não esteja retida
+ * Usado antes de gerar cenas e imagens a partir da proposta
+ *
+ * @param {Story} story - História
+ * @throws {ContentQuarantinedError} Se a proposta estiver retida
+ */
+export function assertProposalReleased(story: Story): void {
+  if (story.moderation) throw new ContentQuarantinedError([{ storyId: story.id, ...story.moderation }]);
+}
+
+/**
+ * Exige que uma cena não esteja retida
+ *
+ * @param {Scene} scene - Cena
+ * @throws {ContentQuarantinedError} Se a cena estiver retida
+ */
+export function assertSceneReleased(scene: Scene): void {
+  if (scene.moderation) throw new ContentQuarantinedError([{ storyId: scene.storyId, sceneId: scene.id, ...scene.moderation }]);
+}
+
+/**
+ * Lista os conteúdos sinalizados
+ *
+ * @param {ModerationFlagFilter} [filter={}] - Filtros por situação, tipo e história (opcional)
+ * @returns {ModerationFlag[]} Registros, do mais recente para o mais antigo
+ */
+export function getFlags(filter: ModerationFlagFilter = {}): ModerationFlag[] {
+  const flags = filter.status ? moderationFlagRepository.findByStatus(filter.status) : moderationFlagRepository.findAll();
+
+  return flags
+    .filter(flag => (!filter.target || flag.target === filter.target) && (!filter.storyId || flag.storyId === filter.storyId))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Registra a decisão de um administrador sobre um conteúdo sinalizado
+ * Aprovar libera a proposta ou a cena retida; rejeitar mantém a retenção
+ *
+ * @param {string} flagId - ID do registro de moderação
+ * @param {ModerationDecision} decision - Decisão do administrador
+ * @param {string} reviewer - Nome do administrador
+ * @returns {ModerationFlag} O registro atualizado
+ * @throws {NotFoundError} Se o registro não for encontrado
+ */
+export function reviewFlag(flagId: string, decision: ModerationDecision, reviewer: string): ModerationFlag {
+  const flag = moderationFlagRepository.findById(flagId);
+  if (!flag) throw new NotFoundError('moderationFlag');
+
+  return transaction(() => {
+    if (decision === 'approve') releaseHold(flag);
+
+    return moderationFlagRepository.update(flag.id, {
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      reviewedAt: new Date(),
+      reviewedBy: reviewer
+    }) as ModerationFlag;
+  });
+}
+
+/**
+ * Remove a retenção criada por um registro de moderação, se ela ainda existir
+ *
+ * @param {ModerationFlag} flag - Registro de moderação
+ */
+function releaseHold(flag: ModerationFlag): void {
+  if (flag.target === 'proposal' && flag.storyId) {
+    const story = storyRepository.findById(flag.storyId);
+    if (story && story.moderation && story.moderation.flagId === flag.id) storyRepository.update(story.id, { moderation: undefined });
+  }
+
+  if (flag.target === 'scene' && flag.sceneId) {
+    const scene = sceneRepository.findById(flag.sceneId);
+    if (scene && scene.moderation && scene.moderation.flagId === flag.id) sceneRepository.update(scene.id, { moderation: undefined });
+  }
+}
+
+/**
+ * Grava o registro de um conteúdo sinalizado
+ * O usuário é o do escopo de consumo da requisição que enviou ou pediu o conteúdo
+ *
+ * @param {ModerationTarget} target - Tipo do conteúdo
+ * @param {ModerationAction} action - Tratamento dado ao conteúdo
+ * @param {string} content - Conteúdo sinalizado
+ * @param {ModerationVerdict} verdict - Resultado da verificação
+ * @param {ContentRefs} refs - História e cena relacionadas
+ * @returns {ModerationFlag} O registro criado
+ */
+function recordFlag(target: ModerationTarget, action: ModerationAction, content: string, verdict: ModerationVerdict, refs: ContentRefs): ModerationFlag {
+  return moderationFlagRepository.save({
+    id: uuidv4(),
+    target,
+    action,
+    status: 'pending',
+    content: content.substring(0, MAX_FLAG_CONTENT_LENGTH),
+    reason: verdict.categories.length > 0
+      ? `conteúdo sinalizado em ${verdict.categories.join(', ')}`
+      : 'conteúdo sinalizado pela moderação',
+    categories: verdict.categories,
+    checker: verdict.checker || getModerationChecker().name,
+    storyId: refs.storyId,
+    sceneId: refs.sceneId,
+    userId: usageController.getUsageScope().userId,
+    createdAt: new Date()
+  });
+}
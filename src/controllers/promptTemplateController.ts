@@ -0,0 +1,147 @@
+/**
+ * Controlador dos templates de prompt
+ * Os administradores editam os templates usados em todas as histórias, e os editores de uma história
+ * podem substituí-los apenas nela; cada alteração grava uma nova versão, que pode ser restaurada
+ * A geração usa a versão mais recente da história, depois a global e, sem alterações, o texto da aplicação
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { PromptTemplate, PromptTemplateName, PromptTemplateVersion } from '../models/PromptTemplate';
+import { findTemplateIssues, PROMPT_TEMPLATE_DEFINITIONS } from '../api/promptTemplates';
+import { promptTemplateRepository } from '../repositories';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import * as moderationController from './moderationController';
+import * as usageController from './usageController';
+
+// Ordem em que os templates são listados
+const PROMPT_TEMPLATE_NAMES = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateName[];
+
+/**
+ * Lista os templates em uso, globais ou de uma história
+ *
+ * @param {string} [storyId] - ID da história (padrão: templates globais)
+ * @returns {PromptTemplate[]} Templates, com o texto em uso e a origem de cada um
+ */
+export function listPromptTemplates(storyId?: string): PromptTemplate[] {
+  return PROMPT_TEMPLATE_NAMES.map(name => getPromptTemplate(name, storyId));
+}
+
+/**
+ * Obtém o template em uso, global ou de uma história
+ *
+ * @param {PromptTemplateName} name - Nome do template
+ * @param {string} [storyId] - ID da história (padrão: template global)
+ * @returns {PromptTemplate} O template, com o texto em uso e a origem
+ */
+export function getPromptTemplate(name: PromptTemplateName, storyId?: string): PromptTemplate {
+  const definition = PROMPT_TEMPLATE_DEFINITIONS[name];
+  const storyVersion = storyId ? promptTemplateRepository.findLatest(name, storyId) : undefined;
+  const current = storyVersion || promptTemplateRepository.findLatest(name);
+
+  return {
+    name,
+    description: definition.description,
+    variables: definition.variables,
+    body: current ? current.body : definition.body,
+    source: storyVersion ? 'story' : current ? 'global' : 'default',
+    version: current ? current.version : 0,
+    defaultBody: definition.body,
+    updatedAt: current ? current.createdAt : undefined,
+    author: current ? current.author : undefined
+  };
+}
+
+/**
+ * Lista as versões gravadas de um template, globais ou de uma história
+ *
+ * @param {PromptTemplateName} name - Nome do template
+ * @param {string} [storyId] - ID da história (padrão: versões globais)
+ * @returns {PromptTemplateVersion[]} Versões, da mais recente para a mais antiga
+ */
+export function getPromptTemplateVersions(name: PromptTemplateName, storyId?: string): PromptTemplateVersion[] {
+  return promptTemplateRepository.findVersions(name, storyId);
+}
+
+/**
+ * Grava uma nova versão de um template, global ou de uma história
+ * Os textos de uma história passam pela moderação, como os briefings
+ *
+ * @param {PromptTemplateName} name - Nome do template
+ * @param {string} body - Novo texto do template
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @param {string} [storyId] - ID da história (padrão: template global)
+ * @returns {Promise<PromptTemplate>} O template atualizado
+ * @throws {ValidationError} Se o texto usar variáveis desconhecidas ou tiver trechos sem fechamento
+ * @throws {ContentBlockedError} Se o texto de uma história for sinalizado pela moderação
+ */
+export async function savePromptTemplate(name: PromptTemplateName, body: string, author?: string, storyId?: string): Promise<PromptTemplate> {
+  const issues = findTemplateIssues(name, body);
+  if (issues.length > 0) throw new ValidationError('Template de prompt inválido', issues, 'INVALID_PROMPT_TEMPLATE');
+
+  if (storyId) await moderationController.assertAllowed('prompt-template', body, { storyId });
+
+  const latest = promptTemplateRepository.findLatest(name, storyId);
+  promptTemplateRepository.save({
+    id: uuidv4(),
+    name,
+    storyId,
+    version: latest ? latest.version + 1 : 1,
+    body,
+    author,
+    createdAt: new Date()
+  });
+
+  return getPromptTemplate(name, storyId);
+}
+
+/**
+ * Restaura o texto de uma versão anterior, gravando-o como nova versão
+ *
+ * @param {PromptTemplateName} name - Nome do template
+ * @param {number} version - Número da versão a restaurar
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @param {string} [storyId] - ID da história (padrão: template global)
+ * @returns {Promise<PromptTemplate>} O template atualizado
+ * @throws {NotFoundError} Se a versão não for encontrada
+ * @throws {ValidationError} Se o texto da versão não for mais válido
+ */
+export async function restorePromptTemplateVersion(name: PromptTemplateName, version: number, author?: string, storyId?: string): Promise<PromptTemplate> {
+  const restored = promptTemplateRepository.findVersions(name, storyId).find(candidate => candidate.version === version);
+  if (!restored) throw new NotFoundError('promptTemplateVersion');
+
+  return savePromptTemplate(name, restored.body, author, storyId);
+}
+
+/**
+ * Volta um template ao texto anterior às alterações, removendo suas versões
+ * Sem versões próprias, a história volta a usar o template global; o global volta ao texto da aplicação
+ *
+ * @param {PromptTemplateName} name - Nome do template
+ * @param {string} [storyId] - ID da história (padrão: template global)
+ * @returns {PromptTemplate} O template em uso depois da remoção
+ */
+export function resetPromptTemplate(name: PromptTemplateName, storyId?: string): PromptTemplate {
+  promptTemplateRepository.deleteVersions(name, storyId);
+  return getPromptTemplate(name, storyId);
+}
+
+/**
+ * Obtém o texto em uso de um template para a história do escopo atual
+ * Registrado como resolvedor dos templates na inicialização do servidor
+ *
+ * @param {PromptTemplateName} name - Nome do template
+ * @returns {string} Texto em uso
+ */
+export function resolvePromptTemplate(name: PromptTemplateName): string {
+  return getPromptTemplate(name, usageController.getUsageScope().storyId).body;
+}
+
+/**
+ * Remove as versões dos templates de uma história
+ *
+ * @param {string} storyId - ID da história
+ * @returns {number} Quantidade de versões removidas
+ */
+export function deleteStoryPromptTemplates(storyId: string): number {
+  return promptTemplateRepository.deleteByStory(storyId);
+}
@@ -0,0 +1,305 @@
+/**
+ * Controlador para o histórico de revisões de cenas e propostas de histórias
+ * Cada alteração grava o estado anterior do registro, que pode ser comparado e restaurado
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Revision, RevisionAction, RevisionEntityType, RevisionFieldDiff } from '../models/Revision';
+import { Scene } from '../models/Scene';
+import { Story } from '../models/Story';
+import { characterRepository, revisionRepository, sceneRepository, storyRepository, transaction } from '../repositories';
+import { diffLines } from '../utils/textDiff';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { formatDialogue } from '../utils/dialogue';
+
+// Campos versionados de cada tipo de registro
+const VERSIONED_FIELDS: { [entityType in RevisionEntityType]: string[] } = {
+  scene: ['title', 'description', 'narration', 'dialogue', 'imageUrl', 'imageAssetId', 'imagePrompt', 'choices', 'isEnding', 'characterIds'],
+  story: ['title', 'proposal']
+};
+
+// Campos comparados linha a linha (o diálogo é comparado fala a fala, em texto)
+const TEXT_FIELDS = ['title', 'description', 'narration', 'dialogue', 'proposal'];
+
+/**
+ * Resultado da comparação entre duas versões de um registro
+ *
+ * @interface RevisionComparison
+ * @property {string} from - ID da revisão mais antiga
+ * @property {string} to - ID da revisão mais recente ou "current" para o estado atual
+ * @property {RevisionFieldDiff[]} changes - Campos com valores diferentes
+ */
+export interface RevisionComparison {
+  from: string;
+  to: string;
+  changes: RevisionFieldDiff[];
+}
+
+/**
+ * Registra a alteração de uma cena, guardando o estado anterior
+ * Nada é gravado se nenhum campo versionado mudou
+ *
+ * @param {Scene} before - Cena antes da alteração
+ * @param {Scene} after - Cena depois da alteração
+ * @param {RevisionAction} action - Origem da alteração
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Revision | undefined} A revisão gravada
+ */
+export function recordSceneRevision(before: Scene, after: Scene, action: RevisionAction, author?: string): Revision | undefined {
+  return recordRevision('scene', before.id, before.storyId, before, after, action, author);
+}
+
+/**
+ * Registra a alteração da proposta de uma história, guardando o estado anterior
+ * Nada é gravado se a proposta e o título não mudaram
+ *
+ * @param {Story} before - História antes da alteração
+ * @param {Story} after - História depois da alteração
+ * @param {RevisionAction} action - Origem da alteração
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Revision | undefined} A revisão gravada
+ */
+export function recordStoryRevision(before: Story, after: Story, action: RevisionAction, author?: string): Revision | undefined {
+  return recordRevision('story', before.id, before.id, before, after, action, author);
+}
+
+/**
+ * Obtém as revisões de uma cena
+ *
+ * @param {string} sceneId - ID da cena
+ * @returns {Revision[]} Revisões, da mais recente para a mais antiga
+ * @throws {NotFoundError} Se a cena não for encontrada
+ */
+export function getSceneRevisions(sceneId: string): Revision[] {
+  if (!sceneRepository.findById(sceneId)) throw new NotFoundError('scene');
+  return revisionRepository.findByEntity('scene', sceneId);
+}
+
+/**
+ * Obtém as revisões da proposta de uma história
+ *
+ * @param {string} storyId - ID da história
+ * @returns {Revision[]} Revisões, da mais recente para a mais antiga
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+export function getStoryRevisions(storyId: string): Revision[] {
+  if (!storyRepository.findById(storyId)) throw new NotFoundError('story');
+  return revisionRepository.findByEntity('story', storyId);
+}
+
+/**
+ * Obtém uma revisão pelo ID
+ *
+ * @param {string} revisionId - ID da revisão
+ * @returns {Revision} A revisão encontrada
+ * @throws {NotFoundError} Se a revisão não for encontrada
+ */
+export function getRevision(revisionId: string): Revision {
+  const revision = revisionRepository.findById(revisionId);
+  if (!revision) throw new NotFoundError('revision');
+  return revision;
+}
+
+/**
+ * Compara duas revisões do mesmo registro, ou uma revisão com o estado atual
+ *
+ * @param {string} revisionId - ID da revisão
+ * @param {string} [otherRevisionId] - ID da outra revisão (padrão: estado atual do registro)
+ * @returns {RevisionComparison} Campos que diferem, da versão mais antiga para a mais recente
+ * @throws {NotFoundError} Se alguma revisão não for encontrada
+ * @throws {ValidationError} Se as revisões pertencerem a registros diferentes
+ */
+export function diffRevisions(revisionId: string, otherRevisionId?: string): RevisionComparison {
+  const revision = getRevision(revisionId);
+
+  if (!otherRevisionId || otherRevisionId === 'current') {
+    const current = getCurrentState(revision);
+    return { from: revision.id, to: 'current', changes: compareSnapshots(revision.entityType, revision.snapshot, current) };
+  }
+
+  const other = getRevision(otherRevisionId);
+  if (other.entityType !== revision.entityType || other.entityId !== revision.entityId) {
+    throw new ValidationError('As revisões pertencem a registros diferentes', [], 'REVISION_MISMATCH');
+  }
+
+  const [older, newer] = other.createdAt.getTime() < revision.createdAt.getTime() ? [other, revision] : [revision, other];
+  return { from: older.id, to: newer.id, changes: compareSnapshots(revision.entityType, older.snapshot, newer.snapshot) };
+}
+
+/**
+ * Restaura um registro para o estado guardado em uma revisão
+ * O estado atual é gravado como nova revisão, então a restauração também pode ser desfeita
+ * Escolhas e personagens que não existem mais são descartados
+ *
+ * @param {string} revisionId - ID da revisão
+ * @param {string[]} [fields] - Campos a restaurar (padrão: todos os campos versionados)
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Scene | Story} A cena ou a história restaurada, com suas cenas
+ * @throws {NotFoundError} Se a revisão ou o registro não forem encontrados
+ * @throws {ValidationError} Se nenhum dos campos informados puder ser restaurado
+ */
+export function restoreRevision(revisionId: string, fields?: string[], author?: string): Scene | Story {
+  const revision = getRevision(revisionId);
+  const versioned = VERSIONED_FIELDS[revision.entityType];
+  const restoredFields = fields && fields.length > 0
+    ? versioned.filter(field => fields.indexOf(field) !== -1)
+    : versioned;
+
+  if (restoredFields.length === 0) throw new ValidationError('Nenhum campo válido para restaurar', [], 'NOTHING_TO_RESTORE');
+
+  const changes: { [field: string]: any } = {};
+  restoredFields.forEach(field => { changes[field] = revision.snapshot[field]; });
+
+  return transaction(() => {
+    if (revision.entityType === 'story') {
+      const story = storyRepository.findById(revision.entityId);
+      if (!story) throw new NotFoundError('story');
+
+      const restored: Story = { ...story, ...changes };
+      recordStoryRevision(story, restored, 'restore', author);
+      storyRepository.save(restored);
+      return { ...restored, scenes: sceneRepository.findByStory(story.id) };
+    }
+
+    const scene = sceneRepository.findById(revision.entityId);
+    if (!scene) throw new NotFoundError('scene');
+
+    const restored: Scene = { ...scene, ...changes };
+    if (changes.choices) {
+      const sceneIds = sceneRepository.findByStory(scene.storyId).map(s => s.id);
+      restored.choices = restored.choices.filter(choice => sceneIds.indexOf(choice.targetSceneId) !== -1);
+    }
+    if (changes.characterIds) {
+      const characterIds = characterRepository.findByStory(scene.storyId).map(character => character.id);
+      restored.characterIds = restored.characterIds.filter(id => characterIds.indexOf(id) !== -1);
+    }
+    // Uma imagem na fila ou em geração substituirá a restaurada, então o estado só muda sem geração em andamento
+    if ('imageUrl' in changes && scene.imageStatus !== 'pending' && scene.imageStatus !== 'generating') {
+      restored.imageStatus = restored.imageUrl ? 'ready' : 'none';
+      restored.imageError = undefined;
+    }
+
+    recordSceneRevision(scene, restored, 'restore', author);
+    return sceneRepository.save(restored);
+  });
+}
+
+/**
+ * Remove as revisões de uma cena
+ *
+ * @param {string} sceneId - ID da cena
+ * @returns {number} Quantidade de revisões removidas
+ */
+export function deleteSceneRevisions(sceneId: string): number {
+  return revisionRepository.deleteByEntity('scene', sceneId);
+}
+
+/**
+ * Remove as revisões de uma história e de todas as suas cenas
+ *
+ * @param {string} storyId - ID da história
+ * @returns {number} Quantidade de revisões removidas
+ */
+export function deleteStoryRevisions(storyId: string): number {
+  return revisionRepository.deleteByStory(storyId);
+}
+
+/**
+ * Grava uma revisão com o estado anterior de um registro, se algum campo versionado mudou
+ *
+ * @param {RevisionEntityType} entityType - Tipo do registro
+ * @param {string} entityId - ID do registro
+ * @param {string} storyId - ID da história à qual o registro pertence
+ * @param {Object} before - Registro antes da alteração
+ * @param {Object} after - Registro depois da alteração
+ * @param {RevisionAction} action - Origem da alteração
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Revision | undefined} A revisão gravada
+ */
+function recordRevision(
+  entityType: RevisionEntityType,
+  entityId: string,
+  storyId: string,
+  before: any,
+  after: any,
+  action: RevisionAction,
+  author?: string
+): Revision | undefined {
+  const snapshot = takeSnapshot(entityType, before);
+  const changedFields = compareSnapshots(entityType, snapshot, takeSnapshot(entityType, after)).map(change => change.field);
+  if (changedFields.length === 0) return undefined;
+
+  return revisionRepository.save({
+    id: uuidv4(),
+    entityType,
+    entityId,
+    storyId,
+    action,
+    author,
+    changedFields,
+    snapshot,
+    createdAt: new Date()
+  });
+}
+
+/**
+ * Obtém o estado atual do registro de uma revisão
+ *
+ * @param {Revision} revision - Revisão do registro
+ * @returns {Object} Valores atuais dos campos versionados
+ * @throws {NotFoundError} Se o registro não existir mais
+ */
+function getCurrentState(revision: Revision): { [field: string]: any } {
+  const entity = revision.entityType === 'story'
+    ? storyRepository.findById(revision.entityId)
+    : sceneRepository.findById(revision.entityId);
+  if (!entity) throw new NotFoundError(revision.entityType);
+
+  return takeSnapshot(revision.entityType, entity);
+}
+
+/**
+ * Copia os campos versionados de um registro
+ *
+ * @param {RevisionEntityType} entityType - Tipo do registro
+ * @param {Object} entity - Cena ou história
+ * @returns {Object} Cópia dos valores dos campos versionados
+ */
+function takeSnapshot(entityType: RevisionEntityType, entity: any): { [field: string]: any } {
+  const snapshot: { [field: string]: any } = {};
+  VERSIONED_FIELDS[entityType].forEach(field => {
+    if (entity[field] !== undefined) snapshot[field] = JSON.parse(JSON.stringify(entity[field]));
+  });
+  return snapshot;
+}
+
+/**
+ * Compara os campos versionados de duas versões de um registro
+ *
+ * @param {RevisionEntityType} entityType - Tipo do registro
+ * @param {Object} before - Versão mais antiga
+ * @param {Object} after - Versão mais recente
+ * @returns {RevisionFieldDiff[]} Campos com valores diferentes
+ */
+function compareSnapshots(entityType: RevisionEntityType, before: { [field: string]: any }, after: { [field: string]: any }): RevisionFieldDiff[] {
+  return VERSIONED_FIELDS[entityType]
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => {
+      const change: RevisionFieldDiff = { field, before: before[field], after: after[field] };
+      if (TEXT_FIELDS.indexOf(field) !== -1) {
+        change.lines = diffLines(toDiffText(before[field]), toDiffText(after[field]));
+      }
+      return change;
+    });
+}
+
+/**
+ * Converte o valor de um campo de texto para a comparação linha a linha
+ *
+ * @param {any} value - Texto ou lista de falas
+ * @returns {string} Texto do campo, com uma fala por linha no caso do diálogo
+ */
+function toDiffText(value: any): string {
+  if (Array.isArray(value)) return formatDialogue(value);
+  return value || '';
+}
@@ -4,21 +4,71 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { Scene } from '../models/Scene';
-import { generateImage } from '../api/imageGeneration';
-
-// Array para armazenar todas as cenas em memória
-const scenes: Scene[] = [];
+import { DialogueLine, Scene, SceneChoice } from '../models/Scene';
+import { Job } from '../models/Job';
+import { jobQueue } from '../jobs/jobQueue';
+import { generateImageResult } from '../api/imageGeneration';
+import * as assetController from './assetController';
+import * as characterController from './characterController';
+import * as jobController from './jobController';
+import * as revisionController from './revisionController';
+import * as stylePresetController from './stylePresetController';
+import * as usageController from './usageController';
+import * as moderationController from './moderationController';
+import { sceneRepository, storyRepository, transaction } from '../repositories';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { normalizeDialogue } from '../utils/dialogue';
 
 /**
  * Cria uma nova cena para uma história
  * 
  * @param {string} storyId - ID da história à qual a cena pertence
  * @param {number} order - Ordem da cena na sequência da história
- * @param {Object} data - Dados da cena (título, descrição, narração, diálogo)
+ * @param {Object} data - Dados da cena (título, descrição, narração, diálogo, final e imagem)
  * @returns {Promise<Scene>} A cena criada
  */
 export async function createScene(storyId: string, order: number, data: any): Promise<Scene> {
+  return sceneRepository.save(buildScene(storyId, order, data));
+}
+
+/**
+ * Cria todas as cenas geradas para uma história de uma só vez
+ * Liga as escolhas às cenas de destino, que a IA referencia pelo número da cena (1, 2, ...),
+ * e os personagens citados pelo nome aos personagens da história
+ * Se qualquer gravação falhar, nenhuma cena é criada
+ * 
+ * @param {string} storyId - ID da história à qual as cenas pertencem
+ * @param {any[]} scenesData - Dados das cenas na ordem da história
+ * @returns {Scene[]} As cenas criadas
+ */
+export function createScenes(storyId: string, scenesData: any[]): Scene[] {
+  const created = scenesData.map((data, i) => buildScene(storyId, i, data));
+  
+  scenesData.forEach((data, i) => {
+    if (!Array.isArray(data.choices) || data.choices.length === 0) return;
+    
+    const choices = data.choices
+      .filter((choice: any) => choice.target >= 1 && choice.target <= created.length && choice.target !== i + 1)
+      .map((choice: any) => ({ label: choice.label, targetSceneId: created[choice.target - 1].id }));
+    
+    if (choices.length < data.choices.length) {
+      console.warn(`Cena ${i + 1}: ${data.choices.length - choices.length} escolha(s) com destino inválido foram descartadas.`);
+    }
+    created[i].choices = sanitizeChoices(choices);
+  });
+  
+  return transaction(() => created.map(scene => sceneRepository.save(scene)));
+}
+
+/**
+ * Monta um novo objeto de cena, sem gravá-lo
+ * 
+ * @param {string} storyId - ID da história à qual a cena pertence
+ * @param {number} order - Ordem da cena na sequência da história
+ * @param {Object} data - Dados da cena
+ * @returns {Scene} O objeto de cena
+ */
+function buildScene(storyId: string, order: number, data: any): Scene {
   // Cria um novo objeto de cena com ID único
   const scene: Scene = {
     id: uuidv4(),            // Gera ID único para a cena
@@ -27,12 +77,17 @@ export async function createScene(storyId: string, order: number, data: any): Pr
     title: data.title || `Cena ${order + 1}`,  // Título ou valor padrão
     description: data.description || '',       // Descrição do ambiente/personagens
     narration: data.narration || '',          // Narração dos eventos
-    dialogue: data.dialogue || '',            // Diálogos dos personagens
-    imageUrl: ''                              // Inicialmente sem imagem
+    dialogue: normalizeDialogue(data.dialogue), // Falas dos personagens (textos antigos são interpretados)
+    imageUrl: data.imageUrl || '',            // Sem imagem, exceto em cenas importadas
+    imageAssetId: data.imageAssetId,          // Asset local da imagem importada (opcional)
+    imageStatus: data.imageUrl ? 'ready' : 'none', // Cenas novas ainda não pediram imagem
+    choices: [],                              // Escolhas são ligadas após a criação das cenas de destino
+    isEnding: !!data.isEnding,                // Marca a cena como um final da história
+    characterIds: Array.isArray(data.characters)  // Personagens citados pelo nome
+      ? characterController.resolveCharacterIds(storyId, data.characters)
+      : []
   };
   
-  // Adiciona a cena ao array de cenas
-  scenes.push(scene);
   return scene;
 }
 
@@ -44,23 +99,11 @@ export async function createScene(storyId: string, order: number, data: any): Pr
  * @param {Scene} scene - Objeto da cena para extrair dados para o prompt
  * @param {string[]} previousImages - URLs de imagens anteriores para manter consistência
  * @returns {Promise<Scene>} A cena atualizada
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar; a imagem anterior da cena é mantida
  */
 export async function updateSceneImage(sceneId: string, style: string, scene: Scene, previousImages: string[] = []): Promise<Scene> {
-  // Busca a cena no array
-  const sceneObj = scenes.find(s => s.id === sceneId);
-  if (!sceneObj) throw new Error('Cena não encontrada');
-  
-  try {
-    // CORREÇÃO: Usar o sceneObj em vez do parâmetro scene
-    const imageUrl = await generateImage("", style, sceneObj, previousImages);
-    sceneObj.imageUrl = imageUrl;
-  } catch (error) {
-    // Em caso de erro, define uma imagem placeholder
-    console.error("Erro ao gerar imagem:", error);
-    sceneObj.imageUrl = "/images/placeholder.jpg";
-  }
-  
-  return sceneObj;
+  const image = await renderSceneImage(sceneId, '', style, previousImages);
+  return saveSceneImage(sceneId, image);
 }
 
 /**
@@ -70,31 +113,96 @@ export async function updateSceneImage(sceneId: string, style: string, scene: Sc
  * @param {string} customPrompt - Prompt personalizado para a imagem
  * @param {string} style - Estilo visual para a imagem
  * @param {string[]} previousImages - URLs de imagens anteriores para manter consistência
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
  * @returns {Promise<Scene>} A cena atualizada
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar; a imagem anterior da cena é mantida
+ */
+export async function regenerateSceneImage(sceneId: string, customPrompt: string, style: string, previousImages: string[] = [], author?: string): Promise<Scene> {
+  const image = await renderSceneImage(sceneId, customPrompt, style, previousImages);
+  return saveSceneImage(sceneId, image, author);
+}
+
+/**
+ * Imagem pronta para ser gravada em uma cena
+ * 
+ * @interface SceneImage
+ * @property {string} imageUrl - URL exibida para a imagem
+ * @property {string} imageAssetId - ID do asset local, quando a imagem foi armazenada (opcional)
+ * @property {string} prompt - Prompt enviado ao provedor
  */
-export async function regenerateSceneImage(sceneId: string, customPrompt: string, style: string, previousImages: string[] = []): Promise<Scene> {
-  // Busca a cena no array
-  const sceneObj = scenes.find(s => s.id === sceneId);
-  if (!sceneObj) throw new Error('Cena não encontrada');
+interface SceneImage {
+  imageUrl: string;
+  imageAssetId?: string;
+  prompt: string;
+}
+
+/**
+ * Gera a imagem de uma cena e a armazena como asset local, sem gravá-la na cena
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {string} customPrompt - Prompt personalizado (vazio para usar a descrição da cena)
+ * @param {string} style - Estilo visual para a imagem
+ * @param {string[]} previousImages - URLs de imagens anteriores para manter consistência
+ * @returns {Promise<SceneImage>} Imagem gerada
+ * @throws {ValidationError} Se a cena não tiver texto para descrever a imagem
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar
+ */
+async function renderSceneImage(sceneId: string, customPrompt: string, style: string, previousImages: string[]): Promise<SceneImage> {
+  // Busca a cena no repositório
+  const sceneObj = getScene(sceneId);
+  
+  // Personagens da cena, descritos no prompt para manter a mesma aparência em todas as imagens
+  const characters = characterController.getSceneCharacters(sceneObj);
+  
+  // O preset da história define as instruções de estilo e as opções de renderização
+  const story = storyRepository.findById(sceneObj.storyId);
+  const imageStyle = stylePresetController.resolveImageStyle(style, story ? story.stylePresetId : undefined);
+  
+  // Se não há prompt personalizado, usa a descrição da cena; se há, usa-o diretamente
+  const image = !customPrompt || customPrompt.trim() === ''
+    ? await generateImageResult("", imageStyle, sceneObj, previousImages, characters)
+    : await generateImageResult(customPrompt, imageStyle, null, previousImages, characters);
+  
+  if (!assetController.isStorableImageUrl(image.url)) {
+    return { imageUrl: image.url, prompt: image.prompt };
+  }
   
+  // As URLs dos provedores podem expirar, então a imagem é baixada e servida localmente
   try {
-    // CORREÇÃO: Se não houver prompt personalizado, use a descrição da cena
-    if (!customPrompt || customPrompt.trim() === '') {
-      // Se não há prompt customizado, usa a descrição da cena
-      const imageUrl = await generateImage("", style, sceneObj, previousImages);
-      sceneObj.imageUrl = imageUrl;
-    } else {
-      // Se há prompt customizado, usa-o diretamente
-      const imageUrl = await generateImage(customPrompt, style, null, previousImages);
-      sceneObj.imageUrl = imageUrl;
-    }
+    const asset = await assetController.storeImage(image);
+    return { imageUrl: assetController.getAssetUrl(asset.id), imageAssetId: asset.id, prompt: image.prompt };
   } catch (error) {
-    // Em caso de erro, define uma imagem placeholder
-    console.error("Erro ao gerar imagem:", error);
-    sceneObj.imageUrl = "/images/placeholder.jpg";
+    console.error("Erro ao armazenar imagem, usando a URL original:", error);
+    return { imageUrl: image.url, prompt: image.prompt };
   }
-  
-  return sceneObj;
+}
+
+/**
+ * Grava a imagem gerada na versão mais recente da cena
+ * A geração leva algum tempo, então a cena é relida para não sobrescrever edições feitas nesse intervalo
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {SceneImage} image - URL, asset e prompt da imagem gerada
+ * @param {string} [author] - Nome do usuário que pediu a imagem (opcional)
+ * @returns {Scene} A cena atualizada
+ * @throws {NotFoundError} Se a cena tiver sido removida durante a geração
+ */
+function saveSceneImage(sceneId: string, image: SceneImage, author?: string): Scene {
+  return transaction(() => {
+    const before = sceneRepository.findById(sceneId);
+    const updated = sceneRepository.update(sceneId, {
+      imageUrl: image.imageUrl,
+      imageAssetId: image.imageAssetId,
+      imagePrompt: image.prompt,
+      imageStatus: 'ready',
+      imageError: undefined
+    });
+    if (!before || !updated) throw new NotFoundError('scene');
+    
+    // A primeira imagem de uma cena não substitui nada, então não gera revisão
+    if (before.imageUrl) revisionController.recordSceneRevision(before, updated, 'image', author);
+    return updated;
+  });
 }
 
 /**
@@ -105,7 +213,7 @@ export async function regenerateSceneImage(sceneId: string, customPrompt: string
  */
 export function getScenesByStory(storyId: string): Scene[] {
   // Filtra cenas pela história e ordena pela ordem na sequência
-  return scenes.filter(scene => scene.storyId === storyId).sort((a, b) => a.order - b.order);
+  return sceneRepository.findByStory(storyId);
 }
 
 /**
@@ -113,11 +221,11 @@ export function getScenesByStory(storyId: string): Scene[] {
  * 
  * @param {string} sceneId - ID da cena a ser recuperada
  * @returns {Scene} A cena encontrada
- * @throws {Error} Se a cena não for encontrada
+ * @throws {NotFoundError} Se a cena não for encontrada
  */
 export function getScene(sceneId: string): Scene {
-  const scene = scenes.find(s => s.id === sceneId);
-  if (!scene) throw new Error('Cena não encontrada');
+  const scene = sceneRepository.findById(sceneId);
+  if (!scene) throw new NotFoundError('scene');
   return scene;
 }
 
@@ -126,31 +234,429 @@ export function getScene(sceneId: string): Scene {
  * 
  * @param {string} sceneId - ID da cena a ser atualizada
  * @param {Object} updates - Objeto com os campos a serem atualizados
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
  * @returns {Promise<Scene>} A cena atualizada
- * @throws {Error} Se a cena não for encontrada
+ * @throws {NotFoundError} Se a cena não for encontrada
  */
-export async function updateScene(sceneId: string, updates: any): Promise<Scene> {
-  // Busca a cena no array
-  const scene = scenes.find(s => s.id === sceneId);
-  if (!scene) throw new Error('Cena não encontrada');
+export async function updateScene(sceneId: string, updates: any, author?: string): Promise<Scene> {
+  // Busca a cena no repositório
+  const scene = getScene(sceneId);
+  const before = { ...scene };
   
   // Atualiza apenas os campos fornecidos
   if (updates.title) scene.title = updates.title;
   if (updates.description) scene.description = updates.description;
   if (updates.narration) scene.narration = updates.narration;
-  if (updates.dialogue) scene.dialogue = updates.dialogue;
+  if (updates.dialogue) scene.dialogue = normalizeDialogue(updates.dialogue);
+  if (Array.isArray(updates.choices)) scene.choices = sanitizeChoices(updates.choices);
+  if (typeof updates.isEnding === 'boolean') scene.isEnding = updates.isEnding;
+  if (Array.isArray(updates.characterIds)) {
+    // Aceita apenas personagens da mesma história
+    const storyCharacterIds = characterController.getCharactersByStory(scene.storyId).map(character => character.id);
+    scene.characterIds = updates.characterIds.filter((id: any) => storyCharacterIds.indexOf(id) !== -1);
+  }
   
-  return scene;
+  // Uma cena retida pela moderação é liberada se os novos textos passarem na verificação
+  scene.moderation = await moderationController.recheckHold(scene.moderation, moderationController.getSceneText(scene));
+  
+  return transaction(() => {
+    revisionController.recordSceneRevision(before, scene, 'edit', author);
+    return sceneRepository.save(scene);
+  });
+}
+
+/**
+ * Define as escolhas de uma cena e se ela é um final da história
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {SceneChoice[]} choices - Escolhas que levam a outras cenas
+ * @param {boolean} [isEnding] - Indica se a cena é um final (mantém o valor atual se omitido)
+ * @returns {Scene} A cena atualizada
+ * @throws {NotFoundError} Se a cena não for encontrada
+ */
+export function setSceneChoices(sceneId: string, choices: SceneChoice[], isEnding?: boolean): Scene {
+  const scene = getScene(sceneId);
+  const before = { ...scene };
+  
+  scene.choices = sanitizeChoices(choices);
+  if (typeof isEnding === 'boolean') scene.isEnding = isEnding;
+  
+  return transaction(() => {
+    revisionController.recordSceneRevision(before, scene, 'edit');
+    return sceneRepository.save(scene);
+  });
+}
+
+/**
+ * Insere uma fala no diálogo de uma cena
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {DialogueLine} line - Fala a ser inserida
+ * @param {number} [position] - Posição da fala no diálogo (padrão: depois da última fala)
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Scene} A cena atualizada
+ * @throws {NotFoundError} Se a cena não for encontrada
+ * @throws {SceneStructureError} Se a posição for inválida
+ */
+export function addDialogueLine(sceneId: string, line: DialogueLine, position?: number, author?: string): Scene {
+  const scene = getScene(sceneId);
+  const index = position === undefined ? scene.dialogue.length : position;
+  if (!Number.isInteger(index) || index < 0 || index > scene.dialogue.length) {
+    throw new SceneStructureError(`Posição da fala deve estar entre 0 e ${scene.dialogue.length}`);
+  }
+  
+  const dialogue = scene.dialogue.slice();
+  dialogue.splice(index, 0, line);
+  return saveDialogue(scene, dialogue, author);
+}
+
+/**
+ * Altera uma fala do diálogo de uma cena
+ * Uma direção vazia remove a direção da fala
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {number} index - Posição da fala no diálogo
+ * @param {Partial<DialogueLine>} changes - Campos da fala a serem alterados
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Scene} A cena atualizada
+ * @throws {NotFoundError} Se a cena ou a fala não forem encontradas
+ */
+export function updateDialogueLine(sceneId: string, index: number, changes: Partial<DialogueLine>, author?: string): Scene {
+  const scene = getScene(sceneId);
+  if (!scene.dialogue[index]) throw new NotFoundError('dialogueLine');
+  
+  const dialogue = scene.dialogue.slice();
+  dialogue[index] = { ...dialogue[index], ...changes };
+  return saveDialogue(scene, dialogue, author);
+}
+
+/**
+ * Remove uma fala do diálogo de uma cena
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {number} index - Posição da fala no diálogo
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Scene} A cena atualizada
+ * @throws {NotFoundError} Se a cena ou a fala não forem encontradas
+ */
+export function deleteDialogueLine(sceneId: string, index: number, author?: string): Scene {
+  const scene = getScene(sceneId);
+  if (!scene.dialogue[index]) throw new NotFoundError('dialogueLine');
+  
+  return saveDialogue(scene, scene.dialogue.filter((_line, i) => i !== index), author);
+}
+
+/**
+ * Grava o novo diálogo de uma cena e a revisão com o diálogo anterior
+ * 
+ * @param {Scene} scene - Cena atual
+ * @param {DialogueLine[]} dialogue - Novo diálogo
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Scene} A cena atualizada
+ */
+function saveDialogue(scene: Scene, dialogue: DialogueLine[], author?: string): Scene {
+  const updated: Scene = { ...scene, dialogue: normalizeDialogue(dialogue) };
+  
+  return transaction(() => {
+    revisionController.recordSceneRevision(scene, updated, 'edit', author);
+    return sceneRepository.save(updated);
+  });
+}
+
+/**
+ * Filtra escolhas malformadas recebidas de clientes ou da IA
+ * 
+ * @param {any[]} choices - Escolhas a serem validadas
+ * @returns {SceneChoice[]} Apenas as escolhas com texto e cena de destino
+ */
+function sanitizeChoices(choices: any[]): SceneChoice[] {
+  return choices
+    .filter(choice => choice && typeof choice.label === 'string' && choice.label.trim() !== ''
+      && typeof choice.targetSceneId === 'string' && choice.targetSceneId !== '')
+    .map(choice => ({ label: choice.label.trim(), targetSceneId: choice.targetSceneId }));
+}
+
+/**
+ * Erro lançado quando uma alteração na estrutura da história não é possível
+ * (posição inválida, cenas não adjacentes, ordem incompleta...)
+ */
+export class SceneStructureError extends ValidationError {
+  /**
+   * @param {string} message - Descrição do erro
+   */
+  constructor(message: string) {
+    super(message, [], 'INVALID_SCENE_STRUCTURE');
+    this.name = 'SceneStructureError';
+  }
 }
 
 /**
- * Remove uma cena do array de cenas
+ * Insere uma cena em uma posição da história, deslocando as cenas seguintes
+ * 
+ * @param {string} storyId - ID da história
+ * @param {number} position - Posição da nova cena (0 para o início, número de cenas para o final)
+ * @param {Object} data - Dados da cena (vazio para uma cena em branco)
+ * @returns {Scene} A cena criada
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {SceneStructureError} Se a posição for inválida
+ */
+export function insertScene(storyId: string, position: number, data: any = {}): Scene {
+  if (!storyRepository.findById(storyId)) throw new NotFoundError('story');
+  
+  const scenes = getScenesByStory(storyId);
+  if (!Number.isInteger(position) || position < 0 || position > scenes.length) {
+    throw new SceneStructureError(`Posição deve estar entre 0 e ${scenes.length}`);
+  }
+  
+  const scene = buildScene(storyId, position, data);
+  scenes.splice(position, 0, scene);
+  
+  return transaction(() => {
+    sceneRepository.save(scene);
+    renumberScenes(scenes);
+    return getScene(scene.id);
+  });
+}
+
+/**
+ * Remove uma cena da história
+ * As escolhas que levavam a ela são removidas, as cenas seguintes sobem uma posição
+ * e a cena inicial volta a ser a primeira cena, se for a removida
+ * As imagens da cena ainda na fila ou em geração são canceladas
  * 
  * @param {string} sceneId - ID da cena a ser removida
+ * @param {string} [author] - Nome do usuário que removeu a cena, registrado nas cenas alteradas (opcional)
  */
-export function deleteScene(sceneId: string): void {
-  const index = scenes.findIndex(s => s.id === sceneId);
-  if (index !== -1) scenes.splice(index, 1);
+export function deleteScene(sceneId: string, author?: string): void {
+  const scene = sceneRepository.findById(sceneId);
+  if (!scene) return;
+  
+  jobController.cancelSceneJobs(sceneId);
+  
+  transaction(() => {
+    sceneRepository.delete(sceneId);
+    revisionController.deleteSceneRevisions(sceneId);
+    
+    const remaining = getScenesByStory(scene.storyId);
+    retargetChoices(remaining, sceneId, undefined, author);
+    renumberScenes(remaining);
+    
+    const story = storyRepository.findById(scene.storyId);
+    if (story && story.startSceneId === sceneId) storyRepository.update(story.id, { startSceneId: undefined });
+  });
+}
+
+/**
+ * Define uma nova ordem para as cenas de uma história
+ * Se a cena inicial era a primeira cena, a nova primeira cena passa a ser a inicial
+ * 
+ * @param {string} storyId - ID da história
+ * @param {string[]} sceneIds - IDs de todas as cenas da história, na nova ordem
+ * @returns {Scene[]} As cenas na nova ordem
+ * @throws {SceneStructureError} Se a lista não contiver exatamente as cenas da história
+ */
+export function reorderScenes(storyId: string, sceneIds: string[]): Scene[] {
+  const scenes = getScenesByStory(storyId);
+  const unique = sceneIds.filter((id, index) => sceneIds.indexOf(id) === index);
+  
+  if (unique.length !== sceneIds.length || sceneIds.length !== scenes.length
+    || scenes.some(scene => sceneIds.indexOf(scene.id) === -1)) {
+    throw new SceneStructureError('A nova ordem deve conter cada cena da história exatamente uma vez');
+  }
+  
+  const ordered = sceneIds.map(id => scenes.find(scene => scene.id === id) as Scene);
+  return transaction(() => {
+    renumberScenes(ordered);
+    
+    const story = storyRepository.findById(storyId);
+    if (story && scenes.length > 0 && story.startSceneId === scenes[0].id) {
+      storyRepository.update(storyId, { startSceneId: ordered[0].id });
+    }
+    return getScenesByStory(storyId);
+  });
+}
+
+/**
+ * Divide uma cena em duas cenas consecutivas
+ * A primeira parte mantém o título, a imagem e as escolhas que levam à cena, e segue para a segunda;
+ * a segunda parte herda as escolhas e a marcação de final da cena original
+ * 
+ * @param {string} sceneId - ID da cena a ser dividida
+ * @param {number} [narrationAt] - Posição (em caracteres) da divisão da narração (padrão: fim da frase mais próxima do meio)
+ * @param {number} [dialogueAt] - Fala em que começa a segunda parte (padrão: metade das falas)
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Scene[]} As duas partes, em ordem
+ * @throws {NotFoundError} Se a cena não for encontrada
+ * @throws {SceneStructureError} Se o ponto de divisão for inválido
+ */
+export function splitScene(sceneId: string, narrationAt?: number, dialogueAt?: number, author?: string): Scene[] {
+  const scene = getScene(sceneId);
+  const before = { ...scene };
+  const dialogueLines = scene.dialogue;
+  
+  const narrationSplit = narrationAt === undefined ? findMiddleSentenceBreak(scene.narration) : narrationAt;
+  const dialogueSplit = dialogueAt === undefined ? Math.ceil(dialogueLines.length / 2) : dialogueAt;
+  
+  if (!Number.isInteger(narrationSplit) || narrationSplit < 0 || narrationSplit > scene.narration.length) {
+    throw new SceneStructureError(`Posição da divisão da narração deve estar entre 0 e ${scene.narration.length}`);
+  }
+  if (!Number.isInteger(dialogueSplit) || dialogueSplit < 0 || dialogueSplit > dialogueLines.length) {
+    throw new SceneStructureError(`Fala da divisão do diálogo deve estar entre 0 e ${dialogueLines.length}`);
+  }
+  
+  const second = buildScene(scene.storyId, scene.order + 1, {
+    title: `${scene.title} (continuação)`,
+    description: scene.description,
+    narration: scene.narration.substring(narrationSplit).trim(),
+    dialogue: dialogueLines.slice(dialogueSplit),
+    isEnding: scene.isEnding
+  });
+  second.choices = scene.choices;
+  second.characterIds = scene.characterIds;
+  
+  scene.narration = scene.narration.substring(0, narrationSplit).trim();
+  scene.dialogue = dialogueLines.slice(0, dialogueSplit);
+  scene.choices = [];
+  scene.isEnding = false;
+  
+  const scenes = getScenesByStory(scene.storyId);
+  scenes.splice(scenes.findIndex(s => s.id === sceneId) + 1, 0, second);
+  
+  return transaction(() => {
+    revisionController.recordSceneRevision(before, scene, 'edit', author);
+    sceneRepository.save(scene);
+    sceneRepository.save(second);
+    renumberScenes(scenes);
+    return [getScene(scene.id), getScene(second.id)];
+  });
+}
+
+/**
+ * Junta duas cenas consecutivas em uma só
+ * A cena resultante mantém o ID e o título da primeira, reúne os textos e os personagens
+ * e herda as escolhas da segunda; escolhas que levavam à segunda passam a levar à cena resultante
+ * 
+ * @param {string} firstSceneId - ID da primeira cena
+ * @param {string} secondSceneId - ID da cena imediatamente seguinte
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ * @returns {Scene} A cena resultante
+ * @throws {NotFoundError} Se alguma cena não for encontrada
+ * @throws {SceneStructureError} Se as cenas não forem consecutivas na mesma história
+ */
+export function mergeScenes(firstSceneId: string, secondSceneId: string, author?: string): Scene {
+  const first = getScene(firstSceneId);
+  const second = getScene(secondSceneId);
+  const scenes = getScenesByStory(first.storyId);
+  const firstIndex = scenes.findIndex(scene => scene.id === firstSceneId);
+  
+  if (second.storyId !== first.storyId || scenes[firstIndex + 1] === undefined || scenes[firstIndex + 1].id !== secondSceneId) {
+    throw new SceneStructureError('Só é possível juntar uma cena com a cena seguinte da mesma história');
+  }
+  
+  const before = { ...first };
+  const joinText = (a: string, b: string, separator: string) => [a, b].filter(text => text && text.trim() !== '').join(separator);
+  
+  first.description = first.description === second.description ? first.description : joinText(first.description, second.description, '\n\n');
+  first.narration = joinText(first.narration, second.narration, '\n\n');
+  first.dialogue = first.dialogue.concat(second.dialogue);
+  first.choices = second.choices.filter(choice => choice.targetSceneId !== firstSceneId);
+  first.isEnding = second.isEnding;
+  first.characterIds = first.characterIds.concat(second.characterIds.filter(id => first.characterIds.indexOf(id) === -1));
+  if (!first.imageUrl) {
+    first.imageUrl = second.imageUrl;
+    first.imageAssetId = second.imageAssetId;
+  }
+  
+  return transaction(() => {
+    revisionController.recordSceneRevision(before, first, 'edit', author);
+    sceneRepository.save(first);
+    sceneRepository.delete(secondSceneId);
+    revisionController.deleteSceneRevisions(secondSceneId);
+    
+    const remaining = getScenesByStory(first.storyId);
+    retargetChoices(remaining, secondSceneId, firstSceneId, author);
+    renumberScenes(remaining);
+    
+    const story = storyRepository.findById(first.storyId);
+    if (story && story.startSceneId === secondSceneId) storyRepository.update(story.id, { startSceneId: firstSceneId });
+    
+    return getScene(firstSceneId);
+  });
+}
+
+/**
+ * Grava a posição de cada cena de acordo com a sequência informada
+ * Apenas as cenas cuja posição mudou são gravadas
+ * 
+ * @param {Scene[]} scenes - Todas as cenas da história, na ordem desejada
+ */
+function renumberScenes(scenes: Scene[]): void {
+  scenes.forEach((scene, index) => {
+    if (scene.order !== index) sceneRepository.update(scene.id, { order: index });
+  });
+}
+
+/**
+ * Redireciona ou remove as escolhas que levam a uma cena que deixou de existir
+ * As alterações ficam registradas no histórico de cada cena afetada
+ * 
+ * @param {Scene[]} scenes - Cenas restantes da história
+ * @param {string} removedSceneId - ID da cena removida
+ * @param {string} [replacementSceneId] - ID da cena que substitui a removida (opcional; sem ela, as escolhas são removidas)
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
+ */
+function retargetChoices(scenes: Scene[], removedSceneId: string, replacementSceneId?: string, author?: string): void {
+  scenes
+    .filter(scene => scene.choices.some(choice => choice.targetSceneId === removedSceneId))
+    .forEach(scene => {
+      const updated: Scene = {
+        ...scene,
+        choices: scene.choices
+          .map(choice => choice.targetSceneId === removedSceneId && replacementSceneId
+            ? { ...choice, targetSceneId: replacementSceneId }
+            : choice)
+          .filter(choice => choice.targetSceneId !== removedSceneId && choice.targetSceneId !== scene.id)
+      };
+      revisionController.recordSceneRevision(scene, updated, 'edit', author);
+      sceneRepository.save(updated);
+    });
+}
+
+/**
+ * Encontra o fim de frase mais próximo do meio de um texto, para dividir a narração
+ * 
+ * @param {string} text - Texto da narração
+ * @returns {number} Posição logo após o fim da frase, ou o espaço mais próximo do meio se não houver frases
+ */
+function findMiddleSentenceBreak(text: string): number {
+  const middle = text.length / 2;
+  const pattern = /[.!?…]+["”»]?\s+/g;
+  let best = -1;
+  let match: RegExpExecArray | null;
+  
+  while ((match = pattern.exec(text)) !== null) {
+    const position = match.index + match[0].length;
+    if (best === -1 || Math.abs(position - middle) < Math.abs(best - middle)) best = position;
+  }
+  
+  if (best !== -1) return best;
+  
+  // Sem frases, a divisão fica no início da palavra mais próxima do meio
+  const spaceAfter = text.indexOf(' ', Math.floor(middle));
+  const spaceBefore = text.lastIndexOf(' ', Math.floor(middle));
+  const candidates = [spaceAfter, spaceBefore].filter(position => position > 0).map(position => position + 1);
+  if (candidates.length === 0) return Math.floor(middle);
+  return candidates.reduce((closest, position) => Math.abs(position - middle) < Math.abs(closest - middle) ? position : closest);
+}
+
+/**
+ * Remove todas as cenas de uma história
+ * 
+ * @param {string} storyId - ID da história
+ * @returns {number} Quantidade de cenas removidas
+ */
+export function deleteScenesByStory(storyId: string): number {
+  return sceneRepository.deleteByStory(storyId);
 }
 
 /**
@@ -159,42 +665,134 @@ export function deleteScene(sceneId: string): void {
  * @returns {Scene[]} Cópia do array de todas as cenas
  */
 export function getAllScenes(): Scene[] {
-  return [...scenes];
+  return sceneRepository.findAll();
 }
 
 /**
- * Limpa todas as cenas do array
+ * Limpa todas as cenas do repositório
  * Útil para testes ou reset do sistema
  */
 export function clearScenes(): void {
-  scenes.length = 0;
+  sceneRepository.clear();
 }
 
 /**
- * Gera imagens para todas as cenas de uma história
+ * Enfileira a geração da imagem de uma cena
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {string} style - Estilo visual para a imagem
+ * @param {string} [customPrompt] - Prompt personalizado para a imagem (opcional)
+ * @param {string} [author] - Nome do usuário que pediu a imagem, registrado no histórico da cena (opcional)
+ * @returns {Job} O job criado
+ * @throws {NotFoundError} Se a cena não for encontrada
+ */
+export function enqueueSceneImage(sceneId: string, style: string, customPrompt?: string, author?: string): Job {
+  const scene = getScene(sceneId);
+  
+  // O consumo da imagem é atribuído ao usuário que pediu a geração, mesmo executada depois da requisição
+  const { userId } = usageController.getUsageScope();
+  return jobQueue.enqueue('scene-image', scene.storyId, scene.id, { style, customPrompt, author, userId });
+}
+
+/**
+ * Enfileira a geração de imagens para todas as cenas de uma história
+ * Os jobs são executados em ordem, então cada imagem usa as das cenas anteriores como referência
  * 
  * @param {string} storyId - ID da história
  * @param {string} style - Estilo visual para as imagens
- * @returns {Promise<Scene[]>} Array de cenas atualizadas com imagens
+ * @param {string} [author] - Nome do usuário que pediu as imagens (opcional)
+ * @returns {Job[]} Jobs criados, na ordem das cenas
  */
-export async function generateImagesForStory(storyId: string, style: string): Promise<Scene[]> {
-  const storyScenes = getScenesByStory(storyId);
-  const updatedScenes = [];
+export function generateImagesForStory(storyId: string, style: string, author?: string): Job[] {
+  return getScenesByStory(storyId).map(scene => enqueueSceneImage(scene.id, style, undefined, author));
+}
+
+/**
+ * Enfileira novamente as imagens que falharam ou que nunca foram pedidas
+ * Cenas com imagem pronta ou já na fila são mantidas, e as retidas pela moderação são ignoradas,
+ * pois falhariam de novo até serem liberadas
+ * 
+ * @param {string} storyId - ID da história
+ * @param {string} style - Estilo visual para as imagens
+ * @param {string} [author] - Nome do usuário que pediu as imagens (opcional)
+ * @returns {Job[]} Jobs criados, na ordem das cenas
+ */
+export function retryFailedImages(storyId: string, style: string, author?: string): Job[] {
+  return getScenesByStory(storyId)
+    .filter(scene => (scene.imageStatus === 'failed' || scene.imageStatus === 'none') && !scene.moderation)
+    .map(scene => enqueueSceneImage(scene.id, style, undefined, author));
+}
+
+/**
+ * Executa um job de imagem de cena, atribuindo o consumo à história e ao usuário do job
+ * 
+ * @param {Job} job - Job a ser executado
+ * @param {AbortSignal} signal - Sinal de cancelamento do job
+ * @returns {Promise<Job['result']>} URL da imagem gravada na cena
+ * @throws {BudgetExceededError} Se o orçamento da história ou do usuário tiver sido atingido
+ */
+function runSceneImageJob(job: Job, signal: AbortSignal): Promise<Job['result']> {
+  return usageController.runWithUsageScope({ storyId: job.storyId, userId: job.payload.userId }, async () => {
+    // Jobs enfileirados antes de o orçamento ser atingido não geram novas imagens
+    usageController.assertWithinBudget();
+    return generateSceneImageForJob(job, signal);
+  });
+}
+
+/**
+ * Gera e grava a imagem de um job de imagem de cena
+ * As imagens anteriores são lidas no momento da execução, quando as cenas anteriores já foram processadas
+ * 
+ * @param {Job} job - Job a ser executado
+ * @param {AbortSignal} signal - Sinal de cancelamento do job
+ * @returns {Promise<Job['result']>} URL da imagem gravada na cena
+ * @throws {ContentQuarantinedError} Se a cena estiver retida pela moderação
+ */
+async function generateSceneImageForJob(job: Job, signal: AbortSignal): Promise<Job['result']> {
+  const scene = getScene(job.sceneId);
   
-  // Array para armazenar URLs de imagens anteriores
-  const previousImages = [];
+  // Cenas retidas pela moderação não viram prompts de imagem
+  moderationController.assertSceneReleased(scene);
+  const previousImages = getScenesByStory(scene.storyId)
+    .filter(s => s.order < scene.order)
+    .map(s => s.imageUrl)
+    .filter(url => !!url);
   
-  for (const scene of storyScenes) {
-    // Use a própria cena como parâmetro e passe o array de imagens anteriores
-    const updatedScene = await updateSceneImage(scene.id, style, scene, previousImages);
-    
-    // Adiciona a URL da imagem gerada ao array de imagens anteriores
-    if (updatedScene.imageUrl && updatedScene.imageUrl !== "/images/placeholder.jpg") {
-      previousImages.push(updatedScene.imageUrl);
+  const image = await renderSceneImage(scene.id, job.payload.customPrompt || '', job.payload.style, previousImages);
+  
+  // Um job cancelado durante a geração não altera a cena
+  if (signal.aborted) return undefined;
+  
+  const updated = saveSceneImage(scene.id, image, job.payload.author);
+  return { imageUrl: updated.imageUrl };
+}
+
+/**
+ * Acompanha os jobs de imagem no estado da imagem das cenas
+ * A conclusão é gravada junto com a imagem; uma geração cancelada devolve a cena ao estado anterior ao pedido
+ * 
+ * @param {Job} job - Job atualizado
+ */
+function syncSceneImageStatus(job: Job): void {
+  if (job.type !== 'scene-image') return;
+  
+  switch (job.status) {
+    case 'queued':
+      sceneRepository.update(job.sceneId, { imageStatus: 'pending', imageError: undefined });
+      break;
+    case 'running':
+      sceneRepository.update(job.sceneId, { imageStatus: 'generating' });
+      break;
+    case 'failed':
+      sceneRepository.update(job.sceneId, { imageStatus: 'failed', imageError: job.error });
+      break;
+    case 'cancelled': {
+      const scene = sceneRepository.findById(job.sceneId);
+      if (scene) sceneRepository.update(scene.id, { imageStatus: scene.imageUrl ? 'ready' : 'none' });
+      break;
     }
-    
-    updatedScenes.push(updatedScene);
   }
-  
-  return updatedScenes;
-}
\ No newline at end of file
+}
+
+jobQueue.registerHandler('scene-image', runSceneImageJob);
+jobQueue.on('update', syncSceneImageStatus);
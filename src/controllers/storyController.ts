@@ -5,91 +5,157 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { generateStoryProposal, generateScenes, generateStyleSamples } from '../api/openai';
+import { estimateScenesTokens, generateStoryProposal, generateScene, generateScenes, generateStyleSamples, rewriteScene, SceneGenerationListener } from '../api/openai';
+import { SceneRewrite, SceneRewriteField } from '../api/rewriteSchema';
 import { Story } from '../models/Story';
-import { Scene } from '../models/Scene';
+import { DialogueLine, Scene } from '../models/Scene';
+import { Job } from '../models/Job';
+import { Character } from '../models/Character';
+import { BudgetStatus } from '../models/Usage';
+import { StoryGraph, StoryGraphValidation } from '../models/StoryGraph';
 import * as sceneController from './sceneController';
-import { generateImage } from '../api/imageGeneration';
-
-/**
- * Repositório em memória para armazenar todas as histórias
- * Em um ambiente de produção, seria substituído por um banco de dados
- */
-const stories: Story[] = [];
+import * as jobController from './jobController';
+import * as assetController from './assetController';
+import * as characterController from './characterController';
+import * as revisionController from './revisionController';
+import * as accessController from './accessController';
+import * as usageController from './usageController';
+import * as stylePresetController from './stylePresetController';
+import * as moderationController from './moderationController';
+import * as promptTemplateController from './promptTemplateController';
+import { jobQueue } from '../jobs/jobQueue';
+import { generateStyleSample, getImageOptions, ImageResult, VisualStyle } from '../api/imageGeneration';
+import { ApiUsage } from '../api/usage';
+import { getTextProvider } from '../api/providers/textGeneration';
+import { getImageProvider, ImageQuality, ImageSize } from '../api/providers/imageProvider';
+import { buildStoryGraph, validateStoryGraph } from '../utils/storyGraph';
+import { DEFAULT_LANGUAGE, getStoryLanguage } from '../utils/languages';
+import { calculateUsageCost, roundCost } from '../utils/pricing';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { escapeXml } from '../utils/epub';
+import { storyRepository, transaction } from '../repositories';
 
 /**
  * Cria uma nova história baseada em um briefing fornecido pelo usuário
  * Gera uma proposta narrativa usando IA e inicializa a estrutura da história
  * 
  * @param {string} briefing - Briefing inicial da história
+ * @param {string} [language] - Idioma em que a história será gerada (padrão: pt-BR)
+ * @param {string} [ownerId] - ID do usuário dono da história (opcional)
  * @returns {Promise<Story>} A história criada com proposta gerada pela IA
+ * @throws {ContentBlockedError} Se o briefing for recusado pela moderação
+ */
+export async function createStory(briefing: string, language: string = DEFAULT_LANGUAGE, ownerId?: string): Promise<Story> {
+  // O briefing é verificado antes de ser enviado ao modelo
+  await moderationController.assertAllowed('briefing', briefing);
+  
+  // O ID é definido antes da geração, para que o consumo da proposta seja atribuído à nova história
+  const storyId = uuidv4();
+  return usageController.runWithStoryScope(storyId, () => buildStory(storyId, briefing, language, ownerId));
+}
+
+/**
+ * Gera a proposta e os personagens e grava uma nova história
+ * Uma proposta sinalizada pela moderação é gravada retida em quarentena
+ * 
+ * @param {string} storyId - ID da nova história
+ * @param {string} briefing - Briefing inicial para a história
+ * @param {string} language - Idioma em que a história será gerada
+ * @param {string} [ownerId] - ID do usuário dono da história (opcional)
+ * @returns {Promise<Story>} A história criada
  */
-export async function createStory(briefing: string): Promise<Story> {
+async function buildStory(storyId: string, briefing: string, language: string, ownerId?: string): Promise<Story> {
   // Gera proposta narrativa através da API OpenAI
-  const proposal = await generateStoryProposal(briefing);
+  const proposal = await generateStoryProposal(briefing, language);
+  const [verdict] = await moderationController.screenTexts([proposal]);
 
   // Cria novo objeto de história com ID único
   const story: Story = {
-    id: uuidv4(),
+    id: storyId,
     title: proposal.split('.')[0], // Usa a primeira frase como título
     briefing,
     proposal,
     style: '',
     scenes: [],
     createdAt: new Date(),
+    ownerId,
+    language,
     visualSamples: [],
     selectedVisualSample: undefined
   };
 
   // Armazena a história no repositório
-  stories.push(story);
+  storyRepository.save(story);
+  story.moderation = moderationController.quarantineProposal(story.id, verdict);
+  
+  // Extrai as fichas dos personagens; a história continua válida se a extração falhar
+  await extractCharactersSafely(story.id);
+  
   return story;
 }
 
+/**
+ * Extrai os personagens de uma história sem interromper o fluxo em caso de falha
+ * 
+ * @param {string} storyId - ID da história
+ * @returns {Promise<Character[]>} Os personagens extraídos ou um array vazio
+ */
+async function extractCharactersSafely(storyId: string): Promise<Character[]> {
+  try {
+    return await characterController.extractStoryCharacters(storyId);
+  } catch (error) {
+    console.error("Erro ao extrair personagens:", error);
+    return [];
+  }
+}
+
 /**
  * Gera amostras visuais para uma história baseadas em um estilo específico
  * Permite ao usuário visualizar diferentes representações da história antes de prosseguir
  * 
  * @param {string} storyId - ID da história
- * @param {string} style - Estilo visual desejado (ex: "realista", "cartoon")
+ * @param {string} style - Estilo visual desejado (ex: "realista", "cartoon"), ignorado quando há preset
+ * @param {string} [stylePresetId] - ID do preset de estilo escolhido (opcional)
  * @returns {Promise<any[]>} Array de objetos de amostra visual com imagens
- * @throws {Error} Se a história não for encontrada ou houver erro na geração
+ * @throws {NotFoundError} Se a história ou o preset não forem encontrados
+ * @throws {ContentQuarantinedError} Se a proposta estiver retida pela moderação
+ * @throws {ContentBlockedError} Se o estilo livre for recusado pela moderação
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar
  */
-export async function generateVisualSamples(storyId: string, style: string): Promise<any[]> {
+export async function generateVisualSamples(storyId: string, style: string, stylePresetId?: string): Promise<any[]> {
   // Localiza a história no repositório
-  const story = stories.find(s => s.id === storyId);
-  if (!story) throw new Error('História não encontrada');
+  const story = findStory(storyId);
+  
+  // O início da proposta faz parte do prompt das amostras
+  moderationController.assertProposalReleased(story);
 
   // Armazena o estilo escolhido na história
-  story.style = style;
+  const imageStyle = applyStoryStyle(story, style, stylePresetId);
+  await assertStyleAllowed(story.id, imageStyle);
+  storyRepository.save(story);
 
+  // Os personagens principais aparecem nas amostras com a aparência definida em suas fichas
+  const characters = characterController.getCharactersByStory(storyId);
+  
   const visualSamples = [];
   try {
     // Gera exatamente 3 amostras visuais diferentes do mesmo estilo
     for (let i = 0; i < 3; i++) {
-      // Cria prompt específico para amostra visual
-      const samplePrompt = `Ilustração no estilo ${style} mostrando: ${story.proposal.substring(0, 100).replace(/"/g, "'")}. Alta qualidade, cores vivas, personagens completos, sem texto.`;
-      
-      // Cria objeto de cena provisório para gerar a imagem
-      const mockScene = {
-        description: story.proposal.substring(0, 100)
-      };
-      
-      // Gera imagem através da API
-      const imageUrl = await generateImage(samplePrompt, style, mockScene);
+      // Gera uma ilustração do início da proposta com as instruções e opções do estilo
+      const image = await generateStyleSample(imageStyle, story.proposal.substring(0, 100).replace(/"/g, "'"), characters);
       
       // Adiciona a amostra visual ao array
       visualSamples.push({
         title: `Exemplo ${i + 1}`,
-        description: `Exemplo visual no estilo ${style}`,
+        description: `Exemplo visual no estilo ${story.style}`,
         narration: '',
-        dialogue: '',
-        imageUrl
+        dialogue: [],
+        ...await storeSampleImage(image)
       });
     }
 
     // Armazena as amostras na história
-    story.visualSamples = visualSamples;
+    storyRepository.update(storyId, { visualSamples });
     return visualSamples;
   } catch (error) {
     console.error("Erro ao gerar amostras visuais:", error);
@@ -97,6 +163,25 @@ export async function generateVisualSamples(storyId: string, style: string): Pro
   }
 }
 
+/**
+ * Armazena a imagem de uma amostra visual, como as imagens das cenas
+ * As URLs dos provedores podem expirar; se a imagem não puder ser armazenada, a URL original é mantida
+ *
+ * @param {ImageResult} image - Imagem gerada pelo provedor
+ * @returns {Promise<{ imageUrl: string, imageAssetId?: string }>} URL e asset local da imagem
+ */
+async function storeSampleImage(image: ImageResult): Promise<{ imageUrl: string; imageAssetId?: string }> {
+  if (!assetController.isStorableImageUrl(image.url)) return { imageUrl: image.url };
+
+  try {
+    const asset = await assetController.storeImage(image);
+    return { imageUrl: assetController.getAssetUrl(asset.id), imageAssetId: asset.id };
+  } catch (error) {
+    console.error("Erro ao armazenar amostra visual, usando a URL original:", error);
+    return { imageUrl: image.url };
+  }
+}
+
 /**
  * Seleciona uma amostra visual específica para a história
  * Define o estilo visual que será aplicado a todas as cenas
@@ -104,51 +189,67 @@ export async function generateVisualSamples(storyId: string, style: string): Pro
  * @param {string} storyId - ID da história
  * @param {number} sampleIndex - Índice da amostra visual selecionada
  * @returns {Promise<Story>} A história atualizada com a amostra selecionada
- * @throws {Error} Se a história ou amostra não forem encontradas
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ValidationError} Se a amostra não existir
  */
 export async function selectVisualSample(storyId: string, sampleIndex: number): Promise<Story> {
   // Localiza a história no repositório
-  const story = stories.find(s => s.id === storyId);
-  if (!story) throw new Error('História não encontrada');
+  const story = findStory(storyId);
   
   // Valida a seleção da amostra
   if (!story.visualSamples || sampleIndex < 0 || sampleIndex >= story.visualSamples.length) {
-    throw new Error('Amostra visual inválida');
+    throw new ValidationError('Amostra visual inválida', [], 'INVALID_VISUAL_SAMPLE');
   }
   
   // Define a amostra visual selecionada
   story.selectedVisualSample = story.visualSamples[sampleIndex];
+  storyRepository.save(story);
   
-  return story;
+  return getStory(storyId);
 }
 
 /**
  * Gera código HTML para exportar uma história completa
  * Permite ao usuário baixar a história para visualização offline
+ * As imagens armazenadas localmente são incorporadas ao documento, que não depende do servidor
+ * Todo o texto da história é escapado, pois vem dos usuários e da IA
  * 
  * @param {string} storyId - ID da história a ser exportada
- * @returns {string} Código HTML da história formatada
+ * @returns {Promise<string>} Código HTML da história formatada
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ContentQuarantinedError} Se a história tiver conteúdo retido pela moderação
  */
-export function generateHtmlExport(storyId: string): string {
+export async function generateHtmlExport(storyId: string): Promise<string> {
   const story = getStory(storyId);
-  let html = `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${story.title}</title>
+  moderationController.assertNoHolds(storyId);
+  const imageSources = await getExportImageSources(story.scenes);
+  let html = `<!DOCTYPE html><html lang="${getStoryLanguage(story)}"><head><meta charset="UTF-8"><title>${escapeXml(story.title)}</title>
   <style>
     body { font-family: sans-serif; padding: 20px; max-width: 800px; margin: auto; }
     h1, h2 { text-align: center; }
     .scene { margin-bottom: 30px; border-bottom: 1px solid #ccc; padding-bottom: 20px; }
     .scene img { width: 100%; max-height: 400px; object-fit: contain; }
     .dialogue { background: #f1f1f1; padding: 10px; }
+    .dialogue p { margin: 4px 0; }
+    .direction { color: #666; }
   </style></head><body>
-  <h1>${story.title}</h1>`;
+  <h1>${escapeXml(story.title)}</h1>`;
 
   // Adiciona cada cena ao documento HTML
   story.scenes.forEach((scene, index) => {
-    html += `<div class="scene">
-      <h2>${scene.title || 'Cena ' + (index + 1)}</h2>
-      ${scene.imageUrl ? `<img src="${scene.imageUrl}" />` : ''}
-      <p><strong>Descrição:</strong><br>${scene.description}</p>
-      <p><strong>Narração:</strong><br>${scene.narration}</p>
-      <div class="dialogue"><strong>Diálogo:</strong><br>${scene.dialogue}</div>
+    const choices = scene.choices.map(choice => {
+      const target = story.scenes.find(s => s.id === choice.targetSceneId);
+      return target ? `<li><a href="#cena-${target.id}">${escapeXml(choice.label)}</a></li>` : '';
+    }).join('');
+
+    html += `<div class="scene" id="cena-${scene.id}">
+      <h2>${escapeXml(scene.title || 'Cena ' + (index + 1))}</h2>
+      ${imageSources[index] ? `<img src="${escapeXml(imageSources[index])}" />` : ''}
+      <p><strong>Descrição:</strong><br>${escapeXml(scene.description)}</p>
+      <p><strong>Narração:</strong><br>${escapeXml(scene.narration)}</p>
+      ${scene.dialogue.length > 0 ? `<div class="dialogue"><strong>Diálogo:</strong>${formatDialogueHtml(scene.dialogue)}</div>` : ''}
+      ${choices ? `<ul class="choices">${choices}</ul>` : ''}
+      ${scene.isEnding ? '<p><em>Fim</em></p>' : ''}
     </div>`;
   });
 
@@ -156,87 +257,392 @@ export function generateHtmlExport(storyId: string): string {
   return html;
 }
 
+/**
+ * Formata as falas de uma cena para o documento HTML exportado, destacando quem fala
+ * 
+ * @param {DialogueLine[]} lines - Falas da cena
+ * @returns {string} Um parágrafo por fala, com o texto escapado
+ */
+function formatDialogueHtml(lines: DialogueLine[]): string {
+  return lines.map(line => {
+    const speaker = line.speaker ? `<strong>${escapeXml(line.speaker)}:</strong> ` : '';
+    const direction = line.direction ? `<em class="direction">(${escapeXml(line.direction)})</em> ` : '';
+    return `<p>${speaker}${direction}${escapeXml(line.text)}</p>`;
+  }).join('');
+}
+
+/**
+ * Obtém as URLs das imagens das cenas para um documento exportado
+ * 
+ * @param {Scene[]} scenes - Cenas da história
+ * @returns {Promise<string[]>} Data URLs dos assets locais ou a URL original de cada cena
+ */
+async function getExportImageSources(scenes: Scene[]): Promise<string[]> {
+  const sources = [];
+  for (const scene of scenes) {
+    if (!scene.imageAssetId) {
+      sources.push(scene.imageUrl);
+      continue;
+    }
+    
+    try {
+      sources.push(await assetController.getAssetDataUrl(scene.imageAssetId));
+    } catch (error) {
+      console.error(`Erro ao incorporar imagem da cena ${scene.id}:`, error);
+      sources.push(scene.imageUrl);
+    }
+  }
+  return sources;
+}
+
 /**
  * Define o estilo visual para uma história e gera amostras de descrição
  * 
  * @param {string} storyId - ID da história
- * @param {string} style - Estilo visual desejado
+ * @param {string} style - Estilo visual desejado, ignorado quando há preset
  * @param {number} sampleCount - Número de amostras a serem geradas (padrão: 3)
+ * @param {string} [stylePresetId] - ID do preset de estilo escolhido (opcional)
  * @returns {Promise<string[]>} Array de descrições de estilo
- * @throws {Error} Se a história não for encontrada
+ * @throws {NotFoundError} Se a história ou o preset não forem encontrados
+ * @throws {ContentBlockedError} Se o estilo livre for recusado pela moderação
  */
-export async function setStoryStyle(storyId: string, style: string, sampleCount: number = 3): Promise<string[]> {
+export async function setStoryStyle(storyId: string, style: string, sampleCount: number = 3, stylePresetId?: string): Promise<string[]> {
   // Localiza a história no repositório
-  const story = stories.find(s => s.id === storyId);
-  if (!story) throw new Error('História não encontrada');
+  const story = findStory(storyId);
   
   // Armazena o estilo na história
-  story.style = style;
+  const imageStyle = applyStoryStyle(story, style, stylePresetId);
+  await assertStyleAllowed(story.id, imageStyle);
+  storyRepository.save(story);
   
   // Gera amostras textuais do estilo visual
-  const styleSamples = await generateStyleSamples(story.proposal, style, sampleCount);
+  const styleSamples = await generateStyleSamples(story.proposal, story.style, sampleCount, getStoryLanguage(story));
   return styleSamples;
 }
 
 /**
- * Gera cenas para uma história e suas respectivas imagens
+ * Define o estilo visual de uma história, sem gravá-la
+ * Com um preset, o nome do preset é guardado como estilo; um estilo livre com o nome de um preset passa a usá-lo
+ * 
+ * @param {Story} story - História a ser alterada
+ * @param {string} style - Estilo visual livre
+ * @param {string} [stylePresetId] - ID do preset de estilo (opcional)
+ * @returns {VisualStyle} Preset ou estilo livre usado nas imagens
+ * @throws {NotFoundError} Se o preset informado não for encontrado
+ */
+function applyStoryStyle(story: Story, style: string, stylePresetId?: string): VisualStyle {
+  const imageStyle = stylePresetId
+    ? stylePresetController.getStylePreset(stylePresetId)
+    : stylePresetController.resolveImageStyle(style);
+  
+  story.style = typeof imageStyle === 'string' ? imageStyle : imageStyle.name;
+  story.stylePresetId = typeof imageStyle === 'string' ? undefined : imageStyle.id;
+  return imageStyle;
+}
+
+/**
+ * Verifica um estilo livre, que entra nos prompts de todas as imagens da história
+ * Os presets são cadastrados pela aplicação e não são verificados
+ * 
+ * @param {string} storyId - ID da história
+ * @param {VisualStyle} imageStyle - Preset ou estilo livre
+ * @throws {ContentBlockedError} Se o estilo livre for recusado pela moderação
+ */
+async function assertStyleAllowed(storyId: string, imageStyle: VisualStyle): Promise<void> {
+  if (typeof imageStyle === 'string') await moderationController.assertAllowed('image-prompt', imageStyle, { storyId });
+}
+
+/**
+ * Callbacks para acompanhar a geração completa de uma história em streaming
+ * Estende os callbacks de texto com a gravação das cenas e a conclusão de cada imagem
+ * 
+ * @interface StoryGenerationListener
+ * @property {Function} onScenesSaved - Recebe as cenas gravadas, já com IDs e escolhas ligadas
+ * @property {Function} onImage - Recebe o job de imagem de cada cena assim que ele termina
+ */
+export interface StoryGenerationListener extends SceneGenerationListener {
+  onScenesSaved?(scenes: Scene[]): void;
+  onImage?(job: Job, index: number): void;
+}
+
+/**
+ * Gera cenas para uma história e enfileira suas respectivas imagens
  * Processamento principal que cria o conteúdo narrativo e visual da história
+ * Gerar novamente substitui as cenas anteriores, com seus históricos e imagens pendentes
+ * As imagens são geradas em segundo plano; apenas com o callback onImage a função aguarda a fila
+ * Cenas sinalizadas pela moderação são gravadas retidas em quarentena, e suas imagens não são geradas
  * 
  * @param {string} storyId - ID da história
  * @param {number} numScenes - Número de cenas a serem geradas
  * @param {string} samplePrompt - Prompt de exemplo (opcional)
- * @returns {Promise<Scene[]>} Array de objetos de cena com texto e imagens
- * @throws {Error} Se a história não for encontrada
+ * @param {number} decisionPoints - Número de pontos de decisão da história ramificada (padrão: 0)
+ * @param {StoryGenerationListener} [listener] - Callbacks de progresso para geração em streaming
+ * @returns {Promise<Scene[]>} Array de objetos de cena (com imagens quando a fila é aguardada)
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ContentQuarantinedError} Se a proposta estiver retida pela moderação
+ * @throws {SceneGenerationError} Se a IA não produzir cenas válidas
  */
-export async function generateStoryScenes(storyId: string, numScenes: number, samplePrompt?: string): Promise<Scene[]> {
+export async function generateStoryScenes(
+  storyId: string,
+  numScenes: number,
+  samplePrompt?: string,
+  decisionPoints: number = 0,
+  listener?: StoryGenerationListener
+): Promise<Scene[]> {
   // Localiza a história no repositório
-  const story = stories.find(s => s.id === storyId);
-  if (!story) throw new Error('História não encontrada');
+  const story = findStory(storyId);
+  moderationController.assertProposalReleased(story);
   
-  // Gera o conteúdo textual das cenas através da API OpenAI
-  const generatedScenes = await generateScenes(story.proposal, numScenes);
-  const sceneObjects: Scene[] = [];
+  // Histórias criadas antes das fichas de personagens têm os personagens extraídos agora
+  let characters = characterController.getCharactersByStory(storyId);
+  if (characters.length === 0) characters = await extractCharactersSafely(storyId);
   
-  // Ajusta o número de cenas geradas para corresponder ao solicitado
-  let adjustedScenes = [...generatedScenes];
+  // Gera o conteúdo textual das cenas, já validado quanto à estrutura e à quantidade
+  const generatedScenes = await generateScenes(story.proposal, numScenes, decisionPoints, listener, characters, getStoryLanguage(story));
+  const verdicts = await moderationController.screenTexts(generatedScenes.map(moderationController.getSceneText));
   
-  // Se foram geradas menos cenas que o solicitado, preenche as faltantes
-  if (adjustedScenes.length < numScenes) {
-    console.warn(`Foram geradas apenas ${adjustedScenes.length} de ${numScenes} cenas solicitadas. Gerando as restantes...`);
+  // Uma nova geração substitui as cenas anteriores, e as imagens pendentes delas deixam de ser geradas
+  const previousScenes = sceneController.getScenesByStory(storyId);
+  jobController.cancelStoryJobs(storyId);
+  
+  // Remove as cenas anteriores, cria as novas e atualiza a cena inicial da história em uma única transação
+  const sceneObjects: Scene[] = transaction(() => {
+    previousScenes.forEach(scene => revisionController.deleteSceneRevisions(scene.id));
+    sceneController.deleteScenesByStory(storyId);
+    
+    const created = moderationController.quarantineScenes(sceneController.createScenes(storyId, generatedScenes), verdicts);
     
-    while (adjustedScenes.length < numScenes) {
-      const lastScene = adjustedScenes[adjustedScenes.length - 1];
-      const newScene = {
-        title: `Cena ${adjustedScenes.length + 1}`,
-        description: lastScene ? `Continuação: ${lastScene.description}` : 'Nova cena',
-        narration: lastScene ? lastScene.narration : 'Narração da cena',
-        dialogue: lastScene ? lastScene.dialogue : ''
-      };
-      adjustedScenes.push(newScene);
+    storyRepository.update(storyId, { startSceneId: created.length > 0 ? created[0].id : undefined });
+    return created;
+  });
+  if (listener && listener.onScenesSaved) listener.onScenesSaved(sceneObjects);
+  
+  // Enfileira imagens para as novas cenas se um estilo visual já foi definido
+  const style = story.style;
+  if (style) {
+    const jobs = sceneObjects.map(scene => sceneController.enqueueSceneImage(scene.id, style));
+    
+    if (listener && listener.onImage) {
+      const onImage = listener.onImage;
+      const jobIds = jobs.map(job => job.id);
+      await jobQueue.waitFor(jobIds, job => onImage(job, jobIds.indexOf(job.id)));
+      return sceneObjects.map(scene => sceneController.getScene(scene.id));
     }
-  } 
-  // Se foram geradas mais cenas que o solicitado, remove as excedentes
-  else if (adjustedScenes.length > numScenes) {
-    console.warn(`Foram geradas ${adjustedScenes.length} cenas, limitando para ${numScenes} conforme solicitado.`);
-    adjustedScenes = adjustedScenes.slice(0, numScenes);
   }
   
-  // Cria objetos de cena no sistema para cada cena gerada
-  for (let i = 0; i < adjustedScenes.length; i++) {
-    const sceneData = adjustedScenes[i];
-    const scene = await sceneController.createScene(storyId, i, sceneData);
-    sceneObjects.push(scene);
-  }
+  return sceneObjects;
+}
+
+/**
+ * Estimativa de custo de uma geração de cenas, calculada sem chamar os provedores
+ * 
+ * @interface SceneGenerationEstimate
+ * @property {number} numScenes - Número de cenas
+ * @property {number} decisionPoints - Número de pontos de decisão
+ * @property {Object} text - Tokens e custo do texto, esperados e no pior caso (todas as tentativas de correção)
+ * @property {Object} images - Quantidade, opções e custo das imagens, geradas apenas se a história já tiver um estilo
+ * @property {number} totalUsd - Custo total esperado, em dólares
+ * @property {number} maxTotalUsd - Custo total no pior caso, em dólares
+ * @property {Object} budget - Situação do orçamento da história e do orçamento mensal do usuário
+ * @property {boolean} withinBudget - Indica que o custo esperado cabe nos orçamentos restantes
+ */
+export interface SceneGenerationEstimate {
+  numScenes: number;
+  decisionPoints: number;
+  text: {
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    maxCostUsd: number;
+  };
+  images: {
+    provider: string;
+    model: string;
+    count: number;
+    size: ImageSize;
+    quality: ImageQuality;
+    costUsd: number;
+  };
+  totalUsd: number;
+  maxTotalUsd: number;
+  budget: {
+    story: BudgetStatus;
+    user?: BudgetStatus;
+  };
+  withinBudget: boolean;
+}
+
+/**
+ * Estima o custo de generateStoryScenes para uma história, sem gerar nada
+ * 
+ * @param {string} storyId - ID da história
+ * @param {number} numScenes - Número de cenas a serem geradas
+ * @param {number} [decisionPoints=0] - Número de pontos de decisão
+ * @param {string} [userId] - ID do usuário, para incluir o orçamento mensal dele (opcional)
+ * @returns {SceneGenerationEstimate} Tokens, imagens, custos e situação dos orçamentos
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+export function estimateStoryScenes(storyId: string, numScenes: number, decisionPoints: number = 0, userId?: string): SceneGenerationEstimate {
+  const story = findStory(storyId);
+  const characters = characterController.getCharactersByStory(storyId);
+  const tokens = estimateScenesTokens(story.proposal, numScenes, decisionPoints, characters, getStoryLanguage(story));
+  
+  const textProvider = getTextProvider();
+  const textUsage: ApiUsage = {
+    kind: 'text',
+    provider: textProvider.name,
+    model: textProvider.model,
+    task: 'scenes',
+    promptTokens: tokens.promptTokens,
+    completionTokens: tokens.completionTokens,
+    imageCount: 0,
+    estimated: true
+  };
+  const textCost = calculateUsageCost(textUsage);
+  const maxTextCost = calculateUsageCost({ ...textUsage, promptTokens: tokens.maxPromptTokens, completionTokens: tokens.maxCompletionTokens });
+  
+  // As imagens só são enfileiradas junto com as cenas quando a história já tem um estilo
+  const imageProvider = getImageProvider();
+  const { size, quality } = getImageOptions(story.style ? stylePresetController.resolveImageStyle(story.style, story.stylePresetId) : undefined);
+  const imageCount = story.style ? numScenes : 0;
+  const imageCost = calculateUsageCost({
+    kind: 'image',
+    provider: imageProvider.name,
+    model: imageProvider.model,
+    promptTokens: 0,
+    completionTokens: 0,
+    imageCount,
+    size,
+    quality,
+    estimated: true
+  });
   
-  // Atualiza a história com as cenas geradas
-  story.scenes = sceneObjects;
+  const storyBudget = usageController.getStoryBudget(storyId);
+  const userBudget = userId ? usageController.getUserBudget(userId) : undefined;
+  const totalUsd = roundCost(textCost + imageCost);
+  const fits = (budget?: BudgetStatus) => !budget || budget.remainingUsd === null || (!budget.exceeded && budget.remainingUsd >= totalUsd);
   
-  // Gera imagens para todas as cenas se um estilo visual já foi definido
-  if (story.style) {
-    await sceneController.generateImagesForStory(storyId, story.style);
+  return {
+    numScenes,
+    decisionPoints,
+    text: {
+      provider: textProvider.name,
+      model: textProvider.model,
+      promptTokens: tokens.promptTokens,
+      completionTokens: tokens.completionTokens,
+      costUsd: roundCost(textCost),
+      maxCostUsd: roundCost(maxTextCost)
+    },
+    images: {
+      provider: imageProvider.name,
+      model: imageProvider.model,
+      count: imageCount,
+      size,
+      quality,
+      costUsd: roundCost(imageCost)
+    },
+    totalUsd,
+    maxTotalUsd: roundCost(maxTextCost + imageCost),
+    budget: { story: storyBudget, user: userBudget },
+    withinBudget: fits(storyBudget) && fits(userBudget)
+  };
+}
+
+/**
+ * Gera uma nova cena com IA e a insere em uma posição da história
+ * As cenas vizinhas e as fichas dos personagens são usadas como contexto da geração
+ * 
+ * @param {string} storyId - ID da história
+ * @param {number} position - Posição da nova cena (0 para o início, número de cenas para o final)
+ * @returns {Promise<Scene>} A cena criada
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {SceneStructureError} Se a posição for inválida
+ * @throws {ContentQuarantinedError} Se a proposta estiver retida pela moderação
+ * @throws {SceneGenerationError} Se a IA não produzir uma cena válida
+ */
+export async function insertGeneratedScene(storyId: string, position: number): Promise<Scene> {
+  const story = findStory(storyId);
+  moderationController.assertProposalReleased(story);
+  const scenes = sceneController.getScenesByStory(storyId);
+  
+  // A posição é validada antes da geração, para não gastar uma chamada à IA à toa
+  if (!Number.isInteger(position) || position < 0 || position > scenes.length) {
+    throw new sceneController.SceneStructureError(`Posição deve estar entre 0 e ${scenes.length}`);
   }
   
-  return sceneObjects;
+  const characters = characterController.getCharactersByStory(storyId);
+  const generated = await generateScene(story.proposal, scenes.slice(0, position), scenes[position], characters, getStoryLanguage(story));
+  const verdicts = await moderationController.screenTexts([moderationController.getSceneText(generated)]);
+  
+  // Uma cena sinalizada é inserida retida em quarentena
+  return transaction(() => moderationController.quarantineScenes([sceneController.insertScene(storyId, position, generated)], verdicts)[0]);
+}
+
+/**
+ * Reescrita de uma cena proposta pela IA, ainda não aplicada
+ * 
+ * @interface SceneRewriteProposal
+ * @property {string} sceneId - ID da cena reescrita
+ * @property {string} instruction - Instrução seguida na reescrita
+ * @property {SceneRewriteField[]} fields - Campos reescritos
+ * @property {SceneRewrite} original - Textos atuais dos campos
+ * @property {SceneRewrite} proposed - Textos propostos, no formato aceito pela atualização da cena
+ */
+export interface SceneRewriteProposal {
+  sceneId: string;
+  instruction: string;
+  fields: SceneRewriteField[];
+  original: SceneRewrite;
+  proposed: SceneRewrite;
+}
+
+/**
+ * Pede à IA uma reescrita de campos de uma cena, seguindo uma instrução do usuário
+ * Nada é gravado: a proposta é aceita atualizando a cena com os textos propostos
+ * 
+ * @param {string} sceneId - ID da cena
+ * @param {string} instruction - Instrução de reescrita (ex: "deixe mais tensa", "diálogo mais curto")
+ * @param {SceneRewriteField[]} fields - Campos a reescrever
+ * @returns {Promise<SceneRewriteProposal>} Os textos atuais e os propostos
+ * @throws {NotFoundError} Se a cena ou a história não forem encontradas
+ * @throws {SceneGenerationError} Se a IA não produzir uma reescrita válida
+ * @throws {ContentBlockedError} Se a reescrita for recusada pela moderação
+ */
+export async function proposeSceneRewrite(sceneId: string, instruction: string, fields: SceneRewriteField[]): Promise<SceneRewriteProposal> {
+  const scene = sceneController.getScene(sceneId);
+  const story = findStory(scene.storyId);
+  const scenes = sceneController.getScenesByStory(story.id);
+  const index = scenes.findIndex(s => s.id === sceneId);
+  
+  // Cenas sem personagens marcados recebem as fichas de toda a história
+  const storyCharacters = characterController.getCharactersByStory(story.id);
+  const sceneCharacters = storyCharacters.filter(character => scene.characterIds.indexOf(character.id) !== -1);
+  const characters = sceneCharacters.length > 0 ? sceneCharacters : storyCharacters;
+  
+  const proposed = await rewriteScene(story.proposal, scene, scenes.slice(0, index), scenes[index + 1], instruction, fields, characters, getStoryLanguage(story));
+  await moderationController.assertAllowed('scene', moderationController.getSceneText(proposed), { storyId: story.id, sceneId });
+  
+  const original: { [field: string]: any } = {};
+  fields.forEach(field => { original[field] = scene[field]; });
+  
+  return { sceneId, instruction, fields, original, proposed };
+}
+
+/**
+ * Monta e valida o grafo de navegação de uma história
+ * Aponta cenas inalcançáveis, becos sem saída e escolhas quebradas
+ * 
+ * @param {string} storyId - ID da história
+ * @returns {{ graph: StoryGraph, validation: StoryGraphValidation }} Grafo e resultado da validação
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+export function getStoryGraph(storyId: string): { graph: StoryGraph; validation: StoryGraphValidation } {
+  const story = getStory(storyId);
+  const graph = buildStoryGraph(story.scenes, story.startSceneId);
+  
+  return { graph, validation: validateStoryGraph(graph) };
 }
 
 /**
@@ -244,12 +650,11 @@ export async function generateStoryScenes(storyId: string, numScenes: number, sa
  * 
  * @param {string} storyId - ID da história a ser recuperada
  * @returns {Story} A história completa com todas as suas cenas
- * @throws {Error} Se a história não for encontrada
+ * @throws {NotFoundError} Se a história não for encontrada
  */
 export function getStory(storyId: string): Story {
   // Localiza a história no repositório
-  const story = stories.find(s => s.id === storyId);
-  if (!story) throw new Error('História não encontrada');
+  const story = findStory(storyId);
   
   // Carrega as cenas associadas a esta história
   story.scenes = sceneController.getScenesByStory(storyId);
@@ -257,12 +662,13 @@ export function getStory(storyId: string): Story {
 }
 
 /**
- * Obtém todas as histórias do sistema com suas respectivas cenas
+ * Obtém todas as histórias que um usuário pode ver, com suas respectivas cenas
  * 
- * @returns {Story[]} Array de todas as histórias com dados completos
+ * @param {string} userId - ID do usuário
+ * @returns {Story[]} Histórias próprias e compartilhadas com o usuário, com dados completos
  */
-export function getAllStories(): Story[] {
-  return stories.map(story => ({
+export function getAllStories(userId: string): Story[] {
+  return storyRepository.find(story => accessController.hasStoryRole(story, userId, 'viewer')).map(story => ({
     ...story,
     scenes: sceneController.getScenesByStory(story.id)
   }));
@@ -271,37 +677,69 @@ export function getAllStories(): Story[] {
 /**
  * Atualiza a proposta de uma história existente
  * Permite ao usuário editar a narrativa principal
+ * Uma proposta retida pela moderação é liberada se o novo texto passar na verificação
  * 
  * @param {string} storyId - ID da história a ser atualizada
  * @param {string} proposal - Nova proposta de história
+ * @param {string} [author] - Nome do usuário que fez a alteração (opcional)
  * @returns {Promise<Story>} A história atualizada
- * @throws {Error} Se a história não for encontrada
+ * @throws {NotFoundError} Se a história não for encontrada
  */
-export async function updateStoryProposal(storyId: string, proposal: string): Promise<Story> {
+export async function updateStoryProposal(storyId: string, proposal: string, author?: string): Promise<Story> {
   // Localiza a história no repositório
-  const story = stories.find(s => s.id === storyId);
-  if (!story) throw new Error('História não encontrada');
+  const story = findStory(storyId);
+  const before = { ...story };
   
-  // Atualiza a proposta e recalcula o título
+  // Atualiza a proposta e recalcula o título, guardando a versão anterior no histórico
   story.proposal = proposal;
   story.title = proposal.split('.')[0];
+  story.moderation = await moderationController.recheckHold(story.moderation, proposal);
+  transaction(() => {
+    revisionController.recordStoryRevision(before, story, 'edit', author);
+    storyRepository.save(story);
+  });
   
-  return story;
+  return getStory(storyId);
 }
 
 /**
  * Remove uma história e todas as suas cenas do sistema
+ * A remoção é feita em uma transação, para que a história nunca fique sem parte das cenas
  * 
  * @param {string} storyId - ID da história a ser removida
  */
 export function deleteStory(storyId: string): void {
-  const index = stories.findIndex(s => s.id === storyId);
-  if (index !== -1) {
-    // Remove todas as cenas associadas a esta história
-    const scenesToDelete = sceneController.getScenesByStory(storyId);
-    scenesToDelete.forEach(scene => sceneController.deleteScene(scene.id));
+  if (!storyRepository.findById(storyId)) return;
+  
+  // Imagens pendentes não devem ser geradas para cenas que deixarão de existir
+  jobController.cancelStoryJobs(storyId);
+  
+  transaction(() => {
+    // Remove todas as cenas, personagens, revisões e templates de prompt associados a esta história
+    sceneController.deleteScenesByStory(storyId);
+    characterController.deleteCharactersByStory(storyId);
+    revisionController.deleteStoryRevisions(storyId);
+    promptTemplateController.deleteStoryPromptTemplates(storyId);
+    
+    // As traduções continuam existindo, mas deixam de apontar para a história removida
+    storyRepository
+      .find(story => story.translationOf === storyId)
+      .forEach(translation => storyRepository.update(translation.id, { translationOf: undefined }));
     
     // Remove a história do repositório
-    stories.splice(index, 1);
-  }
+    storyRepository.delete(storyId);
+  });
+}
+
+/**
+ * Localiza uma história no repositório, sem carregar suas cenas
+ * 
+ * @param {string} storyId - ID da história
+ * @returns {Story} A história encontrada
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+function findStory(storyId: string): Story {
+  const story = storyRepository.findById(storyId);
+  if (!story) throw new NotFoundError('story');
+  return story;
 }
\ No newline at end of file
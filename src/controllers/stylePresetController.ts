@@ -0,0 +1,151 @@
+/**
+ * Controlador para gerenciamento dos presets de estilo visual
+ * Os presets definem as instruções de estilo e as opções de renderização usadas em todas as imagens
+ * de uma história; os presets da aplicação são criados na inicialização e podem ser editados
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { StylePreset } from '../models/StylePreset';
+import { generateStyleSample, VisualStyle } from '../api/imageGeneration';
+import * as assetController from './assetController';
+import { storyRepository, stylePresetRepository, transaction } from '../repositories';
+import { BUILT_IN_STYLE_PRESETS, normalizeStyleName, StylePresetError, StylePresetInput } from '../utils/stylePresets';
+import { NotFoundError } from '../utils/errors';
+
+/**
+ * Cria os presets da aplicação que ainda não existem no armazenamento
+ * Presets já existentes não são alterados, para manter as edições feitas pelo usuário
+ *
+ * @returns {number} Quantidade de presets criados
+ */
+export function ensureBuiltInStylePresets(): number {
+  return transaction(() => BUILT_IN_STYLE_PRESETS
+    .filter(preset => !stylePresetRepository.findById(preset.id))
+    .map(preset => stylePresetRepository.save({ ...preset, builtIn: true, createdAt: new Date() }))
+    .length);
+}
+
+/**
+ * Lista os presets de estilo, com os presets da aplicação primeiro
+ *
+ * @returns {StylePreset[]} Presets cadastrados
+ */
+export function listStylePresets(): StylePreset[] {
+  const presets = stylePresetRepository.findAll();
+  return presets.filter(preset => preset.builtIn).concat(presets.filter(preset => !preset.builtIn));
+}
+
+/**
+ * Obtém um preset de estilo pelo ID
+ *
+ * @param {string} presetId - ID do preset
+ * @returns {StylePreset} O preset encontrado
+ * @throws {NotFoundError} Se o preset não for encontrado
+ */
+export function getStylePreset(presetId: string): StylePreset {
+  const preset = stylePresetRepository.findById(presetId);
+  if (!preset) throw new NotFoundError('stylePreset');
+  return preset;
+}
+
+/**
+ * Cria um preset de estilo
+ *
+ * @param {StylePresetInput} input - Dados do preset, já validados
+ * @returns {StylePreset} O preset criado
+ */
+export function createStylePreset(input: StylePresetInput): StylePreset {
+  return stylePresetRepository.save({
+    ...input,
+    id: uuidv4(),
+    builtIn: false,
+    createdAt: new Date()
+  });
+}
+
+/**
+ * Altera os campos enviados de um preset de estilo
+ * Uma nova URL de prévia substitui a prévia gerada anteriormente
+ *
+ * @param {string} presetId - ID do preset
+ * @param {Partial<StylePresetInput>} input - Campos alterados, já validados
+ * @returns {StylePreset} O preset atualizado
+ * @throws {NotFoundError} Se o preset não for encontrado
+ */
+export function updateStylePreset(presetId: string, input: Partial<StylePresetInput>): StylePreset {
+  getStylePreset(presetId);
+  const changes: Partial<StylePreset> = { ...input };
+  if (changes.previewImageUrl !== undefined) changes.previewAssetId = undefined;
+
+  return stylePresetRepository.update(presetId, changes) as StylePreset;
+}
+
+/**
+ * Remove um preset de estilo criado pelo usuário
+ * As histórias que usavam o preset mantêm o nome do estilo como estilo livre
+ *
+ * @param {string} presetId - ID do preset
+ * @throws {NotFoundError} Se o preset não for encontrado
+ * @throws {StylePresetError} Se o preset for da aplicação
+ */
+export function deleteStylePreset(presetId: string): void {
+  const preset = getStylePreset(presetId);
+  if (preset.builtIn) {
+    throw new StylePresetError('Os presets da aplicação não podem ser removidos', [`${preset.name} é um preset da aplicação`], 'BUILT_IN_STYLE_PRESET');
+  }
+
+  transaction(() => {
+    storyRepository
+      .find(story => story.stylePresetId === presetId)
+      .forEach(story => storyRepository.update(story.id, { stylePresetId: undefined }));
+    stylePresetRepository.delete(presetId);
+  });
+}
+
+/**
+ * Gera a imagem de prévia de um preset e a armazena como asset local
+ *
+ * @param {string} presetId - ID do preset
+ * @returns {Promise<StylePreset>} O preset com a nova prévia
+ * @throws {NotFoundError} Se o preset não for encontrado
+ * @throws {ProviderFailureError} Se o provedor de imagens falhar
+ */
+export async function generateStylePresetPreview(presetId: string): Promise<StylePreset> {
+  const preset = getStylePreset(presetId);
+  const image = await generateStyleSample(preset);
+
+  let changes: Partial<StylePreset> = { previewImageUrl: image.url, previewAssetId: undefined };
+  if (assetController.isStorableImageUrl(image.url)) {
+    try {
+      const asset = await assetController.storeImage(image);
+      changes = { previewImageUrl: assetController.getAssetUrl(asset.id), previewAssetId: asset.id };
+    } catch (error) {
+      console.error("Erro ao armazenar prévia do preset, usando a URL original:", error);
+    }
+  }
+
+  // O preset pode ter sido removido durante a geração
+  const updated = stylePresetRepository.update(presetId, changes);
+  if (!updated) throw new NotFoundError('stylePreset');
+  return updated;
+}
+
+/**
+ * Resolve o estilo usado nas imagens de uma história
+ * O preset referenciado tem prioridade; sem ele, um estilo livre com o nome ou ID de um preset
+ * (como nas histórias anteriores ao registro) usa esse preset, e os demais são usados como estão
+ *
+ * @param {string} style - Estilo visual da história
+ * @param {string} [stylePresetId] - ID do preset da história (opcional)
+ * @returns {VisualStyle} O preset encontrado ou o estilo livre
+ */
+export function resolveImageStyle(style: string, stylePresetId?: string): VisualStyle {
+  const referenced = stylePresetId ? stylePresetRepository.findById(stylePresetId) : undefined;
+  if (referenced) return referenced;
+
+  const name = normalizeStyleName(style || '');
+  const matching = name
+    ? stylePresetRepository.find(preset => normalizeStyleName(preset.id) === name || normalizeStyleName(preset.name) === name)
+    : [];
+  return matching.length > 0 ? matching[0] : style;
+}
@@ -0,0 +1,183 @@
+/**
+ * Controlador para tradução de histórias
+ * A tradução é uma nova história, ligada à original, com cenas, escolhas e personagens traduzidos
+ * As imagens são compartilhadas com a história original
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Story } from '../models/Story';
+import { Scene } from '../models/Scene';
+import { Character } from '../models/Character';
+import { getStory } from './storyController';
+import { assertNoHolds, quarantineStory, screenStory } from './moderationController';
+import { getCharactersByStory } from './characterController';
+import { hasStoryRole } from './accessController';
+import { getTranslationProvider } from '../api/providers/translationProvider';
+import { characterRepository, sceneRepository, storyRepository, transaction } from '../repositories';
+import { getStoryLanguage } from '../utils/languages';
+import { AppError, NotFoundError, ProviderFailureError, ValidationError } from '../utils/errors';
+
+// Campos de texto traduzidos de cada registro
+const STORY_FIELDS: ('title' | 'briefing' | 'proposal')[] = ['title', 'briefing', 'proposal'];
+const SCENE_FIELDS: ('title' | 'description' | 'narration')[] = ['title', 'description', 'narration'];
+const CHARACTER_FIELDS: ('role' | 'physicalDescription' | 'clothing' | 'personality' | 'speechStyle')[] = ['role', 'physicalDescription', 'clothing', 'personality', 'speechStyle'];
+
+/**
+ * Resumo de uma versão da história em outro idioma
+ *
+ * @interface StoryTranslationSummary
+ * @property {string} id - ID da história
+ * @property {string} title - Título da história
+ * @property {string} language - Idioma da história
+ * @property {boolean} isOriginal - Indica se é a história original das traduções
+ */
+export interface StoryTranslationSummary {
+  id: string;
+  title: string;
+  language: string;
+  isOriginal: boolean;
+}
+
+/**
+ * Cria uma cópia traduzida de uma história
+ * Todos os textos da história, das cenas, das falas, das escolhas e das fichas de personagens são traduzidos
+ * em uma única chamada ao tradutor; os nomes dos personagens e de quem fala são mantidos
+ *
+ * @param {string} storyId - ID da história original
+ * @param {string} language - Idioma de destino, no formato BCP 47
+ * @param {string} [ownerId] - ID do usuário dono da tradução (opcional)
+ * @returns {Promise<Story>} A história traduzida, com suas cenas
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ValidationError} Se a história já estiver no idioma de destino
+ * @throws {ContentQuarantinedError} Se a história tiver conteúdo retido pela moderação
+ * @throws {ProviderFailureError} Se a tradução falhar
+ */
+export async function translateStory(storyId: string, language: string, ownerId?: string): Promise<Story> {
+  const { scenes, ...story } = getStory(storyId);
+  assertNoHolds(storyId);
+  if (language === getStoryLanguage(story)) {
+    throw new ValidationError('A história já está neste idioma', [], 'SAME_LANGUAGE');
+  }
+  const characters = getCharactersByStory(storyId);
+
+  // Os textos são enviados em uma lista única e lidos de volta na mesma ordem
+  const texts: string[] = [];
+  STORY_FIELDS.forEach(field => texts.push(story[field]));
+  scenes.forEach(scene => {
+    SCENE_FIELDS.forEach(field => texts.push(scene[field]));
+    scene.dialogue.forEach(line => {
+      texts.push(line.text);
+      if (line.direction) texts.push(line.direction);
+    });
+    scene.choices.forEach(choice => texts.push(choice.label));
+  });
+  characters.forEach(character => CHARACTER_FIELDS.forEach(field => texts.push(character[field])));
+
+  const translated = await translateTexts(texts, getStoryLanguage(story), language);
+  let position = 0;
+  const next = () => translated[position++];
+
+  const translatedStoryId = uuidv4();
+  const sceneIds: { [oldId: string]: string } = {};
+  const characterIds: { [oldId: string]: string } = {};
+  scenes.forEach(scene => { sceneIds[scene.id] = uuidv4(); });
+  characters.forEach(character => { characterIds[character.id] = uuidv4(); });
+
+  const translatedStory: Story = {
+    ...story,
+    id: translatedStoryId,
+    scenes: [],
+    createdAt: new Date(),
+    // A tradução pertence a quem a pediu e não herda os compartilhamentos da original
+    ownerId,
+    sharedWith: [],
+    language,
+    // Traduções de traduções ficam ligadas à história original
+    translationOf: story.translationOf || story.id,
+    startSceneId: story.startSceneId ? sceneIds[story.startSceneId] : undefined
+  };
+  STORY_FIELDS.forEach(field => { translatedStory[field] = next(); });
+
+  const translatedScenes: Scene[] = scenes.map(scene => {
+    const copy: Scene = {
+      ...scene,
+      id: sceneIds[scene.id],
+      storyId: translatedStoryId,
+      characterIds: scene.characterIds.filter(id => characterIds[id]).map(id => characterIds[id])
+    };
+    SCENE_FIELDS.forEach(field => { copy[field] = next(); });
+    copy.dialogue = scene.dialogue.map(line => {
+      const text = next();
+      return line.direction ? { speaker: line.speaker, text, direction: next() } : { speaker: line.speaker, text };
+    });
+    copy.choices = scene.choices.map(choice => ({ label: next(), targetSceneId: sceneIds[choice.targetSceneId] }));
+    return copy;
+  });
+
+  const translatedCharacters: Character[] = characters.map(character => {
+    const copy: Character = { ...character, id: characterIds[character.id], storyId: translatedStoryId };
+    CHARACTER_FIELDS.forEach(field => { copy[field] = next(); });
+    return copy;
+  });
+
+  // O texto traduzido é verificado como o texto gerado, e o que for sinalizado fica retido
+  const verdicts = await screenStory(translatedStory.proposal, translatedScenes);
+
+  transaction(() => {
+    storyRepository.save(translatedStory);
+    translatedScenes.forEach(scene => sceneRepository.save(scene));
+    translatedCharacters.forEach(character => characterRepository.save(character));
+    quarantineStory(translatedStoryId, translatedScenes, verdicts);
+  });
+
+  return getStory(translatedStoryId);
+}
+
+/**
+ * Lista as versões de uma história em outros idiomas: a original e todas as suas traduções
+ * Apenas as versões que o usuário pode ver são incluídas
+ *
+ * @param {string} storyId - ID da história
+ * @param {string} userId - ID do usuário
+ * @returns {StoryTranslationSummary[]} Versões da história, sem incluir a própria história
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+export function getStoryTranslations(storyId: string, userId: string): StoryTranslationSummary[] {
+  const story = storyRepository.findById(storyId);
+  if (!story) throw new NotFoundError('story');
+
+  const originalId = story.translationOf || story.id;
+  return storyRepository
+    .find(item => item.id !== storyId && (item.id === originalId || item.translationOf === originalId))
+    .filter(item => hasStoryRole(item, userId, 'viewer'))
+    .map(item => ({
+      id: item.id,
+      title: item.title,
+      language: getStoryLanguage(item),
+      isOriginal: item.id === originalId
+    }));
+}
+
+/**
+ * Traduz uma lista de textos, sem enviar ao tradutor os textos vazios
+ *
+ * @param {string[]} texts - Textos a traduzir
+ * @param {string} from - Idioma de origem
+ * @param {string} to - Idioma de destino
+ * @returns {Promise<string[]>} Textos traduzidos, na mesma ordem
+ * @throws {ProviderFailureError} Se o tradutor falhar ou não devolver uma tradução para cada texto
+ */
+async function translateTexts(texts: string[], from: string, to: string): Promise<string[]> {
+  const pending = texts.filter(text => text && text.trim() !== '');
+  let translated: string[] = [];
+  try {
+    if (pending.length > 0) translated = await getTranslationProvider().translate(pending, from, to);
+  } catch (error: any) {
+    if (error instanceof AppError) throw error;
+    throw new ProviderFailureError(`Falha ao traduzir a história: ${error.message}`, 'TRANSLATION_FAILED');
+  }
+  if (translated.length !== pending.length) throw new ProviderFailureError('O tradutor não devolveu todos os textos', 'TRANSLATION_FAILED');
+
+  let position = 0;
+  return texts.map(text => text && text.trim() !== '' ? translated[position++] : text || '');
+}
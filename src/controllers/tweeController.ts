@@ -0,0 +1,306 @@
+/**
+ * Controlador para exportação e importação de histórias no formato Twee 3 (Twine)
+ * Cada cena vira uma passagem; as escolhas e a continuação entre cenas viram links
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Story } from '../models/Story';
+import { DialogueLine, Scene, SceneChoice } from '../models/Scene';
+import * as sceneController from './sceneController';
+import { deleteStory, getStory } from './storyController';
+import { assertNoHolds, quarantineStory, screenStory } from './moderationController';
+import { getSceneEdges } from '../utils/storyGraph';
+import { canViewAsset } from './accessController';
+import { storyRepository } from '../repositories';
+import { buildTwee, extractTweeLinks, formatTweeLink, parseTwee, TweeParseError, TweePassage } from '../utils/twee';
+import { formatDialogue, parseDialogue } from '../utils/dialogue';
+
+// Formato de história do Twine usado na exportação; todos os formatos aceitam HTML nas passagens
+const TWINE_STORY_FORMAT = 'Harlowe';
+const TWINE_STORY_FORMAT_VERSION = '3.3.8';
+
+// Tag das passagens que são finais da história
+const ENDING_TAG = 'final';
+
+// Texto do link gerado para cenas que seguem para a próxima cena sem escolhas
+const CONTINUE_LABEL = 'Continuar';
+
+// Tags de passagens que contêm código ou estilos, e não cenas
+const NON_SCENE_TAGS = ['script', 'stylesheet'];
+
+// Passagens por linha no mapa do Twine
+const MAP_COLUMNS = 5;
+
+/**
+ * Gera o arquivo Twee 3 de uma história
+ *
+ * @param {string} storyId - ID da história a ser exportada
+ * @returns {string} Conteúdo do arquivo .twee
+ * @throws {NotFoundError} Se a história não for encontrada
+ * @throws {ContentQuarantinedError} Se a história tiver conteúdo retido pela moderação
+ */
+export function generateTweeExport(storyId: string): string {
+  const story = getStory(storyId);
+  assertNoHolds(storyId);
+  const names = getPassageNames(story.scenes);
+  const nameById: { [sceneId: string]: string } = {};
+  story.scenes.forEach((scene, index) => { nameById[scene.id] = names[index]; });
+
+  const passages: TweePassage[] = story.scenes.map((scene, index) => {
+    const links = getSceneEdges(scene, story.scenes)
+      .filter(edge => nameById[edge.targetSceneId])
+      .map(edge => formatTweeLink(edge.label, nameById[edge.targetSceneId]));
+
+    return {
+      name: names[index],
+      tags: scene.isEnding ? [ENDING_TAG] : [],
+      metadata: {
+        position: `${100 + (index % MAP_COLUMNS) * 150},${100 + Math.floor(index / MAP_COLUMNS) * 150}`,
+        size: '100,100',
+        // O nome da passagem pode ter sido alterado para ser único ou válido nos links
+        ...(names[index] !== scene.title ? { title: scene.title } : {})
+      },
+      text: buildPassageText(scene, links)
+    };
+  });
+
+  const startScene = story.scenes.find(scene => scene.id === story.startSceneId) || story.scenes[0];
+
+  return buildTwee({
+    title: story.title,
+    data: {
+      ifid: story.id.toUpperCase(),
+      format: TWINE_STORY_FORMAT,
+      'format-version': TWINE_STORY_FORMAT_VERSION,
+      start: startScene ? nameById[startScene.id] : undefined,
+      zoom: 1
+    },
+    passages
+  });
+}
+
+/**
+ * Cria uma história a partir de um arquivo Twee 3
+ * As passagens viram cenas na ordem do arquivo; links para passagens inexistentes são descartados
+ *
+ * @param {string} source - Conteúdo do arquivo .twee
+ * @param {string} [ownerId] - ID do usuário dono da nova história (opcional)
+ * @returns {Promise<Story>} A história criada, com suas cenas
+ * @throws {TweeParseError} Se o arquivo for inválido ou não tiver passagens de cena
+ */
+export async function importTwee(source: string, ownerId?: string): Promise<Story> {
+  const document = parseTwee(source);
+  const passages = document.passages.filter(passage =>
+    !passage.tags.some(tag => NON_SCENE_TAGS.indexOf(tag.toLowerCase()) !== -1));
+
+  if (passages.length === 0) throw new TweeParseError('Arquivo Twee sem passagens de cena');
+
+  // O texto importado é verificado como o texto gerado, e as cenas sinalizadas ficam retidas
+  const parsedPassages = passages.map(parsePassageText);
+  const verdicts = await screenStory('', parsedPassages.map((parsed, i) => ({ ...parsed, title: getPassageTitle(passages[i]) })));
+
+  const story: Story = {
+    id: uuidv4(),
+    title: document.title || passages[0].name,
+    briefing: '',
+    proposal: '',
+    style: '',
+    scenes: [],
+    createdAt: new Date(),
+    ownerId,
+    visualSamples: [],
+    selectedVisualSample: undefined
+  };
+  storyRepository.save(story);
+
+  try {
+    const scenes: Scene[] = [];
+    const idByName: { [name: string]: string } = {};
+
+    for (let i = 0; i < passages.length; i++) {
+      const parsed = parsedPassages[i];
+      const scene = await sceneController.createScene(story.id, i, {
+        title: getPassageTitle(passages[i]),
+        description: parsed.description,
+        narration: parsed.narration,
+        dialogue: parsed.dialogue,
+        isEnding: passages[i].tags.indexOf(ENDING_TAG) !== -1 || parsed.links.length === 0,
+        ...resolveImage(parsed.imageUrl, ownerId)
+      });
+      scenes.push(scene);
+      idByName[passages[i].name] = scene.id;
+    }
+
+    scenes.forEach((scene, index) => {
+      const links = parsedPassages[index].links;
+      const next = scenes[index + 1];
+
+      // Um único link "Continuar" para a passagem seguinte é a continuação implícita entre cenas
+      const isContinuation = links.length === 1 && links[0].label === CONTINUE_LABEL
+        && next !== undefined && idByName[links[0].target] === next.id;
+      if (isContinuation || links.length === 0) return;
+
+      const choices: SceneChoice[] = links
+        .filter(link => idByName[link.target] !== undefined)
+        .map(link => ({ label: link.label, targetSceneId: idByName[link.target] }));
+
+      if (choices.length < links.length) {
+        console.warn(`Passagem "${scene.title}": ${links.length - choices.length} link(s) para passagens inexistentes foram descartados.`);
+      }
+      sceneController.setSceneChoices(scene.id, choices);
+    });
+
+    const startSceneId = document.data.start ? idByName[document.data.start] : undefined;
+    if (startSceneId) storyRepository.update(story.id, { startSceneId });
+    quarantineStory(story.id, scenes, verdicts);
+  } catch (error) {
+    deleteStory(story.id);
+    throw error;
+  }
+
+  return getStory(story.id);
+}
+
+/**
+ * Monta o conteúdo da passagem de uma cena
+ * Descrição e diálogo ficam em blocos marcados, para que a importação os separe da narração
+ *
+ * @param {Scene} scene - Cena da história
+ * @param {string[]} links - Links já formatados para as cenas seguintes
+ * @returns {string} Conteúdo da passagem
+ */
+function buildPassageText(scene: Scene, links: string[]): string {
+  const blocks: string[] = [];
+
+  if (scene.imageUrl) {
+    blocks.push(`<img src="${escapeAttribute(scene.imageUrl)}" alt="${escapeAttribute(scene.title)}">`);
+  }
+  if (scene.description) {
+    blocks.push(`<div class="description">\n${escapeHtml(scene.description)}\n</div>`);
+  }
+  if (scene.narration) {
+    blocks.push(escapeHtml(scene.narration));
+  }
+  if (scene.dialogue.length > 0) {
+    blocks.push(`<div class="dialogue">\n${escapeHtml(formatDialogue(scene.dialogue))}\n</div>`);
+  }
+  if (links.length > 0) {
+    blocks.push(links.join('\n'));
+  }
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Separa o conteúdo de uma passagem em imagem, descrição, narração, diálogo e links
+ * Passagens escritas diretamente no Twine, sem blocos marcados, têm todo o texto como narração
+ *
+ * @param {TweePassage} passage - Passagem do arquivo
+ * @returns {Object} Partes da cena e links da passagem
+ */
+function parsePassageText(passage: TweePassage) {
+  let text = passage.text;
+  let imageUrl = '';
+  let description = '';
+  let dialogue: DialogueLine[] = [];
+
+  text = text.replace(/<img\s[^>]*src="([^"]*)"[^>]*>/i, (_match, src: string) => {
+    imageUrl = unescapeHtml(src);
+    return '';
+  });
+  text = text.replace(/<div class="description">([\s\S]*?)<\/div>/i, (_match, content: string) => {
+    description = unescapeHtml(content.trim());
+    return '';
+  });
+  text = text.replace(/<div class="dialogue">([\s\S]*?)<\/div>/i, (_match, content: string) => {
+    dialogue = parseDialogue(unescapeHtml(content.trim()));
+    return '';
+  });
+
+  const links = extractTweeLinks(text);
+  const narration = unescapeHtml(text.replace(/\[\[.+?\]\]/g, '').replace(/\n{3,}/g, '\n\n').trim());
+
+  return { imageUrl, description, narration, dialogue, links };
+}
+
+/**
+ * Obtém o título da cena de uma passagem: o guardado nos metadados pela exportação ou o nome da passagem
+ *
+ * @param {TweePassage} passage - Passagem do arquivo
+ * @returns {string} Título da cena
+ */
+function getPassageTitle(passage: TweePassage): string {
+  const title = passage.metadata ? passage.metadata.title : undefined;
+  return typeof title === 'string' && title.trim() !== '' ? title : passage.name;
+}
+
+/**
+ * Associa a imagem de uma passagem a um asset local que o usuário já pode ver
+ * Outras imagens não são importadas: conhecer o hash de uma imagem de outra história não dá acesso
+ * a ela, e URLs externas seriam baixadas pelo servidor em outras exportações
+ *
+ * @param {string} imageUrl - URL da imagem encontrada na passagem
+ * @param {string} [ownerId] - ID do usuário dono da nova história (opcional)
+ * @returns {{ imageUrl: string, imageAssetId?: string }} Dados de imagem da cena
+ */
+function resolveImage(imageUrl: string, ownerId?: string): { imageUrl: string; imageAssetId?: string } {
+  const match = /^\/api\/assets\/([a-f0-9]{64})$/.exec(imageUrl);
+  if (!match || !ownerId || !canViewAsset(match[1], ownerId)) return { imageUrl: '' };
+
+  return { imageUrl, imageAssetId: match[1] };
+}
+
+/**
+ * Define nomes únicos de passagem a partir dos títulos das cenas
+ * Caracteres usados na sintaxe dos links são removidos
+ *
+ * @param {Scene[]} scenes - Cenas da história, em ordem
+ * @returns {string[]} Nome da passagem de cada cena
+ */
+function getPassageNames(scenes: Scene[]): string[] {
+  const used = new Set<string>();
+
+  return scenes.map((scene, index) => {
+    const base = (scene.title || `Cena ${index + 1}`)
+      .replace(/->|<-|\||\[|\]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim() || `Cena ${index + 1}`;
+
+    let name = base;
+    for (let copy = 2; used.has(name) || name === 'StoryTitle' || name === 'StoryData'; copy++) {
+      name = `${base} (${copy})`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Escapa os caracteres que o Twine interpretaria como HTML
+ *
+ * @param {string} text - Texto original
+ * @returns {string} Texto escapado
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escapa um valor para uso em um atributo HTML entre aspas
+ *
+ * @param {string} text - Valor original
+ * @returns {string} Valor escapado
+ */
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
+/**
+ * Reverte o escape de HTML aplicado na exportação
+ *
+ * @param {string} text - Texto escapado
+ * @returns {string} Texto original
+ */
+function unescapeHtml(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
@@ -0,0 +1,256 @@
+/**
+ * Controlador para o consumo da API e os orçamentos de gastos
+ * Cada chamada aos provedores é registrada com o custo calculado pelos preços de referência e
+ * atribuída à história e ao usuário do escopo em que foi feita; os orçamentos das histórias
+ * e o orçamento mensal de cada usuário impedem novas gerações quando são atingidos
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import dotenv from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiUsage } from '../api/usage';
+import { BudgetStatus, UsageRecord, UsageSummary } from '../models/Usage';
+import { storyRepository, usageRepository } from '../repositories';
+import { calculateUsageCost, roundCost } from '../utils/pricing';
+import { BudgetExceededError, NotFoundError } from '../utils/errors';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+/**
+ * História e usuário aos quais as chamadas feitas em um trecho de código são atribuídas
+ *
+ * @interface UsageScope
+ * @property {string} storyId - ID da história (opcional)
+ * @property {string} userId - ID do usuário (opcional)
+ */
+export interface UsageScope {
+  storyId?: string;
+  userId?: string;
+}
+
+/**
+ * Consumo de uma história ou de um usuário, com o orçamento correspondente
+ *
+ * @interface UsageReport
+ * @property {UsageSummary} total - Consumo total
+ * @property {Object} byTask - Consumo por tarefa de texto e de imagens ("image")
+ * @property {BudgetStatus} budget - Situação do orçamento
+ */
+export interface UsageReport {
+  total: UsageSummary;
+  byTask: { [task: string]: UsageSummary };
+  budget: BudgetStatus;
+}
+
+// Escopo das chamadas em andamento, propagado pelas operações assíncronas
+const usageScope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Lê um limite em dólares de uma variável de ambiente
+ *
+ * @param {string | undefined} value - Valor da variável
+ * @returns {number | null} O limite, ou null se não estiver definido ou for inválido
+ */
+function parseBudget(value: string | undefined): number | null {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+}
+
+/**
+ * Executa um trecho de código atribuindo as chamadas feitas nele a uma história e a um usuário
+ *
+ * @param {UsageScope} scope - História e usuário
+ * @param {Function} work - Código a ser executado
+ * @returns {T} O valor retornado pelo código
+ */
+export function runWithUsageScope<T>(scope: UsageScope, work: () => T): T {
+  return usageScope.run(scope, work);
+}
+
+/**
+ * Executa um trecho de código atribuindo as chamadas a uma história, mantendo o usuário do escopo atual
+ * Usado quando a história é criada durante a própria requisição
+ *
+ * @param {string} storyId - ID da história
+ * @param {Function} work - Código a ser executado
+ * @returns {T} O valor retornado pelo código
+ */
+export function runWithStoryScope<T>(storyId: string, work: () => T): T {
+  return usageScope.run({ ...getUsageScope(), storyId }, work);
+}
+
+/**
+ * Obtém o escopo das chamadas em andamento
+ *
+ * @returns {UsageScope} História e usuário atuais (vazio fora de um escopo)
+ */
+export function getUsageScope(): UsageScope {
+  return usageScope.getStore() || {};
+}
+
+/**
+ * Registra o consumo de uma chamada, atribuindo-o ao escopo atual
+ *
+ * @param {ApiUsage} usage - Consumo informado pelo provedor
+ * @returns {UsageRecord} O registro criado
+ */
+export function recordUsage(usage: ApiUsage): UsageRecord {
+  const scope = getUsageScope();
+
+  return usageRepository.save({
+    ...usage,
+    id: uuidv4(),
+    storyId: scope.storyId,
+    userId: scope.userId,
+    costUsd: calculateUsageCost(usage),
+    createdAt: new Date()
+  });
+}
+
+/**
+ * Agrega o consumo de um conjunto de registros
+ *
+ * @param {UsageRecord[]} records - Registros de consumo
+ * @returns {UsageSummary} Consumo total
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary = records.reduce((total, record) => ({
+    calls: total.calls + 1,
+    promptTokens: total.promptTokens + record.promptTokens,
+    completionTokens: total.completionTokens + record.completionTokens,
+    images: total.images + record.imageCount,
+    costUsd: total.costUsd + record.costUsd
+  }), { calls: 0, promptTokens: 0, completionTokens: 0, images: 0, costUsd: 0 });
+
+  return { ...summary, costUsd: roundCost(summary.costUsd) };
+}
+
+/**
+ * Monta o relatório de consumo de um conjunto de registros
+ *
+ * @param {UsageRecord[]} records - Registros de consumo
+ * @param {BudgetStatus} budget - Situação do orçamento
+ * @returns {UsageReport} Consumo total, por tarefa e orçamento
+ */
+function buildUsageReport(records: UsageRecord[], budget: BudgetStatus): UsageReport {
+  const byTask: { [task: string]: UsageSummary } = {};
+  const tasks = records.map(getRecordTask).filter((task, index, all) => all.indexOf(task) === index);
+
+  tasks.forEach(task => {
+    byTask[task] = summarizeUsage(records.filter(record => getRecordTask(record) === task));
+  });
+
+  return { total: summarizeUsage(records), byTask, budget };
+}
+
+/**
+ * Obtém o nome usado para agrupar um registro no relatório de consumo
+ *
+ * @param {UsageRecord} record - Registro de consumo
+ * @returns {string} A tarefa de texto, ou "image" para imagens
+ */
+function getRecordTask(record: UsageRecord): string {
+  return record.kind === 'image' ? 'image' : record.task || 'text';
+}
+
+/**
+ * Obtém o consumo de uma história
+ *
+ * @param {string} storyId - ID da história
+ * @returns {UsageReport} Consumo da história e situação do orçamento dela
+ */
+export function getStoryUsage(storyId: string): UsageReport {
+  return buildUsageReport(usageRepository.findByStory(storyId), getStoryBudget(storyId));
+}
+
+/**
+ * Obtém o consumo de um usuário no mês atual
+ *
+ * @param {string} userId - ID do usuário
+ * @returns {UsageReport} Consumo do mês e situação do orçamento mensal
+ */
+export function getUserUsage(userId: string): UsageReport {
+  return buildUsageReport(usageRepository.findByUser(userId, getMonthStart()), getUserBudget(userId));
+}
+
+/**
+ * Obtém a situação do orçamento de uma história
+ * Sem limite próprio, vale o limite padrão da variável STORY_BUDGET_USD
+ *
+ * @param {string} storyId - ID da história
+ * @returns {BudgetStatus} Limite, valor gasto e valor restante
+ */
+export function getStoryBudget(storyId: string): BudgetStatus {
+  const story = storyRepository.findById(storyId);
+  const limit = story && story.budgetUsd !== undefined ? story.budgetUsd : parseBudget(process.env.STORY_BUDGET_USD);
+  return buildBudgetStatus(limit, summarizeUsage(usageRepository.findByStory(storyId)).costUsd);
+}
+
+/**
+ * Obtém a situação do orçamento mensal de um usuário, definido pela variável USER_MONTHLY_BUDGET_USD
+ *
+ * @param {string} userId - ID do usuário
+ * @returns {BudgetStatus} Limite, valor gasto no mês e valor restante
+ */
+export function getUserBudget(userId: string): BudgetStatus {
+  const spent = summarizeUsage(usageRepository.findByUser(userId, getMonthStart())).costUsd;
+  return buildBudgetStatus(parseBudget(process.env.USER_MONTHLY_BUDGET_USD), spent);
+}
+
+/**
+ * Define o limite de gastos de uma história
+ *
+ * @param {string} storyId - ID da história
+ * @param {number | null} budgetUsd - Limite em dólares, ou null para voltar ao limite padrão
+ * @returns {BudgetStatus} Situação do orçamento atualizado
+ * @throws {NotFoundError} Se a história não for encontrada
+ */
+export function setStoryBudget(storyId: string, budgetUsd: number | null): BudgetStatus {
+  const updated = storyRepository.update(storyId, { budgetUsd: budgetUsd === null ? undefined : budgetUsd });
+  if (!updated) throw new NotFoundError('story');
+  return getStoryBudget(storyId);
+}
+
+/**
+ * Verifica se o escopo ainda tem orçamento para novas gerações
+ *
+ * @param {UsageScope} [scope] - História e usuário (opcional, padrão: escopo atual)
+ * @throws {BudgetExceededError} Se o orçamento da história ou o mensal do usuário tiver sido atingido
+ */
+export function assertWithinBudget(scope: UsageScope = getUsageScope()): void {
+  if (scope.storyId) {
+    const storyBudget = getStoryBudget(scope.storyId);
+    if (storyBudget.exceeded) throw new BudgetExceededError('story', storyBudget);
+  }
+  if (scope.userId) {
+    const userBudget = getUserBudget(scope.userId);
+    if (userBudget.exceeded) throw new BudgetExceededError('user', userBudget);
+  }
+}
+
+/**
+ * Monta a situação de um orçamento
+ *
+ * @param {number | null} limit - Limite em dólares, ou null se não houver limite
+ * @param {number} spent - Valor gasto
+ * @returns {BudgetStatus} Situação do orçamento
+ */
+function buildBudgetStatus(limit: number | null, spent: number): BudgetStatus {
+  return {
+    limitUsd: limit,
+    spentUsd: spent,
+    remainingUsd: limit === null ? null : roundCost(Math.max(limit - spent, 0)),
+    exceeded: limit !== null && spent >= limit
+  };
+}
+
+/**
+ * Obtém o início do mês atual, a partir do qual o orçamento dos usuários é contado
+ *
+ * @returns {Date} Primeiro dia do mês, à meia-noite (UTC)
+ */
+function getMonthStart(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
@@ -0,0 +1,222 @@
+/**
+ * Controlador para contas de usuário e sessões de login
+ * As sessões são identificadas por um token aleatório, enviado ao cliente em um cookie
+ * ou no cabeçalho Authorization; apenas o hash do token é armazenado
+ */
+
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
+import { PublicUser, User } from '../models/User';
+import { sessionRepository, storyRepository, transaction, userRepository } from '../repositories';
+import { hashPassword, verifyPassword } from '../utils/passwords';
+import { ConflictError, NotFoundError } from '../utils/errors';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+// Duração das sessões, em horas (padrão: 7 dias)
+const SESSION_TTL_MS = (parseInt(process.env.SESSION_TTL_HOURS || '', 10) || 168) * 60 * 60 * 1000;
+
+// Nomes de login: letras minúsculas, números, ponto, hífen e sublinhado
+export const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Administradores: nomes de login separados por vírgula em ADMIN_USERNAMES
+// As contas são criadas pelo servidor com a senha de ADMIN_PASSWORD, e os nomes não podem ser cadastrados pela API
+const ADMIN_USERNAMES = (process.env.ADMIN_USERNAMES || '')
+  .split(',')
+  .map(username => username.trim().toLowerCase())
+  .filter(username => username !== '');
+
+/**
+ * Sessão criada no login
+ *
+ * @interface UserLogin
+ * @property {PublicUser} user - Usuário autenticado
+ * @property {string} token - Token da sessão, entregue apenas uma vez ao cliente
+ * @property {Date} expiresAt - Data de expiração da sessão
+ */
+export interface UserLogin {
+  user: PublicUser;
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Cadastra um novo usuário
+ * Os nomes dos administradores são recusados como se já estivessem em uso, para que ninguém
+ * se torne administrador apenas por cadastrar um desses nomes antes do operador
+ *
+ * @param {string} username - Nome de login
+ * @param {string} password - Senha em texto puro
+ * @returns {Promise<PublicUser>} O usuário criado
+ * @throws {ConflictError} Se o nome de login já estiver em uso ou for de um administrador
+ */
+export async function registerUser(username: string, password: string): Promise<PublicUser> {
+  if (ADMIN_USERNAMES.indexOf(username.trim().toLowerCase()) !== -1) {
+    throw new ConflictError('Nome de usuário já está em uso', 'USERNAME_TAKEN');
+  }
+  return createUser(username, password);
+}
+
+/**
+ * Cria as contas dos administradores de ADMIN_USERNAMES que ainda não existem, com a senha de ADMIN_PASSWORD
+ * Sem uma senha válida as contas não são criadas; as contas existentes não são alteradas
+ *
+ * @returns {Promise<number>} Quantidade de contas criadas
+ */
+export async function ensureAdminUsers(): Promise<number> {
+  const missing = ADMIN_USERNAMES.filter(username => USERNAME_PATTERN.test(username) && !findUserByUsername(username));
+  if (missing.length === 0) return 0;
+
+  const password = process.env.ADMIN_PASSWORD || '';
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.warn(`Defina ADMIN_PASSWORD (pelo menos ${MIN_PASSWORD_LENGTH} caracteres) para criar as contas de administrador: ${missing.join(', ')}`);
+    return 0;
+  }
+
+  for (const username of missing) await createUser(username, password);
+  return missing.length;
+}
+
+/**
+ * Cria uma conta de usuário
+ * O primeiro usuário criado passa a ser dono das histórias criadas antes das contas
+ *
+ * @param {string} username - Nome de login
+ * @param {string} password - Senha em texto puro
+ * @returns {Promise<PublicUser>} O usuário criado
+ * @throws {ConflictError} Se o nome de login já estiver em uso
+ */
+async function createUser(username: string, password: string): Promise<PublicUser> {
+  const passwordHash = await hashPassword(password);
+
+  // A verificação é feita depois do hash, que é assíncrono, para não perder cadastros simultâneos
+  return transaction(() => {
+    if (findUserByUsername(username)) throw new ConflictError('Nome de usuário já está em uso', 'USERNAME_TAKEN');
+
+    const isFirstUser = userRepository.findAll().length === 0;
+    const user = userRepository.save({
+      id: uuidv4(),
+      username: username.trim().toLowerCase(),
+      passwordHash,
+      createdAt: new Date()
+    });
+
+    if (isFirstUser) {
+      storyRepository
+        .find(story => !story.ownerId)
+        .forEach(story => storyRepository.update(story.id, { ownerId: user.id }));
+    }
+
+    return toPublicUser(user);
+  });
+}
+
+/**
+ * Autentica um usuário e cria uma sessão
+ *
+ * @param {string} username - Nome de login
+ * @param {string} password - Senha em texto puro
+ * @returns {Promise<UserLogin | null>} A sessão criada ou null se os dados estiverem incorretos
+ */
+export async function login(username: string, password: string): Promise<UserLogin | null> {
+  const user = findUserByUsername(username);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+
+  transaction(() => {
+    sessionRepository.deleteExpired(now);
+    sessionRepository.save({ id: hashToken(token), userId: user.id, createdAt: now, expiresAt });
+  });
+
+  return { user: toPublicUser(user), token, expiresAt };
+}
+
+/**
+ * Obtém o usuário de uma sessão válida
+ *
+ * @param {string} token - Token da sessão
+ * @returns {PublicUser | undefined} O usuário autenticado, ou undefined se a sessão não existir ou tiver expirado
+ */
+export function getSessionUser(token: string): PublicUser | undefined {
+  const session = sessionRepository.findById(hashToken(token));
+  if (!session) return undefined;
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    sessionRepository.delete(session.id);
+    return undefined;
+  }
+
+  const user = userRepository.findById(session.userId);
+  return user ? toPublicUser(user) : undefined;
+}
+
+/**
+ * Encerra uma sessão
+ *
+ * @param {string} token - Token da sessão
+ * @returns {boolean} true se a sessão existia
+ */
+export function logout(token: string): boolean {
+  return sessionRepository.delete(hashToken(token));
+}
+
+/**
+ * Obtém um usuário pelo ID
+ *
+ * @param {string} userId - ID do usuário
+ * @returns {PublicUser} O usuário encontrado
+ * @throws {NotFoundError} Se o usuário não for encontrado
+ */
+export function getUser(userId: string): PublicUser {
+  const user = userRepository.findById(userId);
+  if (!user) throw new NotFoundError('user');
+  return toPublicUser(user);
+}
+
+/**
+ * Indica se um usuário é administrador
+ * Administradores revisam os conteúdos sinalizados pela moderação
+ *
+ * @param {PublicUser} user - Usuário
+ * @returns {boolean} true se o nome de login estiver em ADMIN_USERNAMES
+ */
+export function isAdmin(user: PublicUser): boolean {
+  return ADMIN_USERNAMES.indexOf(user.username) !== -1;
+}
+
+/**
+ * Obtém um usuário pelo nome de login
+ *
+ * @param {string} username - Nome de login, sem diferença de maiúsculas
+ * @returns {User | undefined} O usuário encontrado
+ */
+export function findUserByUsername(username: string): User | undefined {
+  return userRepository.findByUsername(username);
+}
+
+/**
+ * Remove o hash da senha dos dados do usuário
+ *
+ * @param {User} user - Usuário armazenado
+ * @returns {PublicUser} Dados que podem ser enviados aos clientes
+ */
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Calcula o ID de armazenamento de um token de sessão
+ *
+ * @param {string} token - Token da sessão
+ * @returns {string} Hash SHA-256 do token, em hexadecimal
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
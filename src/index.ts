@@ -8,10 +8,36 @@ import dotenv from 'dotenv';
 import cors from 'cors';
 import path from 'path';
 import routes from './routes';
+import { jobQueue } from './jobs/jobQueue';
+import { collectAssetGarbage } from './controllers/assetController';
+import { ensureBuiltInStylePresets } from './controllers/stylePresetController';
+import { ensureAdminUsers } from './controllers/userController';
+import { recordUsage } from './controllers/usageController';
+import { resolvePromptTemplate } from './controllers/promptTemplateController';
+import { setUsageListener } from './api/usage';
+import { setPromptTemplateResolver } from './api/promptTemplates';
+import { errorHandler } from './middleware/errors';
+import { dataStore } from './repositories';
 
 // Carrega variáveis de ambiente do arquivo .env
 dotenv.config();
 
+// Cria os presets de estilo da aplicação que ainda não estão no armazenamento
+ensureBuiltInStylePresets();
+
+// Cria as contas de administrador configuradas que ainda não existem
+ensureAdminUsers()
+  .then(created => {
+    if (created > 0) console.log(`${created} conta(s) de administrador criada(s).`);
+  })
+  .catch(error => console.error('Erro ao criar as contas de administrador:', error));
+
+// Registra o consumo e o custo de cada chamada aos provedores de texto e imagem
+setUsageListener(recordUsage);
+
+// Monta os prompts com os templates editados, globais ou da história da requisição
+setPromptTemplateResolver(resolvePromptTemplate);
+
 // Inicializa a aplicação Express
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -19,6 +45,9 @@ const PORT = process.env.PORT || 3000;
 // Middleware para permitir requisições cross-origin
 app.use(cors()); 
 
+// Pacotes importados incluem as imagens em base64 e precisam de um limite maior
+app.use('/api/stories/import', express.json({ limit: process.env.IMPORT_SIZE_LIMIT || '50mb' }));
+
 // Middleware para parsear JSON nas requisições
 app.use(express.json()); 
 
@@ -36,10 +65,31 @@ app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
+// Responde os erros das rotas e do leitor de JSON no formato { error, code, ...detalhes }
+app.use(errorHandler);
+
 /**
  * Inicia o servidor na porta configurada
  * Exibe uma mensagem no console quando o servidor estiver rodando
  */
 app.listen(PORT, () => {
   console.log(`Server is running on port http://localhost:${PORT}`);
+  
+  // Retoma os jobs pendentes de execuções anteriores e começa a processar a fila
+  jobQueue.start();
+  
+  // Remove imagens que deixaram de ser usadas por alguma cena
+  collectAssetGarbage()
+    .then(result => {
+      if (result.removedFiles > 0) console.log(`${result.removedFiles} asset(s) sem uso removido(s).`);
+    })
+    .catch(error => console.error('Erro ao remover assets sem uso:', error));
+});
+
+// Grava as alterações pendentes do armazenamento antes de encerrar por sinal
+(['SIGINT', 'SIGTERM'] as NodeJS.Signals[]).forEach(signal => {
+  process.once(signal, () => {
+    dataStore.flush();
+    process.kill(process.pid, signal);
+  });
 });
\ No newline at end of file
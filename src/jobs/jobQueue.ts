@@ -0,0 +1,250 @@
+/**
+ * Fila de jobs em segundo plano
+ * Os jobs são gravados no repositório antes de executar, então sobrevivem à queda da conexão
+ * e, com armazenamento persistente, são retomados quando o servidor reinicia
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { Job, JobStatus, JobType } from '../models/Job';
+import { jobRepository } from '../repositories';
+
+/**
+ * Função que executa um tipo de job
+ * Deve verificar o sinal antes de gravar resultados, pois o job pode ser cancelado durante a execução
+ *
+ * @param {Job} job - Job a ser executado
+ * @param {AbortSignal} signal - Sinal acionado quando o job é cancelado
+ * @returns {Promise<Job['result']>} Resultado gravado no job
+ */
+export type JobHandler = (job: Job, signal: AbortSignal) => Promise<Job['result']>;
+
+/**
+ * Estados em que o job não será mais executado
+ */
+const FINAL_STATUSES: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+/**
+ * Indica se um job já terminou, com qualquer resultado
+ *
+ * @param {Job} job - Job a ser verificado
+ * @returns {boolean} true se o job estiver concluído, com falha ou cancelado
+ */
+export function isJobFinished(job: Job): boolean {
+  return FINAL_STATUSES.indexOf(job.status) !== -1;
+}
+
+/**
+ * Fila que executa os jobs um de cada vez, na ordem de criação
+ * Emite o evento 'update' com o job sempre que seu estado muda
+ */
+export class JobQueue extends EventEmitter {
+  private handlers: { [type: string]: JobHandler } = {};
+  private controllers = new Map<string, AbortController>();
+  private processing = false;
+  private started = false;
+
+  /**
+   * Registra a função que executa um tipo de job
+   *
+   * @param {JobType} type - Tipo de job
+   * @param {JobHandler} handler - Função de execução
+   */
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers[type] = handler;
+  }
+
+  /**
+   * Retoma os jobs pendentes e passa a processar a fila
+   * Jobs que estavam em execução quando o servidor parou voltam para a fila
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const interrupted = jobRepository.findByStatus('running');
+    interrupted.forEach(job => this.setStatus(job.id, { status: 'queued' }));
+
+    const pending = jobRepository.findByStatus('queued').length;
+    if (pending > 0) {
+      console.log(`Retomando ${pending} job(s) pendente(s), ${interrupted.length} interrompido(s).`);
+    }
+
+    this.scheduleDrain();
+  }
+
+  /**
+   * Adiciona um job à fila
+   *
+   * @param {JobType} type - Tipo de job
+   * @param {string} storyId - ID da história relacionada
+   * @param {string} sceneId - ID da cena relacionada
+   * @param {Job['payload']} payload - Parâmetros do processamento
+   * @returns {Job} O job criado
+   */
+  enqueue(type: JobType, storyId: string, sceneId: string, payload: Job['payload']): Job {
+    const job: Job = {
+      id: uuidv4(),
+      type,
+      storyId,
+      sceneId,
+      status: 'queued',
+      payload,
+      attempts: 0,
+      createdAt: new Date()
+    };
+
+    jobRepository.save(job);
+    this.notify(job);
+    this.scheduleDrain();
+
+    return job;
+  }
+
+  /**
+   * Cancela um job que ainda não terminou
+   * Jobs em execução recebem o sinal de cancelamento e têm o resultado descartado
+   *
+   * @param {string} jobId - ID do job
+   * @returns {Job | undefined} O job atualizado ou undefined se não existir
+   */
+  cancel(jobId: string): Job | undefined {
+    const job = jobRepository.findById(jobId);
+    if (!job || isJobFinished(job)) return job;
+
+    const cancelled = this.setStatus(jobId, { status: 'cancelled', finishedAt: new Date() });
+
+    const controller = this.controllers.get(jobId);
+    if (controller) controller.abort();
+
+    return cancelled;
+  }
+
+  /**
+   * Aguarda o término de um conjunto de jobs
+   *
+   * @param {string[]} jobIds - IDs dos jobs
+   * @param {Function} [onFinished] - Chamada com cada job assim que ele termina
+   * @returns {Promise<Job[]>} Os jobs terminados, na ordem dos IDs
+   */
+  waitFor(jobIds: string[], onFinished?: (job: Job) => void): Promise<Job[]> {
+    return new Promise(resolve => {
+      const finished = new Map<string, Job>();
+
+      const check = (job: Job | undefined) => {
+        if (!job || jobIds.indexOf(job.id) === -1 || finished.has(job.id) || !isJobFinished(job)) return;
+
+        finished.set(job.id, job);
+        if (onFinished) onFinished(job);
+
+        if (finished.size === jobIds.length) {
+          this.removeListener('update', check);
+          resolve(jobIds.map(id => finished.get(id)!));
+        }
+      };
+
+      this.on('update', check);
+      jobIds.forEach(id => check(jobRepository.findById(id)));
+
+      // Jobs removidos do repositório nunca terminariam
+      const missing = jobIds.filter(id => !finished.has(id) && !jobRepository.findById(id));
+      if (missing.length > 0) {
+        this.removeListener('update', check);
+        resolve(jobIds.map(id => finished.get(id) || jobRepository.findById(id)).filter((job): job is Job => !!job));
+      }
+    });
+  }
+
+  /**
+   * Inicia o processamento da fila sem aguardar o término
+   * Uma falha inesperada no laço é registrada; os jobs restantes continuam na fila para o próximo processamento
+   */
+  private scheduleDrain(): void {
+    void this.drain().catch(error => {
+      console.error('Erro ao processar a fila de jobs:', error);
+    });
+  }
+
+  /**
+   * Processa os jobs pendentes até esvaziar a fila
+   * Apenas um laço de processamento roda por vez
+   */
+  private async drain(): Promise<void> {
+    if (this.processing || !this.started) return;
+    this.processing = true;
+
+    try {
+      let next = jobRepository.findByStatus('queued')[0];
+      while (next) {
+        await this.run(next);
+        next = jobRepository.findByStatus('queued')[0];
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Executa um job e grava o resultado ou o erro
+   *
+   * @param {Job} job - Job a ser executado
+   */
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers[job.type];
+    if (!handler) {
+      this.setStatus(job.id, { status: 'failed', error: `Tipo de job não suportado: ${job.type}`, finishedAt: new Date() });
+      return;
+    }
+
+    const running = this.setStatus(job.id, { status: 'running', attempts: job.attempts + 1, startedAt: new Date() });
+    if (!running) return;
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    try {
+      const result = await handler(running, controller.signal);
+      if (!controller.signal.aborted) {
+        this.setStatus(job.id, { status: 'done', result, finishedAt: new Date() });
+      }
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        console.error(`Erro ao executar job ${job.id}:`, error);
+        this.setStatus(job.id, { status: 'failed', error: error.message || 'Erro desconhecido', finishedAt: new Date() });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  /**
+   * Atualiza o estado de um job e notifica os ouvintes
+   *
+   * @param {string} jobId - ID do job
+   * @param {Partial<Job>} changes - Campos a serem alterados
+   * @returns {Job | undefined} O job atualizado ou undefined se não existir
+   */
+  private setStatus(jobId: string, changes: Partial<Job>): Job | undefined {
+    const updated = jobRepository.update(jobId, changes);
+    if (updated) this.notify(updated);
+    return updated;
+  }
+
+  /**
+   * Notifica os ouvintes da mudança de estado de um job
+   * Um erro em um ouvinte é registrado e não impede os demais ouvintes, a fila nem o job
+   *
+   * @param {Job} job - Job atualizado
+   */
+  private notify(job: Job): void {
+    this.listeners('update').forEach(listener => {
+      try {
+        listener.call(this, job);
+      } catch (error) {
+        console.error(`Erro ao notificar a atualização do job ${job.id}:`, error);
+      }
+    });
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,154 @@
+/**
+ * Middlewares de autenticação e autorização das rotas da API
+ * O token da sessão é lido do cookie "session" (navegador) ou do cabeçalho "Authorization: Bearer" (outros clientes)
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { PublicUser } from '../models/User';
+import { StoryRole } from '../models/Story';
+import * as userController from '../controllers/userController';
+import * as accessController from '../controllers/accessController';
+import { StoryResource } from '../controllers/accessController';
+import { AuthenticationError, ForbiddenError, NotFoundError } from '../utils/errors';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Usuário da sessão, preenchido por loadUser
+      user?: PublicUser;
+    }
+  }
+}
+
+// Nome do cookie com o token da sessão
+export const SESSION_COOKIE = 'session';
+
+/**
+ * Obtém o token de sessão enviado na requisição
+ *
+ * @param {Request} req - Requisição
+ * @returns {string | undefined} O token, se houver
+ */
+export function getSessionToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+
+  const cookies = (req.headers.cookie || '').split(';');
+  for (const cookie of cookies) {
+    const separator = cookie.indexOf('=');
+    if (separator !== -1 && cookie.slice(0, separator).trim() === SESSION_COOKIE) {
+      return decodeURIComponent(cookie.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Grava o token da sessão em um cookie acessível apenas pelo servidor
+ *
+ * @param {Response} res - Resposta
+ * @param {string} token - Token da sessão
+ * @param {Date} expiresAt - Data de expiração da sessão
+ */
+export function setSessionCookie(res: Response, token: string, expiresAt: Date): void {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    expires: expiresAt,
+    path: '/'
+  });
+}
+
+/**
+ * Remove o cookie da sessão
+ *
+ * @param {Response} res - Resposta
+ */
+export function clearSessionCookie(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Obtém o usuário autenticado de uma requisição que passou por requireAuth
+ *
+ * @param {Request} req - Requisição
+ * @returns {PublicUser} Usuário da sessão
+ * @throws {AuthenticationError} Se a requisição não tiver uma sessão válida
+ */
+export function getCurrentUser(req: Request): PublicUser {
+  if (!req.user) throw new AuthenticationError();
+  return req.user;
+}
+
+/**
+ * Identifica o usuário da sessão, sem rejeitar requisições anônimas
+ */
+export function loadUser(req: Request, res: Response, next: NextFunction): void {
+  const token = getSessionToken(req);
+  req.user = token ? userController.getSessionUser(token) : undefined;
+  next();
+}
+
+/**
+ * Rejeita requisições sem uma sessão válida
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  next(req.user ? undefined : new AuthenticationError());
+}
+
+/**
+ * Rejeita requisições de usuários que não são administradores
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const user = getCurrentUser(req);
+  next(userController.isAdmin(user) ? undefined : new ForbiddenError('Apenas administradores podem fazer isso', 'ADMIN_ONLY'));
+}
+
+/**
+ * Cria um middleware que exige um papel mínimo na história do registro indicado na rota
+ * Se o registro não existir, a requisição é rejeitada com o erro de registro não encontrado (404)
+ *
+ * @param {StoryRole} role - Papel mínimo exigido
+ * @param {StoryResource} [resource='story'] - Tipo do registro identificado pelo parâmetro
+ * @param {string} [param='id'] - Nome do parâmetro da rota com o ID do registro
+ * @returns {Function} Middleware de autorização
+ */
+export function requireStoryAccess(role: StoryRole, resource: StoryResource = 'story', param: string = 'id') {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = getCurrentUser(req);
+    const storyId = accessController.getResourceStoryId(resource, req.params[param]);
+    if (!storyId) {
+      next(new NotFoundError(resource));
+      return;
+    }
+
+    next(accessController.canAccessStory(storyId, user.id, role) ? undefined : getAccessDeniedError(storyId, user.id, role));
+  };
+}
+
+/**
+ * Exige que o usuário possa ver a imagem indicada no parâmetro "id" da rota
+ */
+export function requireAssetAccess(req: Request, res: Response, next: NextFunction): void {
+  const user = getCurrentUser(req);
+
+  // Imagens sem acesso são tratadas como inexistentes, para não revelar o conteúdo de outras histórias
+  next(accessController.canViewAsset(req.params.id, user.id) ? undefined : new NotFoundError('asset'));
+}
+
+/**
+ * Monta o erro de acesso negado conforme o papel do usuário na história
+ *
+ * @param {string} storyId - ID da história
+ * @param {string} userId - ID do usuário
+ * @param {StoryRole} required - Papel exigido
+ * @returns {ForbiddenError} Erro de acesso negado
+ */
+function getAccessDeniedError(storyId: string, userId: string, required: StoryRole): ForbiddenError {
+  if (!accessController.canAccessStory(storyId, userId, 'viewer')) {
+    return new ForbiddenError('Você não tem acesso a esta história', 'STORY_ACCESS_DENIED');
+  }
+  if (required === 'owner') return new ForbiddenError('Apenas o dono da história pode fazer isso', 'OWNER_ONLY');
+  return new ForbiddenError('Você tem apenas permissão de leitura nesta história', 'READ_ONLY_ACCESS');
+}
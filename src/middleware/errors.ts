@@ -0,0 +1,61 @@
+/**
+ * Tratamento central dos erros da API
+ * As rotas e os controladores lançam os erros de utils/errors, e o middleware de erros os responde
+ * com o status e o código de cada um; erros inesperados são registrados no log e respondidos
+ * com uma mensagem genérica (status 500), sem expor detalhes internos
+ */
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { AppError, ProviderUnavailableError, ValidationError } from '../utils/errors';
+
+/**
+ * Adapta uma rota assíncrona para que os erros lançados cheguem ao middleware de erros
+ * O Express 4 não trata as promessas rejeitadas pelas rotas
+ *
+ * @param {Function} handler - Rota assíncrona
+ * @returns {RequestHandler} Rota que encaminha os erros para next
+ */
+export function asyncHandler(handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+/**
+ * Converte um erro qualquer em um erro da aplicação
+ * Também usado pelas rotas em streaming, que informam o erro em um evento
+ *
+ * @param {any} error - Erro lançado
+ * @returns {AppError} O próprio erro, o erro correspondente do leitor de corpo ou um erro interno
+ */
+export function toAppError(error: any): AppError {
+  if (error instanceof AppError) return error;
+
+  // Erros do leitor de corpo das requisições do Express
+  if (error && error.type === 'entity.parse.failed') {
+    return new ValidationError('O corpo da requisição não é um JSON válido', [], 'INVALID_JSON');
+  }
+  if (error && error.type === 'entity.too.large') {
+    return new AppError('O corpo da requisição excede o tamanho máximo permitido', 413, 'PAYLOAD_TOO_LARGE');
+  }
+
+  return new AppError('Erro interno do servidor', 500, 'INTERNAL_ERROR');
+}
+
+/**
+ * Responde os erros das rotas no formato { error, code, ...detalhes }
+ * Deve ser registrado depois de todas as rotas
+ */
+export function errorHandler(error: any, req: Request, res: Response, next: NextFunction): void {
+  // Respostas já iniciadas (downloads, streaming) não podem mais mudar de status
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const appError = toAppError(error);
+  if (appError.status >= 500) console.error(`Erro em ${req.method} ${req.originalUrl}:`, error);
+  if (appError instanceof ProviderUnavailableError) res.set('Retry-After', String(appError.details.retryAfterSeconds));
+
+  res.status(appError.status).json(appError.toResponse());
+}
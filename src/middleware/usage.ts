@@ -0,0 +1,34 @@
+/**
+ * Middlewares de registro de consumo e de orçamento das rotas de geração
+ * As chamadas à API feitas durante a requisição são atribuídas ao usuário da sessão e à história da rota
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import * as accessController from '../controllers/accessController';
+import * as usageController from '../controllers/usageController';
+import { StoryResource } from '../controllers/accessController';
+import { getCurrentUser } from './auth';
+
+/**
+ * Cria um middleware que atribui o consumo da requisição ao usuário e à história do registro indicado na rota
+ *
+ * @param {StoryResource} [resource] - Tipo do registro identificado pelo parâmetro (opcional; sem ele, o consumo é atribuído apenas ao usuário)
+ * @param {string} [param='id'] - Nome do parâmetro da rota com o ID do registro
+ * @returns {Function} Middleware de registro de consumo
+ */
+export function trackUsage(resource?: StoryResource, param: string = 'id') {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const storyId = resource ? accessController.getResourceStoryId(resource, req.params[param]) : undefined;
+    usageController.runWithUsageScope({ storyId, userId: getCurrentUser(req).id }, next);
+  };
+}
+
+/**
+ * Rejeita a requisição quando o orçamento da história ou o mensal do usuário foi atingido
+ * Deve ser usado depois de trackUsage, que define a história e o usuário; o erro de orçamento
+ * é respondido pelo middleware de erros (status 402)
+ */
+export function requireBudget(req: Request, res: Response, next: NextFunction): void {
+  usageController.assertWithinBudget();
+  next();
+}
@@ -0,0 +1,64 @@
+/**
+ * Middleware de validação das requisições
+ * Os parâmetros, a query e o corpo são validados com os esquemas de routes/schemas e substituídos
+ * pelos valores convertidos (números, valores padrão...); os problemas encontrados são respondidos
+ * pelo middleware de erros como erro de validação (status 400)
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Esquemas de cada parte da requisição
+ *
+ * @interface RequestSchemas
+ * @property {z.ZodTypeAny} params - Esquema dos parâmetros da rota (opcional)
+ * @property {z.ZodTypeAny} query - Esquema da query (opcional)
+ * @property {z.ZodTypeAny} body - Esquema do corpo (opcional)
+ */
+export interface RequestSchemas {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+}
+
+/**
+ * Cria um middleware que valida a requisição com os esquemas informados
+ * A mensagem do erro é a do primeiro problema; todos são listados em "issues", no formato "parte.campo: problema"
+ *
+ * @param {RequestSchemas} schemas - Esquemas dos parâmetros, da query e do corpo
+ * @returns {Function} Middleware de validação
+ */
+export function validate(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const issues: z.ZodIssue[] = [];
+
+    /**
+     * Valida uma parte da requisição
+     *
+     * @param {string} part - Nome da parte, usado no caminho dos problemas
+     * @param {z.ZodTypeAny | undefined} schema - Esquema da parte
+     * @param {unknown} value - Valor recebido
+     * @returns {any} Valor convertido, ou o valor recebido se for inválido
+     */
+    const parse = (part: string, schema: z.ZodTypeAny | undefined, value: unknown): any => {
+      if (!schema) return value;
+      const parsed = schema.safeParse(value);
+      if (parsed.success) return parsed.data;
+
+      parsed.error.issues.forEach(issue => issues.push({ ...issue, path: [part, ...issue.path] }));
+      return value;
+    };
+
+    req.params = parse('params', schemas.params, req.params);
+    req.query = parse('query', schemas.query, req.query);
+    req.body = parse('body', schemas.body, req.body);
+
+    if (issues.length > 0) {
+      next(new ValidationError(issues[0].message, issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)));
+      return;
+    }
+    next();
+  };
+}
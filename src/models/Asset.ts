@@ -0,0 +1,24 @@
+/**
+ * Interface de um arquivo de mídia armazenado localmente (ex: imagem de uma cena)
+ * O ID é o hash SHA-256 do conteúdo, então o mesmo arquivo nunca é gravado duas vezes
+ * 
+ * @interface Asset
+ * @property {string} id - Hash SHA-256 do conteúdo, em hexadecimal
+ * @property {string} mimeType - Tipo do conteúdo (ex: "image/png")
+ * @property {number} byteSize - Tamanho do arquivo em bytes
+ * @property {string} dimensions - Dimensões solicitadas ao gerar a imagem (ex: "1024x1024") (opcional)
+ * @property {string} prompt - Prompt usado para gerar a imagem
+ * @property {string} provider - Provedor que gerou a imagem (ex: "dalle", "local")
+ * @property {string} sourceUrl - URL de onde a imagem foi baixada, quando remota (opcional)
+ * @property {Date} createdAt - Data de criação
+ */
+export interface Asset {
+  id: string;
+  mimeType: string;
+  byteSize: number;
+  dimensions?: string;
+  prompt: string;
+  provider: string;
+  sourceUrl?: string;
+  createdAt: Date;
+}
@@ -0,0 +1,25 @@
+/**
+ * Interface de um personagem da história
+ * As descrições são incluídas nos prompts de cenas e imagens para manter
+ * a aparência e a forma de falar do personagem iguais em todas as cenas
+ * 
+ * @interface Character
+ * @property {string} id - Identificador único do personagem
+ * @property {string} storyId - ID da história à qual o personagem pertence
+ * @property {string} name - Nome do personagem
+ * @property {string} role - Papel na história (ex: protagonista, mentor, antagonista)
+ * @property {string} physicalDescription - Aparência física (idade, corpo, rosto, cabelo)
+ * @property {string} clothing - Roupas e acessórios característicos
+ * @property {string} personality - Traços de personalidade
+ * @property {string} speechStyle - Forma de falar (vocabulário, tom, expressões)
+ */
+export interface Character {
+  id: string;
+  storyId: string;
+  name: string;
+  role: string;
+  physicalDescription: string;
+  clothing: string;
+  personality: string;
+  speechStyle: string;
+}
@@ -0,0 +1,67 @@
+/**
+ * Estado de um job em segundo plano
+ * queued: aguardando execução | running: em execução | done: concluído
+ * failed: terminou com erro | cancelled: cancelado antes de concluir
+ */
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Tipos de job suportados
+ */
+export type JobType = 'scene-image';
+
+/**
+ * Interface de um job de processamento em segundo plano
+ * 
+ * @interface Job
+ * @property {string} id - Identificador único do job
+ * @property {JobType} type - Tipo de processamento
+ * @property {string} storyId - ID da história relacionada
+ * @property {string} sceneId - ID da cena relacionada
+ * @property {JobStatus} status - Estado atual do job
+ * @property {Object} payload - Parâmetros do processamento
+ * @property {Object} result - Resultado do processamento, quando concluído (opcional)
+ * @property {string} error - Mensagem de erro, quando falhou (opcional)
+ * @property {number} attempts - Número de execuções iniciadas
+ * @property {Date} createdAt - Data de criação
+ * @property {Date} startedAt - Data de início da última execução (opcional)
+ * @property {Date} finishedAt - Data de término (opcional)
+ */
+export interface Job {
+  id: string;
+  type: JobType;
+  storyId: string;
+  sceneId: string;
+  status: JobStatus;
+  payload: {
+    style: string;
+    customPrompt?: string;
+    author?: string;
+    userId?: string;
+  };
+  result?: {
+    imageUrl: string;
+  };
+  error?: string;
+  attempts: number;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Contagem de jobs por estado
+ * 
+ * @interface JobProgress
+ * @property {number} total - Total de jobs
+ * @property {number} completed - Jobs que já terminaram, com qualquer resultado
+ */
+export interface JobProgress {
+  total: number;
+  queued: number;
+  running: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  completed: number;
+}
@@ -0,0 +1,82 @@
+/**
+ * Conteúdos verificados pela moderação
+ * briefing: briefing da história | proposal: proposta gerada | scene: cena gerada ou reescrita |
+ * image-prompt: prompt personalizado de imagem | prompt-template: template de prompt de uma história
+ */
+export type ModerationTarget = 'briefing' | 'proposal' | 'scene' | 'image-prompt' | 'prompt-template';
+
+/**
+ * Tratamento dado a um conteúdo sinalizado
+ * blocked: o conteúdo é recusado e não é gravado | quarantined: o conteúdo é gravado, mas fica
+ * retido (sem exportação, tradução ou imagens) até ser liberado
+ */
+export type ModerationAction = 'blocked' | 'quarantined';
+
+/**
+ * Situação de um conteúdo sinalizado
+ * pending: aguardando revisão | approved: liberado por um administrador |
+ * rejected: recusado por um administrador | resolved: o conteúdo retido foi editado e passou na verificação
+ */
+export type ModerationFlagStatus = 'pending' | 'approved' | 'rejected' | 'resolved';
+
+/**
+ * Resultado da verificação de um texto
+ * 
+ * @interface ModerationVerdict
+ * @property {boolean} flagged - Indica que o texto foi sinalizado
+ * @property {string[]} categories - Categorias em que o texto foi sinalizado
+ * @property {string} checker - Verificador que sinalizou o texto (opcional)
+ */
+export interface ModerationVerdict {
+  flagged: boolean;
+  categories: string[];
+  checker?: string;
+}
+
+/**
+ * Interface de um conteúdo sinalizado pela moderação
+ * 
+ * @interface ModerationFlag
+ * @property {string} id - Identificador único do registro
+ * @property {ModerationTarget} target - Tipo do conteúdo verificado
+ * @property {ModerationAction} action - Tratamento dado ao conteúdo
+ * @property {ModerationFlagStatus} status - Situação da revisão
+ * @property {string} content - Trecho do conteúdo sinalizado
+ * @property {string} reason - Motivo exibido ao usuário
+ * @property {string[]} categories - Categorias em que o conteúdo foi sinalizado
+ * @property {string} checker - Verificador que sinalizou o conteúdo
+ * @property {string} storyId - ID da história relacionada (opcional)
+ * @property {string} sceneId - ID da cena relacionada (opcional)
+ * @property {string} userId - ID do usuário que enviou ou pediu o conteúdo (opcional)
+ * @property {Date} createdAt - Data da sinalização
+ * @property {Date} reviewedAt - Data da revisão (opcional)
+ * @property {string} reviewedBy - Nome do administrador que revisou (opcional)
+ */
+export interface ModerationFlag {
+  id: string;
+  target: ModerationTarget;
+  action: ModerationAction;
+  status: ModerationFlagStatus;
+  content: string;
+  reason: string;
+  categories: string[];
+  checker: string;
+  storyId?: string;
+  sceneId?: string;
+  userId?: string;
+  createdAt: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string;
+}
+
+/**
+ * Retenção de uma história ou cena em quarentena
+ * 
+ * @interface ContentHold
+ * @property {string} flagId - ID do registro de moderação que reteve o conteúdo
+ * @property {string} reason - Motivo da retenção
+ */
+export interface ContentHold {
+  flagId: string;
+  reason: string;
+}
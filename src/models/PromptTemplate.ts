@@ -0,0 +1,81 @@
+/**
+ * Templates de prompt editáveis
+ * proposal: proposta da história | scenes: cenas da história | style-samples: descrições das amostras de estilo |
+ * scene-image: imagem de uma cena | visual-sample: imagem de amostra de um estilo
+ */
+export type PromptTemplateName = 'proposal' | 'scenes' | 'style-samples' | 'scene-image' | 'visual-sample';
+
+/**
+ * Tipo do valor de uma variável de template
+ * text: texto (vazio quando não se aplica) | number: número
+ */
+export type PromptVariableType = 'text' | 'number';
+
+/**
+ * Origem do texto usado por um template
+ * default: texto da aplicação | global: versão editada pelos administradores | story: versão da história
+ */
+export type PromptTemplateSource = 'default' | 'global' | 'story';
+
+/**
+ * Variável disponível em um template
+ *
+ * @interface PromptVariable
+ * @property {string} name - Nome usado no template, como em {{briefing}}
+ * @property {PromptVariableType} type - Tipo do valor
+ * @property {string} description - Descrição do valor para quem edita o template
+ */
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  description: string;
+}
+
+/**
+ * Versão gravada de um template, global ou de uma história
+ * Cada alteração grava uma nova versão; a mais recente é a usada nas gerações
+ *
+ * @interface PromptTemplateVersion
+ * @property {string} id - Identificador único da versão
+ * @property {PromptTemplateName} name - Template alterado
+ * @property {string} storyId - ID da história, nas versões de uma história (opcional)
+ * @property {number} version - Número da versão, a partir de 1, contado por template e história
+ * @property {string} body - Texto do template
+ * @property {string} author - Nome do usuário que fez a alteração (opcional)
+ * @property {Date} createdAt - Data da alteração
+ */
+export interface PromptTemplateVersion {
+  id: string;
+  name: PromptTemplateName;
+  storyId?: string;
+  version: number;
+  body: string;
+  author?: string;
+  createdAt: Date;
+}
+
+/**
+ * Template em uso, com as variáveis disponíveis e a origem do texto
+ *
+ * @interface PromptTemplate
+ * @property {PromptTemplateName} name - Nome do template
+ * @property {string} description - Uso do template
+ * @property {PromptVariable[]} variables - Variáveis disponíveis
+ * @property {string} body - Texto em uso
+ * @property {PromptTemplateSource} source - Origem do texto
+ * @property {number} version - Número da versão em uso (0 para o texto da aplicação)
+ * @property {string} defaultBody - Texto da aplicação
+ * @property {Date} updatedAt - Data da versão em uso (opcional)
+ * @property {string} author - Autor da versão em uso (opcional)
+ */
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  description: string;
+  variables: PromptVariable[];
+  body: string;
+  source: PromptTemplateSource;
+  version: number;
+  defaultBody: string;
+  updatedAt?: Date;
+  author?: string;
+}
@@ -0,0 +1,55 @@
+/**
+ * Tipos de registro com histórico de revisões
+ * scene: campos de uma cena | story: proposta (e título) de uma história
+ */
+export type RevisionEntityType = 'scene' | 'story';
+
+/**
+ * Origem de uma alteração
+ * edit: edição pelo usuário | image: nova imagem gerada | restore: restauração de uma revisão
+ */
+export type RevisionAction = 'edit' | 'image' | 'restore';
+
+/**
+ * Interface de uma revisão
+ * Guarda o estado do registro antes de uma alteração, para que ele possa ser comparado e restaurado
+ * 
+ * @interface Revision
+ * @property {string} id - Identificador único da revisão
+ * @property {RevisionEntityType} entityType - Tipo do registro alterado
+ * @property {string} entityId - ID da cena ou da história alterada
+ * @property {string} storyId - ID da história à qual o registro pertence
+ * @property {RevisionAction} action - Origem da alteração
+ * @property {string} author - Autor da alteração, quando conhecido (opcional)
+ * @property {string[]} changedFields - Campos modificados pela alteração
+ * @property {Object} snapshot - Valores de todos os campos versionados antes da alteração
+ * @property {Date} createdAt - Data da alteração
+ */
+export interface Revision {
+  id: string;
+  entityType: RevisionEntityType;
+  entityId: string;
+  storyId: string;
+  action: RevisionAction;
+  author?: string;
+  changedFields: string[];
+  snapshot: { [field: string]: any };
+  createdAt: Date;
+}
+
+/**
+ * Diferença de um campo entre duas versões
+ * Campos de texto também trazem a diferença linha a linha
+ * 
+ * @interface RevisionFieldDiff
+ * @property {string} field - Nome do campo
+ * @property {any} before - Valor na versão mais antiga
+ * @property {any} after - Valor na versão mais recente
+ * @property {Object[]} lines - Linhas mantidas, removidas e adicionadas (apenas campos de texto)
+ */
+export interface RevisionFieldDiff {
+  field: string;
+  before: any;
+  after: any;
+  lines?: { type: 'equal' | 'added' | 'removed'; text: string }[];
+}
@@ -1,3 +1,38 @@
+import { ContentHold } from './Moderation';
+
+/**
+ * Escolha oferecida ao leitor ao final de uma cena
+ * 
+ * @interface SceneChoice
+ * @property {string} label - Texto exibido para a escolha
+ * @property {string} targetSceneId - ID da cena para a qual a escolha leva
+ */
+export interface SceneChoice {
+  label: string;
+  targetSceneId: string;
+}
+
+/**
+ * Fala de um personagem em uma cena
+ * 
+ * @interface DialogueLine
+ * @property {string} speaker - Nome de quem fala (vazio quando não identificado)
+ * @property {string} text - Texto da fala, sem aspas
+ * @property {string} direction - Emoção ou indicação de cena, como "sussurrando" (opcional)
+ */
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+  direction?: string;
+}
+
+/**
+ * Estado da imagem de uma cena
+ * none: sem imagem pedida | pending: geração na fila | generating: em geração |
+ * ready: imagem gerada | failed: a última geração falhou (o motivo fica em imageError)
+ */
+export type SceneImageStatus = 'none' | 'pending' | 'generating' | 'ready' | 'failed';
+
 /**
  * Interface da cena que define sua estrutura
  * 
@@ -8,8 +43,16 @@
  * @property {string} title - Título da cena
  * @property {string} description - Descrição do ambiente e personagens
  * @property {string} narration - Narração dos eventos
- * @property {string} dialogue - Diálogos entre personagens
+ * @property {DialogueLine[]} dialogue - Falas dos personagens, em ordem
  * @property {string} imageUrl - URL da imagem da cena
+ * @property {string} imageAssetId - ID do asset local da imagem, quando armazenada (opcional)
+ * @property {SceneImageStatus} imageStatus - Estado da imagem
+ * @property {string} imageError - Motivo da última falha de geração, quando imageStatus é failed (opcional)
+ * @property {string} imagePrompt - Prompt enviado ao provedor para gerar a imagem atual (opcional)
+ * @property {SceneChoice[]} choices - Escolhas que levam a outras cenas (vazio = segue para a próxima)
+ * @property {boolean} isEnding - Indica se a cena é um dos finais da história
+ * @property {string[]} characterIds - IDs dos personagens presentes na cena
+ * @property {ContentHold} moderation - Retenção da cena pela moderação (opcional)
  */
 export interface Scene {
   id: string;
@@ -18,6 +61,14 @@ export interface Scene {
   title: string;
   description: string;
   narration: string;
-  dialogue: string;
+  dialogue: DialogueLine[];
   imageUrl: string;
-}
\ No newline at end of file
+  imageAssetId?: string;
+  imageStatus: SceneImageStatus;
+  imageError?: string;
+  imagePrompt?: string;
+  choices: SceneChoice[];
+  isEnding: boolean;
+  characterIds: string[];
+  moderation?: ContentHold;
+}
@@ -3,7 +3,26 @@
  * Inclui a interface principal de Story e funções auxiliares para manipulação de texto
  */
 
-import { Scene } from "./Scene";
+import { DialogueLine, Scene } from "./Scene";
+import { ContentHold } from "./Moderation";
+
+/**
+ * Papel de um usuário em uma história
+ * owner: dono, pode compartilhar | editor: pode alterar e gerar conteúdo | viewer: apenas leitura
+ */
+export type StoryRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Compartilhamento de uma história com outro usuário
+ * 
+ * @interface StoryShare
+ * @property {string} userId - ID do usuário com acesso
+ * @property {StoryRole} role - Papel do usuário na história (editor ou viewer)
+ */
+export interface StoryShare {
+  userId: string;
+  role: Exclude<StoryRole, 'owner'>;
+}
 
 /**
  * Interface principal que define a estrutura de uma história
@@ -14,10 +33,18 @@ import { Scene } from "./Scene";
  * @property {string} briefing - Briefing inicial fornecido pelo usuário
  * @property {string} proposal - Proposta de história gerada pela IA
  * @property {string} style - Estilo visual escolhido para as imagens
+ * @property {string} stylePresetId - ID do preset de estilo usado nas imagens (opcional)
  * @property {Scene[]} scenes - Array de cenas que compõem a história
  * @property {Date} createdAt - Data de criação da história
- * @property {Object[]} visualSamples - Amostras de estilos visuais (opcional)
+ * @property {string} ownerId - ID do usuário dono da história (opcional em histórias anteriores às contas)
+ * @property {StoryShare[]} sharedWith - Usuários com quem a história foi compartilhada (opcional)
+ * @property {number} budgetUsd - Limite de gastos com a API nesta história, em dólares (opcional)
+ * @property {string} startSceneId - ID da cena inicial do grafo da história (opcional)
+ * @property {string} language - Idioma da história no formato BCP 47 (opcional, padrão: "pt-BR")
+ * @property {string} translationOf - ID da história da qual esta é uma tradução (opcional)
+ * @property {Object[]} visualSamples - Amostras de estilos visuais, com o asset local de cada imagem (opcional)
  * @property {Object} selectedVisualSample - Amostra de estilo visual selecionada (opcional)
+ * @property {ContentHold} moderation - Retenção da proposta pela moderação (opcional)
  */
 export interface Story {
   id: string;
@@ -28,13 +55,38 @@ export interface Story {
   scenes: Scene[];
   createdAt: Date;
 
+  // Dono da história; histórias anteriores às contas não têm dono até o primeiro cadastro
+  ownerId?: string;
+
+  // Usuários com acesso de leitura ou edição (opcional)
+  sharedWith?: StoryShare[];
+
+  // Limite de gastos com a API; sem ele, vale o limite padrão de STORY_BUDGET_USD (opcional)
+  budgetUsd?: number;
+
+  // Preset de estilo das imagens; sem ele, o estilo é usado como texto livre (opcional)
+  stylePresetId?: string;
+
+  // Cena inicial da história ramificada (opcional, padrão: primeira cena)
+  startSceneId?: string;
+
+  // Idioma em que os textos são gerados (opcional, padrão: pt-BR)
+  language?: string;
+
+  // História original, quando esta é uma tradução (opcional)
+  translationOf?: string;
+
+  // Proposta retida pela moderação, até ser liberada ou editada (opcional)
+  moderation?: ContentHold;
+
   // Amostras de estilos visuais (opcional)
   visualSamples?: {
     title: string;
     description: string;
     narration: string;
-    dialogue: string;
+    dialogue: DialogueLine[];
     imageUrl: string;
+    imageAssetId?: string;
   }[];
 
   // Amostra de estilo visual selecionada (opcional)
@@ -42,7 +94,8 @@ export interface Story {
     title: string;
     description: string;
     narration: string;
-    dialogue: string;
+    dialogue: DialogueLine[];
     imageUrl: string;
+    imageAssetId?: string;
   };
 }
\ No newline at end of file
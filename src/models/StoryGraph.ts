@@ -0,0 +1,85 @@
+/**
+ * Estruturas do grafo de navegação de uma história ramificada
+ * O grafo é derivado das cenas e de suas escolhas, não é armazenado
+ */
+
+/**
+ * Aresta do grafo, ligando uma cena a outra
+ * 
+ * @interface StoryGraphEdge
+ * @property {string} label - Texto da escolha
+ * @property {string} targetSceneId - ID da cena de destino
+ * @property {boolean} implicit - Indica se a aresta é a continuação automática para a próxima cena
+ */
+export interface StoryGraphEdge {
+  label: string;
+  targetSceneId: string;
+  implicit: boolean;
+}
+
+/**
+ * Nó do grafo, correspondente a uma cena
+ * 
+ * @interface StoryGraphNode
+ * @property {string} sceneId - ID da cena
+ * @property {string} title - Título da cena
+ * @property {number} order - Posição da cena na sequência
+ * @property {boolean} isEnding - Indica se a cena encerra um caminho da história
+ * @property {StoryGraphEdge[]} edges - Arestas de saída da cena
+ */
+export interface StoryGraphNode {
+  sceneId: string;
+  title: string;
+  order: number;
+  isEnding: boolean;
+  edges: StoryGraphEdge[];
+}
+
+/**
+ * Grafo completo da história
+ * 
+ * @interface StoryGraph
+ * @property {string | null} startSceneId - ID da cena inicial
+ * @property {StoryGraphNode[]} nodes - Nós do grafo na ordem das cenas
+ * @property {string[]} endingSceneIds - IDs das cenas finais
+ */
+export interface StoryGraph {
+  startSceneId: string | null;
+  nodes: StoryGraphNode[];
+  endingSceneIds: string[];
+}
+
+/**
+ * Tipos de problema detectados na validação do grafo
+ */
+export type StoryGraphIssueType = 'missing-start' | 'unreachable' | 'dead-end' | 'broken-choice' | 'no-ending';
+
+/**
+ * Problema encontrado na validação do grafo
+ * 
+ * @interface StoryGraphIssue
+ * @property {StoryGraphIssueType} type - Tipo do problema
+ * @property {string} [sceneId] - ID da cena envolvida (quando aplicável)
+ * @property {string} message - Descrição legível do problema
+ */
+export interface StoryGraphIssue {
+  type: StoryGraphIssueType;
+  sceneId?: string;
+  message: string;
+}
+
+/**
+ * Resultado da validação do grafo
+ * 
+ * @interface StoryGraphValidation
+ * @property {boolean} valid - Indica se o grafo não possui problemas
+ * @property {string[]} unreachableSceneIds - Cenas que não podem ser alcançadas a partir do início
+ * @property {string[]} deadEndSceneIds - Cenas sem saída que não são finais
+ * @property {StoryGraphIssue[]} issues - Lista completa de problemas encontrados
+ */
+export interface StoryGraphValidation {
+  valid: boolean;
+  unreachableSceneIds: string[];
+  deadEndSceneIds: string[];
+  issues: StoryGraphIssue[];
+}
@@ -0,0 +1,36 @@
+import { ImageQuality, ImageSize, ImageStyle } from '../api/providers/imageProvider';
+
+/**
+ * Interface de um preset de estilo visual
+ * O preset reúne as instruções em inglês enviadas ao gerador de imagens e as opções de renderização,
+ * para que o mesmo estilo produza imagens parecidas em todas as cenas
+ * 
+ * @interface StylePreset
+ * @property {string} id - Identificador único do preset
+ * @property {string} name - Nome exibido ao usuário (ex: "Aquarela")
+ * @property {string} description - Descrição do estilo para o usuário (opcional)
+ * @property {string} promptFragment - Trecho em inglês adicionado ao início dos prompts de imagem
+ * @property {string} negativePrompt - Elementos que as imagens devem evitar, em inglês
+ * @property {ImageSize} size - Dimensões preferidas das imagens
+ * @property {ImageQuality} quality - Qualidade preferida das imagens
+ * @property {ImageStyle} renderStyle - Renderização do DALL-E: "vivid" (cores intensas) ou "natural"
+ * @property {string} previewImageUrl - URL da imagem de prévia do estilo (opcional)
+ * @property {string} previewAssetId - ID do asset local da prévia, quando armazenada (opcional)
+ * @property {boolean} builtIn - Indica se o preset vem com a aplicação e não pode ser removido
+ * @property {Date} createdAt - Data de criação
+ */
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  description?: string;
+  promptFragment: string;
+  negativePrompt: string;
+  size: ImageSize;
+  quality: ImageQuality;
+  renderStyle: ImageStyle;
+  previewImageUrl?: string;
+  previewAssetId?: string;
+  builtIn: boolean;
+  createdAt: Date;
+}
@@ -0,0 +1,55 @@
+import { ApiUsage } from '../api/usage';
+
+/**
+ * Interface do registro de consumo de uma chamada à API
+ * Cada geração de texto ou de imagem gera um registro, atribuído à história e ao usuário
+ * que a originaram, quando conhecidos
+ * 
+ * @interface UsageRecord
+ * @property {string} id - Identificador único do registro
+ * @property {string} storyId - ID da história para a qual o conteúdo foi gerado (opcional)
+ * @property {string} userId - ID do usuário que pediu a geração (opcional)
+ * @property {number} costUsd - Custo da chamada em dólares, pelos preços de referência
+ * @property {Date} createdAt - Data da chamada
+ */
+export interface UsageRecord extends ApiUsage {
+  id: string;
+  storyId?: string;
+  userId?: string;
+  costUsd: number;
+  createdAt: Date;
+}
+
+/**
+ * Consumo agregado de um conjunto de chamadas
+ * 
+ * @interface UsageSummary
+ * @property {number} calls - Quantidade de chamadas
+ * @property {number} promptTokens - Tokens enviados nos prompts
+ * @property {number} completionTokens - Tokens gerados nas respostas
+ * @property {number} images - Quantidade de imagens geradas
+ * @property {number} costUsd - Custo total em dólares
+ */
+export interface UsageSummary {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+/**
+ * Situação de um orçamento
+ * 
+ * @interface BudgetStatus
+ * @property {number | null} limitUsd - Limite em dólares, ou null se não houver limite
+ * @property {number} spentUsd - Valor já gasto
+ * @property {number | null} remainingUsd - Valor restante, ou null se não houver limite
+ * @property {boolean} exceeded - Indica que o limite foi atingido
+ */
+export interface BudgetStatus {
+  limitUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
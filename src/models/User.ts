@@ -0,0 +1,38 @@
+/**
+ * Interface de um usuário da aplicação
+ * A senha nunca é armazenada: apenas o hash scrypt, com o sal e os parâmetros usados
+ * 
+ * @interface User
+ * @property {string} id - Identificador único do usuário
+ * @property {string} username - Nome de login, único e em minúsculas
+ * @property {string} passwordHash - Hash da senha no formato "scrypt$N$r$p$sal$hash"
+ * @property {Date} createdAt - Data de cadastro
+ */
+export interface User {
+  id: string;
+  username: string;
+  passwordHash: string;
+  createdAt: Date;
+}
+
+/**
+ * Dados de um usuário que podem ser enviados aos clientes
+ */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+/**
+ * Interface de uma sessão de login
+ * O ID é o hash SHA-256 do token entregue ao cliente, então o token não pode ser lido do armazenamento
+ * 
+ * @interface Session
+ * @property {string} id - Hash SHA-256 do token da sessão, em hexadecimal
+ * @property {string} userId - ID do usuário autenticado
+ * @property {Date} createdAt - Data do login
+ * @property {Date} expiresAt - Data de expiração da sessão
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
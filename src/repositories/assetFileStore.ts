@@ -0,0 +1,119 @@
+/**
+ * Armazenamento do conteúdo dos assets em disco, endereçado pelo hash do conteúdo
+ * Cada arquivo fica em <diretório>/<dois primeiros caracteres do hash>/<hash>
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// IDs válidos: hash SHA-256 em hexadecimal, o que também impede caminhos fora do diretório
+const ASSET_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Arquivo encontrado no diretório de assets
+ * 
+ * @interface StoredAssetFile
+ * @property {string} id - ID do asset
+ * @property {number} byteSize - Tamanho em bytes
+ * @property {Date} modifiedAt - Data da última modificação
+ */
+export interface StoredAssetFile {
+  id: string;
+  byteSize: number;
+  modifiedAt: Date;
+}
+
+export class AssetFileStore {
+  /**
+   * @param {string} directory - Diretório raiz dos arquivos
+   */
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Indica se um texto é um ID de asset válido
+   * 
+   * @param {string} id - ID a ser verificado
+   * @returns {boolean} true se o ID for um hash SHA-256
+   */
+  isValidId(id: string): boolean {
+    return ASSET_ID_PATTERN.test(id);
+  }
+
+  /**
+   * Calcula o caminho do arquivo de um asset
+   * 
+   * @param {string} id - ID do asset
+   * @returns {string} Caminho absoluto do arquivo
+   * @throws {Error} Se o ID for inválido
+   */
+  getPath(id: string): string {
+    if (!this.isValidId(id)) throw new Error('ID de asset inválido');
+    return path.resolve(this.directory, id.substring(0, 2), id);
+  }
+
+  exists(id: string): boolean {
+    return this.isValidId(id) && fs.existsSync(this.getPath(id));
+  }
+
+  /**
+   * Grava o conteúdo de um asset, se ainda não existir
+   * A escrita usa um arquivo temporário para nunca deixar um arquivo incompleto no lugar
+   * 
+   * @param {string} id - ID do asset
+   * @param {Buffer} data - Conteúdo
+   */
+  async write(id: string, data: Buffer): Promise<void> {
+    const filePath = this.getPath(id);
+    if (fs.existsSync(filePath)) return;
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async read(id: string): Promise<Buffer> {
+    return fs.promises.readFile(this.getPath(id));
+  }
+
+  /**
+   * Remove o arquivo de um asset
+   * 
+   * @param {string} id - ID do asset
+   * @returns {Promise<boolean>} true se o arquivo existia
+   */
+  async remove(id: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.getPath(id));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Lista os arquivos de assets gravados
+   * 
+   * @returns {Promise<StoredAssetFile[]>} Arquivos encontrados
+   */
+  async list(): Promise<StoredAssetFile[]> {
+    if (!fs.existsSync(this.directory)) return [];
+
+    const files: StoredAssetFile[] = [];
+    const prefixes = await fs.promises.readdir(this.directory);
+
+    for (const prefix of prefixes) {
+      const prefixPath = path.join(this.directory, prefix);
+      if (!(await fs.promises.stat(prefixPath)).isDirectory()) continue;
+
+      for (const name of await fs.promises.readdir(prefixPath)) {
+        if (!this.isValidId(name)) continue;
+        const stats = await fs.promises.stat(path.join(prefixPath, name));
+        files.push({ id: name, byteSize: stats.size, modifiedAt: stats.mtime });
+      }
+    }
+
+    return files;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Repositório dos metadados de assets
+ * O conteúdo dos arquivos fica no AssetFileStore
+ */
+
+import { Asset } from '../models/Asset';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { AssetRepository } from './types';
+
+export class AssetCollectionRepository extends CollectionRepository<Asset> implements AssetRepository {
+  constructor(store: DataStore) {
+    super(store, 'assets', { dateFields: ['createdAt'] });
+  }
+}
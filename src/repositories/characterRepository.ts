@@ -0,0 +1,39 @@
+/**
+ * Repositório de personagens
+ */
+
+import { Character } from '../models/Character';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { CharacterRepository } from './types';
+
+/**
+ * Armazena os personagens de todas as histórias
+ */
+export class CharacterCollectionRepository extends CollectionRepository<Character> implements CharacterRepository {
+  constructor(store: DataStore) {
+    super(store, 'characters');
+  }
+
+  /**
+   * Obtém os personagens de uma história, na ordem em que foram criados
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {Character[]} Personagens da história
+   */
+  findByStory(storyId: string): Character[] {
+    return this.find(character => character.storyId === storyId);
+  }
+
+  /**
+   * Remove todos os personagens de uma história
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {number} Quantidade de personagens removidos
+   */
+  deleteByStory(storyId: string): number {
+    return this.store.transaction(() =>
+      this.findByStory(storyId).filter(character => this.delete(character.id)).length
+    );
+  }
+}
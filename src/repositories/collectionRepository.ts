@@ -0,0 +1,62 @@
+/**
+ * Implementação genérica de repositório sobre uma coleção do armazenamento de dados
+ */
+
+import { CollectionOptions, DataStore } from './dataStore';
+import { Repository } from './types';
+
+/**
+ * Repositório genérico de registros identificados por ID
+ */
+export class CollectionRepository<T extends { id: string }> implements Repository<T> {
+  /**
+   * @param {DataStore} store - Armazenamento de dados
+   * @param {string} collection - Nome da coleção
+   * @param {CollectionOptions} options - Opções da coleção (ex: campos de data)
+   */
+  constructor(
+    protected readonly store: DataStore,
+    protected readonly collection: string,
+    options: CollectionOptions = {}
+  ) {
+    store.registerCollection(collection, options);
+  }
+
+  findAll(): T[] {
+    return this.store.getAll(this.collection);
+  }
+
+  findById(id: string): T | undefined {
+    return this.store.get(this.collection, id);
+  }
+
+  find(predicate: (entity: T) => boolean): T[] {
+    return this.findAll().filter(predicate);
+  }
+
+  save(entity: T): T {
+    this.store.put(this.collection, entity);
+    return entity;
+  }
+
+  /**
+   * Aplica alterações parciais a um registro existente
+   * 
+   * @param {string} id - ID do registro
+   * @param {Partial<T>} changes - Campos a serem alterados
+   * @returns {T | undefined} O registro atualizado ou undefined se não existir
+   */
+  update(id: string, changes: Partial<T>): T | undefined {
+    return this.store.transaction(() => {
+      const entity = this.findById(id);
+      if (!entity) return undefined;
+
+      const updated = { ...entity, ...changes };
+      return this.save(updated);
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.store.remove(this.collection, id);
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Armazenamento de dados da aplicação
+ * Mantém coleções de registros com suporte a transações, em memória ou persistidas em arquivo JSON
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { UnitOfWork } from './types';
+
+/**
+ * Opções de uma coleção de registros
+ * 
+ * @interface CollectionOptions
+ * @property {string[]} dateFields - Campos de data gravados como texto em arquivos anteriores, restaurados como Date ao carregar do disco
+ * @property {Function} migrate - Converte registros gravados em formatos anteriores, ao carregar do disco (opcional)
+ * @property {number} writeDelayMs - Atraso, em milissegundos, para gravar transações que alteram apenas coleções com atraso,
+ *   agrupando alterações frequentes em uma única gravação (opcional, padrão: gravação imediata)
+ */
+export interface CollectionOptions {
+  dateFields?: string[];
+  migrate?: (record: any) => any;
+  writeDelayMs?: number;
+}
+
+/**
+ * Interface comum dos mecanismos de armazenamento
+ * 
+ * @interface DataStore
+ */
+export interface DataStore extends UnitOfWork {
+  registerCollection(name: string, options?: CollectionOptions): void;
+  getAll(collection: string): any[];
+  get(collection: string, id: string): any | undefined;
+  put(collection: string, record: { id: string }): void;
+  remove(collection: string, id: string): boolean;
+  flush(): void;
+}
+
+type CollectionData = { [collection: string]: { [id: string]: any } };
+
+// Coleções guardadas antes da primeira alteração (undefined para as que ainda não existiam)
+type Snapshot = { [collection: string]: { [id: string]: any } | undefined };
+
+/**
+ * Armazenamento em memória
+ * Os dados são perdidos quando o servidor é reiniciado
+ * Os registros guardados nunca são alterados no lugar: put grava uma cópia nova e get devolve cópias.
+ * Por isso a transação guarda apenas uma cópia rasa das coleções que altera, e não de todos os dados
+ */
+export class MemoryDataStore implements DataStore {
+  protected data: CollectionData = {};
+  protected options: { [collection: string]: CollectionOptions } = {};
+  private depth = 0;
+  private snapshot: Snapshot | null = null;
+
+  /**
+   * Registra uma coleção, restaura os campos de data e migra os registros já carregados
+   * Os registros migrados são gravados no novo formato na próxima transação
+   * 
+   * @param {string} name - Nome da coleção
+   * @param {CollectionOptions} options - Opções da coleção
+   */
+  registerCollection(name: string, options: CollectionOptions = {}): void {
+    this.options[name] = options;
+    if (!this.data[name]) this.data[name] = {};
+
+    const records = this.data[name];
+    Object.keys(records).forEach(id => {
+      reviveDates(records[id], options.dateFields || []);
+      if (options.migrate) records[id] = options.migrate(records[id]);
+    });
+  }
+
+  /**
+   * Obtém cópias de todos os registros de uma coleção, na ordem de inserção
+   * 
+   * @param {string} collection - Nome da coleção
+   * @returns {any[]} Registros da coleção
+   */
+  getAll(collection: string): any[] {
+    const records = this.data[collection] || {};
+    return Object.keys(records).map(id => structuredClone(records[id]));
+  }
+
+  /**
+   * Obtém uma cópia de um registro pelo ID
+   * 
+   * @param {string} collection - Nome da coleção
+   * @param {string} id - ID do registro
+   * @returns {any | undefined} O registro ou undefined se não existir
+   */
+  get(collection: string, id: string): any | undefined {
+    const record = (this.data[collection] || {})[id];
+    return record ? structuredClone(record) : undefined;
+  }
+
+  /**
+   * Insere ou substitui um registro
+   * 
+   * @param {string} collection - Nome da coleção
+   * @param {Object} record - Registro com ID
+   */
+  put(collection: string, record: { id: string }): void {
+    this.transaction(() => {
+      this.keepSnapshot(collection);
+      if (!this.data[collection]) this.data[collection] = {};
+      this.data[collection][record.id] = structuredClone(record);
+    });
+  }
+
+  /**
+   * Remove um registro
+   * 
+   * @param {string} collection - Nome da coleção
+   * @param {string} id - ID do registro
+   * @returns {boolean} Se o registro existia
+   */
+  remove(collection: string, id: string): boolean {
+    return this.transaction(() => {
+      const records = this.data[collection];
+      if (!records || !records[id]) return false;
+      this.keepSnapshot(collection);
+      delete records[id];
+      return true;
+    });
+  }
+
+  /**
+   * Executa alterações de forma atômica
+   * Transações aninhadas fazem parte da transação mais externa, que confirma ou desfaz tudo
+   * Uma transação que não altera nenhuma coleção não é confirmada
+   * 
+   * @param {Function} work - Função síncrona com as alterações
+   * @returns {T} O valor retornado pela função
+   * @throws {Error} O erro lançado pela função, após desfazer as alterações
+   */
+  transaction<T>(work: () => T): T {
+    if (this.depth === 0) this.snapshot = {};
+    this.depth++;
+
+    try {
+      const result = work();
+      if (isPromiseLike(result)) {
+        throw new Error('Transações devem ser síncronas');
+      }
+
+      if (this.depth === 1 && this.snapshot && Object.keys(this.snapshot).length > 0) this.commit(Object.keys(this.snapshot));
+      return result;
+    } catch (error) {
+      if (this.depth === 1 && this.snapshot) this.restoreSnapshot(this.snapshot);
+      throw error;
+    } finally {
+      this.depth--;
+      if (this.depth === 0) this.snapshot = null;
+    }
+  }
+
+  /**
+   * Guarda o estado de uma coleção antes da primeira alteração na transação em andamento
+   * 
+   * @param {string} collection - Nome da coleção
+   */
+  private keepSnapshot(collection: string): void {
+    if (!this.snapshot || collection in this.snapshot) return;
+    const records = this.data[collection];
+    this.snapshot[collection] = records ? { ...records } : undefined;
+  }
+
+  /**
+   * Desfaz as alterações da transação, restaurando as coleções alteradas
+   * 
+   * @param {Snapshot} snapshot - Coleções guardadas antes da primeira alteração
+   */
+  private restoreSnapshot(snapshot: Snapshot): void {
+    Object.keys(snapshot).forEach(collection => {
+      const records = snapshot[collection];
+      if (records) this.data[collection] = records;
+      else delete this.data[collection];
+    });
+  }
+
+  /**
+   * Confirma as alterações da transação mais externa
+   * Em memória não há nada a fazer
+   * 
+   * @param {string[]} _collections - Coleções alteradas na transação
+   */
+  protected commit(_collections: string[]): void {}
+
+  /**
+   * Grava as alterações confirmadas que ainda aguardam gravação
+   * Em memória não há nada a fazer
+   */
+  flush(): void {}
+}
+
+/**
+ * Armazenamento persistido em um arquivo JSON
+ * O arquivo é reescrito de forma atômica, por inteiro, ao final de cada transação com alterações.
+ * Transações que alteram apenas coleções com writeDelayMs, como jobs e consumo, são agrupadas em uma
+ * gravação posterior; as pendentes são gravadas junto com a próxima transação imediata ou ao encerrar o processo.
+ * O custo de cada gravação cresce com o total de dados, então o arquivo serve a instalações pequenas;
+ * volumes maiores precisam de um armazenamento que grave apenas os registros alterados
+ * Datas são gravadas como { "$date": texto } para serem restauradas em qualquer nível dos registros
+ */
+export class FileDataStore extends MemoryDataStore {
+  private dirty = false;
+  private pendingWrite: NodeJS.Timeout | null = null;
+
+  /**
+   * @param {string} filePath - Caminho do arquivo de dados
+   */
+  constructor(private readonly filePath: string) {
+    super();
+
+    if (fs.existsSync(filePath)) {
+      this.data = JSON.parse(fs.readFileSync(filePath, 'utf-8'), reviveTaggedDate);
+    }
+
+    process.once('exit', () => this.flush());
+  }
+
+  /**
+   * Grava as coleções no arquivo, imediatamente ou após o menor atraso das coleções alteradas
+   * 
+   * @param {string[]} collections - Coleções alteradas na transação
+   */
+  protected commit(collections: string[]): void {
+    this.dirty = true;
+
+    const delay = Math.min(...collections.map(collection => (this.options[collection] || {}).writeDelayMs || 0));
+    if (delay <= 0) {
+      this.flush();
+      return;
+    }
+
+    if (!this.pendingWrite) {
+      this.pendingWrite = setTimeout(() => {
+        try {
+          this.flush();
+        } catch (error) {
+          console.error('Erro ao gravar o arquivo de dados:', error);
+        }
+      }, delay);
+      // A gravação pendente não mantém o processo ativo; ela é feita ao encerrar
+      this.pendingWrite.unref();
+    }
+  }
+
+  /**
+   * Grava todas as coleções no arquivo, se houver alterações pendentes
+   * Escreve em um arquivo temporário e o renomeia para não corromper os dados em caso de falha
+   */
+  flush(): void {
+    if (this.pendingWrite) {
+      clearTimeout(this.pendingWrite);
+      this.pendingWrite = null;
+    }
+    if (!this.dirty) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.data, tagDate));
+    fs.renameSync(tempPath, this.filePath);
+    this.dirty = false;
+  }
+}
+
+/**
+ * Grava datas em qualquer nível dos registros como { "$date": texto }
+ * O valor recebido já passou por toJSON, então a data original é lida do objeto pai
+ * 
+ * @param {string} key - Nome do campo
+ * @param {any} value - Valor serializável do campo
+ * @returns {any} O valor marcado, para datas, ou o próprio valor
+ */
+function tagDate(this: any, key: string, value: any): any {
+  return this[key] instanceof Date ? { $date: value } : value;
+}
+
+/**
+ * Restaura as datas gravadas por tagDate
+ * 
+ * @param {string} _key - Nome do campo
+ * @param {any} value - Valor lido do arquivo
+ * @returns {any} A data restaurada ou o próprio valor
+ */
+function reviveTaggedDate(_key: string, value: any): any {
+  const isTagged = typeof value === 'object' && value !== null
+    && typeof value.$date === 'string' && Object.keys(value).length === 1;
+  return isTagged ? new Date(value.$date) : value;
+}
+
+/**
+ * Indica se um valor é uma promise ou outro objeto com then
+ * 
+ * @param {unknown} value - Valor retornado pela transação
+ * @returns {boolean} true se o valor for uma promise
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof value === 'object' && value !== null && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * Converte campos de data serializados como texto de volta para Date
+ * 
+ * @param {any} record - Registro carregado do disco
+ * @param {string[]} dateFields - Campos de data do registro
+ */
+function reviveDates(record: any, dateFields: string[]): void {
+  dateFields.forEach(field => {
+    if (typeof record[field] === 'string') record[field] = new Date(record[field]);
+  });
+}
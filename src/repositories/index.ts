@@ -0,0 +1,72 @@
+/**
+ * Ponto de entrada dos repositórios de dados
+ * O mecanismo de armazenamento é escolhido pela variável de ambiente STORAGE_DRIVER:
+ * - "memory" (padrão): dados em memória, perdidos ao reiniciar o servidor
+ * - "file": dados persistidos no arquivo JSON indicado por STORAGE_FILE (padrão: data/store.json)
+ * O conteúdo dos assets (imagens) sempre é gravado em disco, no diretório ASSETS_DIR (padrão: data/assets)
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { DataStore, FileDataStore, MemoryDataStore } from './dataStore';
+import { StoryCollectionRepository } from './storyRepository';
+import { SceneCollectionRepository } from './sceneRepository';
+import { JobCollectionRepository } from './jobRepository';
+import { AssetCollectionRepository } from './assetRepository';
+import { AssetFileStore } from './assetFileStore';
+import { CharacterCollectionRepository } from './characterRepository';
+import { RevisionCollectionRepository } from './revisionRepository';
+import { StylePresetCollectionRepository } from './stylePresetRepository';
+import { SessionCollectionRepository, UserCollectionRepository } from './userRepository';
+import { UsageCollectionRepository } from './usageRepository';
+import { ModerationFlagCollectionRepository } from './moderationRepository';
+import { PromptTemplateCollectionRepository } from './promptTemplateRepository';
+import { AssetRepository, CharacterRepository, JobRepository, ModerationFlagRepository, PromptTemplateRepository, RevisionRepository, SceneRepository, SessionRepository, StoryRepository, StylePresetRepository, UsageRepository, UserRepository } from './types';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+/**
+ * Cria o armazenamento de dados configurado no ambiente
+ * 
+ * @returns {DataStore} Armazenamento em memória ou em arquivo
+ * @throws {Error} Se o driver configurado não for suportado
+ */
+function createDataStore(): DataStore {
+  const driver = (process.env.STORAGE_DRIVER || 'memory').toLowerCase();
+
+  if (driver === 'memory') return new MemoryDataStore();
+  if (driver === 'file') {
+    const filePath = path.resolve(process.env.STORAGE_FILE || 'data/store.json');
+    return new FileDataStore(filePath);
+  }
+
+  throw new Error(`STORAGE_DRIVER inválido: ${driver}. Use "memory" ou "file".`);
+}
+
+export const dataStore: DataStore = createDataStore();
+export const storyRepository: StoryRepository = new StoryCollectionRepository(dataStore);
+export const sceneRepository: SceneRepository = new SceneCollectionRepository(dataStore);
+export const jobRepository: JobRepository = new JobCollectionRepository(dataStore);
+export const characterRepository: CharacterRepository = new CharacterCollectionRepository(dataStore);
+export const assetRepository: AssetRepository = new AssetCollectionRepository(dataStore);
+export const revisionRepository: RevisionRepository = new RevisionCollectionRepository(dataStore);
+export const stylePresetRepository: StylePresetRepository = new StylePresetCollectionRepository(dataStore);
+export const userRepository: UserRepository = new UserCollectionRepository(dataStore);
+export const sessionRepository: SessionRepository = new SessionCollectionRepository(dataStore);
+export const usageRepository: UsageRepository = new UsageCollectionRepository(dataStore);
+export const moderationFlagRepository: ModerationFlagRepository = new ModerationFlagCollectionRepository(dataStore);
+export const promptTemplateRepository: PromptTemplateRepository = new PromptTemplateCollectionRepository(dataStore);
+export const assetFiles = new AssetFileStore(path.resolve(process.env.ASSETS_DIR || 'data/assets'));
+
+/**
+ * Executa alterações em múltiplos repositórios de forma atômica
+ * 
+ * @param {Function} work - Função síncrona com as alterações
+ * @returns {T} O valor retornado pela função
+ */
+export function transaction<T>(work: () => T): T {
+  return dataStore.transaction(work);
+}
+
+export * from './types';
@@ -0,0 +1,38 @@
+/**
+ * Repositório de jobs em segundo plano
+ */
+
+import { Job, JobStatus } from '../models/Job';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { JobRepository } from './types';
+
+/**
+ * Armazena os jobs na ordem em que foram criados
+ */
+export class JobCollectionRepository extends CollectionRepository<Job> implements JobRepository {
+  constructor(store: DataStore) {
+    // O estado dos jobs muda a cada etapa, então as gravações são agrupadas
+    super(store, 'jobs', { dateFields: ['createdAt', 'startedAt', 'finishedAt'], writeDelayMs: 1000 });
+  }
+
+  /**
+   * Obtém os jobs de uma história
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {Job[]} Jobs na ordem de criação
+   */
+  findByStory(storyId: string): Job[] {
+    return this.find(job => job.storyId === storyId);
+  }
+
+  /**
+   * Obtém os jobs em um determinado estado
+   * 
+   * @param {JobStatus} status - Estado procurado
+   * @returns {Job[]} Jobs na ordem de criação
+   */
+  findByStatus(status: JobStatus): Job[] {
+    return this.find(job => job.status === status);
+  }
+}
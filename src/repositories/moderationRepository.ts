@@ -0,0 +1,38 @@
+/**
+ * Repositório dos conteúdos sinalizados pela moderação
+ */
+
+import { ModerationFlag, ModerationFlagStatus } from '../models/Moderation';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { ModerationFlagRepository } from './types';
+
+/**
+ * Armazena os conteúdos sinalizados na ordem das verificações
+ * Os registros são mantidos mesmo depois da remoção da história, para auditoria
+ */
+export class ModerationFlagCollectionRepository extends CollectionRepository<ModerationFlag> implements ModerationFlagRepository {
+  constructor(store: DataStore) {
+    super(store, 'moderationFlags', { dateFields: ['createdAt', 'reviewedAt'] });
+  }
+
+  /**
+   * Obtém os conteúdos sinalizados com uma situação
+   * 
+   * @param {ModerationFlagStatus} status - Situação da revisão
+   * @returns {ModerationFlag[]} Registros na ordem das verificações
+   */
+  findByStatus(status: ModerationFlagStatus): ModerationFlag[] {
+    return this.find(flag => flag.status === status);
+  }
+
+  /**
+   * Obtém os conteúdos sinalizados de uma história
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {ModerationFlag[]} Registros na ordem das verificações
+   */
+  findByStory(storyId: string): ModerationFlag[] {
+    return this.find(flag => flag.storyId === storyId);
+  }
+}
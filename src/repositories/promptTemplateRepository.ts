@@ -0,0 +1,65 @@
+/**
+ * Repositório das versões dos templates de prompt
+ */
+
+import { PromptTemplateName, PromptTemplateVersion } from '../models/PromptTemplate';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { PromptTemplateRepository } from './types';
+
+/**
+ * Armazena as versões dos templates na ordem em que foram gravadas
+ * As versões globais não têm história; as de uma história são removidas junto com ela
+ */
+export class PromptTemplateCollectionRepository extends CollectionRepository<PromptTemplateVersion> implements PromptTemplateRepository {
+  constructor(store: DataStore) {
+    super(store, 'promptTemplates', { dateFields: ['createdAt'] });
+  }
+
+  /**
+   * Obtém as versões de um template, globais ou de uma história
+   * 
+   * @param {PromptTemplateName} name - Nome do template
+   * @param {string} [storyId] - ID da história (padrão: versões globais)
+   * @returns {PromptTemplateVersion[]} Versões, da mais recente para a mais antiga
+   */
+  findVersions(name: PromptTemplateName, storyId?: string): PromptTemplateVersion[] {
+    return this.find(template => template.name === name && template.storyId === storyId).reverse();
+  }
+
+  /**
+   * Obtém a versão mais recente de um template, global ou de uma história
+   * 
+   * @param {PromptTemplateName} name - Nome do template
+   * @param {string} [storyId] - ID da história (padrão: versão global)
+   * @returns {PromptTemplateVersion | undefined} A versão em uso, se o template foi alterado
+   */
+  findLatest(name: PromptTemplateName, storyId?: string): PromptTemplateVersion | undefined {
+    return this.findVersions(name, storyId)[0];
+  }
+
+  /**
+   * Remove as versões de um template, globais ou de uma história
+   * 
+   * @param {PromptTemplateName} name - Nome do template
+   * @param {string} [storyId] - ID da história (padrão: versões globais)
+   * @returns {number} Quantidade de versões removidas
+   */
+  deleteVersions(name: PromptTemplateName, storyId?: string): number {
+    return this.store.transaction(() =>
+      this.findVersions(name, storyId).filter(template => this.delete(template.id)).length
+    );
+  }
+
+  /**
+   * Remove as versões de todos os templates de uma história
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {number} Quantidade de versões removidas
+   */
+  deleteByStory(storyId: string): number {
+    return this.store.transaction(() =>
+      this.find(template => template.storyId === storyId).filter(template => this.delete(template.id)).length
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Repositório de revisões de cenas e histórias
+ */
+
+import { Revision, RevisionEntityType } from '../models/Revision';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { RevisionRepository } from './types';
+import { normalizeDialogue } from '../utils/dialogue';
+
+/**
+ * Armazena as revisões na ordem em que foram criadas
+ */
+export class RevisionCollectionRepository extends CollectionRepository<Revision> implements RevisionRepository {
+  constructor(store: DataStore) {
+    super(store, 'revisions', { dateFields: ['createdAt'], migrate: migrateRevision });
+  }
+
+  /**
+   * Obtém as revisões de uma cena ou história
+   * 
+   * @param {RevisionEntityType} entityType - Tipo do registro
+   * @param {string} entityId - ID do registro
+   * @returns {Revision[]} Revisões, da mais recente para a mais antiga
+   */
+  findByEntity(entityType: RevisionEntityType, entityId: string): Revision[] {
+    return this.find(revision => revision.entityType === entityType && revision.entityId === entityId).reverse();
+  }
+
+  /**
+   * Remove as revisões de uma cena ou história
+   * 
+   * @param {RevisionEntityType} entityType - Tipo do registro
+   * @param {string} entityId - ID do registro
+   * @returns {number} Quantidade de revisões removidas
+   */
+  deleteByEntity(entityType: RevisionEntityType, entityId: string): number {
+    return this.store.transaction(() =>
+      this.findByEntity(entityType, entityId).filter(revision => this.delete(revision.id)).length
+    );
+  }
+
+  /**
+   * Remove todas as revisões de uma história e de suas cenas
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {number} Quantidade de revisões removidas
+   */
+  deleteByStory(storyId: string): number {
+    return this.store.transaction(() =>
+      this.find(revision => revision.storyId === storyId).filter(revision => this.delete(revision.id)).length
+    );
+  }
+}
+
+/**
+ * Converte o diálogo em texto guardado nas revisões de cenas em falas
+ * 
+ * @param {any} revision - Revisão gravada
+ * @returns {Revision} A revisão com o diálogo estruturado
+ */
+function migrateRevision(revision: any): Revision {
+  if (revision.entityType !== 'scene' || typeof revision.snapshot.dialogue !== 'string') return revision;
+  return { ...revision, snapshot: { ...revision.snapshot, dialogue: normalizeDialogue(revision.snapshot.dialogue) } };
+}
@@ -0,0 +1,70 @@
+/**
+ * Repositório de cenas
+ */
+
+import { Scene } from '../models/Scene';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { SceneRepository } from './types';
+import { normalizeDialogue } from '../utils/dialogue';
+
+// Imagem gravada nas cenas cuja geração falhava, antes do estado da imagem
+const LEGACY_PLACEHOLDER_URL = '/images/placeholder.jpg';
+
+/**
+ * Armazena as cenas de todas as histórias
+ */
+export class SceneCollectionRepository extends CollectionRepository<Scene> implements SceneRepository {
+  constructor(store: DataStore) {
+    super(store, 'scenes', { migrate: migrateScene });
+  }
+
+  /**
+   * Obtém as cenas de uma história ordenadas pela propriedade 'order'
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {Scene[]} Cenas da história
+   */
+  findByStory(storyId: string): Scene[] {
+    return this.find(scene => scene.storyId === storyId).sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Remove todas as cenas de uma história
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {number} Quantidade de cenas removidas
+   */
+  deleteByStory(storyId: string): number {
+    return this.store.transaction(() =>
+      this.findByStory(storyId).filter(scene => this.delete(scene.id)).length
+    );
+  }
+
+  /**
+   * Remove todas as cenas do sistema
+   */
+  clear(): void {
+    this.store.transaction(() => {
+      this.findAll().forEach(scene => this.delete(scene.id));
+    });
+  }
+}
+
+/**
+ * Atualiza as cenas gravadas em versões anteriores
+ * Converte o diálogo em texto, usado antes dos diálogos estruturados, em falas, e define o estado
+ * da imagem das cenas gravadas antes dele; as que receberam a imagem substituta ficam como falhas
+ * 
+ * @param {any} scene - Cena gravada
+ * @returns {Scene} A cena com o diálogo estruturado e o estado da imagem
+ */
+function migrateScene(scene: any): Scene {
+  const migrated = Array.isArray(scene.dialogue) ? scene : { ...scene, dialogue: normalizeDialogue(scene.dialogue) };
+  if (migrated.imageStatus) return migrated;
+
+  if (migrated.imageUrl === LEGACY_PLACEHOLDER_URL) {
+    return { ...migrated, imageUrl: '', imageStatus: 'failed', imageError: 'A imagem não pôde ser gerada' };
+  }
+  return { ...migrated, imageStatus: migrated.imageUrl ? 'ready' : 'none' };
+}
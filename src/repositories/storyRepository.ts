@@ -0,0 +1,39 @@
+/**
+ * Repositório de histórias
+ */
+
+import { Story } from '../models/Story';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { StoryRepository } from './types';
+import { normalizeDialogue } from '../utils/dialogue';
+
+/**
+ * Armazena histórias sem suas cenas, que ficam no repositório de cenas
+ */
+export class StoryCollectionRepository extends CollectionRepository<Story> implements StoryRepository {
+  constructor(store: DataStore) {
+    super(store, 'stories', { dateFields: ['createdAt'], migrate: migrateStory });
+  }
+
+  save(story: Story): Story {
+    const record: Story = { ...story, scenes: [] };
+    this.store.put(this.collection, record);
+    return story;
+  }
+}
+
+/**
+ * Converte o diálogo em texto das amostras visuais em falas
+ * 
+ * @param {any} story - História gravada
+ * @returns {Story} A história com as amostras no formato atual
+ */
+function migrateStory(story: any): Story {
+  const migrateSample = (sample: any) => ({ ...sample, dialogue: normalizeDialogue(sample.dialogue) });
+  return {
+    ...story,
+    visualSamples: Array.isArray(story.visualSamples) ? story.visualSamples.map(migrateSample) : story.visualSamples,
+    selectedVisualSample: story.selectedVisualSample ? migrateSample(story.selectedVisualSample) : story.selectedVisualSample
+  };
+}
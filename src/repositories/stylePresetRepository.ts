@@ -0,0 +1,14 @@
+/**
+ * Repositório de presets de estilo visual
+ */
+
+import { StylePreset } from '../models/StylePreset';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { StylePresetRepository } from './types';
+
+export class StylePresetCollectionRepository extends CollectionRepository<StylePreset> implements StylePresetRepository {
+  constructor(store: DataStore) {
+    super(store, 'stylePresets', { dateFields: ['createdAt'] });
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Interfaces dos repositórios de dados
+ * Separam os controladores da forma como os dados são armazenados
+ */
+
+import { Story } from '../models/Story';
+import { Scene } from '../models/Scene';
+import { Job, JobStatus } from '../models/Job';
+import { Asset } from '../models/Asset';
+import { Character } from '../models/Character';
+import { Revision, RevisionEntityType } from '../models/Revision';
+import { StylePreset } from '../models/StylePreset';
+import { Session, User } from '../models/User';
+import { UsageRecord } from '../models/Usage';
+import { ModerationFlag, ModerationFlagStatus } from '../models/Moderation';
+import { PromptTemplateName, PromptTemplateVersion } from '../models/PromptTemplate';
+
+/**
+ * Operações básicas de um repositório de registros identificados por ID
+ * Os registros retornados são cópias; alterações precisam ser gravadas com save ou update
+ * 
+ * @interface Repository
+ */
+export interface Repository<T extends { id: string }> {
+  findAll(): T[];
+  findById(id: string): T | undefined;
+  find(predicate: (entity: T) => boolean): T[];
+  save(entity: T): T;
+  update(id: string, changes: Partial<T>): T | undefined;
+  delete(id: string): boolean;
+}
+
+/**
+ * Repositório de histórias
+ * As cenas não são armazenadas junto da história, e sim no SceneRepository
+ * 
+ * @interface StoryRepository
+ */
+export interface StoryRepository extends Repository<Story> {}
+
+/**
+ * Repositório de cenas
+ * 
+ * @interface SceneRepository
+ */
+export interface SceneRepository extends Repository<Scene> {
+  findByStory(storyId: string): Scene[];
+  deleteByStory(storyId: string): number;
+  clear(): void;
+}
+
+/**
+ * Repositório de jobs em segundo plano
+ * 
+ * @interface JobRepository
+ */
+export interface JobRepository extends Repository<Job> {
+  findByStory(storyId: string): Job[];
+  findByStatus(status: JobStatus): Job[];
+}
+
+/**
+ * Repositório dos metadados de assets
+ * 
+ * @interface AssetRepository
+ */
+export interface AssetRepository extends Repository<Asset> {}
+
+/**
+ * Repositório de personagens
+ * 
+ * @interface CharacterRepository
+ */
+export interface CharacterRepository extends Repository<Character> {
+  findByStory(storyId: string): Character[];
+  deleteByStory(storyId: string): number;
+}
+
+/**
+ * Repositório de revisões de cenas e histórias
+ * 
+ * @interface RevisionRepository
+ */
+export interface RevisionRepository extends Repository<Revision> {
+  findByEntity(entityType: RevisionEntityType, entityId: string): Revision[];
+  deleteByEntity(entityType: RevisionEntityType, entityId: string): number;
+  deleteByStory(storyId: string): number;
+}
+
+/**
+ * Repositório de presets de estilo visual
+ * 
+ * @interface StylePresetRepository
+ */
+export interface StylePresetRepository extends Repository<StylePreset> {}
+
+/**
+ * Repositório de usuários
+ * 
+ * @interface UserRepository
+ */
+export interface UserRepository extends Repository<User> {
+  findByUsername(username: string): User | undefined;
+}
+
+/**
+ * Repositório de sessões de login
+ * 
+ * @interface SessionRepository
+ */
+export interface SessionRepository extends Repository<Session> {
+  deleteExpired(now: Date): number;
+}
+
+/**
+ * Repositório dos registros de consumo da API
+ * 
+ * @interface UsageRepository
+ */
+export interface UsageRepository extends Repository<UsageRecord> {
+  findByStory(storyId: string): UsageRecord[];
+  findByUser(userId: string, since?: Date): UsageRecord[];
+}
+
+/**
+ * Repositório dos conteúdos sinalizados pela moderação
+ * 
+ * @interface ModerationFlagRepository
+ */
+export interface ModerationFlagRepository extends Repository<ModerationFlag> {
+  findByStatus(status: ModerationFlagStatus): ModerationFlag[];
+  findByStory(storyId: string): ModerationFlag[];
+}
+
+/**
+ * Repositório das versões dos templates de prompt
+ * 
+ * @interface PromptTemplateRepository
+ */
+export interface PromptTemplateRepository extends Repository<PromptTemplateVersion> {
+  findVersions(name: PromptTemplateName, storyId?: string): PromptTemplateVersion[];
+  findLatest(name: PromptTemplateName, storyId?: string): PromptTemplateVersion | undefined;
+  deleteVersions(name: PromptTemplateName, storyId?: string): number;
+  deleteByStory(storyId: string): number;
+}
+
+/**
+ * Unidade de trabalho que agrupa alterações em múltiplos repositórios
+ * Se a função lançar um erro, todas as alterações feitas dentro dela são desfeitas
+ * 
+ * @interface UnitOfWork
+ */
+export interface UnitOfWork {
+  transaction<T>(work: () => T): T;
+}
@@ -0,0 +1,39 @@
+/**
+ * Repositório dos registros de consumo da API
+ */
+
+import { UsageRecord } from '../models/Usage';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { UsageRepository } from './types';
+
+/**
+ * Armazena os registros de consumo na ordem das chamadas
+ */
+export class UsageCollectionRepository extends CollectionRepository<UsageRecord> implements UsageRepository {
+  constructor(store: DataStore) {
+    // Cada chamada aos provedores gera um registro, então as gravações são agrupadas
+    super(store, 'usage', { dateFields: ['createdAt'], writeDelayMs: 1000 });
+  }
+
+  /**
+   * Obtém os registros de consumo de uma história
+   * 
+   * @param {string} storyId - ID da história
+   * @returns {UsageRecord[]} Registros na ordem das chamadas
+   */
+  findByStory(storyId: string): UsageRecord[] {
+    return this.find(record => record.storyId === storyId);
+  }
+
+  /**
+   * Obtém os registros de consumo de um usuário a partir de uma data
+   * 
+   * @param {string} userId - ID do usuário
+   * @param {Date} [since] - Data inicial (opcional, padrão: todos os registros)
+   * @returns {UsageRecord[]} Registros na ordem das chamadas
+   */
+  findByUser(userId: string, since?: Date): UsageRecord[] {
+    return this.find(record => record.userId === userId && (!since || record.createdAt.getTime() >= since.getTime()));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Repositórios de usuários e sessões de login
+ */
+
+import { Session, User } from '../models/User';
+import { CollectionRepository } from './collectionRepository';
+import { DataStore } from './dataStore';
+import { SessionRepository, UserRepository } from './types';
+
+/**
+ * Armazena os usuários cadastrados
+ */
+export class UserCollectionRepository extends CollectionRepository<User> implements UserRepository {
+  constructor(store: DataStore) {
+    super(store, 'users', { dateFields: ['createdAt'] });
+  }
+
+  /**
+   * Obtém um usuário pelo nome de login
+   * 
+   * @param {string} username - Nome de login, sem diferença de maiúsculas
+   * @returns {User | undefined} O usuário encontrado
+   */
+  findByUsername(username: string): User | undefined {
+    const normalized = username.trim().toLowerCase();
+    return this.find(user => user.username === normalized)[0];
+  }
+}
+
+/**
+ * Armazena as sessões de login
+ */
+export class SessionCollectionRepository extends CollectionRepository<Session> implements SessionRepository {
+  constructor(store: DataStore) {
+    super(store, 'sessions', { dateFields: ['createdAt', 'expiresAt'] });
+  }
+
+  /**
+   * Remove as sessões expiradas
+   * 
+   * @param {Date} now - Data de referência
+   * @returns {number} Quantidade de sessões removidas
+   */
+  deleteExpired(now: Date): number {
+    return this.store.transaction(() =>
+      this.find(session => session.expiresAt.getTime() <= now.getTime()).filter(session => this.delete(session.id)).length
+    );
+  }
+}
@@ -1,35 +1,297 @@
 /**
  * Definição das rotas da API para o sistema de histórias
  * Gerencia endpoints para criar, ler, atualizar e excluir histórias e cenas
+ * Exceto cadastro, login e idiomas, todas as rotas exigem uma sessão, e as rotas de uma história
+ * verificam o papel do usuário nela (dono, editor ou leitor); as rotas de moderação e dos templates
+ * de prompt globais são exclusivas dos administradores
+ * Os parâmetros, a query e o corpo são validados com os esquemas de ./schemas; os erros lançados
+ * pelas rotas e pelos controladores são respondidos pelo middleware de erros
  */
 
 import express from 'express';
 import * as storyController from '../controllers/storyController';
 import * as sceneController from '../controllers/sceneController';
+import * as jobController from '../controllers/jobController';
+import * as assetController from '../controllers/assetController';
+import * as characterController from '../controllers/characterController';
+import * as exportController from '../controllers/exportController';
+import * as bundleController from '../controllers/bundleController';
+import * as tweeController from '../controllers/tweeController';
+import * as revisionController from '../controllers/revisionController';
+import * as translationController from '../controllers/translationController';
+import * as stylePresetController from '../controllers/stylePresetController';
+import * as userController from '../controllers/userController';
+import * as accessController from '../controllers/accessController';
+import * as usageController from '../controllers/usageController';
+import * as moderationController from '../controllers/moderationController';
+import * as promptTemplateController from '../controllers/promptTemplateController';
+import {
+  clearSessionCookie,
+  getCurrentUser,
+  getSessionToken,
+  loadUser,
+  requireAdmin,
+  requireAssetAccess,
+  requireAuth,
+  requireStoryAccess,
+  setSessionCookie
+} from '../middleware/auth';
+import { requireBudget, trackUsage } from '../middleware/usage';
+import { validate } from '../middleware/validation';
+import { asyncHandler, toAppError } from '../middleware/errors';
+import {
+  AddDialogueLineBody,
+  AddDialogueLineBodySchema,
+  AssetGarbageBody,
+  AssetGarbageBodySchema,
+  AssetParamsSchema,
+  CreateCharacterBodySchema,
+  CreateStoryBody,
+  CreateStoryBodySchema,
+  CreateStylePresetBody,
+  CreateStylePresetBodySchema,
+  DialogueLineParams,
+  DialogueLineParamsSchema,
+  DiffRevisionsQuery,
+  DiffRevisionsQuerySchema,
+  GenerateScenesBody,
+  GenerateScenesBodySchema,
+  InsertSceneBody,
+  InsertSceneBodySchema,
+  LoginBody,
+  LoginBodySchema,
+  MergeScenesBody,
+  MergeScenesBodySchema,
+  ModerationFlagsQuery,
+  ModerationFlagsQuerySchema,
+  PromptTemplateBody,
+  PromptTemplateBodySchema,
+  PromptTemplateParams,
+  PromptTemplateParamsSchema,
+  ProposalBody,
+  ProposalBodySchema,
+  RecordParamsSchema,
+  RegenerateImageBody,
+  RegenerateImageBodySchema,
+  RegisterBody,
+  RegisterBodySchema,
+  ReorderScenesBody,
+  ReorderScenesBodySchema,
+  RestorePromptTemplateBody,
+  RestorePromptTemplateBodySchema,
+  RestoreRevisionBody,
+  RestoreRevisionBodySchema,
+  ReviewModerationFlagBody,
+  ReviewModerationFlagBodySchema,
+  RewriteSceneBody,
+  RewriteSceneBodySchema,
+  SceneCounts,
+  SceneCountsSchema,
+  SelectVisualBody,
+  SelectVisualBodySchema,
+  ShareParamsSchema,
+  ShareStoryBody,
+  ShareStoryBodySchema,
+  SplitSceneBody,
+  SplitSceneBodySchema,
+  StoryBudgetBody,
+  StoryBudgetBodySchema,
+  StoryPromptTemplateParamsSchema,
+  StoryStyleBody,
+  StoryStyleBodySchema,
+  StylePresetParamsSchema,
+  TranslateStoryBody,
+  TranslateStoryBodySchema,
+  TweeImportBody,
+  TweeImportBodySchema,
+  UpdateCharacterBodySchema,
+  UpdateDialogueLineBody,
+  UpdateDialogueLineBodySchema,
+  UpdateSceneBodySchema,
+  UpdateStylePresetBody,
+  UpdateStylePresetBodySchema,
+  VisualSamplesBody,
+  VisualSamplesBodySchema
+} from './schemas';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { openEventStream } from '../utils/sse';
+import { SUPPORTED_LANGUAGES } from '../utils/languages';
+import { isImageMimeType } from '../utils/imageContent';
 
 const router = express.Router();
 
+// Validação das rotas que recebem apenas o ID de um registro
+const validateRecordId = validate({ params: RecordParamsSchema });
+const validateStylePresetId = validate({ params: StylePresetParamsSchema });
+const validateAssetId = validate({ params: AssetParamsSchema });
+const validatePromptTemplateName = validate({ params: PromptTemplateParamsSchema });
+const validateStoryPromptTemplateName = validate({ params: StoryPromptTemplateParamsSchema });
+
+// Identifica o usuário da sessão em todas as rotas
+router.use(loadUser);
+
+/**
+ * Rota para cadastrar um usuário e iniciar uma sessão
+ * POST /api/auth/register
+ * 
+ * @body {string} username - Nome de login (3 a 32 caracteres: letras, números, ponto, hífen ou sublinhado)
+ * @body {string} password - Senha (pelo menos 8 caracteres)
+ * @returns {Object} Usuário criado, token e expiração da sessão (status 201)
+ */
+router.post('/auth/register', validate({ body: RegisterBodySchema }), asyncHandler(async (req, res) => {
+  const { username, password } = req.body as RegisterBody;
+
+  await userController.registerUser(username, password);
+  const session = await userController.login(username, password);
+  if (!session) throw new Error('Erro ao iniciar a sessão');
+
+  setSessionCookie(res, session.token, session.expiresAt);
+  res.status(201).json(session);
+}));
+
+/**
+ * Rota para iniciar uma sessão
+ * POST /api/auth/login
+ * O token é gravado em um cookie e também devolvido, para clientes que usam o cabeçalho Authorization
+ * 
+ * @body {string} username - Nome de login
+ * @body {string} password - Senha
+ * @returns {Object} Usuário, token e expiração da sessão
+ */
+router.post('/auth/login', validate({ body: LoginBodySchema }), asyncHandler(async (req, res) => {
+  const { username, password } = req.body as LoginBody;
+
+  const session = await userController.login(username, password);
+  if (!session) throw new AuthenticationError('Usuário ou senha incorretos', 'INVALID_CREDENTIALS');
+
+  setSessionCookie(res, session.token, session.expiresAt);
+  res.json(session);
+}));
+
+/**
+ * Rota para listar os idiomas suportados
+ * GET /api/languages
+ * 
+ * @returns {StoryLanguage[]} Código e nome de cada idioma
+ */
+router.get('/languages', (req, res) => {
+  res.json(SUPPORTED_LANGUAGES);
+});
+
+// As demais rotas exigem uma sessão válida
+router.use(requireAuth);
+
+/**
+ * Rota para encerrar a sessão atual
+ * POST /api/auth/logout
+ */
+router.post('/auth/logout', (req, res) => {
+  const token = getSessionToken(req);
+  if (token) userController.logout(token);
+
+  clearSessionCookie(res);
+  res.status(204).end();
+});
+
+/**
+ * Rota para obter o usuário da sessão
+ * GET /api/auth/me
+ * 
+ * @returns {Object} O usuário autenticado, com isAdmin indicando se ele é administrador
+ */
+router.get('/auth/me', (req, res) => {
+  const user = getCurrentUser(req);
+  res.json({ ...user, isAdmin: userController.isAdmin(user) });
+});
+
+/**
+ * Rota para obter o consumo da API do usuário no mês atual
+ * GET /api/usage
+ * 
+ * @returns {UsageReport} Tokens, imagens e custo do mês, por tarefa, e a situação do orçamento mensal
+ */
+router.get('/usage', (req, res) => {
+  res.json(usageController.getUserUsage(getCurrentUser(req).id));
+});
+
 /**
  * Rota para criar nova história
  * POST /api/stories
  * 
  * @body {string} briefing - Briefing inicial da história
+ * @body {string} language - Idioma da história, no formato BCP 47 (opcional, padrão: pt-BR)
  * @returns {Story} A história criada
  */
-router.post('/stories', async (req, res) => {
-  try {
-    const { briefing } = req.body;
-    
-    if (!briefing || briefing.trim() === '') {
-      return res.status(400).json({ error: 'Briefing é obrigatório' });
-    }
-    
-    const story = await storyController.createStory(briefing);
-    res.json(story);
-  } catch (error: any) {
-    console.error('Erro ao criar história:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
-  }
+router.post('/stories', validate({ body: CreateStoryBodySchema }), trackUsage(), requireBudget, asyncHandler(async (req, res) => {
+  const { briefing, language } = req.body as CreateStoryBody;
+
+  const story = await storyController.createStory(briefing, language, getCurrentUser(req).id);
+  res.json(story);
+}));
+
+/**
+ * Rota para criar uma cópia traduzida de uma história
+ * POST /api/stories/:id/translate
+ * A tradução pertence a quem a pediu, então o consumo e o orçamento são os desse usuário, e não os da história original
+ * 
+ * @param {string} id - ID da história original
+ * @body {string} language - Idioma de destino, no formato BCP 47
+ * @returns {Story} A história traduzida, ligada à original (status 201)
+ */
+router.post('/stories/:id/translate', validate({ params: RecordParamsSchema, body: TranslateStoryBodySchema }), requireStoryAccess('viewer'), trackUsage(), requireBudget, asyncHandler(async (req, res) => {
+  const { language } = req.body as TranslateStoryBody;
+
+  const translated = await translationController.translateStory(req.params.id, language, getCurrentUser(req).id);
+  res.status(201).json(translated);
+}));
+
+/**
+ * Rota para listar as versões de uma história em outros idiomas
+ * GET /api/stories/:id/translations
+ * 
+ * @param {string} id - ID da história
+ * @returns {StoryTranslationSummary[]} A história original e as traduções ligadas a ela
+ */
+router.get('/stories/:id/translations', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(translationController.getStoryTranslations(req.params.id, getCurrentUser(req).id));
+});
+
+/**
+ * Rota para listar os usuários com quem uma história foi compartilhada
+ * GET /api/stories/:id/shares
+ * 
+ * @param {string} id - ID da história
+ * @returns {StoryShareSummary[]} Usuários e seus papéis na história
+ */
+router.get('/stories/:id/shares', validateRecordId, requireStoryAccess('owner'), (req, res) => {
+  res.json(accessController.getStoryShares(req.params.id));
+});
+
+/**
+ * Rota para compartilhar uma história com outro usuário, ou alterar o papel dele
+ * PUT /api/stories/:id/shares
+ * Apenas o dono da história pode compartilhá-la
+ * 
+ * @param {string} id - ID da história
+ * @body {string} username - Nome de login do usuário
+ * @body {string} role - Papel concedido: viewer (leitura) ou editor
+ * @returns {StoryShareSummary[]} Compartilhamentos atualizados
+ */
+router.put('/stories/:id/shares', validate({ params: RecordParamsSchema, body: ShareStoryBodySchema }), requireStoryAccess('owner'), (req, res) => {
+  const { username, role } = req.body as ShareStoryBody;
+  res.json(accessController.shareStory(req.params.id, username, role));
+});
+
+/**
+ * Rota para remover o acesso de um usuário a uma história
+ * DELETE /api/stories/:id/shares/:userId
+ * 
+ * @param {string} id - ID da história
+ * @param {string} userId - ID do usuário
+ * @returns {StoryShareSummary[]} Compartilhamentos atualizados
+ */
+router.delete('/stories/:id/shares/:userId', validate({ params: ShareParamsSchema }), requireStoryAccess('owner'), (req, res) => {
+  res.json(accessController.unshareStory(req.params.id, req.params.userId));
 });
 
 /**
@@ -37,25 +299,55 @@ router.post('/stories', async (req, res) => {
  * POST /api/stories/:id/style
  * 
  * @param {string} id - ID da história
- * @body {string} style - Estilo visual desejado
- * @body {number} sampleCount - Número de amostras a serem geradas (opcional)
+ * @body {string} style - Estilo visual desejado (opcional quando há preset)
+ * @body {string} stylePresetId - ID do preset de estilo (opcional)
+ * @body {number} sampleCount - Número de amostras a serem geradas (opcional, 1 a 5, padrão: 3)
  * @returns {Object} Objeto com amostras de estilo geradas
  */
-router.post('/stories/:id/style', async (req, res) => {
-  try {
-    const { style, sampleCount } = req.body;
-    
-    if (!style || style.trim() === '') {
-      return res.status(400).json({ error: 'Estilo visual é obrigatório' });
-    }
-    
-    const count = sampleCount || 3;
-    const styleSamples = await storyController.setStoryStyle(req.params.id, style, count);
-    res.json({ styleSamples });
-  } catch (error: any) {
-    console.error('Erro ao definir estilo visual:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
-  }
+router.post('/stories/:id/style', validate({ params: RecordParamsSchema, body: StoryStyleBodySchema }), requireStoryAccess('editor'), trackUsage('story'), requireBudget, asyncHandler(async (req, res) => {
+  const { style, stylePresetId, sampleCount } = req.body as StoryStyleBody;
+
+  const styleSamples = await storyController.setStoryStyle(req.params.id, style || '', sampleCount, stylePresetId);
+  res.json({ styleSamples });
+}));
+
+/**
+ * Rota para estimar o custo da geração de cenas, sem gerar nada
+ * POST /api/stories/:id/scenes/estimate
+ * 
+ * @param {string} id - ID da história
+ * @body {number} numScenes - Número de cenas a serem geradas
+ * @body {number} decisionPoints - Número de pontos de decisão (opcional)
+ * @returns {SceneGenerationEstimate} Tokens, imagens, custo esperado e no pior caso, e situação dos orçamentos
+ */
+router.post('/stories/:id/scenes/estimate', validate({ params: RecordParamsSchema, body: SceneCountsSchema }), requireStoryAccess('editor'), (req, res) => {
+  const { numScenes, decisionPoints } = req.body as SceneCounts;
+  res.json(storyController.estimateStoryScenes(req.params.id, numScenes, decisionPoints, getCurrentUser(req).id));
+});
+
+/**
+ * Rota para obter o consumo da API de uma história
+ * GET /api/stories/:id/usage
+ * 
+ * @param {string} id - ID da história
+ * @returns {UsageReport} Tokens, imagens e custo da história, por tarefa, e a situação do orçamento dela
+ */
+router.get('/stories/:id/usage', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(usageController.getStoryUsage(req.params.id));
+});
+
+/**
+ * Rota para definir o limite de gastos de uma história
+ * PUT /api/stories/:id/budget
+ * Apenas o dono da história pode alterar o limite
+ * 
+ * @param {string} id - ID da história
+ * @body {number | null} budgetUsd - Limite em dólares, ou null para usar o limite padrão
+ * @returns {BudgetStatus} Situação do orçamento atualizado
+ */
+router.put('/stories/:id/budget', validate({ params: RecordParamsSchema, body: StoryBudgetBodySchema }), requireStoryAccess('owner'), (req, res) => {
+  const { budgetUsd } = req.body as StoryBudgetBody;
+  res.json(usageController.setStoryBudget(req.params.id, budgetUsd));
 });
 
 /**
@@ -65,32 +357,80 @@ router.post('/stories/:id/style', async (req, res) => {
  * @param {string} id - ID da história
  * @body {number} numScenes - Número de cenas a serem geradas
  * @body {string} samplePrompt - Prompt de exemplo (opcional)
- * @returns {Object} Objeto com cenas geradas
+ * @body {number} decisionPoints - Número de pontos de decisão para história ramificada (opcional)
+ * @returns {Object} Objeto com cenas geradas, cena inicial, validação do grafo e progresso das imagens enfileiradas
+ */
+router.post('/stories/:id/scenes', validate({ params: RecordParamsSchema, body: GenerateScenesBodySchema }), requireStoryAccess('editor'), trackUsage('story'), requireBudget, asyncHandler(async (req, res) => {
+  const { numScenes, samplePrompt, decisionPoints } = req.body as GenerateScenesBody;
+
+  // Gerar cenas com o número exato solicitado
+  const scenes = await storyController.generateStoryScenes(req.params.id, numScenes, samplePrompt, decisionPoints);
+
+  // Verificar se o número de cenas geradas corresponde ao solicitado
+  if (scenes.length !== numScenes) {
+    console.warn(`Atenção: Foram solicitadas ${numScenes} cenas, mas foram geradas ${scenes.length}.`);
+  }
+
+  // Validar o grafo da história para apontar cenas inalcançáveis ou sem saída
+  const { graph, validation } = storyController.getStoryGraph(req.params.id);
+  if (!validation.valid) {
+    console.warn('Grafo da história gerada possui problemas:', validation.issues.map(issue => issue.message));
+  }
+
+  res.json({ scenes, startSceneId: graph.startSceneId, validation, imageJobs: jobController.getStoryJobs(req.params.id).progress });
+}));
+
+/**
+ * Rota para gerar cenas em streaming (Server-Sent Events)
+ * POST /api/stories/:id/scenes/stream
+ * A geração tem custo, então a rota usa POST com corpo JSON, que não pode ser disparado por links ou EventSource de outras páginas
+ * 
+ * Eventos enviados:
+ * - token: trecho de texto gerado pelo modelo ({ text })
+ * - scene: cena completa assim que interpretada, ainda não gravada ({ index, scene })
+ * - retry: resposta inválida, uma nova tentativa começou ({ attempt, issues })
+ * - scenes: cenas gravadas com IDs, cena inicial e validação do grafo ({ scenes, startSceneId, validation })
+ * - image: job de imagem de uma cena concluído ({ index, jobId, sceneId, status, imageUrl })
+ * - summary: resumo final ({ sceneCount, imageCount, failedImages, durationMs })
+ * - failure: erro que interrompeu a geração, no formato das respostas de erro ({ error, code, issues })
+ * 
+ * @param {string} id - ID da história
+ * @body {number} numScenes - Número de cenas a serem geradas
+ * @body {number} decisionPoints - Número de pontos de decisão (opcional)
  */
-router.post('/stories/:id/scenes', async (req, res) => {
+router.post('/stories/:id/scenes/stream', validate({ params: RecordParamsSchema, body: SceneCountsSchema }), requireStoryAccess('editor'), trackUsage('story'), requireBudget, asyncHandler(async (req, res) => {
+  const { numScenes, decisionPoints } = req.body as SceneCounts;
+
+  const stream = openEventStream(res);
+  const startedAt = Date.now();
+  let imageCount = 0;
+  let failedImages = 0;
+
   try {
-    const { numScenes, samplePrompt } = req.body;
-    
-    // Validar número de cenas
-    const parsedNumScenes = parseInt(numScenes);
-    if (isNaN(parsedNumScenes) || parsedNumScenes < 3 || parsedNumScenes > 15) {
-      return res.status(400).json({ error: 'Número de cenas deve estar entre 3 e 15' });
-    }
-    
-    // Gerar cenas com o número exato solicitado
-    const scenes = await storyController.generateStoryScenes(req.params.id, parsedNumScenes, samplePrompt);
-    
-    // Verificar se o número de cenas geradas corresponde ao solicitado
-    if (scenes.length !== parsedNumScenes) {
-      console.warn(`Atenção: Foram solicitadas ${parsedNumScenes} cenas, mas foram geradas ${scenes.length}.`);
-    }
-    
-    res.json({ scenes });
+    const scenes = await storyController.generateStoryScenes(req.params.id, numScenes, undefined, decisionPoints, {
+      onToken: text => stream.send('token', { text }),
+      onScene: (scene, index) => stream.send('scene', { index, scene }),
+      onRetry: (attempt, issues) => stream.send('retry', { attempt, issues }),
+      onScenesSaved: savedScenes => {
+        const { graph, validation } = storyController.getStoryGraph(req.params.id);
+        stream.send('scenes', { scenes: savedScenes, startSceneId: graph.startSceneId, validation });
+      },
+      onImage: (job, index) => {
+        const imageUrl = job.result ? job.result.imageUrl : '';
+        imageCount++;
+        if (job.status !== 'done') failedImages++;
+        stream.send('image', { index, jobId: job.id, sceneId: job.sceneId, status: job.status, imageUrl, error: job.error });
+      },
+    });
+
+    stream.send('summary', { sceneCount: scenes.length, imageCount, failedImages, durationMs: Date.now() - startedAt });
   } catch (error: any) {
-    console.error('Erro ao gerar cenas:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
+    console.error('Erro ao gerar cenas em streaming:', error);
+    stream.send('failure', toAppError(error).toResponse());
+  } finally {
+    stream.close();
   }
-});
+}));
 
 /**
  * Rota para obter história completa
@@ -99,128 +439,733 @@ router.post('/stories/:id/scenes', async (req, res) => {
  * @param {string} id - ID da história
  * @returns {Story} A história completa com suas cenas
  */
-router.get('/stories/:id', (req, res) => {
-  try {
-    const story = storyController.getStory(req.params.id);
-    res.json(story);
-  } catch (error: any) {
-    console.error('Erro ao obter história:', error);
-    res.status(404).json({ error: error.message || 'História não encontrada' });
+router.get('/stories/:id', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(storyController.getStory(req.params.id));
+});
+
+/**
+ * Rota para listar os jobs em segundo plano de uma história
+ * GET /api/stories/:id/jobs
+ * 
+ * @param {string} id - ID da história
+ * @returns {Object} Objeto com os jobs e a contagem por estado
+ */
+router.get('/stories/:id/jobs', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(jobController.getStoryJobs(req.params.id));
+});
+
+/**
+ * Rota para enfileirar a geração de imagens de todas as cenas
+ * POST /api/stories/:id/images
+ * 
+ * @param {string} id - ID da história
+ * @returns {Object} Objeto com os jobs criados (status 202)
+ */
+router.post('/stories/:id/images', validateRecordId, requireStoryAccess('editor'), trackUsage('story'), requireBudget, (req, res) => {
+  const story = storyController.getStory(req.params.id);
+  if (!story.style) {
+    throw new ValidationError('Defina um estilo visual antes de gerar as imagens', [], 'STORY_STYLE_REQUIRED');
   }
+
+  const jobs = sceneController.generateImagesForStory(story.id, story.style, getCurrentUser(req).username);
+  res.status(202).json({ jobs });
+});
+
+/**
+ * Rota para enfileirar novamente as imagens que falharam ou que ainda não foram geradas
+ * POST /api/stories/:id/images/retry-failed
+ * 
+ * @param {string} id - ID da história
+ * @returns {Object} Objeto com os jobs criados (status 202), vazio se nenhuma imagem precisar ser gerada
+ */
+router.post('/stories/:id/images/retry-failed', validateRecordId, requireStoryAccess('editor'), trackUsage('story'), requireBudget, (req, res) => {
+  const story = storyController.getStory(req.params.id);
+  if (!story.style) {
+    throw new ValidationError('Defina um estilo visual antes de gerar as imagens', [], 'STORY_STYLE_REQUIRED');
+  }
+
+  const jobs = sceneController.retryFailedImages(story.id, story.style, getCurrentUser(req).username);
+  res.status(202).json({ jobs });
+});
+
+/**
+ * Rota para obter o grafo de navegação da história
+ * GET /api/stories/:id/graph
+ * 
+ * @param {string} id - ID da história
+ * @returns {Object} Objeto com o grafo e o resultado da validação
+ */
+router.get('/stories/:id/graph', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(storyController.getStoryGraph(req.params.id));
+});
+
+/**
+ * Rota para listar os personagens de uma história
+ * GET /api/stories/:id/characters
+ * 
+ * @param {string} id - ID da história
+ * @returns {Character[]} Fichas dos personagens
+ */
+router.get('/stories/:id/characters', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(characterController.getCharactersByStory(req.params.id));
 });
 
 /**
- * Rota para listar todas as histórias
+ * Rota para criar um personagem manualmente
+ * POST /api/stories/:id/characters
+ * 
+ * @param {string} id - ID da história
+ * @body {string} name - Nome do personagem
+ * @body {string} role - Papel na história (opcional)
+ * @body {string} physicalDescription - Aparência física (opcional)
+ * @body {string} clothing - Roupas e acessórios (opcional)
+ * @body {string} personality - Personalidade (opcional)
+ * @body {string} speechStyle - Forma de falar (opcional)
+ * @returns {Character} O personagem criado
+ */
+router.post('/stories/:id/characters', validate({ params: RecordParamsSchema, body: CreateCharacterBodySchema }), requireStoryAccess('editor'), (req, res) => {
+  res.json(characterController.createCharacter(req.params.id, req.body));
+});
+
+/**
+ * Rota para extrair novamente os personagens a partir da proposta
+ * POST /api/stories/:id/characters/extract
+ * Substitui as fichas existentes, inclusive as editadas manualmente
+ * 
+ * @param {string} id - ID da história
+ * @returns {Character[]} Os personagens extraídos
+ */
+router.post('/stories/:id/characters/extract', validateRecordId, requireStoryAccess('editor'), trackUsage('story'), requireBudget, asyncHandler(async (req, res) => {
+  res.json(await characterController.extractStoryCharacters(req.params.id));
+}));
+
+/**
+ * Rota para atualizar a ficha de um personagem
+ * PUT /api/characters/:id
+ * 
+ * @param {string} id - ID do personagem
+ * @body {Object} Objeto com campos a serem atualizados
+ * @returns {Character} O personagem atualizado
+ */
+router.put('/characters/:id', validate({ params: RecordParamsSchema, body: UpdateCharacterBodySchema }), requireStoryAccess('editor', 'character'), (req, res) => {
+  res.json(characterController.updateCharacter(req.params.id, req.body));
+});
+
+/**
+ * Rota para remover um personagem
+ * DELETE /api/characters/:id
+ * As cenas deixam de referenciar o personagem removido
+ * 
+ * @param {string} id - ID do personagem
+ */
+router.delete('/characters/:id', validateRecordId, requireStoryAccess('editor', 'character'), (req, res) => {
+  characterController.deleteCharacter(req.params.id);
+  res.status(204).end();
+});
+
+/**
+ * Rota para listar as histórias do usuário
  * GET /api/stories
  * 
- * @returns {Story[]} Array de todas as histórias
+ * @returns {Story[]} Histórias próprias e compartilhadas com o usuário
  */
 router.get('/stories', (req, res) => {
-  const stories = storyController.getAllStories();
+  const stories = storyController.getAllStories(getCurrentUser(req).id);
   res.json(stories);
 });
 
+/**
+ * Rota para obter uma cena específica
+ * GET /api/scenes/:id
+ * 
+ * @param {string} id - ID da cena
+ * @returns {Scene} A cena encontrada
+ */
+router.get('/scenes/:id', validateRecordId, requireStoryAccess('viewer', 'scene'), (req, res) => {
+  res.json(sceneController.getScene(req.params.id));
+});
+
 /**
  * Rota para atualizar uma cena específica
  * PUT /api/scenes/:id
  * 
  * @param {string} id - ID da cena
- * @body {Object} Objeto com campos a serem atualizados
+ * @body {Object} Objeto com campos a serem atualizados; o diálogo pode ser uma lista de falas ou um texto
  * @returns {Scene} A cena atualizada
  */
-router.put('/scenes/:id', async (req, res) => {
-  try {
-    const updates = req.body;
-    const updatedScene = await sceneController.updateScene(req.params.id, updates);
-    res.json(updatedScene);
-  } catch (error: any) {
-    console.error('Erro ao atualizar cena:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
+router.put('/scenes/:id', validate({ params: RecordParamsSchema, body: UpdateSceneBodySchema }), requireStoryAccess('editor', 'scene'), asyncHandler(async (req, res) => {
+  const updatedScene = await sceneController.updateScene(req.params.id, req.body, getCurrentUser(req).username);
+  res.json(updatedScene);
+}));
+
+/**
+ * Rota para adicionar uma fala ao diálogo de uma cena
+ * POST /api/scenes/:id/dialogue
+ * 
+ * @param {string} id - ID da cena
+ * @body {string} speaker - Nome de quem fala (opcional, vazio para falas sem personagem)
+ * @body {string} text - Texto da fala
+ * @body {string} direction - Emoção ou indicação de cena (opcional)
+ * @body {number} position - Posição da fala no diálogo (opcional, padrão: final do diálogo)
+ * @returns {Scene} A cena atualizada (status 201)
+ */
+router.post('/scenes/:id/dialogue', validate({ params: RecordParamsSchema, body: AddDialogueLineBodySchema }), requireStoryAccess('editor', 'scene'), (req, res) => {
+  const { position, ...line } = req.body as AddDialogueLineBody;
+  res.status(201).json(sceneController.addDialogueLine(req.params.id, line, position, getCurrentUser(req).username));
+});
+
+/**
+ * Rota para alterar uma fala do diálogo de uma cena
+ * PUT /api/scenes/:id/dialogue/:index
+ * 
+ * @param {string} id - ID da cena
+ * @param {number} index - Posição da fala no diálogo, a partir de zero
+ * @body {string} speaker, text, direction - Campos da fala a alterar (opcionais; direção vazia remove a direção)
+ * @returns {Scene} A cena atualizada
+ */
+router.put('/scenes/:id/dialogue/:index', validate({ params: DialogueLineParamsSchema, body: UpdateDialogueLineBodySchema }), requireStoryAccess('editor', 'scene'), (req, res) => {
+  const { index } = req.params as unknown as DialogueLineParams;
+  const changes = req.body as UpdateDialogueLineBody;
+  res.json(sceneController.updateDialogueLine(req.params.id, index, changes, getCurrentUser(req).username));
+});
+
+/**
+ * Rota para remover uma fala do diálogo de uma cena
+ * DELETE /api/scenes/:id/dialogue/:index
+ * 
+ * @param {string} id - ID da cena
+ * @param {number} index - Posição da fala no diálogo, a partir de zero
+ * @returns {Scene} A cena atualizada
+ */
+router.delete('/scenes/:id/dialogue/:index', validate({ params: DialogueLineParamsSchema }), requireStoryAccess('editor', 'scene'), (req, res) => {
+  const { index } = req.params as unknown as DialogueLineParams;
+  res.json(sceneController.deleteDialogueLine(req.params.id, index, getCurrentUser(req).username));
+});
+
+/**
+ * Rota para pedir à IA uma reescrita de uma cena, seguindo uma instrução
+ * POST /api/scenes/:id/rewrite
+ * A cena não é alterada: para aceitar a proposta, envie os textos propostos para PUT /api/scenes/:id
+ * 
+ * @param {string} id - ID da cena
+ * @body {string} instruction - Instrução de reescrita (ex: "deixe mais tensa", "diálogo mais curto")
+ * @body {string[]} fields - Campos a reescrever: title, description, narration, dialogue (opcional, padrão: descrição, narração e diálogo)
+ * @returns {SceneRewriteProposal} Os textos atuais e os propostos
+ */
+router.post('/scenes/:id/rewrite', validate({ params: RecordParamsSchema, body: RewriteSceneBodySchema }), requireStoryAccess('editor', 'scene'), trackUsage('scene'), requireBudget, asyncHandler(async (req, res) => {
+  const { instruction, fields } = req.body as RewriteSceneBody;
+
+  const proposal = await storyController.proposeSceneRewrite(req.params.id, instruction, fields);
+  res.json(proposal);
+}));
+
+/**
+ * Rota para excluir uma cena
+ * DELETE /api/scenes/:id
+ * As escolhas que levavam à cena são removidas e as cenas seguintes sobem uma posição
+ * 
+ * @param {string} id - ID da cena
+ */
+router.delete('/scenes/:id', validateRecordId, requireStoryAccess('editor', 'scene'), (req, res) => {
+  sceneController.deleteScene(req.params.id, getCurrentUser(req).username);
+  res.status(204).end();
+});
+
+/**
+ * Rota para inserir uma cena em branco ou gerada pela IA
+ * POST /api/stories/:id/scenes/insert
+ * 
+ * @param {string} id - ID da história
+ * @body {number} position - Posição da nova cena (opcional, padrão: final da história)
+ * @body {boolean} generate - Gera o conteúdo com IA usando as cenas vizinhas como contexto (opcional)
+ * @body {string} title, description, narration - Conteúdo da cena em branco (opcionais)
+ * @body {DialogueLine[] | string} dialogue - Diálogo da cena em branco, em falas ou em texto (opcional)
+ * @returns {Scene} A cena criada (status 201)
+ */
+router.post('/stories/:id/scenes/insert', validate({ params: RecordParamsSchema, body: InsertSceneBodySchema }), requireStoryAccess('editor'), trackUsage('story'), asyncHandler(async (req, res) => {
+  const { position, generate, title, description, narration, dialogue } = req.body as InsertSceneBody;
+  const story = storyController.getStory(req.params.id);
+  const parsedPosition = position === undefined ? story.scenes.length : position;
+
+  // Cenas em branco podem ser inseridas mesmo com o orçamento atingido
+  if (generate) usageController.assertWithinBudget();
+
+  const scene = generate
+    ? await storyController.insertGeneratedScene(story.id, parsedPosition)
+    : sceneController.insertScene(story.id, parsedPosition, { title, description, narration, dialogue });
+  res.status(201).json(scene);
+}));
+
+/**
+ * Rota para reordenar as cenas de uma história
+ * PUT /api/stories/:id/scenes/order
+ * 
+ * @param {string} id - ID da história
+ * @body {string[]} sceneIds - IDs de todas as cenas, na nova ordem
+ * @returns {Scene[]} As cenas na nova ordem
+ */
+router.put('/stories/:id/scenes/order', validate({ params: RecordParamsSchema, body: ReorderScenesBodySchema }), requireStoryAccess('editor'), (req, res) => {
+  const { sceneIds } = req.body as ReorderScenesBody;
+  res.json(sceneController.reorderScenes(req.params.id, sceneIds));
+});
+
+/**
+ * Rota para dividir uma cena em duas
+ * POST /api/scenes/:id/split
+ * 
+ * @param {string} id - ID da cena
+ * @body {number} narrationAt - Posição, em caracteres, da divisão da narração (opcional)
+ * @body {number} dialogueAt - Fala do diálogo em que começa a segunda parte (opcional)
+ * @returns {Scene[]} As duas partes, em ordem
+ */
+router.post('/scenes/:id/split', validate({ params: RecordParamsSchema, body: SplitSceneBodySchema }), requireStoryAccess('editor', 'scene'), (req, res) => {
+  const { narrationAt, dialogueAt } = req.body as SplitSceneBody;
+  res.json(sceneController.splitScene(req.params.id, narrationAt, dialogueAt, getCurrentUser(req).username));
+});
+
+/**
+ * Rota para juntar uma cena com uma cena adjacente
+ * POST /api/scenes/:id/merge
+ * 
+ * @param {string} id - ID da cena
+ * @body {string} withSceneId - ID da cena anterior ou seguinte (opcional, padrão: cena seguinte)
+ * @returns {Scene} A cena resultante
+ */
+router.post('/scenes/:id/merge', validate({ params: RecordParamsSchema, body: MergeScenesBodySchema }), requireStoryAccess('editor', 'scene'), (req, res) => {
+  const scene = sceneController.getScene(req.params.id);
+  const scenes = sceneController.getScenesByStory(scene.storyId);
+  const index = scenes.findIndex(s => s.id === req.params.id);
+  const withSceneId = (req.body as MergeScenesBody).withSceneId || (scenes[index + 1] && scenes[index + 1].id);
+
+  if (!withSceneId) {
+    throw new sceneController.SceneStructureError('A cena não tem uma cena seguinte para juntar');
   }
+
+  // A cena anterior, quando informada, vem primeiro na cena resultante
+  const merged = scenes[index - 1] && scenes[index - 1].id === withSceneId
+    ? sceneController.mergeScenes(withSceneId, req.params.id, getCurrentUser(req).username)
+    : sceneController.mergeScenes(req.params.id, withSceneId, getCurrentUser(req).username);
+  res.json(merged);
 });
 
 /**
  * Rota para regenerar imagem para uma cena
  * POST /api/scenes/:id/regenerate-image
+ * A imagem é gerada em segundo plano; acompanhe o job em GET /api/jobs/:id
+ * 
+ * A cena não pode estar retida, e o prompt personalizado é verificado pela moderação antes de o job ser criado
  * 
  * @param {string} id - ID da cena
  * @body {string} customPrompt - Prompt personalizado para a imagem
- * @returns {Scene} A cena com imagem atualizada
+ * @returns {Object} Objeto com o job criado (status 202)
  */
-router.post('/scenes/:id/regenerate-image', async (req, res) => {
-  try {
-    const { customPrompt } = req.body;
-    
-    // Verificar se a cena existe
-    let scene;
-    try {
-      scene = await sceneController.getScene(req.params.id);
-    } catch (error) {
-      // Se a cena não existir, retornamos um erro 404 para o cliente saber que deve tratar isso
-      return res.status(404).json({ 
-        error: 'Cena não encontrada', 
-        message: 'A cena solicitada não foi encontrada. Verifique o ID ou gere novas cenas.' 
-      });
-    }
-    
-    // Buscar história associada à cena
-    const story = storyController.getStory(scene.storyId);
-    
-    // Obter cenas anteriores para manter consistência
-    const previousScenes = sceneController.getScenesByStory(scene.storyId)
-      .filter(s => s.order < scene.order);
-    const previousImages = previousScenes.map(s => s.imageUrl).filter(url => url && url.startsWith('http'));
-    
-    const updatedScene = await sceneController.regenerateSceneImage(
-      scene.id, 
-      customPrompt,
-      story.style, 
-      previousImages
-    );
-    
-    res.json(updatedScene);
-  } catch (error: any) {
-    console.error('Erro ao regenerar imagem:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
+router.post('/scenes/:id/regenerate-image', validate({ params: RecordParamsSchema, body: RegenerateImageBodySchema }), requireStoryAccess('editor', 'scene'), trackUsage('scene'), requireBudget, asyncHandler(async (req, res) => {
+  const { customPrompt } = req.body as RegenerateImageBody;
+  const scene = sceneController.getScene(req.params.id);
+
+  // Buscar história associada à cena
+  const story = storyController.getStory(scene.storyId);
+
+  moderationController.assertSceneReleased(scene);
+  if (customPrompt && customPrompt.trim() !== '') {
+    await moderationController.assertAllowed('image-prompt', customPrompt, { storyId: scene.storyId, sceneId: scene.id });
   }
+
+  // As imagens das cenas anteriores são consultadas quando o job executa
+  const job = sceneController.enqueueSceneImage(scene.id, story.style, customPrompt, getCurrentUser(req).username);
+
+  res.status(202).json({ job });
+}));
+
+/**
+ * Rota para listar as revisões de uma cena
+ * GET /api/scenes/:id/revisions
+ * 
+ * @param {string} id - ID da cena
+ * @returns {Revision[]} Revisões, da mais recente para a mais antiga
+ */
+router.get('/scenes/:id/revisions', validateRecordId, requireStoryAccess('viewer', 'scene'), (req, res) => {
+  res.json(revisionController.getSceneRevisions(req.params.id));
+});
+
+/**
+ * Rota para listar as revisões da proposta de uma história
+ * GET /api/stories/:id/revisions
+ * 
+ * @param {string} id - ID da história
+ * @returns {Revision[]} Revisões, da mais recente para a mais antiga
+ */
+router.get('/stories/:id/revisions', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(revisionController.getStoryRevisions(req.params.id));
+});
+
+/**
+ * Rota para obter uma revisão
+ * GET /api/revisions/:id
+ * 
+ * @param {string} id - ID da revisão
+ * @returns {Revision} A revisão, com o estado anterior do registro
+ */
+router.get('/revisions/:id', validateRecordId, requireStoryAccess('viewer', 'revision'), (req, res) => {
+  res.json(revisionController.getRevision(req.params.id));
+});
+
+/**
+ * Rota para comparar duas revisões, ou uma revisão com o estado atual
+ * GET /api/revisions/:id/diff?with=:otherId
+ * 
+ * @param {string} id - ID da revisão
+ * @query {string} with - ID da outra revisão ou "current" (padrão)
+ * @returns {RevisionComparison} Campos que diferem entre as versões
+ */
+router.get('/revisions/:id/diff', validate({ params: RecordParamsSchema, query: DiffRevisionsQuerySchema }), requireStoryAccess('viewer', 'revision'), (req, res) => {
+  const { with: other } = req.query as DiffRevisionsQuery;
+  res.json(revisionController.diffRevisions(req.params.id, other));
+});
+
+/**
+ * Rota para restaurar uma revisão
+ * POST /api/revisions/:id/restore
+ * 
+ * @param {string} id - ID da revisão
+ * @body {string[]} fields - Campos a restaurar (opcional, padrão: todos)
+ * @returns {Scene | Story} A cena ou a história restaurada
+ */
+router.post('/revisions/:id/restore', validate({ params: RecordParamsSchema, body: RestoreRevisionBodySchema }), requireStoryAccess('editor', 'revision'), (req, res) => {
+  const { fields } = req.body as RestoreRevisionBody;
+  res.json(revisionController.restoreRevision(req.params.id, fields, getCurrentUser(req).username));
+});
+
+/**
+ * Rota para obter o estado de um job em segundo plano
+ * GET /api/jobs/:id
+ * 
+ * @param {string} id - ID do job
+ * @returns {Job} O job encontrado
+ */
+router.get('/jobs/:id', validateRecordId, requireStoryAccess('viewer', 'job'), (req, res) => {
+  res.json(jobController.getJob(req.params.id));
 });
 
+/**
+ * Rota para cancelar um job que ainda não terminou
+ * POST /api/jobs/:id/cancel
+ * 
+ * @param {string} id - ID do job
+ * @returns {Job} O job atualizado
+ */
+router.post('/jobs/:id/cancel', validateRecordId, requireStoryAccess('editor', 'job'), (req, res) => {
+  res.json(jobController.cancelJob(req.params.id));
+});
+
+/**
+ * Rota para obter o conteúdo de um asset (imagem armazenada localmente)
+ * GET /api/assets/:id
+ * 
+ * @param {string} id - ID do asset (hash SHA-256 do conteúdo)
+ * @returns {Buffer} O arquivo, com cache permanente, já que o conteúdo nunca muda
+ */
+router.get('/assets/:id', validateAssetId, requireAssetAccess, (req, res) => {
+  const filePath = assetController.getAssetPath(req.params.id);
+  const asset = assetController.getAsset(req.params.id);
+
+  // Assets gravados antes da verificação do conteúdo podem ter outro tipo; eles são servidos apenas para download
+  res.setHeader('Content-Type', isImageMimeType(asset.mimeType) ? asset.mimeType : 'application/octet-stream');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+  res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+  res.sendFile(filePath);
+});
+
+/**
+ * Rota para obter os metadados de um asset
+ * GET /api/assets/:id/metadata
+ * 
+ * @param {string} id - ID do asset
+ * @returns {Asset} Prompt, provedor, tamanho e data de criação
+ */
+router.get('/assets/:id/metadata', validateAssetId, requireAssetAccess, (req, res) => {
+  res.json(assetController.getAsset(req.params.id));
+});
+
+/**
+ * Rota para remover assets que nenhuma cena referencia
+ * POST /api/assets/gc
+ * A limpeza abrange os assets de todos os usuários, então é restrita aos administradores
+ * 
+ * @body {number} minAgeMinutes - Idade mínima em minutos dos assets removidos (opcional, padrão: 10)
+ * @returns {Object} Assets removidos, arquivos removidos e espaço liberado
+ */
+router.post('/assets/gc', requireAdmin, validate({ body: AssetGarbageBodySchema }), asyncHandler(async (req, res) => {
+  const { minAgeMinutes } = req.body as AssetGarbageBody;
+
+  const result = await assetController.collectAssetGarbage(minAgeMinutes === undefined ? undefined : minAgeMinutes * 60 * 1000);
+  res.json(result);
+}));
+
+/**
+ * Rota para listar os conteúdos sinalizados pela moderação (apenas administradores)
+ * GET /api/moderation/flags
+ * 
+ * @query {string} status - Situação: pending, approved, rejected ou resolved (opcional)
+ * @query {string} target - Tipo do conteúdo: briefing, proposal, scene, image-prompt ou prompt-template (opcional)
+ * @query {string} storyId - ID da história (opcional)
+ * @returns {ModerationFlag[]} Conteúdos sinalizados, do mais recente para o mais antigo
+ */
+router.get('/moderation/flags', requireAdmin, validate({ query: ModerationFlagsQuerySchema }), (req, res) => {
+  res.json(moderationController.getFlags(req.query as ModerationFlagsQuery));
+});
+
+/**
+ * Rota para revisar um conteúdo sinalizado pela moderação (apenas administradores)
+ * POST /api/moderation/flags/:id/review
+ * Aprovar libera a proposta ou a cena retida em quarentena; rejeitar mantém a retenção
+ * 
+ * @param {string} id - ID do registro de moderação
+ * @body {string} decision - Decisão: approve ou reject
+ * @returns {ModerationFlag} O registro atualizado
+ */
+router.post('/moderation/flags/:id/review', requireAdmin, validate({ params: RecordParamsSchema, body: ReviewModerationFlagBodySchema }), (req, res) => {
+  const { decision } = req.body as ReviewModerationFlagBody;
+  res.json(moderationController.reviewFlag(req.params.id, decision, getCurrentUser(req).username));
+});
+
+/**
+ * Rota para listar os templates de prompt globais (apenas administradores)
+ * GET /api/prompt-templates
+ * 
+ * @returns {PromptTemplate[]} Templates, com as variáveis, o texto em uso e a origem de cada um
+ */
+router.get('/prompt-templates', requireAdmin, (req, res) => {
+  res.json(promptTemplateController.listPromptTemplates());
+});
+
+/**
+ * Rota para obter um template de prompt global (apenas administradores)
+ * GET /api/prompt-templates/:name
+ * 
+ * @param {string} name - Nome do template: proposal, scenes, style-samples, scene-image ou visual-sample
+ * @returns {PromptTemplate} O template, com as variáveis, o texto em uso e a origem
+ */
+router.get('/prompt-templates/:name', requireAdmin, validatePromptTemplateName, (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  res.json(promptTemplateController.getPromptTemplate(name));
+});
+
+/**
+ * Rota para listar as versões de um template de prompt global (apenas administradores)
+ * GET /api/prompt-templates/:name/versions
+ * 
+ * @param {string} name - Nome do template
+ * @returns {PromptTemplateVersion[]} Versões, da mais recente para a mais antiga
+ */
+router.get('/prompt-templates/:name/versions', requireAdmin, validatePromptTemplateName, (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  res.json(promptTemplateController.getPromptTemplateVersions(name));
+});
+
+/**
+ * Rota para alterar um template de prompt global (apenas administradores)
+ * PUT /api/prompt-templates/:name
+ * O texto só pode usar as variáveis do template; cada alteração grava uma nova versão
+ * 
+ * @param {string} name - Nome do template
+ * @body {string} body - Novo texto do template
+ * @returns {PromptTemplate} O template atualizado
+ */
+router.put('/prompt-templates/:name', requireAdmin, validate({ params: PromptTemplateParamsSchema, body: PromptTemplateBodySchema }), asyncHandler(async (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  const { body } = req.body as PromptTemplateBody;
+  res.json(await promptTemplateController.savePromptTemplate(name, body, getCurrentUser(req).username));
+}));
+
+/**
+ * Rota para restaurar uma versão de um template de prompt global (apenas administradores)
+ * POST /api/prompt-templates/:name/restore
+ * O texto da versão é gravado como uma nova versão
+ * 
+ * @param {string} name - Nome do template
+ * @body {number} version - Número da versão a restaurar
+ * @returns {PromptTemplate} O template atualizado
+ */
+router.post('/prompt-templates/:name/restore', requireAdmin, validate({ params: PromptTemplateParamsSchema, body: RestorePromptTemplateBodySchema }), asyncHandler(async (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  const { version } = req.body as RestorePromptTemplateBody;
+  res.json(await promptTemplateController.restorePromptTemplateVersion(name, version, getCurrentUser(req).username));
+}));
+
+/**
+ * Rota para voltar um template de prompt global ao texto da aplicação (apenas administradores)
+ * DELETE /api/prompt-templates/:name
+ * As versões gravadas do template são removidas
+ * 
+ * @param {string} name - Nome do template
+ * @returns {PromptTemplate} O template com o texto da aplicação
+ */
+router.delete('/prompt-templates/:name', requireAdmin, validatePromptTemplateName, (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  res.json(promptTemplateController.resetPromptTemplate(name));
+});
+
+/**
+ * Rota para listar os templates de prompt em uso em uma história
+ * GET /api/stories/:id/prompt-templates
+ * 
+ * @param {string} id - ID da história
+ * @returns {PromptTemplate[]} Templates, com o texto em uso e a origem: story, global ou default
+ */
+router.get('/stories/:id/prompt-templates', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  res.json(promptTemplateController.listPromptTemplates(req.params.id));
+});
+
+/**
+ * Rota para listar as versões de um template de prompt de uma história
+ * GET /api/stories/:id/prompt-templates/:name/versions
+ * 
+ * @param {string} id - ID da história
+ * @param {string} name - Nome do template
+ * @returns {PromptTemplateVersion[]} Versões, da mais recente para a mais antiga
+ */
+router.get('/stories/:id/prompt-templates/:name/versions', validateStoryPromptTemplateName, requireStoryAccess('viewer'), (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  res.json(promptTemplateController.getPromptTemplateVersions(name, req.params.id));
+});
+
+/**
+ * Rota para substituir um template de prompt apenas em uma história
+ * PUT /api/stories/:id/prompt-templates/:name
+ * O texto passa pela moderação; cada alteração grava uma nova versão
+ * 
+ * @param {string} id - ID da história
+ * @param {string} name - Nome do template
+ * @body {string} body - Novo texto do template
+ * @returns {PromptTemplate} O template atualizado
+ */
+router.put('/stories/:id/prompt-templates/:name', validate({ params: StoryPromptTemplateParamsSchema, body: PromptTemplateBodySchema }), requireStoryAccess('editor'), trackUsage('story'), asyncHandler(async (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  const { body } = req.body as PromptTemplateBody;
+  res.json(await promptTemplateController.savePromptTemplate(name, body, getCurrentUser(req).username, req.params.id));
+}));
+
+/**
+ * Rota para restaurar uma versão de um template de prompt de uma história
+ * POST /api/stories/:id/prompt-templates/:name/restore
+ * 
+ * @param {string} id - ID da história
+ * @param {string} name - Nome do template
+ * @body {number} version - Número da versão a restaurar
+ * @returns {PromptTemplate} O template atualizado
+ */
+router.post('/stories/:id/prompt-templates/:name/restore', validate({ params: StoryPromptTemplateParamsSchema, body: RestorePromptTemplateBodySchema }), requireStoryAccess('editor'), trackUsage('story'), asyncHandler(async (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  const { version } = req.body as RestorePromptTemplateBody;
+  res.json(await promptTemplateController.restorePromptTemplateVersion(name, version, getCurrentUser(req).username, req.params.id));
+}));
+
+/**
+ * Rota para remover a substituição de um template de prompt em uma história
+ * DELETE /api/stories/:id/prompt-templates/:name
+ * A história volta a usar o template global
+ * 
+ * @param {string} id - ID da história
+ * @param {string} name - Nome do template
+ * @returns {PromptTemplate} O template em uso depois da remoção
+ */
+router.delete('/stories/:id/prompt-templates/:name', validateStoryPromptTemplateName, requireStoryAccess('editor'), (req, res) => {
+  const { name } = req.params as PromptTemplateParams;
+  res.json(promptTemplateController.resetPromptTemplate(name, req.params.id));
+});
+
+/**
+ * Rota para listar os presets de estilo visual
+ * GET /api/style-presets
+ * 
+ * @returns {StylePreset[]} Presets da aplicação seguidos dos criados pelo usuário
+ */
+router.get('/style-presets', (req, res) => {
+  res.json(stylePresetController.listStylePresets());
+});
+
+/**
+ * Rota para criar um preset de estilo visual
+ * POST /api/style-presets
+ * Os presets são compartilhados por todos os usuários, então apenas administradores podem criá-los e alterá-los
+ * 
+ * @body {string} name - Nome exibido do preset
+ * @body {string} promptFragment - Trecho em inglês adicionado aos prompts de imagem
+ * @body {string} negativePrompt - Elementos que as imagens devem evitar (opcional)
+ * @body {string} size - Dimensões das imagens (opcional, padrão: 1024x1024)
+ * @body {string} quality - "standard" ou "hd" (opcional, padrão: hd)
+ * @body {string} renderStyle - "vivid" ou "natural" (opcional, padrão: vivid)
+ * @returns {StylePreset} O preset criado (status 201)
+ */
+router.post('/style-presets', requireAdmin, validate({ body: CreateStylePresetBodySchema }), (req, res) => {
+  res.status(201).json(stylePresetController.createStylePreset(req.body as CreateStylePresetBody));
+});
+
+/**
+ * Rota para obter um preset de estilo visual
+ * GET /api/style-presets/:id
+ * 
+ * @param {string} id - ID do preset
+ * @returns {StylePreset} O preset encontrado
+ */
+router.get('/style-presets/:id', validateStylePresetId, (req, res) => {
+  res.json(stylePresetController.getStylePreset(req.params.id));
+});
+
+/**
+ * Rota para alterar um preset de estilo visual
+ * PUT /api/style-presets/:id
+ * 
+ * @param {string} id - ID do preset
+ * @body {Object} Campos a serem alterados
+ * @returns {StylePreset} O preset atualizado
+ */
+router.put('/style-presets/:id', requireAdmin, validate({ params: StylePresetParamsSchema, body: UpdateStylePresetBodySchema }), (req, res) => {
+  res.json(stylePresetController.updateStylePreset(req.params.id, req.body as UpdateStylePresetBody));
+});
+
+/**
+ * Rota para remover um preset de estilo criado pelo usuário
+ * DELETE /api/style-presets/:id
+ * As histórias que usavam o preset mantêm o nome do estilo como estilo livre
+ * 
+ * @param {string} id - ID do preset
+ */
+router.delete('/style-presets/:id', requireAdmin, validateStylePresetId, (req, res) => {
+  stylePresetController.deleteStylePreset(req.params.id);
+  res.status(204).end();
+});
+
+/**
+ * Rota para gerar a imagem de prévia de um preset de estilo
+ * POST /api/style-presets/:id/preview
+ * 
+ * @param {string} id - ID do preset
+ * @returns {StylePreset} O preset com a nova prévia
+ */
+router.post('/style-presets/:id/preview', requireAdmin, validateStylePresetId, trackUsage(), requireBudget, asyncHandler(async (req, res) => {
+  res.json(await stylePresetController.generateStylePresetPreview(req.params.id));
+}));
+
 /**
  * Rota para gerar amostras visuais
  * POST /api/stories/:id/visual-samples
  * 
  * @param {string} id - ID da história
- * @body {string} style - Estilo visual desejado
+ * @body {string} style - Estilo visual desejado (opcional quando há preset)
+ * @body {string} stylePresetId - ID do preset de estilo (opcional)
  * @returns {Object} Objeto com amostras visuais geradas
  */
-router.post('/stories/:id/visual-samples', async (req, res) => {
-  try {
-    const { style } = req.body;
-    
-    if (!style || style.trim() === '') {
-      return res.status(400).json({ error: 'Estilo visual é obrigatório' });
-    }
-    
-    // Verificar se a história existe
-    let story;
-    try {
-      story = storyController.getStory(req.params.id);
-    } catch (error) {
-      return res.status(404).json({ 
-        error: 'História não encontrada', 
-        message: 'A história solicitada não foi encontrada. Crie uma nova história.' 
-      });
-    }
-    
-    // Gerar exatamente 3 exemplos visuais
-    const visualSamples = await storyController.generateVisualSamples(story.id, style);
-    
-    res.json({ visualSamples });
-  } catch (error: any) {
-    console.error('Erro ao gerar amostras visuais:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
-  }
-});
+router.post('/stories/:id/visual-samples', validate({ params: RecordParamsSchema, body: VisualSamplesBodySchema }), requireStoryAccess('editor'), trackUsage('story'), requireBudget, asyncHandler(async (req, res) => {
+  const { style, stylePresetId } = req.body as VisualSamplesBody;
+
+  // Gerar exatamente 3 exemplos visuais
+  const visualSamples = await storyController.generateVisualSamples(req.params.id, style || '', stylePresetId);
+
+  res.json({ visualSamples });
+}));
 
 /**
  * Rota para selecionar amostra visual
@@ -230,22 +1175,12 @@ router.post('/stories/:id/visual-samples', async (req, res) => {
  * @body {number} sampleIndex - Índice da amostra visual selecionada
  * @returns {Story} A história atualizada
  */
-router.post('/stories/:id/select-visual', async (req, res) => {
-  try {
-    const { sampleIndex } = req.body;
-    
-    if (sampleIndex === undefined || sampleIndex < 0) {
-      return res.status(400).json({ error: 'Índice de amostra inválido' });
-    }
-    
-    const updatedStory = await storyController.selectVisualSample(req.params.id, sampleIndex);
-    
-    res.json(updatedStory);
-  } catch (error: any) {
-    console.error('Erro ao selecionar amostra visual:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
-  }
-});
+router.post('/stories/:id/select-visual', validate({ params: RecordParamsSchema, body: SelectVisualBodySchema }), requireStoryAccess('editor'), asyncHandler(async (req, res) => {
+  const { sampleIndex } = req.body as SelectVisualBody;
+
+  const updatedStory = await storyController.selectVisualSample(req.params.id, sampleIndex);
+  res.json(updatedStory);
+}));
 
 /**
  * Rota para exportar história em HTML
@@ -254,18 +1189,81 @@ router.post('/stories/:id/select-visual', async (req, res) => {
  * @param {string} id - ID da história
  * @returns {string} Documento HTML da história completa
  */
-router.get('/stories/:id/export', (req, res) => {
-  try {
-    const html = storyController.generateHtmlExport(req.params.id);
-    res.setHeader('Content-Disposition', 'attachment; filename=historia.html');
-    res.setHeader('Content-Type', 'text/html');
-    res.send(html);
-  } catch (error: any) {
-    console.error('Erro ao exportar HTML:', error);
-    res.status(500).json({ error: error.message || 'Erro ao exportar HTML' });
-  }
+router.get('/stories/:id/export', validateRecordId, requireStoryAccess('viewer'), asyncHandler(async (req, res) => {
+  const html = await storyController.generateHtmlExport(req.params.id);
+  res.setHeader('Content-Disposition', 'attachment; filename=historia.html');
+  res.setHeader('Content-Type', 'text/html');
+  res.send(html);
+}));
+
+/**
+ * Rota para exportar história como livro EPUB 3
+ * GET /api/stories/:id/export/epub
+ * 
+ * @param {string} id - ID da história
+ * @returns {Buffer} Arquivo .epub com capa, folha de rosto, sumário e um capítulo por cena
+ */
+router.get('/stories/:id/export/epub', validateRecordId, requireStoryAccess('viewer'), asyncHandler(async (req, res) => {
+  const epub = await exportController.generateEpubExport(req.params.id);
+  res.setHeader('Content-Disposition', 'attachment; filename=historia.epub');
+  res.setHeader('Content-Type', 'application/epub+zip');
+  res.send(epub);
+}));
+
+/**
+ * Rota para exportar história no formato Twee 3, para edição no Twine
+ * GET /api/stories/:id/export/twee
+ * 
+ * @param {string} id - ID da história
+ * @returns {string} Arquivo .twee com uma passagem por cena
+ */
+router.get('/stories/:id/export/twee', validateRecordId, requireStoryAccess('viewer'), (req, res) => {
+  const twee = tweeController.generateTweeExport(req.params.id);
+  res.setHeader('Content-Disposition', 'attachment; filename=historia.twee');
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.send(twee);
 });
 
+/**
+ * Rota para importar uma história de um arquivo Twee 3
+ * POST /api/stories/import/twee
+ * 
+ * @body {string} - Conteúdo do arquivo .twee (texto puro) ou JSON com o campo "source"
+ * @returns {Story} A nova história com suas cenas
+ */
+router.post('/stories/import/twee', express.text({ type: 'text/*', limit: '5mb' }), validate({ body: TweeImportBodySchema }), asyncHandler(async (req, res) => {
+  const { source } = req.body as TweeImportBody;
+
+  const story = await tweeController.importTwee(source, getCurrentUser(req).id);
+  res.status(201).json(story);
+}));
+
+/**
+ * Rota para exportar história como pacote JSON versionado
+ * GET /api/stories/:id/bundle
+ * 
+ * @param {string} id - ID da história
+ * @returns {StoryBundle} Pacote com história, cenas, personagens e imagens em base64
+ */
+router.get('/stories/:id/bundle', validateRecordId, requireStoryAccess('viewer'), asyncHandler(async (req, res) => {
+  const bundle = await bundleController.exportStoryBundle(req.params.id);
+  res.setHeader('Content-Disposition', 'attachment; filename=historia.bundle.json');
+  res.json(bundle);
+}));
+
+/**
+ * Rota para importar uma história a partir de um pacote JSON
+ * POST /api/stories/import
+ * O corpo é validado pelo esquema dos pacotes (utils/storyBundle)
+ * 
+ * @body {StoryBundle} - Pacote exportado (versões anteriores são migradas)
+ * @returns {Object} A nova história e a versão original do pacote, se ele foi migrado
+ */
+router.post('/stories/import', asyncHandler(async (req, res) => {
+  const result = await bundleController.importStoryBundle(req.body, getCurrentUser(req).id);
+  res.status(201).json(result);
+}));
+
 /**
  * Rota para atualizar proposta de história
  * PUT /api/stories/:id/proposal
@@ -274,20 +1272,11 @@ router.get('/stories/:id/export', (req, res) => {
  * @body {string} proposal - Nova proposta de história
  * @returns {Story} A história atualizada
  */
-router.put('/stories/:id/proposal', async (req, res) => {
-  try {
-    const { proposal } = req.body;
-    
-    if (!proposal || proposal.trim() === '') {
-      return res.status(400).json({ error: 'Proposta de história é obrigatória' });
-    }
-    
-    const updatedStory = await storyController.updateStoryProposal(req.params.id, proposal);
-    res.json(updatedStory);
-  } catch (error: any) {
-    console.error('Erro ao atualizar proposta:', error);
-    res.status(500).json({ error: error.message || 'Erro interno do servidor' });
-  }
-});
+router.put('/stories/:id/proposal', validate({ params: RecordParamsSchema, body: ProposalBodySchema }), requireStoryAccess('editor'), asyncHandler(async (req, res) => {
+  const { proposal } = req.body as ProposalBody;
+
+  const updatedStory = await storyController.updateStoryProposal(req.params.id, proposal, getCurrentUser(req).username);
+  res.json(updatedStory);
+}));
 
-export default router;
\ No newline at end of file
+export default router;
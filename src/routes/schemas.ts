@@ -0,0 +1,456 @@
+/**
+ * Esquemas de validação das requisições da API
+ * Cada rota valida os parâmetros, a query e o corpo com o middleware validate; as mensagens
+ * definidas aqui são devolvidas ao cliente quando a validação falha
+ */
+
+import { z } from 'zod';
+import { SCENE_REWRITE_FIELDS } from '../api/rewriteSchema';
+import { MIN_PASSWORD_LENGTH, USERNAME_PATTERN } from '../controllers/userController';
+import { DialogueSchema } from '../utils/dialogue';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '../utils/languages';
+import { StylePresetInputSchema } from '../utils/stylePresets';
+
+/**
+ * Texto obrigatório, que não pode estar em branco
+ * O valor é mantido como enviado, sem remover os espaços
+ *
+ * @param {string} message - Mensagem de erro
+ * @returns {z.ZodEffects} Esquema do texto
+ */
+function requiredText(message: string) {
+  return z.string({ required_error: message, invalid_type_error: message }).refine(text => text.trim() !== '', message);
+}
+
+/**
+ * Texto opcional
+ *
+ * @param {string} field - Nome do campo, usado na mensagem de erro
+ * @returns {z.ZodOptional} Esquema do texto
+ */
+function optionalText(field: string) {
+  return z.string({ invalid_type_error: `${field} deve ser um texto` }).optional();
+}
+
+/**
+ * Número inteiro, aceito também como texto (query e formulários)
+ *
+ * @param {string} message - Mensagem de erro
+ * @returns {z.ZodNumber} Esquema do número
+ */
+function integer(message: string) {
+  return z.coerce.number({ invalid_type_error: message }).int(message);
+}
+
+// ID gerado pela aplicação (UUID)
+const RecordId = z.string().uuid('ID inválido');
+
+// Idioma no formato BCP 47, entre os suportados
+const Language = z.string({ required_error: 'Idioma não suportado', invalid_type_error: 'Idioma não suportado' })
+  .refine(isSupportedLanguage, 'Idioma não suportado');
+
+/**
+ * Parâmetros das rotas de um registro (história, cena, personagem, revisão ou job)
+ */
+export const RecordParamsSchema = z.object({ id: RecordId });
+
+/**
+ * Parâmetros da rota de remoção de um compartilhamento
+ */
+export const ShareParamsSchema = z.object({ id: RecordId, userId: RecordId });
+
+/**
+ * Parâmetros das rotas de uma fala do diálogo de uma cena
+ */
+export const DialogueLineParamsSchema = z.object({
+  id: RecordId,
+  index: integer('Índice da fala deve ser um número inteiro').min(0, 'Índice da fala deve ser maior ou igual a zero'),
+});
+
+// Nome de um template de prompt
+const PromptTemplateName = z.enum(['proposal', 'scenes', 'style-samples', 'scene-image', 'visual-sample'], {
+  errorMap: () => ({ message: 'Template deve ser proposal, scenes, style-samples, scene-image ou visual-sample' })
+});
+
+/**
+ * Parâmetros das rotas de um template de prompt global
+ */
+export const PromptTemplateParamsSchema = z.object({ name: PromptTemplateName });
+
+/**
+ * Parâmetros das rotas de um template de prompt de uma história
+ */
+export const StoryPromptTemplateParamsSchema = z.object({ id: RecordId, name: PromptTemplateName });
+
+/**
+ * Parâmetros das rotas de um asset (hash SHA-256 do conteúdo)
+ */
+export const AssetParamsSchema = z.object({ id: z.string().regex(/^[a-f0-9]{64}$/, 'ID de asset inválido') });
+
+/**
+ * Parâmetros das rotas de um preset de estilo (os presets da aplicação têm IDs legíveis, como "aquarela")
+ */
+export const StylePresetParamsSchema = z.object({ id: z.string().min(1, 'ID inválido') });
+
+/**
+ * Criação de um preset de estilo
+ */
+export const CreateStylePresetBodySchema = StylePresetInputSchema;
+
+/**
+ * Alteração de um preset de estilo: apenas os campos enviados são validados, e os demais são mantidos
+ */
+export const UpdateStylePresetBodySchema = StylePresetInputSchema.partial();
+
+/**
+ * Cadastro de usuário
+ */
+export const RegisterBodySchema = z.object({
+  username: z.string({ required_error: 'Nome de usuário é obrigatório', invalid_type_error: 'Nome de usuário é obrigatório' })
+    .refine(username => USERNAME_PATTERN.test(username.trim().toLowerCase()),
+      'O nome de usuário deve ter de 3 a 32 caracteres: letras, números, ponto, hífen ou sublinhado'),
+  password: z.string({ required_error: 'Senha é obrigatória', invalid_type_error: 'Senha é obrigatória' })
+    .min(MIN_PASSWORD_LENGTH, `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`),
+});
+
+/**
+ * Login
+ */
+export const LoginBodySchema = z.object({
+  username: z.string({ required_error: 'Usuário e senha são obrigatórios', invalid_type_error: 'Usuário e senha são obrigatórios' }),
+  password: z.string({ required_error: 'Usuário e senha são obrigatórios', invalid_type_error: 'Usuário e senha são obrigatórios' }),
+});
+
+/**
+ * Criação de história
+ */
+export const CreateStoryBodySchema = z.object({
+  briefing: requiredText('Briefing é obrigatório'),
+  language: Language.default(DEFAULT_LANGUAGE),
+});
+
+/**
+ * Tradução de história
+ */
+export const TranslateStoryBodySchema = z.object({ language: Language });
+
+/**
+ * Compartilhamento de história
+ */
+export const ShareStoryBodySchema = z.object({
+  username: requiredText('Nome de usuário é obrigatório'),
+  role: z.enum(['viewer', 'editor'], { errorMap: () => ({ message: 'Papel deve ser viewer ou editor' }) }),
+});
+
+/**
+ * Estilo visual: um preset existente ou um estilo livre não vazio
+ */
+const StyleFields = z.object({
+  style: optionalText('Estilo visual'),
+  stylePresetId: optionalText('stylePresetId'),
+});
+
+/**
+ * Exige o estilo livre quando nenhum preset foi escolhido
+ *
+ * @param {Object} data - Estilo livre e preset
+ * @returns {boolean} Verdadeiro se houver preset ou estilo livre
+ */
+function hasStyle(data: { style?: string; stylePresetId?: string }): boolean {
+  return data.stylePresetId !== undefined || (data.style !== undefined && data.style.trim() !== '');
+}
+
+/**
+ * Definição do estilo visual com amostras de descrição
+ */
+export const StoryStyleBodySchema = StyleFields
+  .extend({
+    sampleCount: integer('Número de amostras deve estar entre 1 e 5')
+      .min(1, 'Número de amostras deve estar entre 1 e 5')
+      .max(5, 'Número de amostras deve estar entre 1 e 5')
+      .default(3),
+  })
+  .refine(hasStyle, { message: 'Estilo visual é obrigatório', path: ['style'] });
+
+/**
+ * Geração de amostras visuais
+ */
+export const VisualSamplesBodySchema = StyleFields.refine(hasStyle, { message: 'Estilo visual é obrigatório', path: ['style'] });
+
+/**
+ * Seleção de amostra visual
+ */
+export const SelectVisualBodySchema = z.object({
+  sampleIndex: integer('Índice de amostra inválido').min(0, 'Índice de amostra inválido'),
+});
+
+/**
+ * Número de cenas (3 a 15) e de pontos de decisão de uma geração
+ * Cada ponto de decisão precisa de pelo menos duas cenas de destino
+ */
+const SceneCountFields = z.object({
+  numScenes: integer('Número de cenas deve estar entre 3 e 15')
+    .min(3, 'Número de cenas deve estar entre 3 e 15')
+    .max(15, 'Número de cenas deve estar entre 3 e 15'),
+  decisionPoints: integer('Número de pontos de decisão inválido para a quantidade de cenas')
+    .min(0, 'Número de pontos de decisão inválido para a quantidade de cenas')
+    .default(0),
+});
+
+/**
+ * Verifica se os pontos de decisão cabem na quantidade de cenas
+ *
+ * @param {Object} counts - Número de cenas e de pontos de decisão
+ * @returns {boolean} Verdadeiro se a combinação for possível
+ */
+function hasRoomForDecisions(counts: { numScenes: number; decisionPoints: number }): boolean {
+  return counts.decisionPoints <= Math.floor((counts.numScenes - 1) / 2);
+}
+
+const DECISION_POINTS_ISSUE = { message: 'Número de pontos de decisão inválido para a quantidade de cenas', path: ['decisionPoints'] };
+
+/**
+ * Estimativa de custo da geração de cenas (corpo) e geração em streaming (query)
+ */
+export const SceneCountsSchema = SceneCountFields.refine(hasRoomForDecisions, DECISION_POINTS_ISSUE);
+
+/**
+ * Geração de cenas
+ */
+export const GenerateScenesBodySchema = SceneCountFields
+  .extend({ samplePrompt: optionalText('Prompt de exemplo') })
+  .refine(hasRoomForDecisions, DECISION_POINTS_ISSUE);
+
+/**
+ * Limite de gastos de uma história
+ */
+export const StoryBudgetBodySchema = z.object({
+  budgetUsd: z.number({
+    required_error: 'Limite de gastos deve ser um número não negativo ou null',
+    invalid_type_error: 'Limite de gastos deve ser um número não negativo ou null'
+  }).finite().min(0, 'Limite de gastos deve ser um número não negativo ou null').nullable(),
+});
+
+/**
+ * Campos da ficha de um personagem
+ */
+const CharacterFields = {
+  role: optionalText('Papel'),
+  physicalDescription: optionalText('Descrição física'),
+  clothing: optionalText('Roupas'),
+  personality: optionalText('Personalidade'),
+  speechStyle: optionalText('Forma de falar'),
+};
+
+/**
+ * Criação de personagem
+ */
+export const CreateCharacterBodySchema = z.object({ name: requiredText('Nome do personagem é obrigatório'), ...CharacterFields });
+
+/**
+ * Alteração de personagem
+ */
+export const UpdateCharacterBodySchema = z.object({ name: requiredText('Nome do personagem é obrigatório').optional(), ...CharacterFields });
+
+/**
+ * Textos de uma cena
+ * O diálogo é uma lista de falas ou um texto com uma fala por linha ("Personagem (direção): fala")
+ */
+const SceneTextFields = {
+  title: optionalText('Título'),
+  description: optionalText('Descrição'),
+  narration: optionalText('Narração'),
+  dialogue: DialogueSchema.optional(),
+};
+
+/**
+ * Alteração de cena
+ */
+export const UpdateSceneBodySchema = z.object({
+  ...SceneTextFields,
+  choices: z.array(z.object({ label: z.string(), targetSceneId: z.string() }), {
+    invalid_type_error: 'Escolhas devem ser uma lista de objetos com label e targetSceneId'
+  }).optional(),
+  isEnding: z.boolean({ invalid_type_error: 'isEnding deve ser verdadeiro ou falso' }).optional(),
+  characterIds: z.array(z.string(), { invalid_type_error: 'Personagens devem ser uma lista de IDs' }).optional(),
+});
+
+/**
+ * Reescrita de cena pela IA
+ * Os campos são devolvidos sem repetição, na ordem de SCENE_REWRITE_FIELDS
+ */
+export const RewriteSceneBodySchema = z.object({
+  instruction: requiredText('Instrução de reescrita é obrigatória').transform(instruction => instruction.trim()),
+  fields: z.array(z.enum(SCENE_REWRITE_FIELDS), {
+    errorMap: () => ({ message: `Campos devem ser uma lista com: ${SCENE_REWRITE_FIELDS.join(', ')}` })
+  })
+    .min(1, `Campos devem ser uma lista com: ${SCENE_REWRITE_FIELDS.join(', ')}`)
+    .default(['description', 'narration', 'dialogue'])
+    .transform(fields => SCENE_REWRITE_FIELDS.filter(field => fields.indexOf(field) !== -1)),
+});
+
+/**
+ * Inserção de cena em branco ou gerada pela IA
+ */
+export const InsertSceneBodySchema = z.object({
+  ...SceneTextFields,
+  position: integer('Posição deve ser um número inteiro').optional(),
+  generate: z.boolean({ invalid_type_error: 'generate deve ser verdadeiro ou falso' }).default(false),
+});
+
+/**
+ * Nova fala no diálogo de uma cena
+ */
+export const AddDialogueLineBodySchema = z.object({
+  speaker: optionalText('Personagem').default(''),
+  text: requiredText('O texto da fala é obrigatório'),
+  direction: optionalText('Direção'),
+  position: integer('Posição da fala deve ser um número inteiro').optional(),
+});
+
+/**
+ * Alteração de uma fala do diálogo de uma cena
+ */
+export const UpdateDialogueLineBodySchema = z.object({
+  speaker: optionalText('Personagem'),
+  text: requiredText('O texto da fala é obrigatório').optional(),
+  direction: optionalText('Direção'),
+});
+
+/**
+ * Reordenação de cenas
+ */
+export const ReorderScenesBodySchema = z.object({
+  sceneIds: z.array(z.string(), {
+    required_error: 'A nova ordem deve ser uma lista de IDs de cenas',
+    invalid_type_error: 'A nova ordem deve ser uma lista de IDs de cenas'
+  }),
+});
+
+/**
+ * Divisão de cena
+ */
+export const SplitSceneBodySchema = z.object({
+  narrationAt: integer('Posição da divisão da narração deve ser um número inteiro').optional(),
+  dialogueAt: integer('Fala da divisão do diálogo deve ser um número inteiro').optional(),
+});
+
+/**
+ * Junção de cenas
+ */
+export const MergeScenesBodySchema = z.object({
+  withSceneId: RecordId.optional(),
+});
+
+/**
+ * Regeneração de imagem de cena
+ */
+export const RegenerateImageBodySchema = z.object({
+  customPrompt: optionalText('Prompt personalizado'),
+});
+
+/**
+ * Comparação de revisões
+ */
+export const DiffRevisionsQuerySchema = z.object({
+  with: z.union([z.literal('current'), RecordId], { errorMap: () => ({ message: 'Informe o ID de outra revisão ou "current"' }) }).optional(),
+});
+
+/**
+ * Restauração de revisão
+ */
+export const RestoreRevisionBodySchema = z.object({
+  fields: z.array(z.string(), { invalid_type_error: 'Campos a restaurar devem ser uma lista de nomes' }).optional(),
+});
+
+/**
+ * Remoção de assets sem uso
+ */
+export const AssetGarbageBodySchema = z.object({
+  minAgeMinutes: z.coerce.number({ invalid_type_error: 'Idade mínima inválida' }).min(0, 'Idade mínima inválida').optional(),
+});
+
+/**
+ * Listagem dos conteúdos sinalizados pela moderação
+ */
+export const ModerationFlagsQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'resolved'], {
+    errorMap: () => ({ message: 'Situação deve ser pending, approved, rejected ou resolved' })
+  }).optional(),
+  target: z.enum(['briefing', 'proposal', 'scene', 'image-prompt', 'prompt-template'], {
+    errorMap: () => ({ message: 'Tipo deve ser briefing, proposal, scene, image-prompt ou prompt-template' })
+  }).optional(),
+  storyId: RecordId.optional(),
+});
+
+/**
+ * Revisão de um conteúdo sinalizado pela moderação
+ */
+export const ReviewModerationFlagBodySchema = z.object({
+  decision: z.enum(['approve', 'reject'], { errorMap: () => ({ message: 'Decisão deve ser approve ou reject' }) }),
+});
+
+/**
+ * Nova versão de um template de prompt
+ */
+export const PromptTemplateBodySchema = z.object({
+  body: requiredText('Texto do template é obrigatório'),
+});
+
+/**
+ * Restauração de uma versão de um template de prompt
+ */
+export const RestorePromptTemplateBodySchema = z.object({
+  version: integer('Versão deve ser um número inteiro').min(1, 'Versão deve ser maior ou igual a 1'),
+});
+
+/**
+ * Atualização da proposta de história
+ */
+export const ProposalBodySchema = z.object({
+  proposal: requiredText('Proposta de história é obrigatória'),
+});
+
+/**
+ * Importação de arquivo Twee: texto puro ou JSON com o campo "source"
+ */
+export const TweeImportBodySchema = z.preprocess(
+  body => typeof body === 'string' ? { source: body } : body,
+  z.object({ source: requiredText('Conteúdo do arquivo Twee é obrigatório') })
+);
+
+export type CreateStylePresetBody = z.infer<typeof CreateStylePresetBodySchema>;
+export type UpdateStylePresetBody = z.infer<typeof UpdateStylePresetBodySchema>;
+export type RegisterBody = z.infer<typeof RegisterBodySchema>;
+export type LoginBody = z.infer<typeof LoginBodySchema>;
+export type CreateStoryBody = z.infer<typeof CreateStoryBodySchema>;
+export type TranslateStoryBody = z.infer<typeof TranslateStoryBodySchema>;
+export type ShareStoryBody = z.infer<typeof ShareStoryBodySchema>;
+export type StoryStyleBody = z.infer<typeof StoryStyleBodySchema>;
+export type VisualSamplesBody = z.infer<typeof VisualSamplesBodySchema>;
+export type SelectVisualBody = z.infer<typeof SelectVisualBodySchema>;
+export type SceneCounts = z.infer<typeof SceneCountsSchema>;
+export type GenerateScenesBody = z.infer<typeof GenerateScenesBodySchema>;
+export type StoryBudgetBody = z.infer<typeof StoryBudgetBodySchema>;
+export type CreateCharacterBody = z.infer<typeof CreateCharacterBodySchema>;
+export type UpdateCharacterBody = z.infer<typeof UpdateCharacterBodySchema>;
+export type UpdateSceneBody = z.infer<typeof UpdateSceneBodySchema>;
+export type RewriteSceneBody = z.infer<typeof RewriteSceneBodySchema>;
+export type InsertSceneBody = z.infer<typeof InsertSceneBodySchema>;
+export type DialogueLineParams = z.infer<typeof DialogueLineParamsSchema>;
+export type AddDialogueLineBody = z.infer<typeof AddDialogueLineBodySchema>;
+export type UpdateDialogueLineBody = z.infer<typeof UpdateDialogueLineBodySchema>;
+export type ReorderScenesBody = z.infer<typeof ReorderScenesBodySchema>;
+export type SplitSceneBody = z.infer<typeof SplitSceneBodySchema>;
+export type MergeScenesBody = z.infer<typeof MergeScenesBodySchema>;
+export type RegenerateImageBody = z.infer<typeof RegenerateImageBodySchema>;
+export type DiffRevisionsQuery = z.infer<typeof DiffRevisionsQuerySchema>;
+export type RestoreRevisionBody = z.infer<typeof RestoreRevisionBodySchema>;
+export type AssetGarbageBody = z.infer<typeof AssetGarbageBodySchema>;
+export type ModerationFlagsQuery = z.infer<typeof ModerationFlagsQuerySchema>;
+export type ReviewModerationFlagBody = z.infer<typeof ReviewModerationFlagBodySchema>;
+export type PromptTemplateParams = z.infer<typeof PromptTemplateParamsSchema>;
+export type PromptTemplateBody = z.infer<typeof PromptTemplateBodySchema>;
+export type RestorePromptTemplateBody = z.infer<typeof RestorePromptTemplateBodySchema>;
+export type ProposalBody = z.infer<typeof ProposalBodySchema>;
+export type TweeImportBody = z.infer<typeof TweeImportBodySchema>;
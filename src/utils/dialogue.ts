@@ -0,0 +1,154 @@
+/**
+ * Diálogos estruturados das cenas
+ * Cada fala tem quem fala, o texto e, opcionalmente, uma emoção ou indicação de cena
+ * Textos no formato "Personagem (direção): fala", usados antes dos diálogos estruturados e
+ * nos arquivos Twee, são convertidos em falas pelo interpretador deste módulo
+ */
+
+import { z } from 'zod';
+import { DialogueLine } from '../models/Scene';
+
+// "Personagem: fala" ou "Personagem (direção): fala"; o nome não pode conter pontuação de frase
+const SPEAKER_LINE = /^([^:()\n.!?"“”«»]{1,40}?)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/;
+
+// Direção no início da fala: "(sussurrando) fala"
+const LEADING_DIRECTION = /^\(([^)]*)\)\s*(.*)$/;
+
+// Travessão ou hífen que abre falas sem personagem
+const LEADING_DASH = /^[—–-]\s*/;
+
+// Pares de aspas que envolvem a fala inteira
+const QUOTE_PAIRS: [string, string][] = [['"', '"'], ['“', '”'], ['«', '»'], ["'", "'"]];
+
+/**
+ * Monta uma fala com os campos aparados, omitindo a direção vazia
+ *
+ * @param {string} speaker - Nome de quem fala
+ * @param {string} text - Texto da fala
+ * @param {string} [direction] - Emoção ou indicação de cena (opcional)
+ * @returns {DialogueLine} A fala
+ */
+function toDialogueLine(speaker: string, text: string, direction?: string): DialogueLine {
+  const line: DialogueLine = { speaker: speaker.trim(), text: text.trim() };
+  if (direction && direction.trim() !== '') line.direction = direction.trim();
+  return line;
+}
+
+/**
+ * Esquema de uma fala recebida da IA, de clientes ou de pacotes importados
+ */
+export const DialogueLineSchema = z
+  .object({
+    speaker: z.string().default(''),
+    text: z.string().trim().min(1, 'O texto da fala é obrigatório'),
+    direction: z.string().optional(),
+  })
+  .transform(line => toDialogueLine(line.speaker, line.text, line.direction));
+
+/**
+ * Esquema de um diálogo: lista de falas ou texto no formato "Personagem (direção): fala", uma por linha
+ */
+export const DialogueSchema = z.preprocess(
+  value => (typeof value === 'string' ? parseDialogue(value) : value),
+  z.array(DialogueLineSchema)
+);
+
+/**
+ * Remove as aspas que envolvem o texto inteiro de uma fala
+ *
+ * @param {string} text - Texto da fala
+ * @returns {string} Texto sem as aspas externas
+ */
+function stripQuotes(text: string): string {
+  const pair = QUOTE_PAIRS.find(([open, close]) => text.length > 1 && text.startsWith(open) && text.endsWith(close));
+  return pair ? text.substring(1, text.length - 1).trim() : text;
+}
+
+/**
+ * Interpreta uma linha de diálogo em texto
+ *
+ * @param {string} rawLine - Linha do texto
+ * @returns {DialogueLine | undefined} A fala ou undefined se a linha estiver vazia
+ */
+function parseDialogueLine(rawLine: string): DialogueLine | undefined {
+  // Marcações de negrito em volta do nome ("**Ana:**") não fazem parte da fala
+  const line = rawLine.replace(/\*\*/g, '').trim();
+  if (line === '') return undefined;
+
+  let speaker = '';
+  let direction = '';
+  let text = line.replace(LEADING_DASH, '');
+
+  const speakerMatch = SPEAKER_LINE.exec(line);
+  if (speakerMatch && speakerMatch[3].trim() !== '') {
+    speaker = speakerMatch[1];
+    direction = speakerMatch[2] || '';
+    text = speakerMatch[3];
+  }
+
+  const directionMatch = LEADING_DIRECTION.exec(text.trim());
+  if (directionMatch && directionMatch[2].trim() !== '') {
+    direction = direction || directionMatch[1];
+    text = directionMatch[2];
+  }
+
+  text = stripQuotes(text.trim());
+  return text === '' ? undefined : toDialogueLine(speaker, text, direction);
+}
+
+/**
+ * Converte um diálogo em texto em falas estruturadas
+ * Cada linha não vazia vira uma fala; linhas sem "Personagem:" ficam sem quem fala
+ *
+ * @param {string} text - Diálogo no formato "Personagem (direção): fala", uma por linha
+ * @returns {DialogueLine[]} Falas, em ordem
+ */
+export function parseDialogue(text: string): DialogueLine[] {
+  return (text || '')
+    .split(/\r?\n/)
+    .map(parseDialogueLine)
+    .filter((line): line is DialogueLine => line !== undefined);
+}
+
+/**
+ * Converte um diálogo em qualquer formato aceito em falas estruturadas
+ * Textos são interpretados e falas sem texto são descartadas
+ *
+ * @param {unknown} value - Lista de falas, texto ou valor ausente
+ * @returns {DialogueLine[]} Falas, em ordem
+ */
+export function normalizeDialogue(value: unknown): DialogueLine[] {
+  if (typeof value === 'string') return parseDialogue(value);
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(line => line && typeof line.text === 'string' && line.text.trim() !== '')
+    .map(line => toDialogueLine(
+      typeof line.speaker === 'string' ? line.speaker : '',
+      line.text,
+      typeof line.direction === 'string' ? line.direction : undefined
+    ));
+}
+
+/**
+ * Formata uma fala como texto, no formato lido por parseDialogue
+ *
+ * @param {DialogueLine} line - Fala
+ * @returns {string} "Personagem (direção): fala"
+ */
+export function formatDialogueLine(line: DialogueLine): string {
+  const direction = line.direction ? `(${line.direction})` : '';
+  if (!line.speaker) return [direction, line.text].filter(Boolean).join(' ');
+  return `${[line.speaker, direction].filter(Boolean).join(' ')}: ${line.text}`;
+}
+
+/**
+ * Formata um diálogo como texto, uma fala por linha
+ * Usado nos prompts, nas traduções, na comparação de revisões e na exportação Twee
+ *
+ * @param {DialogueLine[]} lines - Falas
+ * @returns {string} Diálogo em texto
+ */
+export function formatDialogue(lines: DialogueLine[]): string {
+  return (lines || []).map(formatDialogueLine).join('\n');
+}
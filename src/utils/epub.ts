@@ -0,0 +1,215 @@
+/**
+ * Montagem de livros no formato EPUB 3
+ * Recebe os documentos já em XHTML e as imagens em memória, e gera o arquivo compactado
+ */
+
+import JSZip from 'jszip';
+
+/**
+ * Documento (página) do livro
+ *
+ * @interface EpubDocument
+ * @property {string} id - Identificador único no manifesto
+ * @property {string} fileName - Nome do arquivo dentro do livro (ex: "cena-1.xhtml")
+ * @property {string} title - Título exibido na aba do leitor e no sumário
+ * @property {string} body - Conteúdo XHTML do elemento body
+ * @property {boolean} inToc - Indica se o documento aparece no sumário
+ */
+export interface EpubDocument {
+  id: string;
+  fileName: string;
+  title: string;
+  body: string;
+  inToc: boolean;
+}
+
+/**
+ * Imagem incorporada ao livro
+ *
+ * @interface EpubImage
+ * @property {string} id - Identificador único no manifesto
+ * @property {string} fileName - Nome do arquivo dentro da pasta de imagens
+ * @property {string} mediaType - Tipo da imagem (ex: "image/png")
+ * @property {Buffer} data - Conteúdo da imagem
+ * @property {boolean} isCover - Indica se a imagem é a capa do livro
+ */
+export interface EpubImage {
+  id: string;
+  fileName: string;
+  mediaType: string;
+  data: Buffer;
+  isCover: boolean;
+}
+
+/**
+ * Dados completos de um livro
+ *
+ * @interface EpubBook
+ * @property {string} identifier - Identificador único e estável do livro
+ * @property {string} title - Título
+ * @property {string} language - Idioma no formato BCP 47 (ex: "pt-BR")
+ * @property {Date} createdAt - Data de criação da obra
+ * @property {string} stylesheet - Folha de estilos aplicada a todos os documentos
+ * @property {EpubDocument[]} documents - Documentos, na ordem de leitura
+ * @property {EpubImage[]} images - Imagens referenciadas pelos documentos
+ */
+export interface EpubBook {
+  identifier: string;
+  title: string;
+  language: string;
+  createdAt: Date;
+  stylesheet: string;
+  documents: EpubDocument[];
+  images: EpubImage[];
+}
+
+// Extensões das imagens aceitas pelo EPUB 3
+const IMAGE_EXTENSIONS: { [mediaType: string]: string } = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp'
+};
+
+/**
+ * Obtém a extensão de arquivo de um tipo de imagem aceito pelo EPUB
+ *
+ * @param {string} mediaType - Tipo da imagem
+ * @returns {string | undefined} Extensão sem ponto ou undefined se o tipo não for aceito
+ */
+export function getImageExtension(mediaType: string): string | undefined {
+  return IMAGE_EXTENSIONS[mediaType];
+}
+
+/**
+ * Escapa caracteres especiais para uso em XML e XHTML
+ *
+ * @param {string} text - Texto original
+ * @returns {string} Texto seguro para XML
+ */
+export function escapeXml(text: string): string {
+  return (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Gera o arquivo EPUB de um livro
+ * O arquivo "mimetype" é o primeiro e não é compactado, como exige a especificação
+ *
+ * @param {EpubBook} book - Dados do livro
+ * @returns {Promise<Buffer>} Conteúdo do arquivo .epub
+ */
+export async function buildEpub(book: EpubBook): Promise<Buffer> {
+  const zip = new JSZip();
+
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`);
+
+  zip.file('OEBPS/content.opf', buildPackageDocument(book));
+  zip.file('OEBPS/nav.xhtml', buildNavigationDocument(book));
+  zip.file('OEBPS/styles.css', book.stylesheet);
+
+  book.documents.forEach(document => {
+    zip.file(`OEBPS/${document.fileName}`, wrapXhtml(document.title, book.language, document.body));
+  });
+  book.images.forEach(image => {
+    zip.file(`OEBPS/images/${image.fileName}`, image.data);
+  });
+
+  return zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    mimeType: 'application/epub+zip'
+  });
+}
+
+/**
+ * Monta o documento de pacote (content.opf) com metadados, manifesto e ordem de leitura
+ *
+ * @param {EpubBook} book - Dados do livro
+ * @returns {string} XML do documento de pacote
+ */
+function buildPackageDocument(book: EpubBook): string {
+  // dcterms:modified exige o formato CCYY-MM-DDThh:mm:ssZ, sem milissegundos
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+    ...book.documents.map(document =>
+      `<item id="${escapeXml(document.id)}" href="${escapeXml(document.fileName)}" media-type="application/xhtml+xml"/>`),
+    ...book.images.map(image =>
+      `<item id="${escapeXml(image.id)}" href="images/${escapeXml(image.fileName)}" media-type="${image.mediaType}"${image.isCover ? ' properties="cover-image"' : ''}/>`)
+  ];
+
+  const spine = book.documents.map(document => `<itemref idref="${escapeXml(document.id)}"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(book.language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(book.identifier)}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+    <dc:language>${escapeXml(book.language)}</dc:language>
+    <dc:date>${book.createdAt.toISOString()}</dc:date>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>`;
+}
+
+/**
+ * Monta o documento de navegação (sumário) do livro
+ *
+ * @param {EpubBook} book - Dados do livro
+ * @returns {string} XHTML do documento de navegação
+ */
+function buildNavigationDocument(book: EpubBook): string {
+  const items = book.documents
+    .filter(document => document.inToc)
+    .map(document => `<li><a href="${escapeXml(document.fileName)}">${escapeXml(document.title)}</a></li>`);
+
+  return wrapXhtml('Sumário', book.language, `<nav epub:type="toc" id="toc">
+    <h1>Sumário</h1>
+    <ol>
+      ${items.join('\n      ')}
+    </ol>
+  </nav>`);
+}
+
+/**
+ * Envolve o conteúdo de um documento na estrutura XHTML exigida pelo EPUB
+ *
+ * @param {string} title - Título do documento
+ * @param {string} language - Idioma do documento
+ * @param {string} body - Conteúdo do elemento body
+ * @returns {string} Documento XHTML completo
+ */
+function wrapXhtml(title: string, language: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+  ${body}
+</body>
+</html>`;
+}
@@ -0,0 +1,279 @@
+/**
+ * Erros da aplicação com status HTTP e código estável
+ * Os controladores lançam estes erros e o middleware de erros os converte na resposta da API,
+ * no formato { error, code, ...detalhes }: "error" é a mensagem para exibição e "code" identifica
+ * o erro para os clientes, sem depender do texto da mensagem
+ */
+
+import { BudgetStatus } from '../models/Usage';
+
+/**
+ * Códigos de erro devolvidos pela API
+ */
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'INVALID_JSON'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'INVALID_SCENE_STRUCTURE'
+  | 'INVALID_STORY_BUNDLE'
+  | 'INVALID_TWEE'
+  | 'INVALID_STYLE_PRESET'
+  | 'INVALID_PROMPT_TEMPLATE'
+  | 'BUILT_IN_STYLE_PRESET'
+  | 'INVALID_SHARE'
+  | 'INVALID_VISUAL_SAMPLE'
+  | 'INVALID_IMAGE'
+  | 'STORY_STYLE_REQUIRED'
+  | 'IMAGE_PROMPT_REQUIRED'
+  | 'SAME_LANGUAGE'
+  | 'REVISION_MISMATCH'
+  | 'NOTHING_TO_RESTORE'
+  | 'AUTHENTICATION_REQUIRED'
+  | 'INVALID_CREDENTIALS'
+  | 'STORY_ACCESS_DENIED'
+  | 'READ_ONLY_ACCESS'
+  | 'OWNER_ONLY'
+  | 'ADMIN_ONLY'
+  | 'STORY_NOT_FOUND'
+  | 'SCENE_NOT_FOUND'
+  | 'CHARACTER_NOT_FOUND'
+  | 'REVISION_NOT_FOUND'
+  | 'JOB_NOT_FOUND'
+  | 'ASSET_NOT_FOUND'
+  | 'STYLE_PRESET_NOT_FOUND'
+  | 'USER_NOT_FOUND'
+  | 'DIALOGUE_LINE_NOT_FOUND'
+  | 'MODERATION_FLAG_NOT_FOUND'
+  | 'PROMPT_TEMPLATE_VERSION_NOT_FOUND'
+  | 'USERNAME_TAKEN'
+  | 'BUDGET_EXCEEDED'
+  | 'CONTENT_BLOCKED'
+  | 'CONTENT_QUARANTINED'
+  | 'PROVIDER_FAILURE'
+  | 'PROVIDER_TIMEOUT'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'SCENE_GENERATION_FAILED'
+  | 'CHARACTER_EXTRACTION_FAILED'
+  | 'TRANSLATION_FAILED'
+  | 'PROMPT_RENDER_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Corpo das respostas de erro da API
+ *
+ * @interface ErrorResponse
+ * @property {string} error - Mensagem para exibição
+ * @property {ErrorCode} code - Código do erro
+ */
+export interface ErrorResponse {
+  error: string;
+  code: ErrorCode;
+  [detail: string]: any;
+}
+
+/**
+ * Tipos de registro que podem não ser encontrados
+ */
+export type MissingResource = 'story' | 'scene' | 'character' | 'revision' | 'job' | 'asset' | 'stylePreset' | 'user' | 'dialogueLine' | 'moderationFlag'
+  | 'promptTemplateVersion';
+
+// Mensagem e código de cada registro não encontrado
+const NOT_FOUND: { [resource in MissingResource]: { message: string; code: ErrorCode } } = {
+  story: { message: 'História não encontrada', code: 'STORY_NOT_FOUND' },
+  scene: { message: 'Cena não encontrada', code: 'SCENE_NOT_FOUND' },
+  character: { message: 'Personagem não encontrado', code: 'CHARACTER_NOT_FOUND' },
+  revision: { message: 'Revisão não encontrada', code: 'REVISION_NOT_FOUND' },
+  job: { message: 'Job não encontrado', code: 'JOB_NOT_FOUND' },
+  asset: { message: 'Asset não encontrado', code: 'ASSET_NOT_FOUND' },
+  stylePreset: { message: 'Preset de estilo não encontrado', code: 'STYLE_PRESET_NOT_FOUND' },
+  user: { message: 'Usuário não encontrado', code: 'USER_NOT_FOUND' },
+  dialogueLine: { message: 'Fala não encontrada', code: 'DIALOGUE_LINE_NOT_FOUND' },
+  moderationFlag: { message: 'Registro de moderação não encontrado', code: 'MODERATION_FLAG_NOT_FOUND' },
+  promptTemplateVersion: { message: 'Versão do template não encontrada', code: 'PROMPT_TEMPLATE_VERSION_NOT_FOUND' }
+};
+
+/**
+ * Erro da aplicação, com o status HTTP e o código devolvidos pela API
+ */
+export class AppError extends Error {
+  /**
+   * @param {string} message - Mensagem para exibição
+   * @param {number} status - Status HTTP da resposta
+   * @param {ErrorCode} code - Código do erro
+   * @param {Object} [details={}] - Dados adicionais incluídos na resposta
+   */
+  constructor(message: string, readonly status: number, readonly code: ErrorCode, readonly details: { [key: string]: any } = {}) {
+    super(message);
+    this.name = 'AppError';
+  }
+
+  /**
+   * Monta o corpo da resposta de erro
+   *
+   * @returns {ErrorResponse} Mensagem, código e detalhes
+   */
+  toResponse(): ErrorResponse {
+    return { ...this.details, error: this.message, code: this.code };
+  }
+}
+
+/**
+ * Erro lançado quando os dados recebidos são inválidos (status 400)
+ */
+export class ValidationError extends AppError {
+  /**
+   * @param {string} message - Descrição do erro
+   * @param {string[]} [issues=[]] - Problemas encontrados, no formato "campo: problema"
+   * @param {ErrorCode} [code='VALIDATION_FAILED'] - Código do erro
+   */
+  constructor(message: string, readonly issues: string[] = [], code: ErrorCode = 'VALIDATION_FAILED') {
+    super(message, 400, code, issues.length > 0 ? { issues } : {});
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Erro lançado quando um registro não existe (status 404)
+ */
+export class NotFoundError extends AppError {
+  /**
+   * @param {MissingResource} resource - Tipo do registro não encontrado
+   */
+  constructor(readonly resource: MissingResource) {
+    super(NOT_FOUND[resource].message, 404, NOT_FOUND[resource].code);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Erro lançado quando a requisição não tem uma sessão válida ou as credenciais estão incorretas (status 401)
+ */
+export class AuthenticationError extends AppError {
+  /**
+   * @param {string} [message='Autenticação necessária'] - Descrição do erro
+   * @param {ErrorCode} [code='AUTHENTICATION_REQUIRED'] - Código do erro
+   */
+  constructor(message: string = 'Autenticação necessária', code: ErrorCode = 'AUTHENTICATION_REQUIRED') {
+    super(message, 401, code);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Erro lançado quando o usuário não tem permissão para a operação (status 403)
+ */
+export class ForbiddenError extends AppError {
+  /**
+   * @param {string} message - Descrição do erro
+   * @param {ErrorCode} code - Código do erro
+   */
+  constructor(message: string, code: ErrorCode) {
+    super(message, 403, code);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Erro lançado quando a operação conflita com um registro existente (status 409)
+ */
+export class ConflictError extends AppError {
+  /**
+   * @param {string} message - Descrição do erro
+   * @param {ErrorCode} code - Código do erro
+   */
+  constructor(message: string, code: ErrorCode) {
+    super(message, 409, code);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Erro lançado quando um provedor de texto, imagem ou tradução falha ou devolve uma resposta inutilizável (status 502)
+ */
+export class ProviderFailureError extends AppError {
+  /**
+   * @param {string} message - Descrição do erro
+   * @param {ErrorCode} [code='PROVIDER_FAILURE'] - Código do erro
+   * @param {Object} [details={}] - Dados adicionais incluídos na resposta
+   */
+  constructor(message: string, code: ErrorCode = 'PROVIDER_FAILURE', details: { [key: string]: any } = {}) {
+    super(message, 502, code, details);
+    this.name = 'ProviderFailureError';
+  }
+}
+
+/**
+ * Erro lançado quando um provedor está fora do ar e as chamadas são recusadas sem tentativa (status 503)
+ *
+ * @property {string} provider - Nome do provedor
+ * @property {number} retryAfterMs - Tempo até uma nova chamada ser liberada, em milissegundos
+ */
+export class ProviderUnavailableError extends AppError {
+  /**
+   * @param {string} provider - Nome do provedor
+   * @param {number} retryAfterMs - Tempo até uma nova chamada ser liberada, em milissegundos
+   */
+  constructor(readonly provider: string, readonly retryAfterMs: number) {
+    super(
+      `O provedor ${provider} está indisponível; tente novamente em ${Math.ceil(retryAfterMs / 1000)} s`,
+      503,
+      'PROVIDER_UNAVAILABLE',
+      { provider, retryAfterSeconds: Math.ceil(retryAfterMs / 1000) }
+    );
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/**
+ * Erro lançado quando um orçamento de gastos foi atingido (status 402)
+ *
+ * @property {string} scope - Orçamento atingido: da história ou mensal do usuário
+ * @property {BudgetStatus} budget - Situação do orçamento
+ */
+export class BudgetExceededError extends AppError {
+  constructor(readonly scope: 'story' | 'user', readonly budget: BudgetStatus) {
+    super(scope === 'story'
+      ? `O orçamento desta história (US$ ${(budget.limitUsd as number).toFixed(2)}) foi atingido`
+      : `Seu orçamento mensal (US$ ${(budget.limitUsd as number).toFixed(2)}) foi atingido`,
+      402, 'BUDGET_EXCEEDED', { scope, budget });
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Erro lançado quando um conteúdo é recusado pela moderação (status 422)
+ *
+ * @property {string} reason - Motivo da recusa
+ * @property {string} flagId - ID do registro de moderação
+ */
+export class ContentBlockedError extends AppError {
+  constructor(readonly reason: string, readonly flagId: string) {
+    super(`Conteúdo recusado pela moderação: ${reason}`, 422, 'CONTENT_BLOCKED', { reason, flagId });
+    this.name = 'ContentBlockedError';
+  }
+}
+
+/**
+ * Erro lançado quando a operação depende de conteúdo retido pela moderação (status 409)
+ *
+ * @property {Object[]} holds - Registros retidos, com o motivo de cada retenção
+ */
+export class ContentQuarantinedError extends AppError {
+  constructor(readonly holds: { storyId: string; sceneId?: string; flagId: string; reason: string }[]) {
+    super('A história tem conteúdo retido pela moderação', 409, 'CONTENT_QUARANTINED', { holds });
+    this.name = 'ContentQuarantinedError';
+  }
+}
+
+/**
+ * Erro lançado quando um prompt não pode ser montado a partir do template em uso (status 500)
+ *
+ * @property {string} template - Nome do template
+ * @property {string[]} issues - Problemas encontrados, como variáveis sem valor
+ */
+export class PromptRenderError extends AppError {
+  constructor(readonly template: string, readonly issues: string[]) {
+    super(`Não foi possível montar o prompt "${template}": ${issues.join('; ')}`, 500, 'PROMPT_RENDER_FAILED', { template, issues });
+    this.name = 'PromptRenderError';
+  }
+}
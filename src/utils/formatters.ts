@@ -1,3 +1,5 @@
+import { formatDialogue } from './dialogue';
+
 /**
  * Remove caracteres especiais e limita o texto a um determinado comprimento
  * Útil para preparar textos para exibição ou uso em prompts
@@ -20,21 +22,6 @@ export function sanitizeText(text: string, maxLength: number = 100): string {
     : sanitized;
 }
 
-/**
- * Formata um prompt para geração de imagem com estilo e conteúdo
- * 
- * @param {string} prompt - Texto principal do prompt
- * @param {string} style - Estilo visual desejado
- * @returns {string} Prompt formatado para o gerador de imagens
- */
-export function formatImagePrompt(prompt: string, style: string): string {
-  const cleanPrompt = sanitizeText(prompt, 900);  // Limita o prompt a 900 caracteres
-  const cleanStyle = sanitizeText(style, 50);     // Limita o estilo a 50 caracteres
-  
-  // Formata o prompt no padrão esperado pelo gerador de imagens
-  return `${cleanStyle} style. ${cleanPrompt}. High quality, detailed, professional illustration.`;
-}
-
 /**
  * Formata uma data para exibição no padrão brasileiro
  * 
@@ -119,7 +106,7 @@ export function formatScenesForUI(scenes: any[]): any[] {
     title: `Cena ${index + 1}`,
     description: scene.description,
     narration: scene.narration,
-    dialogue: scene.dialogue || 'Não há diálogos nesta cena.',
+    dialogue: scene.dialogue || [],
     imageUrl: scene.imageUrl || '',
   }));
 }
@@ -142,7 +129,7 @@ export function generateContextFromPreviousScenes(scenes: any[]): string {
   recentScenes.forEach((scene, index) => {
     context += `Cena ${scenes.indexOf(scene) + 1}: ${scene.description}. `;
     if (scene.narration) context += `${scene.narration} `;
-    if (scene.dialogue) context += `Diálogo: ${scene.dialogue} `;
+    if (scene.dialogue && scene.dialogue.length > 0) context += `Diálogo: ${formatDialogue(scene.dialogue)} `;
   });
   
   context += 'Continue a história de forma coerente.';
@@ -0,0 +1,64 @@
+/**
+ * Verificação do conteúdo das imagens armazenadas como assets
+ * Os assets são servidos pela origem da aplicação, então apenas imagens são aceitas, com o tipo
+ * identificado pelos primeiros bytes do conteúdo e não pelo tipo declarado por quem as enviou
+ */
+
+/**
+ * Tipos de imagem aceitos
+ */
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/svg+xml'] as const;
+
+export type ImageMimeType = (typeof IMAGE_MIME_TYPES)[number];
+
+// Construções de SVG que executam código ou carregam conteúdo externo
+const UNSAFE_SVG_PATTERNS = [
+  /<script/i,
+  /<foreignObject/i,
+  /<(iframe|embed|object|audio|video|image|use)\b/i,
+  /<!(DOCTYPE|ENTITY)/i,
+  /\son[a-z]+\s*=/i,
+  /javascript:/i,
+  /@import/i,
+  /\shref\s*=/i,
+];
+
+/**
+ * Identifica o tipo de uma imagem pelos primeiros bytes do conteúdo
+ *
+ * @param {Buffer} data - Conteúdo do arquivo
+ * @returns {ImageMimeType | undefined} Tipo da imagem ou undefined se o conteúdo não for uma imagem aceita
+ */
+export function detectImageType(data: Buffer): ImageMimeType | undefined {
+  if (data.length >= 8 && data.toString('hex', 0, 8) === '89504e470d0a1a0a') return 'image/png';
+  if (data.length >= 3 && data.toString('hex', 0, 3) === 'ffd8ff') return 'image/jpeg';
+  if (data.length >= 6 && /^GIF8[79]a$/.test(data.toString('latin1', 0, 6))) return 'image/gif';
+  if (data.length >= 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+
+  // SVG é texto: aceito apenas sem scripts, eventos ou referências externas
+  const text = data.toString('utf-8').replace(/^\uFEFF/, '').trim();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(text) && isSafeSvg(text)) return 'image/svg+xml';
+
+  return undefined;
+}
+
+/**
+ * Indica se um SVG não tem construções que executem código ou carreguem conteúdo externo
+ * A verificação recusa o arquivo em vez de tentar limpá-lo
+ *
+ * @param {string} svg - Conteúdo do SVG
+ * @returns {boolean} true se o SVG puder ser servido
+ */
+export function isSafeSvg(svg: string): boolean {
+  return !UNSAFE_SVG_PATTERNS.some(pattern => pattern.test(svg));
+}
+
+/**
+ * Indica se um tipo declarado é um dos tipos de imagem aceitos
+ *
+ * @param {string} mimeType - Tipo declarado
+ * @returns {boolean} true se o tipo for aceito
+ */
+export function isImageMimeType(mimeType: string): mimeType is ImageMimeType {
+  return (IMAGE_MIME_TYPES as readonly string[]).indexOf(mimeType) !== -1;
+}
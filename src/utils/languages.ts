@@ -0,0 +1,60 @@
+/**
+ * Idiomas em que as histórias podem ser geradas e traduzidas
+ * Os códigos seguem o padrão BCP 47; os nomes são usados nas instruções enviadas à IA
+ */
+
+/**
+ * Idioma suportado
+ *
+ * @interface StoryLanguage
+ * @property {string} code - Código BCP 47 (ex: "pt-BR", "en")
+ * @property {string} name - Nome do idioma, usado nos prompts
+ */
+export interface StoryLanguage {
+  code: string;
+  name: string;
+}
+
+// Idioma das histórias criadas sem idioma definido, incluindo as anteriores ao campo
+export const DEFAULT_LANGUAGE = 'pt-BR';
+
+export const SUPPORTED_LANGUAGES: StoryLanguage[] = [
+  { code: 'pt-BR', name: 'português do Brasil' },
+  { code: 'pt-PT', name: 'português de Portugal' },
+  { code: 'en', name: 'inglês' },
+  { code: 'es', name: 'espanhol' },
+  { code: 'fr', name: 'francês' },
+  { code: 'de', name: 'alemão' },
+  { code: 'it', name: 'italiano' },
+];
+
+/**
+ * Indica se um código de idioma é suportado
+ *
+ * @param {any} code - Código informado
+ * @returns {boolean} true se o idioma estiver na lista de idiomas suportados
+ */
+export function isSupportedLanguage(code: any): code is string {
+  return typeof code === 'string' && SUPPORTED_LANGUAGES.some(language => language.code === code);
+}
+
+/**
+ * Obtém o nome de um idioma para os prompts
+ *
+ * @param {string} [code] - Código do idioma (padrão: idioma padrão)
+ * @returns {string} Nome do idioma, ou o próprio código se ele não for conhecido
+ */
+export function getLanguageName(code: string = DEFAULT_LANGUAGE): string {
+  const language = SUPPORTED_LANGUAGES.find(item => item.code === code);
+  return language ? language.name : code;
+}
+
+/**
+ * Obtém o idioma de uma história
+ *
+ * @param {Object} story - História com o campo language opcional
+ * @returns {string} Código do idioma da história
+ */
+export function getStoryLanguage(story: { language?: string }): string {
+  return story.language || DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,61 @@
+/**
+ * Hash e verificação de senhas com scrypt
+ * Os parâmetros ficam gravados junto do hash, para que possam ser aumentados sem invalidar senhas antigas
+ */
+
+import crypto from 'crypto';
+
+// Parâmetros do scrypt: custo (N), tamanho do bloco (r) e paralelismo (p)
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * Calcula a chave scrypt de uma senha
+ *
+ * @param {string} password - Senha em texto puro
+ * @param {Buffer} salt - Sal aleatório
+ * @param {number} cost - Custo (N)
+ * @param {number} blockSize - Tamanho do bloco (r)
+ * @param {number} parallelization - Paralelismo (p)
+ * @returns {Promise<Buffer>} Chave derivada
+ */
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, { N: cost, r: blockSize, p: parallelization }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Gera o hash de uma senha com um sal aleatório
+ *
+ * @param {string} password - Senha em texto puro
+ * @returns {Promise<string>} Hash no formato "scrypt$N$r$p$sal$hash", com sal e hash em hexadecimal
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION);
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION, salt.toString('hex'), key.toString('hex')].join('$');
+}
+
+/**
+ * Verifica se uma senha corresponde a um hash gerado por hashPassword
+ * A comparação leva o mesmo tempo para qualquer senha, para não revelar partes do hash
+ *
+ * @param {string} password - Senha em texto puro
+ * @param {string} storedHash - Hash armazenado
+ * @returns {Promise<boolean>} true se a senha estiver correta
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, cost, blockSize, parallelization, salt, hash] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const key = await deriveKey(password, Buffer.from(salt, 'hex'), Number(cost), Number(blockSize), Number(parallelization));
+  return key.length === expected.length && crypto.timingSafeEqual(key, expected);
+}
@@ -0,0 +1,107 @@
+/**
+ * Preços de referência das chamadas à OpenAI, em dólares
+ * Usados para calcular o custo registrado de cada chamada e para as estimativas de geração;
+ * os provedores locais não têm custo
+ */
+
+import { ApiUsage } from '../api/usage';
+import { ImageQuality, ImageSize } from '../api/providers/imageProvider';
+
+/**
+ * Preço dos modelos de texto, em dólares por milhão de tokens
+ * O prefixo mais longo que corresponder ao nome do modelo é usado
+ */
+const TEXT_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4-turbo', input: 10, output: 30 },
+  { prefix: 'gpt-4-32k', input: 60, output: 120 },
+  { prefix: 'gpt-4', input: 30, output: 60 },
+  { prefix: 'gpt-3.5-turbo', input: 0.5, output: 1.5 }
+];
+
+/**
+ * Preço de uma imagem por modelo, qualidade e dimensões
+ * O dall-e-2 não tem qualidade hd nem formatos retangulares; o preço padrão dele é usado para qualquer opção
+ */
+const IMAGE_PRICES: { [model: string]: { [quality in ImageQuality]: { [size in ImageSize]: number } } } = {
+  'dall-e-3': {
+    standard: { '1024x1024': 0.04, '1792x1024': 0.08, '1024x1792': 0.08 },
+    hd: { '1024x1024': 0.08, '1792x1024': 0.12, '1024x1792': 0.12 }
+  },
+  'dall-e-2': {
+    standard: { '1024x1024': 0.02, '1792x1024': 0.02, '1024x1792': 0.02 },
+    hd: { '1024x1024': 0.02, '1792x1024': 0.02, '1024x1792': 0.02 }
+  }
+};
+
+// Provedores sem custo por chamada
+const FREE_PROVIDERS = ['local'];
+
+/**
+ * Obtém o preço de um modelo de texto
+ * Modelos desconhecidos usam o preço do gpt-4, o mais caro entre os modelos usuais, para não subestimar o custo
+ *
+ * @param {string} model - Nome do modelo
+ * @returns {Object} Preços de entrada e saída, em dólares por milhão de tokens
+ */
+function getTextPrice(model: string): { input: number; output: number } {
+  const match = TEXT_PRICES
+    .filter(price => model.startsWith(price.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  return match || TEXT_PRICES.filter(price => price.prefix === 'gpt-4')[0];
+}
+
+/**
+ * Calcula o custo de uma geração de texto
+ *
+ * @param {string} model - Nome do modelo
+ * @param {number} promptTokens - Tokens enviados
+ * @param {number} completionTokens - Tokens gerados
+ * @returns {number} Custo em dólares
+ */
+export function calculateTextCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getTextPrice(model);
+  return (promptTokens * price.input + completionTokens * price.output) / 1000000;
+}
+
+/**
+ * Calcula o custo de uma geração de imagens
+ *
+ * @param {string} model - Nome do modelo
+ * @param {number} count - Quantidade de imagens
+ * @param {ImageSize} [size='1024x1024'] - Dimensões das imagens
+ * @param {ImageQuality} [quality='hd'] - Qualidade das imagens
+ * @returns {number} Custo em dólares
+ */
+export function calculateImageCost(model: string, count: number, size: ImageSize = '1024x1024', quality: ImageQuality = 'hd'): number {
+  const prices = IMAGE_PRICES[model] || IMAGE_PRICES['dall-e-3'];
+  return count * prices[quality][size];
+}
+
+/**
+ * Calcula o custo de uma chamada registrada
+ *
+ * @param {ApiUsage} usage - Consumo da chamada
+ * @returns {number} Custo em dólares (zero para provedores locais)
+ */
+export function calculateUsageCost(usage: ApiUsage): number {
+  if (FREE_PROVIDERS.indexOf(usage.provider) !== -1) return 0;
+
+  return usage.kind === 'image'
+    ? calculateImageCost(usage.model, usage.imageCount, usage.size, usage.quality)
+    : calculateTextCost(usage.model, usage.promptTokens, usage.completionTokens);
+}
+
+/**
+ * Arredonda um valor em dólares para exibição, sem perder frações de centavo
+ *
+ * @param {number} value - Valor em dólares
+ * @returns {number} Valor com até seis casas decimais
+ */
+export function roundCost(value: number): number {
+  return Math.round(value * 1000000) / 1000000;
+}
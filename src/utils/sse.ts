@@ -0,0 +1,57 @@
+/**
+ * Utilitários para respostas em Server-Sent Events (SSE)
+ * Permitem enviar eventos ao navegador à medida que o processamento avança
+ */
+
+import { Response } from 'express';
+
+/**
+ * Canal de eventos aberto para um cliente
+ * 
+ * @interface EventStream
+ * @property {Function} send - Envia um evento nomeado com dados em JSON
+ * @property {Function} close - Encerra a resposta
+ * @property {Function} isClosed - Indica se o cliente desconectou ou o canal foi encerrado
+ */
+export interface EventStream {
+  send(event: string, data: any): void;
+  close(): void;
+  isClosed(): boolean;
+}
+
+/**
+ * Abre um canal de eventos na resposta HTTP
+ * Eventos enviados após a desconexão do cliente são descartados
+ * A desconexão é observada na resposta, pois em requisições com corpo (POST) o evento close da
+ * requisição dispara assim que o corpo termina de ser lido
+ * 
+ * @param {Response} res - Resposta a ser mantida aberta
+ * @returns {EventStream} Canal para envio de eventos
+ */
+export function openEventStream(res: Response): EventStream {
+  let closed = false;
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  res.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event: string, data: any) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    isClosed() {
+      return closed;
+    }
+  };
+}
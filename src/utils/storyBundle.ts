@@ -0,0 +1,230 @@
+/**
+ * Formato do pacote de exportação de histórias (bundle)
+ * Define o esquema da versão atual e as migrações das versões anteriores
+ *
+ * Versões:
+ * - 1: objeto da história retornado por GET /api/stories/:id, com as cenas embutidas e sem campo "format"
+ * - 2: pacote com história, cenas, personagens e assets (imagens em base64)
+ * - 3: diálogos das cenas como lista de falas, em vez de texto
+ */
+
+import { z } from 'zod';
+import { ValidationError } from './errors';
+import { DialogueSchema, normalizeDialogue } from './dialogue';
+import { IMAGE_MIME_TYPES } from './imageContent';
+
+/**
+ * Identificador do formato, presente em todos os pacotes a partir da versão 2
+ */
+export const STORY_BUNDLE_FORMAT = 'choose-your-story-bundle';
+
+/**
+ * Versão gerada pela exportação
+ */
+export const STORY_BUNDLE_VERSION = 3;
+
+const VisualSampleSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  narration: z.string(),
+  dialogue: DialogueSchema,
+  imageUrl: z.string(),
+  imageAssetId: z.string().optional(),
+});
+
+const BundleStorySchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  briefing: z.string(),
+  proposal: z.string(),
+  style: z.string().default(''),
+  stylePresetId: z.string().optional(),
+  createdAt: z.coerce.date(),
+  startSceneId: z.string().optional(),
+  language: z.string().optional(),
+  visualSamples: z.array(VisualSampleSchema).default([]),
+  selectedVisualSample: VisualSampleSchema.optional(),
+});
+
+const BundleSceneSchema = z.object({
+  id: z.string().min(1),
+  order: z.number().int(),
+  title: z.string(),
+  description: z.string().default(''),
+  narration: z.string().default(''),
+  dialogue: DialogueSchema.default([]),
+  imageUrl: z.string().default(''),
+  imageAssetId: z.string().optional(),
+  imagePrompt: z.string().optional(),
+  choices: z.array(z.object({ label: z.string().min(1), targetSceneId: z.string().min(1) })).default([]),
+  isEnding: z.boolean().default(false),
+  characterIds: z.array(z.string()).default([]),
+});
+
+const BundleCharacterSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  role: z.string().default(''),
+  physicalDescription: z.string().default(''),
+  clothing: z.string().default(''),
+  personality: z.string().default(''),
+  speechStyle: z.string().default(''),
+});
+
+const BundleAssetSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{64}$/),
+  mimeType: z.enum(IMAGE_MIME_TYPES),
+  dimensions: z.string().optional(),
+  prompt: z.string().default(''),
+  provider: z.string().default('desconhecido'),
+  sourceUrl: z.string().optional(),
+  createdAt: z.coerce.date(),
+  data: z.string().min(1),
+});
+
+/**
+ * Esquema do pacote na versão atual
+ */
+export const StoryBundleSchema = z.object({
+  format: z.literal(STORY_BUNDLE_FORMAT),
+  version: z.literal(STORY_BUNDLE_VERSION),
+  exportedAt: z.coerce.date(),
+  story: BundleStorySchema,
+  scenes: z.array(BundleSceneSchema),
+  characters: z.array(BundleCharacterSchema).default([]),
+  assets: z.array(BundleAssetSchema).default([]),
+});
+
+export type StoryBundle = z.infer<typeof StoryBundleSchema>;
+export type BundleScene = z.infer<typeof BundleSceneSchema>;
+export type BundleAsset = z.infer<typeof BundleAssetSchema>;
+
+/**
+ * Erro lançado quando um pacote não pode ser importado
+ */
+export class StoryBundleError extends ValidationError {
+  /**
+   * @param {string} message - Descrição do erro
+   * @param {string[]} issues - Problemas encontrados no pacote
+   */
+  constructor(message: string, issues: string[]) {
+    super(message, issues, 'INVALID_STORY_BUNDLE');
+    this.name = 'StoryBundleError';
+  }
+}
+
+/**
+ * Migrações entre versões: cada função converte um pacote da versão indicada para a seguinte
+ */
+const MIGRATIONS: { [fromVersion: number]: (bundle: any) => any } = {
+  1: (story: any) => {
+    const { scenes, ...storyFields } = story;
+    return {
+      format: STORY_BUNDLE_FORMAT,
+      version: 2,
+      exportedAt: new Date().toISOString(),
+      story: storyFields,
+      // A versão 1 não inclui os personagens, então as cenas não podem referenciá-los
+      scenes: Array.isArray(scenes) ? scenes.map((scene: any) => ({ ...scene, characterIds: [] })) : [],
+      characters: [],
+      assets: [],
+    };
+  },
+  2: (bundle: any) => {
+    const migrateDialogue = (item: any) => ({ ...item, dialogue: normalizeDialogue(item.dialogue) });
+    const story = bundle.story || {};
+    return {
+      ...bundle,
+      version: 3,
+      story: {
+        ...story,
+        visualSamples: Array.isArray(story.visualSamples) ? story.visualSamples.map(migrateDialogue) : story.visualSamples,
+        selectedVisualSample: story.selectedVisualSample ? migrateDialogue(story.selectedVisualSample) : story.selectedVisualSample,
+      },
+      scenes: Array.isArray(bundle.scenes) ? bundle.scenes.map(migrateDialogue) : bundle.scenes,
+    };
+  },
+};
+
+/**
+ * Identifica a versão de um pacote
+ * Objetos sem o campo "format" que têm proposta e cenas são histórias exportadas na versão 1
+ *
+ * @param {any} data - Conteúdo do pacote
+ * @returns {number | undefined} Versão do pacote ou undefined se não for reconhecido
+ */
+export function detectBundleVersion(data: any): number | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  if (data.format === STORY_BUNDLE_FORMAT) return typeof data.version === 'number' ? data.version : undefined;
+  if (data.format === undefined && typeof data.proposal === 'string' && Array.isArray(data.scenes)) return 1;
+  return undefined;
+}
+
+/**
+ * Converte um pacote de qualquer versão suportada para a versão atual e o valida
+ *
+ * @param {any} data - Conteúdo do pacote
+ * @returns {{ bundle?: StoryBundle, migratedFrom?: number, issues: string[] }} Pacote válido ou os problemas encontrados
+ */
+export function parseStoryBundle(data: any): { bundle?: StoryBundle; migratedFrom?: number; issues: string[] } {
+  const version = detectBundleVersion(data);
+  if (version === undefined) {
+    return { issues: ['O conteúdo não é um pacote de história reconhecido'] };
+  }
+  if (version > STORY_BUNDLE_VERSION || version < 1) {
+    return { issues: [`Versão ${version} do pacote não é suportada (versão atual: ${STORY_BUNDLE_VERSION})`] };
+  }
+
+  let migrated = data;
+  for (let current = version; current < STORY_BUNDLE_VERSION; current++) {
+    migrated = MIGRATIONS[current](migrated);
+  }
+
+  const parsed = StoryBundleSchema.safeParse(migrated);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'pacote'}: ${issue.message}`)
+    };
+  }
+
+  const issues = findReferenceIssues(parsed.data);
+  if (issues.length > 0) return { issues };
+
+  return {
+    bundle: parsed.data,
+    migratedFrom: version < STORY_BUNDLE_VERSION ? version : undefined,
+    issues: []
+  };
+}
+
+/**
+ * Verifica se as referências entre cenas e personagens do pacote são consistentes
+ *
+ * @param {StoryBundle} bundle - Pacote validado pelo esquema
+ * @returns {string[]} Problemas encontrados
+ */
+function findReferenceIssues(bundle: StoryBundle): string[] {
+  const issues: string[] = [];
+  const sceneIds = new Set<string>();
+  const characterIds = new Set(bundle.characters.map(character => character.id));
+
+  bundle.scenes.forEach((scene, index) => {
+    if (sceneIds.has(scene.id)) issues.push(`scenes.${index}.id: ID de cena repetido`);
+    sceneIds.add(scene.id);
+  });
+
+  bundle.scenes.forEach((scene, index) => {
+    scene.choices
+      .filter(choice => !sceneIds.has(choice.targetSceneId))
+      .forEach(choice => issues.push(`scenes.${index}.choices: a escolha "${choice.label}" aponta para uma cena que não está no pacote`));
+    scene.characterIds
+      .filter(id => !characterIds.has(id))
+      .forEach(id => issues.push(`scenes.${index}.characterIds: personagem ${id} não está no pacote`));
+  });
+
+  if (bundle.story.startSceneId && !sceneIds.has(bundle.story.startSceneId)) {
+    issues.push('story.startSceneId: a cena inicial não está no pacote');
+  }
+
+  return issues;
+}
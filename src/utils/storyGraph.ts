@@ -0,0 +1,138 @@
+/**
+ * Funções para montar e validar o grafo de navegação de uma história
+ * Cenas sem escolhas seguem automaticamente para a próxima cena na ordem
+ */
+
+import { Scene } from '../models/Scene';
+import { StoryGraph, StoryGraphEdge, StoryGraphIssue, StoryGraphNode, StoryGraphValidation } from '../models/StoryGraph';
+
+/**
+ * Calcula as arestas de saída de uma cena
+ *
+ * @param {Scene} scene - Cena de origem
+ * @param {Scene[]} orderedScenes - Cenas da história ordenadas por 'order'
+ * @returns {StoryGraphEdge[]} Arestas explícitas (escolhas) ou a continuação implícita
+ */
+export function getSceneEdges(scene: Scene, orderedScenes: Scene[]): StoryGraphEdge[] {
+  if (scene.choices && scene.choices.length > 0) {
+    return scene.choices.map(choice => ({
+      label: choice.label,
+      targetSceneId: choice.targetSceneId,
+      implicit: false
+    }));
+  }
+
+  if (scene.isEnding) return [];
+
+  // Sem escolhas, a cena continua na próxima cena da sequência
+  const index = orderedScenes.findIndex(s => s.id === scene.id);
+  const next = orderedScenes[index + 1];
+  return next ? [{ label: 'Continuar', targetSceneId: next.id, implicit: true }] : [];
+}
+
+/**
+ * Monta o grafo de navegação de uma história a partir de suas cenas
+ *
+ * @param {Scene[]} scenes - Cenas da história
+ * @param {string} [startSceneId] - ID da cena inicial (padrão: primeira cena)
+ * @returns {StoryGraph} Grafo com nós, arestas e finais
+ */
+export function buildStoryGraph(scenes: Scene[], startSceneId?: string): StoryGraph {
+  const orderedScenes = [...scenes].sort((a, b) => a.order - b.order);
+
+  const nodes: StoryGraphNode[] = orderedScenes.map((scene, index) => {
+    const edges = getSceneEdges(scene, orderedScenes);
+    // A última cena sem escolhas é considerada final mesmo sem marcação explícita
+    const isLastWithoutChoices = index === orderedScenes.length - 1 && (!scene.choices || scene.choices.length === 0);
+
+    return {
+      sceneId: scene.id,
+      title: scene.title,
+      order: scene.order,
+      isEnding: scene.isEnding || isLastWithoutChoices,
+      edges
+    };
+  });
+
+  return {
+    startSceneId: startSceneId || (orderedScenes[0] ? orderedScenes[0].id : null),
+    nodes,
+    endingSceneIds: nodes.filter(node => node.isEnding).map(node => node.sceneId)
+  };
+}
+
+/**
+ * Valida o grafo de uma história
+ * Detecta cena inicial ausente, cenas inalcançáveis, becos sem saída,
+ * escolhas que apontam para cenas inexistentes e ausência de finais alcançáveis
+ *
+ * @param {StoryGraph} graph - Grafo a ser validado
+ * @returns {StoryGraphValidation} Resultado da validação
+ */
+export function validateStoryGraph(graph: StoryGraph): StoryGraphValidation {
+  const issues: StoryGraphIssue[] = [];
+  const nodesById = new Map<string, StoryGraphNode>();
+  graph.nodes.forEach(node => nodesById.set(node.sceneId, node));
+
+  // Escolhas que apontam para cenas inexistentes
+  graph.nodes.forEach(node => {
+    node.edges
+      .filter(edge => !nodesById.has(edge.targetSceneId))
+      .forEach(edge => issues.push({
+        type: 'broken-choice',
+        sceneId: node.sceneId,
+        message: `A escolha "${edge.label}" da cena "${node.title}" aponta para uma cena inexistente`
+      }));
+  });
+
+  // Cenas sem saída válida que não são finais
+  const deadEndSceneIds = graph.nodes
+    .filter(node => !node.isEnding && !node.edges.some(edge => nodesById.has(edge.targetSceneId)))
+    .map(node => node.sceneId);
+
+  deadEndSceneIds.forEach(sceneId => issues.push({
+    type: 'dead-end',
+    sceneId,
+    message: `A cena "${nodesById.get(sceneId)!.title}" não tem saída e não está marcada como final`
+  }));
+
+  // Percorre o grafo a partir da cena inicial
+  const reachable = new Set<string>();
+  if (graph.nodes.length > 0) {
+    if (!graph.startSceneId || !nodesById.has(graph.startSceneId)) {
+      issues.push({ type: 'missing-start', message: 'A história não possui uma cena inicial válida' });
+    } else {
+      const queue = [graph.startSceneId];
+      while (queue.length > 0) {
+        const sceneId = queue.shift()!;
+        if (reachable.has(sceneId)) continue;
+        reachable.add(sceneId);
+
+        nodesById.get(sceneId)!.edges
+          .filter(edge => nodesById.has(edge.targetSceneId) && !reachable.has(edge.targetSceneId))
+          .forEach(edge => queue.push(edge.targetSceneId));
+      }
+    }
+  }
+
+  const unreachableSceneIds = reachable.size > 0
+    ? graph.nodes.filter(node => !reachable.has(node.sceneId)).map(node => node.sceneId)
+    : [];
+
+  unreachableSceneIds.forEach(sceneId => issues.push({
+    type: 'unreachable',
+    sceneId,
+    message: `A cena "${nodesById.get(sceneId)!.title}" não pode ser alcançada a partir do início`
+  }));
+
+  if (reachable.size > 0 && !graph.endingSceneIds.some(sceneId => reachable.has(sceneId))) {
+    issues.push({ type: 'no-ending', message: 'Nenhum final pode ser alcançado a partir do início' });
+  }
+
+  return {
+    valid: issues.length === 0,
+    unreachableSceneIds,
+    deadEndSceneIds,
+    issues
+  };
+}
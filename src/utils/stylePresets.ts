@@ -0,0 +1,143 @@
+/**
+ * Presets de estilo visual que acompanham a aplicação e esquema dos presets enviados pela API
+ * Os trechos de prompt ficam em inglês, idioma das instruções enviadas ao gerador de imagens
+ */
+
+import { z } from 'zod';
+import { StylePreset } from '../models/StylePreset';
+import { ErrorCode, ValidationError } from './errors';
+
+// Elementos evitados por padrão em todas as ilustrações
+const DEFAULT_NEGATIVE_PROMPT = 'text, letters, captions, watermarks, signatures';
+
+/**
+ * Presets criados na inicialização, equivalentes aos estilos oferecidos antes do registro
+ */
+export const BUILT_IN_STYLE_PRESETS: Omit<StylePreset, 'builtIn' | 'createdAt'>[] = [
+  {
+    id: 'realista',
+    name: 'Realista',
+    promptFragment: 'Photorealistic illustration, natural lighting, realistic proportions and textures.',
+    negativePrompt: `cartoonish features, exaggerated proportions, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'natural',
+  },
+  {
+    id: 'fotorrealista',
+    name: 'Fotorrealista',
+    promptFragment: 'Hyper-realistic photograph, sharp focus, fine skin and fabric detail, cinematic lighting.',
+    negativePrompt: `painterly brushstrokes, illustration look, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'natural',
+  },
+  {
+    id: 'aquarela',
+    name: 'Aquarela',
+    promptFragment: 'Watercolor painting, soft translucent washes, visible paper texture, gentle bleeding edges.',
+    negativePrompt: `hard outlines, glossy 3D rendering, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'natural',
+  },
+  {
+    id: 'cartoon',
+    name: 'Cartoon',
+    promptFragment: 'Cartoon illustration, bold clean outlines, flat bright colors, expressive characters.',
+    negativePrompt: `photographic realism, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'vivid',
+  },
+  {
+    id: 'anime',
+    name: 'Anime',
+    promptFragment: 'Anime style illustration, cel shading, clean line art, expressive eyes.',
+    negativePrompt: `photographic realism, western cartoon style, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'vivid',
+  },
+  {
+    id: 'oleo',
+    name: 'Pintura a Óleo',
+    promptFragment: 'Oil painting on canvas, rich impasto brushstrokes, warm classical palette.',
+    negativePrompt: `flat digital colors, hard vector outlines, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'natural',
+  },
+  {
+    id: 'pastel',
+    name: 'Pastel',
+    promptFragment: 'Soft pastel drawing, chalky texture, muted pastel palette, delicate shading.',
+    negativePrompt: `saturated neon colors, glossy rendering, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'natural',
+  },
+  {
+    id: 'pixelart',
+    name: 'Pixel Art',
+    promptFragment: 'Pixel art, 16-bit retro video game style, limited color palette, crisp square pixels.',
+    negativePrompt: `smooth gradients, blurry anti-aliasing, ${DEFAULT_NEGATIVE_PROMPT}`,
+    size: '1024x1024',
+    quality: 'standard',
+    renderStyle: 'vivid',
+  },
+  {
+    id: 'pintura',
+    name: 'Pintura',
+    promptFragment: 'Digital painting, painterly brushstrokes, vibrant harmonious colors.',
+    negativePrompt: DEFAULT_NEGATIVE_PROMPT,
+    size: '1024x1024',
+    quality: 'hd',
+    renderStyle: 'vivid',
+  },
+];
+
+/**
+ * Esquema dos dados de um preset criado ou alterado pela API, validado nas rotas (routes/schemas)
+ */
+export const StylePresetInputSchema = z.object({
+  name: z.string({ required_error: 'O nome é obrigatório', invalid_type_error: 'O nome deve ser um texto' })
+    .trim().min(1, 'O nome é obrigatório'),
+  description: z.string({ invalid_type_error: 'A descrição deve ser um texto' }).trim().optional(),
+  promptFragment: z.string({ required_error: 'O trecho de prompt é obrigatório', invalid_type_error: 'O trecho de prompt deve ser um texto' })
+    .trim().min(1, 'O trecho de prompt é obrigatório'),
+  negativePrompt: z.string({ invalid_type_error: 'Os elementos a evitar devem ser um texto' }).trim().default(''),
+  size: z.enum(['1024x1024', '1792x1024', '1024x1792'], {
+    errorMap: () => ({ message: 'Tamanho deve ser 1024x1024, 1792x1024 ou 1024x1792' })
+  }).default('1024x1024'),
+  quality: z.enum(['standard', 'hd'], { errorMap: () => ({ message: 'Qualidade deve ser standard ou hd' }) }).default('hd'),
+  renderStyle: z.enum(['vivid', 'natural'], { errorMap: () => ({ message: 'Renderização deve ser vivid ou natural' }) }).default('vivid'),
+  previewImageUrl: z.string({ invalid_type_error: 'A URL da prévia deve ser um texto' }).trim().optional(),
+});
+
+export type StylePresetInput = z.infer<typeof StylePresetInputSchema>;
+
+/**
+ * Erro lançado quando os dados de um preset são inválidos
+ */
+export class StylePresetError extends ValidationError {
+  /**
+   * @param {string} message - Descrição do erro
+   * @param {string[]} issues - Problemas encontrados nos dados
+   * @param {ErrorCode} [code='INVALID_STYLE_PRESET'] - Código do erro
+   */
+  constructor(message: string, issues: string[], code: ErrorCode = 'INVALID_STYLE_PRESET') {
+    super(message, issues, code);
+    this.name = 'StylePresetError';
+  }
+}
+
+/**
+ * Normaliza um nome de estilo para comparação, sem acentos nem diferença de maiúsculas
+ *
+ * @param {string} style - Nome ou ID do estilo
+ * @returns {string} Texto normalizado
+ */
+export function normalizeStyleName(style: string): string {
+  return style.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, '').toLowerCase();
+}
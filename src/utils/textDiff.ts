@@ -0,0 +1,62 @@
+/**
+ * Comparação de textos linha a linha
+ * Usa a maior subsequência comum entre as linhas para indicar o que foi mantido, removido e adicionado
+ */
+
+/**
+ * Linha do resultado de uma comparação
+ *
+ * @interface DiffLine
+ * @property {string} type - equal: linha mantida | removed: só no texto antigo | added: só no texto novo
+ * @property {string} text - Conteúdo da linha
+ */
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Compara dois textos linha a linha
+ *
+ * @param {string} before - Texto antigo
+ * @param {string} after - Texto novo
+ * @returns {DiffLine[]} Linhas na ordem de leitura, com as remoções antes das adições
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before === '' ? [] : before.split('\n');
+  const newLines = after === '' ? [] : after.split('\n');
+
+  // lengths[i][j]: tamanho da maior subsequência comum entre oldLines[i..] e newLines[j..]
+  const lengths: number[][] = [];
+  for (let i = oldLines.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = newLines.length; j >= 0; j--) {
+      if (i === oldLines.length || j === newLines.length) {
+        lengths[i][j] = 0;
+      } else if (oldLines[i] === newLines[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      } else {
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      result.push({ type: 'equal', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (j === newLines.length || (i < oldLines.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      result.push({ type: 'removed', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j] });
+      j++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,239 @@
+/**
+ * Leitura e escrita do formato Twee 3, usado pelo Twine
+ * Trata apenas da sintaxe do arquivo: cabeçalhos de passagens, escapes, metadados e links
+ */
+
+import { ValidationError } from './errors';
+
+/**
+ * Passagem de uma história Twee
+ *
+ * @interface TweePassage
+ * @property {string} name - Nome único da passagem
+ * @property {string[]} tags - Tags da passagem
+ * @property {Object} [metadata] - Metadados usados pelo Twine (ex: posição no mapa)
+ * @property {string} text - Conteúdo da passagem
+ */
+export interface TweePassage {
+  name: string;
+  tags: string[];
+  metadata?: { [key: string]: any };
+  text: string;
+}
+
+/**
+ * Link entre passagens encontrado no texto
+ *
+ * @interface TweeLink
+ * @property {string} label - Texto exibido ao leitor
+ * @property {string} target - Nome da passagem de destino
+ */
+export interface TweeLink {
+  label: string;
+  target: string;
+}
+
+/**
+ * Conteúdo de um arquivo Twee
+ *
+ * @interface TweeDocument
+ * @property {string} title - Título da história (passagem StoryTitle)
+ * @property {Object} data - Dados da história (passagem StoryData: ifid, start, format...)
+ * @property {TweePassage[]} passages - Passagens da história, na ordem do arquivo, sem StoryTitle e StoryData
+ */
+export interface TweeDocument {
+  title: string;
+  data: { [key: string]: any };
+  passages: TweePassage[];
+}
+
+/**
+ * Erro lançado quando um arquivo Twee não pode ser lido
+ */
+export class TweeParseError extends ValidationError {
+  /**
+   * @param {string} message - Descrição do erro
+   */
+  constructor(message: string) {
+    super(message, [], 'INVALID_TWEE');
+    this.name = 'TweeParseError';
+  }
+}
+
+// Nomes das passagens especiais definidas pela especificação
+const STORY_TITLE_PASSAGE = 'StoryTitle';
+const STORY_DATA_PASSAGE = 'StoryData';
+
+/**
+ * Gera o conteúdo de um arquivo Twee 3
+ *
+ * @param {TweeDocument} document - Título, dados e passagens da história
+ * @returns {string} Conteúdo do arquivo .twee
+ */
+export function buildTwee(document: TweeDocument): string {
+  const sections = [
+    `:: ${STORY_TITLE_PASSAGE}\n${document.title}`,
+    `:: ${STORY_DATA_PASSAGE}\n${JSON.stringify(document.data, null, 2)}`,
+    ...document.passages.map(passage => {
+      const tags = passage.tags.length > 0 ? ` [${passage.tags.map(escapeTweeName).join(' ')}]` : '';
+      const metadata = passage.metadata ? ` ${JSON.stringify(passage.metadata)}` : '';
+      // Linhas do conteúdo que começam com "::" seriam lidas como cabeçalhos
+      const text = passage.text.replace(/^::/gm, '\\::');
+      return `:: ${escapeTweeName(passage.name)}${tags}${metadata}\n${text}`;
+    })
+  ];
+
+  return sections.join('\n\n\n') + '\n';
+}
+
+/**
+ * Lê o conteúdo de um arquivo Twee 3
+ *
+ * @param {string} source - Conteúdo do arquivo .twee
+ * @returns {TweeDocument} Título, dados e passagens encontrados
+ * @throws {TweeParseError} Se o arquivo não tiver passagens ou um cabeçalho for inválido
+ */
+export function parseTwee(source: string): TweeDocument {
+  const passages: TweePassage[] = [];
+  let current: { header: TweePassage; lines: string[] } | undefined;
+
+  const finish = () => {
+    if (!current) return;
+    // Linhas em branco entre passagens não fazem parte do conteúdo
+    current.header.text = current.lines.join('\n').replace(/^\s*\n/, '').replace(/\s+$/, '');
+    passages.push(current.header);
+  };
+
+  source.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    if (line.startsWith('::')) {
+      finish();
+      current = { header: parsePassageHeader(line.substring(2), index + 1), lines: [] };
+    } else if (current) {
+      current.lines.push(line.replace(/^\\::/, '::'));
+    }
+  });
+  finish();
+
+  if (passages.length === 0) throw new TweeParseError('Arquivo Twee sem passagens');
+
+  const titlePassage = passages.find(passage => passage.name === STORY_TITLE_PASSAGE);
+  const dataPassage = passages.find(passage => passage.name === STORY_DATA_PASSAGE);
+
+  let data: { [key: string]: any } = {};
+  if (dataPassage && dataPassage.text.trim() !== '') {
+    try {
+      data = JSON.parse(dataPassage.text);
+    } catch (error) {
+      throw new TweeParseError('Passagem StoryData não contém um JSON válido');
+    }
+  }
+
+  return {
+    title: titlePassage ? titlePassage.text.trim() : '',
+    data,
+    passages: passages.filter(passage => passage !== titlePassage && passage !== dataPassage)
+  };
+}
+
+/**
+ * Extrai os links de uma passagem, nas formas [[destino]], [[texto|destino]],
+ * [[texto->destino]] e [[destino<-texto]]
+ *
+ * @param {string} text - Conteúdo da passagem
+ * @returns {TweeLink[]} Links na ordem em que aparecem
+ */
+export function extractTweeLinks(text: string): TweeLink[] {
+  const links: TweeLink[] = [];
+  const pattern = /\[\[(.+?)\]\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const content = match[1];
+    let label = content;
+    let target = content;
+
+    const arrowRight = content.lastIndexOf('->');
+    const arrowLeft = content.indexOf('<-');
+    const pipe = content.lastIndexOf('|');
+
+    if (arrowRight !== -1) {
+      label = content.substring(0, arrowRight);
+      target = content.substring(arrowRight + 2);
+    } else if (arrowLeft !== -1) {
+      target = content.substring(0, arrowLeft);
+      label = content.substring(arrowLeft + 2);
+    } else if (pipe !== -1) {
+      label = content.substring(0, pipe);
+      target = content.substring(pipe + 1);
+    }
+
+    if (target.trim() !== '') links.push({ label: label.trim(), target: target.trim() });
+  }
+
+  return links;
+}
+
+/**
+ * Monta a marcação de um link entre passagens
+ *
+ * @param {string} label - Texto exibido ao leitor
+ * @param {string} target - Nome da passagem de destino
+ * @returns {string} Link no formato [[texto->destino]]
+ */
+export function formatTweeLink(label: string, target: string): string {
+  return label === target ? `[[${target}]]` : `[[${label}->${target}]]`;
+}
+
+/**
+ * Escapa os caracteres que têm significado no cabeçalho de uma passagem
+ *
+ * @param {string} name - Nome da passagem ou tag
+ * @returns {string} Nome escapado
+ */
+function escapeTweeName(name: string): string {
+  return name.replace(/([\\\[\]{}])/g, '\\$1');
+}
+
+/**
+ * Interpreta o cabeçalho de uma passagem: nome, tags entre colchetes e metadados em JSON
+ *
+ * @param {string} header - Cabeçalho sem o prefixo "::"
+ * @param {number} lineNumber - Linha do cabeçalho, para mensagens de erro
+ * @returns {TweePassage} Passagem ainda sem conteúdo
+ * @throws {TweeParseError} Se o nome estiver vazio ou os metadados forem inválidos
+ */
+function parsePassageHeader(header: string, lineNumber: number): TweePassage {
+  let name = '';
+  let position = 0;
+
+  // O nome termina no primeiro "[" ou "{" que não esteja escapado
+  while (position < header.length && header[position] !== '[' && header[position] !== '{') {
+    if (header[position] === '\\' && position + 1 < header.length) position++;
+    name += header[position];
+    position++;
+  }
+
+  const passage: TweePassage = { name: name.trim(), tags: [], text: '' };
+  if (passage.name === '') throw new TweeParseError(`Passagem sem nome na linha ${lineNumber}`);
+
+  const rest = header.substring(position).trim();
+  const tagsMatch = /^\[((?:\\.|[^\]\\])*)\]\s*/.exec(rest);
+  const metadataSource = tagsMatch ? rest.substring(tagsMatch[0].length) : rest;
+
+  if (tagsMatch) {
+    passage.tags = tagsMatch[1]
+      .split(/\s+/)
+      .filter(tag => tag !== '')
+      .map(tag => tag.replace(/\\(.)/g, '$1'));
+  }
+
+  if (metadataSource !== '') {
+    try {
+      passage.metadata = JSON.parse(metadataSource);
+    } catch (error) {
+      throw new TweeParseError(`Metadados inválidos na passagem "${passage.name}" (linha ${lineNumber})`);
+    }
+  }
+
+  return passage;
+}